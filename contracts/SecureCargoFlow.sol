@@ -1,90 +1,99 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32, euint8, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, ebool, euint16, externalEuint16, euint32, externalEuint32, euint64, externalEuint64, euint256, externalEuint256} from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {SecureCargoFlowBase} from "./SecureCargoFlowBase.sol";
 
 /// @title Secure Cargo Flow - Encrypted Cargo Tracking System
 /// @notice A blockchain-based logistics tracking system with end-to-end encryption using FHEVM
 /// @dev Uses Fully Homomorphic Encryption (FHEVM) for encrypting sensitive cargo data
-contract SecureCargoFlow is SepoliaConfig {
+contract SecureCargoFlow is SepoliaConfig, SecureCargoFlowBase {
 
-    /// @notice Contract owner
-    address public owner;
-
-    /// @notice Reentrancy guard
-    bool private locked;
+    /// @notice Admin module that handles every selector not implemented here (views pass on to SecureCargoFlowViews)
+    address public immutable adminModule;
 
     /// @notice Minimum tracking ID length
     uint256 private constant MIN_TRACKING_ID_LENGTH = 6;
 
-    /// @notice Shipment status enum
-    enum ShipmentStatus {
-        Created,
-        InTransit,
-        CustomsClearance,
-        Arrived,
-        Delivered
-    }
-
-    /// @notice Cargo event structure
-    struct CargoEvent {
-        uint256 eventId;
-        string trackingId;
-        uint256 timestamp;
-        string location;
-        ShipmentStatus status;
-        string description;
-        euint32 encryptedWeight;        // Encrypted weight in grams
-        euint8[] encContentsBytes;      // Encrypted contents (byte-by-byte)
-    }
-
-    /// @notice Shipment structure
-    struct Shipment {
-        string trackingId;
-        string origin;
-        string destination;
-        uint256 createdAt;
-        uint256 estimatedDelivery;
-        address creator;
-        bool exists;
-    }
+    /// @notice Default weight tolerance as a divisor of the declared weight (1%)
+    uint32 private constant DEFAULT_WEIGHT_TOLERANCE_DIVISOR = 100;
 
-    /// @notice Mapping from tracking ID to shipment
-    mapping(string => Shipment) public shipments;
+    /// @notice Maximum contents chunks per event (7 x 256 bits plus the weight fit one 2048-bit input)
+    uint256 private constant MAX_CONTENTS_CHUNKS = 7;
 
-    /// @notice Mapping from tracking ID to cargo events
-    mapping(string => CargoEvent[]) public cargoEvents;
+    /// @notice Maximum items per batch call, keeping a full batch within the per-transaction FHE limits
+    /// @dev First events on one lane and month are the costliest items (they add the declared weight to three
+    ///      running totals); 21 of them fit the 20M HCU per-transaction budget and the 22nd exceeds it
+    uint256 private constant MAX_BATCH_SIZE = 20;
 
-    /// @notice Mapping from tracking ID to event count
-    mapping(string => uint256) public eventCounts;
+    /// @notice EIP-712 domain type hash
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
 
-    /// @notice Total shipment count
-    uint256 public totalShipments;
+    /// @notice EIP-712 type hash of a signed cargo event
+    bytes32 private constant CARGO_EVENT_TYPEHASH = keccak256(
+        "CargoEvent(string trackingId,string location,uint8 status,string description,bytes32 encWeight,bytes32[] encContents,address signer,uint256 nonce,uint256 deadline)"
+    );
 
-    /// @notice Events
-    event ShipmentCreated(string indexed trackingId, address creator, string origin, string destination, uint256 estimatedDelivery);
-    event CargoEventAdded(string indexed trackingId, uint256 indexed eventId, address indexed creator, string location, ShipmentStatus status);
-    event StatusUpdated(string indexed trackingId, uint256 indexed eventId, address indexed creator, ShipmentStatus oldStatus, ShipmentStatus newStatus);
+    /// @notice Upper bound of a non-malleable ECDSA s value (secp256k1n / 2)
+    uint256 private constant MAX_SIGNATURE_S = 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
 
     /// @notice Constructor - initializes contract with owner
-    constructor() {
+    /// @dev Creation starts restricted to the allowlist; deploy/deploy.ts opens it on local nodes and when asked to
+    /// @param adminModule_ Deployed SecureCargoFlowAdmin module
+    constructor(address adminModule_) {
+        require(adminModule_ != address(0), "Admin module cannot be zero address");
+        adminModule = adminModule_;
         owner = msg.sender;
-        locked = false;
+        emit OwnershipTransferred(address(0), msg.sender);
+
+        uint8 shipper = uint8(1 << uint8(ParticipantRole.Shipper));
+        uint8 carrier = uint8(1 << uint8(ParticipantRole.Carrier));
+        uint8 customs = uint8(1 << uint8(ParticipantRole.Customs));
+        uint8 consignee = uint8(1 << uint8(ParticipantRole.Consignee));
+
+        // Main path: Created -> InTransit -> CustomsClearance -> Arrived -> Delivered
+        _setTransition(ShipmentStatus.Created, ShipmentStatus.InTransit, shipper | carrier);
+        _setTransition(ShipmentStatus.InTransit, ShipmentStatus.CustomsClearance, carrier | customs);
+        _setTransition(ShipmentStatus.CustomsClearance, ShipmentStatus.Arrived, customs); // Only customs may release a shipment
+        _setTransition(ShipmentStatus.Arrived, ShipmentStatus.Delivered, carrier | consignee);
+
+        // Exception handling: any participant may raise an exception while the shipment is moving
+        _setTransition(ShipmentStatus.InTransit, ShipmentStatus.Exception, shipper | carrier | customs | consignee);
+        _setTransition(ShipmentStatus.CustomsClearance, ShipmentStatus.Exception, shipper | carrier | customs | consignee);
+        _setTransition(ShipmentStatus.Arrived, ShipmentStatus.Exception, shipper | carrier | customs | consignee);
+        _setTransition(ShipmentStatus.Exception, ShipmentStatus.InTransit, shipper | carrier);
+        _setTransition(ShipmentStatus.Exception, ShipmentStatus.Returned, shipper | carrier);
+        _setTransition(ShipmentStatus.Exception, ShipmentStatus.Lost, carrier);
+        _setTransition(ShipmentStatus.Exception, ShipmentStatus.Cancelled, shipper);
+        _setTransition(ShipmentStatus.InTransit, ShipmentStatus.Lost, carrier);
+
+        // Customs holds and releases
+        _setTransition(ShipmentStatus.CustomsClearance, ShipmentStatus.Held, customs);
+        _setTransition(ShipmentStatus.Held, ShipmentStatus.CustomsClearance, customs);
+        _setTransition(ShipmentStatus.Held, ShipmentStatus.Returned, customs);
+
+        // The shipper may cancel before the shipment leaves
+        _setTransition(ShipmentStatus.Created, ShipmentStatus.Cancelled, shipper);
     }
 
-    /// @notice Reconnect wallet for shipment management
-    /// @param trackingId Shipment tracking ID
-    /// @param newWallet New wallet address to connect
-    function reconnectWallet(string memory trackingId, address newWallet) external nonReentrant {
-        require(shipments[trackingId].exists, "Shipment does not exist");
-        require(shipments[trackingId].creator == msg.sender, "Only current creator can reconnect wallet");
-        require(newWallet != address(0), "New wallet cannot be zero address");
-        require(newWallet != msg.sender, "New wallet must be different from current");
-
-        shipments[trackingId].creator = newWallet;
-
-        emit ShipmentCreated(trackingId, newWallet, shipments[trackingId].origin, shipments[trackingId].destination, shipments[trackingId].estimatedDelivery);
+    /// @notice Forward calls not implemented here to the admin module
+    /// @dev The module shares this contract's storage layout, so it runs in this contract's context
+    fallback() external {
+        address module = adminModule;
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), module, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch result
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
     }
 
     /// @notice Validate input parameters for security
@@ -105,42 +114,115 @@ contract SecureCargoFlow is SepoliaConfig {
         return inputBytes.length > 500;  // BUG: Only valid if longer than 500 chars? Makes no sense!
     }
 
-    /// @notice Emergency pause function
-    /// @dev BUG: Access control is wrong - should be onlyOwner but missing modifier
-    function emergencyPause() external {
-        // BUG: No access control - anyone can call this!
-        locked = true;
+    /// @notice Create a new shipment
+    /// @param trackingId Unique tracking identifier
+    /// @param origin Origin location
+    /// @param destination Destination location
+    /// @param estimatedDeliveryTimestamp Estimated delivery timestamp
+    /// @param encPin Encrypted delivery PIN the courier must submit to deliver (externalEuint32)
+    /// @param inputProof Input proof for the PIN
+    function createShipment(
+        string memory trackingId,
+        string memory origin,
+        string memory destination,
+        uint256 estimatedDeliveryTimestamp,
+        externalEuint32 encPin,
+        bytes calldata inputProof
+    ) external whenNotPaused(PauseScope.Creation) {
+        _createShipment(trackingId, origin, destination, estimatedDeliveryTimestamp, encPin, inputProof);
+    }
+
+    /// @notice Create a new shipment with an encrypted declared value for insurance
+    /// @param trackingId Unique tracking identifier
+    /// @param origin Origin location
+    /// @param destination Destination location
+    /// @param estimatedDeliveryTimestamp Estimated delivery timestamp
+    /// @param encPin Encrypted delivery PIN the courier must submit to deliver (externalEuint32)
+    /// @param encValue Encrypted declared value in minor currency units (externalEuint64)
+    /// @param currency ISO 4217 currency code (e.g. "USD")
+    /// @param inputProof Input proof for the PIN and the declared value
+    function createInsuredShipment(
+        string memory trackingId,
+        string memory origin,
+        string memory destination,
+        uint256 estimatedDeliveryTimestamp,
+        externalEuint32 encPin,
+        externalEuint64 encValue,
+        string memory currency,
+        bytes calldata inputProof
+    ) external whenNotPaused(PauseScope.Creation) {
+        require(bytes(currency).length == 3, "Currency code must be 3 characters");
+
+        _createShipment(trackingId, origin, destination, estimatedDeliveryTimestamp, encPin, inputProof);
 
-        // BUG: Missing event emission
-        // BUG: No way to unpause
-        // BUG: Affects all functions, not selective
+        euint64 value = FHE.fromExternal(encValue, inputProof);
+        _allowDeclaredValueReaders(trackingId, value);
+        declaredValues[trackingId] = value;
+        valueCurrencies[trackingId] = currency;
+
+        emit DeclaredValueSet(trackingId, msg.sender, currency);
     }
 
-    /// @notice Modifier to restrict access to owner only
-    modifier onlyOwner() {
-        require(msg.sender == owner, "Only owner can call this function");
-        _;
+    /// @notice Create many shipments in one transaction, sharing one input proof for the PINs and declared values
+    /// @dev Each item runs as its own delegatecall to createShipment or createInsuredShipment, so an
+    ///      invalid item is rolled back and reported through BatchItemFailed without failing the batch
+    /// @param items Shipments to create
+    /// @param inputProof Input proof covering every PIN and non-zero declared value handle
+    /// @return succeeded Whether each item was created
+    function createShipmentsBatch(ShipmentInput[] calldata items, bytes calldata inputProof)
+        external
+        whenNotPaused(PauseScope.Creation)
+        returns (bool[] memory succeeded)
+    {
+        require(items.length > 0 && items.length <= MAX_BATCH_SIZE, "Invalid batch size");
+        succeeded = new bool[](items.length);
+        for (uint256 i = 0; i < items.length; i++) {
+            ShipmentInput calldata item = items[i];
+            bytes memory data = externalEuint64.unwrap(item.encValue) == bytes32(0)
+                ? abi.encodeCall(
+                    this.createShipment,
+                    (item.trackingId, item.origin, item.destination, item.estimatedDelivery, item.encPin, inputProof)
+                )
+                : abi.encodeCall(
+                    this.createInsuredShipment,
+                    (item.trackingId, item.origin, item.destination, item.estimatedDelivery, item.encPin, item.encValue, item.currency, inputProof)
+                );
+            succeeded[i] = _runBatchItem(i, item.trackingId, data);
+        }
     }
 
-    /// @notice Reentrancy guard modifier
-    modifier nonReentrant() {
-        require(!locked, "Reentrant call");
-        locked = true;
-        _;
-        locked = false;
+    /// @notice Run one batch item against this contract in the caller's context
+    /// @param index Position of the item in the batch
+    /// @param trackingId Tracking ID of the item, for the failure event
+    /// @param data Encoded call to one of this contract's entry points
+    /// @return success Whether the call succeeded
+    function _runBatchItem(uint256 index, string calldata trackingId, bytes memory data)
+        internal
+        returns (bool success)
+    {
+        bytes memory reason;
+        (success, reason) = address(this).delegatecall(data);
+        if (!success) {
+            emit BatchItemFailed(index, trackingId, reason);
+        }
     }
 
-    /// @notice Create a new shipment
+    /// @notice Validate and store a new shipment owned by the caller
     /// @param trackingId Unique tracking identifier
     /// @param origin Origin location
     /// @param destination Destination location
     /// @param estimatedDeliveryTimestamp Estimated delivery timestamp
-    function createShipment(
+    /// @param encPin Encrypted delivery PIN (externalEuint32)
+    /// @param inputProof Input proof for the PIN
+    function _createShipment(
         string memory trackingId,
         string memory origin,
         string memory destination,
-        uint256 estimatedDeliveryTimestamp
-    ) external {
+        uint256 estimatedDeliveryTimestamp,
+        externalEuint32 encPin,
+        bytes calldata inputProof
+    ) internal {
+        require(openCreation || allowedShippers[msg.sender], "Not an allowed shipper");
         require(!shipments[trackingId].exists, "Shipment already exists");
         require(bytes(trackingId).length >= MIN_TRACKING_ID_LENGTH, "Tracking ID too short");
         require(estimatedDeliveryTimestamp > block.timestamp, "Estimated delivery must be in the future");
@@ -157,15 +239,79 @@ contract SecureCargoFlow is SepoliaConfig {
         });
 
         totalShipments++;
-        emit ShipmentCreated(trackingId, msg.sender, origin, destination, estimatedDeliveryTimestamp);
+        shipmentIds.push(trackingId);
+        creatorShipments[msg.sender].push(trackingId);
+        creatorShipmentIndex[trackingId] = creatorShipments[msg.sender].length;
+        euint32 shipmentCount = FHE.add(creatorShipmentCounts[msg.sender], 1);
+        FHE.allowThis(shipmentCount);
+        FHE.allow(shipmentCount, msg.sender);
+        creatorShipmentCounts[msg.sender] = shipmentCount;
+        _addParticipant(trackingId, msg.sender, ParticipantRole.Shipper);
+        custodyHistory[trackingId].push(CustodyRecord({from: address(0), to: msg.sender, timestamp: block.timestamp}));
+
+        // The PIN cannot change after creation, so nobody can swap it once the courier is on the way
+        euint32 pin = FHE.fromExternal(encPin, inputProof);
+        _allowDeliveryPinReaders(trackingId, pin);
+        deliveryPins[trackingId] = pin;
+
+        emit ShipmentCreated(_trackingKey(trackingId), msg.sender, trackingId, origin, destination, estimatedDeliveryTimestamp);
+    }
+
+    /// @notice Indexed log topic for a tracking ID
+    /// @param trackingId Shipment tracking ID
+    /// @return key keccak256 of the tracking ID bytes
+    function _trackingKey(string memory trackingId) internal pure returns (bytes32 key) {
+        return keccak256(bytes(trackingId));
+    }
+
+    /// @notice Emit CargoEventAdded with everything needed to rebuild the timeline from logs
+    /// @param actor Account that recorded the event
+    /// @param cargoEvent Stored cargo event
+    function _emitCargoEventAdded(address actor, CargoEvent storage cargoEvent) internal {
+        emit CargoEventAdded(
+            _trackingKey(cargoEvent.trackingId),
+            cargoEvent.eventId,
+            actor,
+            cargoEvent.trackingId,
+            cargoEvent.location,
+            cargoEvent.status,
+            cargoEvent.description,
+            cargoEvent.timestamp,
+            cargoEvent.manifestVersion
+        );
+    }
+
+    /// @notice Emit StatusUpdated and check the SLA when a newly recorded cargo event changed the shipment's status
+    /// @dev Every path that records an event calls this, so StatusUpdated follows each status change, whether
+    ///      it came from updateShipmentStatus, a cargo event or a confirmed delivery
+    /// @param actor Account that recorded the event
+    /// @param cargoEvent Stored cargo event
+    function _emitStatusUpdated(address actor, CargoEvent storage cargoEvent) internal {
+        uint256 eventId = cargoEvent.eventId;
+        ShipmentStatus oldStatus =
+            eventId > 0 ? cargoEvents[cargoEvent.trackingId][eventId - 1].status : ShipmentStatus.Created;
+        if (oldStatus == cargoEvent.status) {
+            return;
+        }
+        emit StatusUpdated(
+            _trackingKey(cargoEvent.trackingId),
+            eventId,
+            actor,
+            cargoEvent.trackingId,
+            oldStatus,
+            cargoEvent.status
+        );
+        _checkSla(cargoEvent.trackingId, eventId);
     }
 
     /// @notice Add a cargo event to track shipment progress (internal version for status updates)
+    /// @param actor Account recorded as the event creator
     /// @param trackingId Shipment tracking ID
     /// @param location Current location
     /// @param status Current shipment status
     /// @param description Event description
     function _addCargoEventInternal(
+        address actor,
         string memory trackingId,
         string memory location,
         ShipmentStatus status,
@@ -177,13 +323,8 @@ contract SecureCargoFlow is SepoliaConfig {
 
         uint256 eventId = eventCounts[trackingId];
 
-        // For internal calls (like status updates), reuse previous encrypted data if available
-        euint32 prevWeight;
-        euint8[] memory prevContents;
-        if (cargoEvents[trackingId].length > 0) {
-            prevWeight = cargoEvents[trackingId][0].encryptedWeight;
-            prevContents = cargoEvents[trackingId][0].encContentsBytes;
-        }
+        // For internal calls (like status updates), reuse the declared weight if available
+        euint32 prevWeight = declaredWeights[trackingId];
 
         cargoEvents[trackingId].push(CargoEvent({
             eventId: eventId,
@@ -193,43 +334,73 @@ contract SecureCargoFlow is SepoliaConfig {
             status: status,
             description: description,
             encryptedWeight: prevWeight,
-            encContentsBytes: prevContents
+            manifestVersion: manifests[trackingId].length,
+            weightDiscrepancy: ebool.wrap(0)
         }));
 
         eventCounts[trackingId]++;
 
-        emit CargoEventAdded(trackingId, eventId, msg.sender, location, status);
+        _emitCargoEventAdded(actor, cargoEvents[trackingId][eventId]);
+        _emitStatusUpdated(actor, cargoEvents[trackingId][eventId]);
     }
 
-    /// @notice Helper function to import encrypted contents bytes
-    /// @param encContentsBytes Encrypted contents bytes (externalEuint8[])
+    /// @notice Helper function to import encrypted contents chunks
+    /// @param actor Account recording the contents (allowed to decrypt them)
+    /// @param trackingId Shipment tracking ID (readers of the contents are allowed)
+    /// @param encContents Encrypted contents chunks (externalEuint256[], 32 UTF-8 bytes each)
     /// @param inputProof Input proof for contents
-    /// @return contents Array of imported encrypted bytes
+    /// @return contents Array of imported encrypted chunks
     function _importEncryptedContents(
-        externalEuint8[] calldata encContentsBytes,
+        address actor,
+        string memory trackingId,
+        externalEuint256[] calldata encContents,
         bytes calldata inputProof
-    ) internal returns (euint8[] memory) {
-        euint8[] memory contents = new euint8[](encContentsBytes.length);
-        for (uint256 i = 0; i < encContentsBytes.length; i++) {
-            euint8 b = FHE.fromExternal(encContentsBytes[i], inputProof);
-            contents[i] = b;
-            FHE.allowThis(b);
-            FHE.allow(b, msg.sender);
+    ) internal returns (euint256[] memory) {
+        require(encContents.length <= MAX_CONTENTS_CHUNKS, "Contents too long");
+        euint256[] memory contents = new euint256[](encContents.length);
+        for (uint256 i = 0; i < encContents.length; i++) {
+            euint256 chunk = FHE.fromExternal(encContents[i], inputProof);
+            contents[i] = chunk;
+            FHE.allow(chunk, actor);
+            _allowContentsReaders(trackingId, chunk);
         }
         return contents;
     }
 
+    /// @notice Append a manifest version and emit ManifestAmended
+    /// @param actor Account recording the version
+    /// @param trackingId Shipment tracking ID
+    /// @param contents Imported encrypted contents chunks
+    /// @param reason Public reason for the version
+    function _recordManifestVersion(
+        address actor,
+        string memory trackingId,
+        euint256[] memory contents,
+        string memory reason
+    ) internal {
+        ManifestVersion storage version = manifests[trackingId].push();
+        version.encContents = contents;
+        version.reason = reason;
+        version.amendedBy = actor;
+        version.amendedAt = block.timestamp;
+        emit ManifestAmended(trackingId, manifests[trackingId].length, actor, reason);
+    }
+
     /// @notice Helper function to import encrypted weight and set permissions
+    /// @param actor Account reporting the weight (allowed to decrypt it)
+    /// @param trackingId Shipment tracking ID (readers of the weight are allowed)
     /// @param encWeight Encrypted weight handle
     /// @param weightInputProof Input proof for weight
     /// @return weight Imported encrypted weight
     function _importEncryptedWeight(
+        address actor,
+        string memory trackingId,
         externalEuint32 encWeight,
         bytes calldata weightInputProof
     ) internal returns (euint32) {
         euint32 weight = FHE.fromExternal(encWeight, weightInputProof);
-        FHE.allowThis(weight);
-        FHE.allow(weight, msg.sender);
+        FHE.allow(weight, actor);
+        _allowWeightReaders(trackingId, weight);
         return weight;
     }
 
@@ -240,7 +411,7 @@ contract SecureCargoFlow is SepoliaConfig {
     /// @param description Event description (public)
     /// @param encWeight Encrypted weight handle (externalEuint32)
     /// @param weightInputProof Input proof for weight
-    /// @param encContentsBytes Encrypted contents bytes (externalEuint8[])
+    /// @param encContents Encrypted contents chunks for the initial manifest (first event only, may be empty)
     /// @param inputProof Input proof for contents (shared with weight)
     function addCargoEvent(
         string memory trackingId,
@@ -249,20 +420,82 @@ contract SecureCargoFlow is SepoliaConfig {
         string memory description,
         externalEuint32 encWeight,
         bytes calldata weightInputProof,
-        externalEuint8[] calldata encContentsBytes,
+        externalEuint256[] calldata encContents,
+        bytes calldata inputProof
+    ) public whenNotPaused(PauseScope.Events) {
+        _addCargoEvent(
+            msg.sender,
+            trackingId,
+            location,
+            status,
+            description,
+            encWeight,
+            weightInputProof,
+            encContents,
+            inputProof
+        );
+    }
+
+    /// @notice Add a cargo event recorded by actor
+    /// @dev Shared by addCargoEvent (actor is the caller) and addCargoEventWithSig (actor is the signer).
+    ///      Encrypted inputs stay bound to msg.sender, which is the relayer on the signed path.
+    /// @param actor Participant recording the event
+    /// @param trackingId Shipment tracking ID
+    /// @param location Current location
+    /// @param status Current shipment status
+    /// @param description Event description (public)
+    /// @param encWeight Encrypted weight handle, zero when not weighed
+    /// @param weightInputProof Input proof for weight
+    /// @param encContents Encrypted contents chunks for the initial manifest
+    /// @param inputProof Input proof for contents
+    function _addCargoEvent(
+        address actor,
+        string memory trackingId,
+        string memory location,
+        ShipmentStatus status,
+        string memory description,
+        externalEuint32 encWeight,
+        bytes calldata weightInputProof,
+        externalEuint256[] calldata encContents,
         bytes calldata inputProof
-    ) public {
+    ) internal {
         require(shipments[trackingId].exists, "Shipment does not exist");
-        require(shipments[trackingId].creator == msg.sender, "Only shipment creator can add events");
+        ParticipantRole role = participantRoles[trackingId][actor];
+        require(role != ParticipantRole.None, "Only shipment participants can add events");
         require(bytes(location).length > 0, "Location cannot be empty");
         require(bytes(description).length > 0, "Description cannot be empty");
 
+        _requireEventStatus(trackingId, status, role);
+
         uint256 eventId = eventCounts[trackingId];
         eventCounts[trackingId]++;
 
+        // A zero weight handle means no new measurement at this checkpoint
+        bool isMeasured = externalEuint32.unwrap(encWeight) != bytes32(0);
+        require(isMeasured || eventId > 0, "Declared weight required for first event");
+
         // Import encrypted data using helpers
-        euint32 weight = _importEncryptedWeight(encWeight, weightInputProof);
-        euint8[] memory contents = _importEncryptedContents(encContentsBytes, inputProof);
+        euint32 weight;
+        ebool discrepancy;
+        if (!isMeasured) {
+            weight = declaredWeights[trackingId];
+        } else if (!FHE.isInitialized(declaredWeights[trackingId])) {
+            // Status-only events carry no weight, so the first weighed event declares it
+            weight = _importEncryptedWeight(actor, trackingId, encWeight, weightInputProof);
+            _declareWeight(trackingId, weight);
+        } else {
+            weight = _importEncryptedWeight(actor, trackingId, encWeight, weightInputProof);
+            discrepancy = _reconcileWeight(actor, trackingId, weight);
+        }
+        if (encContents.length > 0) {
+            require(manifests[trackingId].length == 0, "Use amendManifest to change contents");
+            _recordManifestVersion(
+                actor,
+                trackingId,
+                _importEncryptedContents(actor, trackingId, encContents, inputProof),
+                "Initial manifest"
+            );
+        }
 
         // Directly push to storage to avoid stack depth issues
         cargoEvents[trackingId].push();
@@ -275,242 +508,412 @@ contract SecureCargoFlow is SepoliaConfig {
         newEvent.status = status;
         newEvent.description = description;
         newEvent.encryptedWeight = weight;
-        newEvent.encContentsBytes = contents;
+        newEvent.manifestVersion = manifests[trackingId].length;
+        newEvent.weightDiscrepancy = discrepancy;
 
-        emit CargoEventAdded(trackingId, eventId, msg.sender, location, status);
+        _emitCargoEventAdded(actor, newEvent);
+        if (FHE.isInitialized(discrepancy)) {
+            emit WeightReconciled(trackingId, eventId, actor);
+        }
+        _emitStatusUpdated(actor, newEvent);
     }
 
-    /// @notice Update shipment status with validation
+    /// @notice Revert unless a participant with role may record a cargo event with status
+    /// @dev An event repeating the current status is a checkpoint; any other status is a status change and
+    ///      goes through the same checks as updateShipmentStatus
     /// @param trackingId Shipment tracking ID
-    /// @param newStatus New shipment status
-    function updateShipmentStatus(string memory trackingId, ShipmentStatus newStatus) external {
-        require(shipments[trackingId].exists, "Shipment does not exist");
-        require(shipments[trackingId].creator == msg.sender, "Only shipment creator can update status");
-
+    /// @param status Status carried by the event
+    /// @param role Role of the participant recording the event
+    function _requireEventStatus(string memory trackingId, ShipmentStatus status, ParticipantRole role) internal view {
         ShipmentStatus currentStatus = getCurrentStatus(trackingId);
-        require(currentStatus != newStatus, "Status already set");
-        require(_isValidStatusTransition(currentStatus, newStatus), "Invalid status transition");
-        require(block.timestamp >= shipments[trackingId].createdAt + 1 hours, "Too early for status change");
+        if (status == currentStatus) {
+            require(role != ParticipantRole.Consignee, "Consignee cannot record checkpoints");
+            return;
+        }
+        // Status changes recorded as events are also blocked while status updates are paused
+        require(!paused[PauseScope.Status], "Function group is paused");
+        require(status != ShipmentStatus.Delivered, "Use confirmDelivery");
+        _requireStatusChange(trackingId, currentStatus, status, role);
+    }
 
-        ShipmentStatus oldStatus = currentStatus;
+    /// @notice Record a cargo event signed off-chain by a shipment participant
+    /// @dev Anyone may relay the signature; the signer must be a participant of the shipment and is recorded
+    ///      as the event creator. Input proofs are bound to the submitting account, so the weight and
+    ///      contents must be encrypted for the relayer's address. Decrypt access goes to the signer.
+    /// @param signed Signed cargo event payload
+    /// @param inputProof Input proof for the weight and contents
+    /// @param signature 65-byte EIP-712 signature of signed by signed.signer
+    function addCargoEventWithSig(
+        SignedCargoEvent calldata signed,
+        bytes calldata inputProof,
+        bytes calldata signature
+    ) external whenNotPaused(PauseScope.Events) {
+        require(block.timestamp <= signed.deadline, "Signature expired");
+        require(signed.nonce == nonces[signed.signer], "Invalid nonce");
+        address recovered = _recoverSigner(_hashSignedCargoEvent(signed), signature);
+        require(recovered != address(0) && recovered == signed.signer, "Invalid signature");
+        nonces[signed.signer]++;
+
+        uint256 eventId = eventCounts[signed.trackingId];
+        _addCargoEvent(
+            signed.signer,
+            signed.trackingId,
+            signed.location,
+            signed.status,
+            signed.description,
+            signed.encWeight,
+            inputProof,
+            signed.encContents,
+            inputProof
+        );
+        emit CargoEventRelayed(_trackingKey(signed.trackingId), eventId, signed.signer, signed.trackingId, msg.sender);
+    }
 
-        _addCargoEventInternal(trackingId, "Status Update", newStatus, string(abi.encodePacked("Status changed to ", _statusToString(newStatus))));
+    /// @notice EIP-712 domain separator for signed cargo events
+    /// @return separator Domain separator (name "SecureCargoFlow", version "1")
+    function DOMAIN_SEPARATOR() public view returns (bytes32 separator) {
+        return keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256("SecureCargoFlow"), keccak256("1"), block.chainid, address(this))
+        );
+    }
 
-        emit StatusUpdated(trackingId, eventCounts[trackingId] - 1, msg.sender, oldStatus, newStatus);
+    /// @notice EIP-712 digest of a signed cargo event
+    /// @param signed Signed cargo event payload
+    /// @return digest Typed data hash the signer signed
+    function _hashSignedCargoEvent(SignedCargoEvent calldata signed) internal view returns (bytes32 digest) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                CARGO_EVENT_TYPEHASH,
+                keccak256(bytes(signed.trackingId)),
+                keccak256(bytes(signed.location)),
+                signed.status,
+                keccak256(bytes(signed.description)),
+                externalEuint32.unwrap(signed.encWeight),
+                keccak256(abi.encodePacked(signed.encContents)),
+                signed.signer,
+                signed.nonce,
+                signed.deadline
+            )
+        );
+        return keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash));
     }
 
-    /// @notice Get current status of a shipment
+    /// @notice Recover the signer of a 65-byte (r, s, v) signature
+    /// @dev Rejects upper-half s values so a signature cannot be replayed in its malleated form
+    /// @param digest Signed digest
+    /// @param signature Signature bytes
+    /// @return signer Recovered address, zero when the signature is invalid
+    function _recoverSigner(bytes32 digest, bytes calldata signature) internal pure returns (address signer) {
+        require(signature.length == 65, "Invalid signature");
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        require(uint256(s) <= MAX_SIGNATURE_S, "Invalid signature");
+        return ecrecover(digest, v, r, s);
+    }
+
+    /// @notice Add many cargo events in one transaction, sharing one input proof for all weights and contents
+    /// @dev Each item runs as its own delegatecall to addCargoEvent, so an invalid item is rolled back and
+    ///      reported through BatchItemFailed without failing the batch. One proof holds at most 2048
+    ///      encrypted bits, which bounds how many weights and contents chunks a batch can carry.
+    /// @param items Cargo events to add
+    /// @param inputProof Input proof covering every weight and contents handle
+    /// @return succeeded Whether each event was added
+    function addCargoEventsBatch(CargoEventInput[] calldata items, bytes calldata inputProof)
+        external
+        whenNotPaused(PauseScope.Events)
+        returns (bool[] memory succeeded)
+    {
+        require(items.length > 0 && items.length <= MAX_BATCH_SIZE, "Invalid batch size");
+        succeeded = new bool[](items.length);
+        for (uint256 i = 0; i < items.length; i++) {
+            CargoEventInput calldata item = items[i];
+            succeeded[i] = _runBatchItem(
+                i,
+                item.trackingId,
+                abi.encodeCall(
+                    this.addCargoEvent,
+                    (item.trackingId, item.location, item.status, item.description, item.encWeight, inputProof, item.encContents, inputProof)
+                )
+            );
+        }
+    }
+
+    /// @notice Record the declared weight and derive a default tolerance if none was set
     /// @param trackingId Shipment tracking ID
-    /// @return current status
-    function getCurrentStatus(string memory trackingId) public view returns (ShipmentStatus) {
-        require(shipments[trackingId].exists, "Shipment does not exist");
-        if (cargoEvents[trackingId].length == 0) {
-            return ShipmentStatus.Created;
+    /// @param weight Encrypted declared weight
+    function _declareWeight(string memory trackingId, euint32 weight) internal {
+        declaredWeights[trackingId] = weight;
+
+        Shipment storage shipment = shipments[trackingId];
+        euint64 weight64 = FHE.asEuint64(weight);
+        AggregateStat storage lane = _aggregateStat(_laneStatKey(shipment.origin, shipment.destination), StatKind.Lane);
+        if (lane.shipments == 0) {
+            lane.origin = shipment.origin;
+            lane.destination = shipment.destination;
+        }
+        _addToStat(lane, weight64);
+        uint32 month = _monthOf(shipment.createdAt);
+        AggregateStat storage monthly = _aggregateStat(_monthStatKey(month), StatKind.Month);
+        monthly.month = month;
+        _addToStat(monthly, weight64);
+
+        euint64 creatorTotal = FHE.add(creatorWeightTotals[shipment.creator], weight64);
+        FHE.allowThis(creatorTotal);
+        FHE.allow(creatorTotal, shipment.creator);
+        creatorWeightTotals[shipment.creator] = creatorTotal;
+
+        if (!FHE.isInitialized(weightTolerances[trackingId])) {
+            euint32 tolerance = FHE.div(weight, DEFAULT_WEIGHT_TOLERANCE_DIVISOR);
+            FHE.allowThis(tolerance);
+            FHE.allow(tolerance, shipments[trackingId].creator);
+            weightTolerances[trackingId] = tolerance;
         }
-        return cargoEvents[trackingId][cargoEvents[trackingId].length - 1].status;
     }
 
-    /// @notice Convert status enum to string
-    /// @param status Status enum value
-    /// @return status as string
-    function _statusToString(ShipmentStatus status) internal pure returns (string memory) {
-        if (status == ShipmentStatus.Created) return "Created";
-        if (status == ShipmentStatus.InTransit) return "InTransit";
-        if (status == ShipmentStatus.CustomsClearance) return "CustomsClearance";
-        if (status == ShipmentStatus.Arrived) return "Arrived";
-        if (status == ShipmentStatus.Delivered) return "Delivered";
-        return "Unknown";
+    /// @notice Look up an aggregate statistic, registering its key on first use
+    /// @param key Statistic key
+    /// @param kind Statistic grouping
+    /// @return stat Stored statistic
+    function _aggregateStat(bytes32 key, StatKind kind) internal returns (AggregateStat storage stat) {
+        stat = aggregateStats[key];
+        if (stat.shipments == 0) {
+            stat.kind = kind;
+            statKeys.push(key);
+        }
     }
 
-    /// @notice Check if status transition is valid
-    /// @param currentStatus Current shipment status
-    /// @param newStatus New shipment status
-    /// @return isValid Whether the transition is valid
-    function _isValidStatusTransition(ShipmentStatus currentStatus, ShipmentStatus newStatus) internal pure returns (bool) {
-        // Valid transitions: Created -> InTransit -> CustomsClearance -> Arrived -> Delivered
-        if (currentStatus == ShipmentStatus.Created && newStatus == ShipmentStatus.InTransit) return true;
-        if (currentStatus == ShipmentStatus.InTransit && newStatus == ShipmentStatus.CustomsClearance) return true;
-        if (currentStatus == ShipmentStatus.CustomsClearance && newStatus == ShipmentStatus.Arrived) return true;
-        if (currentStatus == ShipmentStatus.Arrived && newStatus == ShipmentStatus.Delivered) return true;
-        return false; // No backward transitions or invalid jumps allowed
+    /// @notice Add a declared weight to an aggregate; only the contract may read the encrypted total
+    /// @param stat Stored statistic
+    /// @param weight Encrypted declared weight in grams
+    function _addToStat(AggregateStat storage stat, euint64 weight) internal {
+        stat.tonnage = FHE.add(stat.tonnage, weight);
+        FHE.allowThis(stat.tonnage);
+        stat.shipments++;
     }
 
-    /// @notice Get complete shipment details including all events
+    /// @notice Calendar month of a timestamp
+    /// @dev Civil-from-days conversion (proleptic Gregorian calendar, UTC)
+    /// @param timestamp Unix timestamp
+    /// @return month Month as YYYYMM
+    function _monthOf(uint256 timestamp) internal pure returns (uint32 month) {
+        uint256 z = timestamp / 1 days + 719468;
+        uint256 era = z / 146097;
+        uint256 doe = z - era * 146097;
+        uint256 yoe = (doe - doe / 1460 + doe / 36524 - doe / 146096) / 365;
+        uint256 doy = doe - (365 * yoe + yoe / 4 - yoe / 100);
+        uint256 mp = (5 * doy + 2) / 153;
+        uint256 m = mp < 10 ? mp + 3 : mp - 9;
+        uint256 y = yoe + era * 400 + (m <= 2 ? 1 : 0);
+        return uint32(y * 100 + m);
+    }
+
+    /// @notice Set the encrypted tolerance used when reconciling measured weights
     /// @param trackingId Shipment tracking ID
-    /// @return shipment Basic shipment info
-    /// @return events Array of all cargo events
-    /// @return eventCount Total number of events
-    function getShipmentDetails(string memory trackingId)
-        external
-        view
-        returns (
-            Shipment memory shipment,
-            CargoEvent[] memory events,
-            uint256 eventCount
-        )
-    {
+    /// @param encTolerance Encrypted tolerance in grams (externalEuint32)
+    /// @param inputProof Input proof for tolerance
+    function setWeightTolerance(
+        string memory trackingId,
+        externalEuint32 encTolerance,
+        bytes calldata inputProof
+    ) external {
         require(shipments[trackingId].exists, "Shipment does not exist");
+        require(shipments[trackingId].creator == msg.sender, "Only shipment creator can set weight tolerance");
+
+        euint32 tolerance = FHE.fromExternal(encTolerance, inputProof);
+        FHE.allowThis(tolerance);
+        FHE.allow(tolerance, msg.sender);
+        weightTolerances[trackingId] = tolerance;
 
-        shipment = shipments[trackingId];
-        events = cargoEvents[trackingId];
-        eventCount = eventCounts[trackingId];
+        emit WeightToleranceSet(trackingId, msg.sender);
     }
 
-    /// @notice Get shipment history summary
+    /// @notice Compare a measured weight with the declared weight under FHE
+    /// @dev The flag is readable by the shipment creator and the reporting party only
+    /// @param reporter Account that reported the measured weight
     /// @param trackingId Shipment tracking ID
-    /// @return locations Array of locations visited
-    /// @return statuses Array of status changes
-    /// @return timestamps Array of event timestamps
-    function getShipmentHistory(string memory trackingId)
-        external
-        view
-        returns (
-            string[] memory locations,
-            ShipmentStatus[] memory statuses,
-            uint256[] memory timestamps
-        )
+    /// @param measured Encrypted measured weight
+    /// @return discrepancy Encrypted flag set when |measured - declared| > tolerance
+    function _reconcileWeight(address reporter, string memory trackingId, euint32 measured)
+        internal
+        returns (ebool)
     {
-        require(shipments[trackingId].exists, "Shipment does not exist");
-
-        uint256 count = cargoEvents[trackingId].length;
-        locations = new string[](count);
-        statuses = new ShipmentStatus[](count);
-        timestamps = new uint256[](count);
+        euint32 declared = declaredWeights[trackingId];
+        euint32 difference = FHE.select(
+            FHE.gt(measured, declared),
+            FHE.sub(measured, declared),
+            FHE.sub(declared, measured)
+        );
+        ebool discrepancy = FHE.gt(difference, weightTolerances[trackingId]);
 
-        for (uint256 i = 0; i < count; i++) {
-            CargoEvent memory event_ = cargoEvents[trackingId][i];
-            locations[i] = event_.location;
-            statuses[i] = event_.status;
-            timestamps[i] = event_.timestamp;
-        }
+        FHE.allowThis(discrepancy);
+        FHE.allow(discrepancy, shipments[trackingId].creator);
+        FHE.allow(discrepancy, reporter);
+        return discrepancy;
     }
 
-    /// @notice Get shipment details
+    /// @notice Record a new version of the shipment's encrypted manifest
+    /// @dev Earlier versions stay readable; later cargo events point to the new version
     /// @param trackingId Shipment tracking ID
-    /// @return shipment Shipment struct
-    function getShipment(string memory trackingId) external view returns (Shipment memory) {
+    /// @param encContents Encrypted contents chunks (externalEuint256[], 32 UTF-8 bytes each)
+    /// @param inputProof Input proof for contents
+    /// @param reason Public reason for the amendment
+    function amendManifest(
+        string memory trackingId,
+        externalEuint256[] calldata encContents,
+        bytes calldata inputProof,
+        string memory reason
+    ) external whenNotPaused(PauseScope.Events) {
         require(shipments[trackingId].exists, "Shipment does not exist");
-        return shipments[trackingId];
+        require(
+            participantRoles[trackingId][msg.sender] != ParticipantRole.None,
+            "Only shipment participants can amend the manifest"
+        );
+        require(encContents.length > 0, "Contents cannot be empty");
+        require(bytes(reason).length > 0, "Reason cannot be empty");
+
+        _recordManifestVersion(
+            msg.sender,
+            trackingId,
+            _importEncryptedContents(msg.sender, trackingId, encContents, inputProof),
+            reason
+        );
     }
 
-    /// @notice Get cargo event count for a shipment
+    /// @notice Update shipment status with validation
     /// @param trackingId Shipment tracking ID
-    /// @return count Number of events
-    function getEventCount(string memory trackingId) external view returns (uint256) {
+    /// @param newStatus New shipment status
+    function updateShipmentStatus(string memory trackingId, ShipmentStatus newStatus) external whenNotPaused(PauseScope.Status) {
         require(shipments[trackingId].exists, "Shipment does not exist");
-        return eventCounts[trackingId];
+        ParticipantRole role = participantRoles[trackingId][msg.sender];
+        require(role != ParticipantRole.None, "Only shipment participants can update status");
+
+        ShipmentStatus currentStatus = getCurrentStatus(trackingId);
+        require(currentStatus != newStatus, "Status already set");
+        require(newStatus != ShipmentStatus.Delivered, "Use confirmDelivery");
+        _requireStatusChange(trackingId, currentStatus, newStatus, role);
+
+        _addCargoEventInternal(msg.sender, trackingId, "Status Update", newStatus, string(abi.encodePacked("Status changed to ", _statusToString(newStatus))));
     }
 
-    /// @notice Get cargo event details
+    /// @notice Submit the PIN the consignee gave the courier to deliver a shipment
+    /// @dev The PIN is compared under FHE and the oracle decrypts only whether it matched; the shipment
+    ///      stays parked, with status changes blocked, until onDeliveryVerified delivers it or rejects the PIN,
+    ///      or until DELIVERY_REQUEST_TIMEOUT passes and the PIN may be submitted again. Each shipment accepts
+    ///      MAX_DELIVERY_ATTEMPTS submissions until its creator calls resetDeliveryAttempts, so the PIN cannot be
+    ///      guessed by repetition. The encrypted comparison is kept as proof of delivery for the creator, the
+    ///      consignees and the courier.
     /// @param trackingId Shipment tracking ID
-    /// @param eventIndex Event index
-    /// @return eventId Event ID
-    /// @return timestamp Event timestamp
-    /// @return location Event location
-    /// @return status Event status
-    /// @return description Event description
-    function getCargoEvent(string memory trackingId, uint256 eventIndex)
-        external
-        view
-        returns (
-            uint256 eventId,
-            uint256 timestamp,
-            string memory location,
-            ShipmentStatus status,
-            string memory description
-        )
-    {
+    /// @param encPin Encrypted PIN entered at the door (externalEuint32)
+    /// @param inputProof Input proof for the PIN
+    /// @return requestId Oracle request ID, fulfilled through onDeliveryVerified
+    function confirmDelivery(
+        string memory trackingId,
+        externalEuint32 encPin,
+        bytes calldata inputProof
+    ) external whenNotPaused(PauseScope.Status) returns (uint256 requestId) {
         require(shipments[trackingId].exists, "Shipment does not exist");
-        require(eventIndex < cargoEvents[trackingId].length, "Event does not exist");
-
-        CargoEvent memory event_ = cargoEvents[trackingId][eventIndex];
-        return (
-            event_.eventId,
-            event_.timestamp,
-            event_.location,
-            event_.status,
-            event_.description
-        );
+        ParticipantRole role = participantRoles[trackingId][msg.sender];
+        require(role != ParticipantRole.None, "Only shipment participants can update status");
+        _requireStatusChange(trackingId, getCurrentStatus(trackingId), ShipmentStatus.Delivered, role);
+        require(deliveryAttempts[trackingId] < MAX_DELIVERY_ATTEMPTS, "Too many delivery attempts");
+        deliveryAttempts[trackingId]++;
+
+        ebool matched = FHE.eq(FHE.fromExternal(encPin, inputProof), deliveryPins[trackingId]);
+        _allowDeliveryProofReaders(trackingId, matched);
+        FHE.allow(matched, msg.sender);
+        deliveryProofs[trackingId] = matched;
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(matched);
+        requestId = FHE.requestDecryption(handles, this.onDeliveryVerified.selector);
+        pendingDeliveries[requestId] = PendingDelivery({
+            trackingId: trackingId,
+            courier: msg.sender
+        });
+        deliveryRequestIds[trackingId] = requestId;
+        deliveryRequestedAt[trackingId] = block.timestamp;
+
+        emit DeliveryRequested(trackingId, requestId, msg.sender);
     }
 
-    /// @notice Get encrypted weight for an event
-    /// @param trackingId Shipment tracking ID
-    /// @param eventIndex Event index
-    /// @return encryptedWeight Encrypted weight handle
-    function getEncryptedWeight(string memory trackingId, uint256 eventIndex)
-        external
-        view
-        returns (euint32)
-    {
-        require(shipments[trackingId].exists, "Shipment does not exist");
-        require(eventIndex < cargoEvents[trackingId].length, "Event does not exist");
-        return cargoEvents[trackingId][eventIndex].encryptedWeight;
+    /// @notice Decryption oracle callback delivering the shipment when the submitted PIN matched
+    /// @dev A wrong PIN only releases the shipment, so the courier can submit the PIN again. The answer to a
+    ///      request that expired or was superseded by a newer submission changes nothing and emits DeliveryExpired.
+    /// @param requestId Oracle request ID
+    /// @param cleartexts Decrypted match flag
+    /// @param decryptionProof KMS signatures over the cleartexts
+    function onDeliveryVerified(uint256 requestId, bytes calldata cleartexts, bytes calldata decryptionProof) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        PendingDelivery memory pending = pendingDeliveries[requestId];
+        require(pending.courier != address(0), "Unknown delivery request");
+        delete pendingDeliveries[requestId];
+        if (deliveryRequestIds[pending.trackingId] != requestId || !_deliveryPending(pending.trackingId)) {
+            emit DeliveryExpired(pending.trackingId, requestId, pending.courier);
+            return;
+        }
+        delete deliveryRequestedAt[pending.trackingId];
+
+        if (!abi.decode(cleartexts, (bool))) {
+            emit DeliveryRejected(pending.trackingId, requestId, pending.courier);
+            return;
+        }
+
+        deliveredAt[pending.trackingId] = block.timestamp;
+        _addCargoEventInternal(pending.courier, pending.trackingId, "Delivery", ShipmentStatus.Delivered, "Delivered against PIN");
+        emit DeliveryConfirmed(pending.trackingId, eventCounts[pending.trackingId] - 1, pending.courier);
     }
 
-    /// @notice Get encrypted contents length for an event
+    /// @notice Revert unless a participant with role may move a shipment from currentStatus to newStatus now
+    /// @dev Shared by every path that changes status: updateShipmentStatus, status-changing cargo events and
+    ///      confirmDelivery. No status may change during the first hour after creation.
     /// @param trackingId Shipment tracking ID
-    /// @param eventIndex Event index
-    /// @return length Number of encrypted bytes
-    function getContentsLength(string memory trackingId, uint256 eventIndex)
-        external
-        view
-        returns (uint256)
-    {
-        require(shipments[trackingId].exists, "Shipment does not exist");
-        require(eventIndex < cargoEvents[trackingId].length, "Event does not exist");
-        return cargoEvents[trackingId][eventIndex].encContentsBytes.length;
+    /// @param currentStatus Current shipment status
+    /// @param newStatus Requested status
+    /// @param role Role of the participant changing the status
+    function _requireStatusChange(
+        string memory trackingId,
+        ShipmentStatus currentStatus,
+        ShipmentStatus newStatus,
+        ParticipantRole role
+    ) internal view {
+        require(!_deliveryPending(trackingId), "Delivery verification pending");
+        require(_isValidStatusTransition(currentStatus, newStatus, role), "Invalid status transition");
+        require(block.timestamp >= shipments[trackingId].createdAt + 1 hours, "Too early for status change");
     }
 
-    /// @notice Get encrypted contents byte at index
+    /// @notice Emit SlaBreached when a status change lands after the committed (latest revised) ETA
     /// @param trackingId Shipment tracking ID
-    /// @param eventIndex Event index
-    /// @param byteIndex Byte index
-    /// @return encryptedByte Encrypted byte handle
-    function getEncryptedContentsByte(
-        string memory trackingId,
-        uint256 eventIndex,
-        uint256 byteIndex
-    ) external view returns (euint8) {
-        require(shipments[trackingId].exists, "Shipment does not exist");
-        require(eventIndex < cargoEvents[trackingId].length, "Event does not exist");
-        require(
-            byteIndex < cargoEvents[trackingId][eventIndex].encContentsBytes.length,
-            "Byte index out of bounds"
-        );
-        return cargoEvents[trackingId][eventIndex].encContentsBytes[byteIndex];
+    /// @param eventId Cargo event that recorded the status change
+    function _checkSla(string memory trackingId, uint256 eventId) internal {
+        uint256 eta = shipments[trackingId].estimatedDelivery;
+        if (block.timestamp > eta) {
+            emit SlaBreached(trackingId, eventId, eta, block.timestamp);
+        }
     }
 
-    /// @notice Get public cargo event data (location, status, timestamp)
+    /// @notice Get current status of a shipment
     /// @param trackingId Shipment tracking ID
-    /// @param eventIndex Event index
-    /// @return eventId Event ID
-    /// @return timestamp Event timestamp
-    /// @return location Event location
-    /// @return status Event status
-    /// @return description Event description
-    function getCargoEventPublic(string memory trackingId, uint256 eventIndex)
-        external
-        view
-        returns (
-            uint256 eventId,
-            uint256 timestamp,
-            string memory location,
-            ShipmentStatus status,
-            string memory description
-        )
-    {
+    /// @return current status
+    function getCurrentStatus(string memory trackingId) public view returns (ShipmentStatus) {
         require(shipments[trackingId].exists, "Shipment does not exist");
-        require(eventIndex < cargoEvents[trackingId].length, "Event does not exist");
-
-        CargoEvent memory event_ = cargoEvents[trackingId][eventIndex];
-        return (
-            event_.eventId,
-            event_.timestamp,
-            event_.location,
-            event_.status,
-            event_.description
-        );
+        if (cargoEvents[trackingId].length == 0) {
+            return ShipmentStatus.Created;
+        }
+        return cargoEvents[trackingId][cargoEvents[trackingId].length - 1].status;
     }
-}
-
 
+    /// @notice Check if status transition is valid for the caller's role
+    /// @param currentStatus Current shipment status
+    /// @param newStatus New shipment status
+    /// @param role Role of the participant performing the transition
+    /// @return isValid Whether the transition is valid
+    function _isValidStatusTransition(
+        ShipmentStatus currentStatus,
+        ShipmentStatus newStatus,
+        ParticipantRole role
+    ) internal view returns (bool) {
+        return (transitionRoles[currentStatus][newStatus] >> uint8(role)) & 1 == 1;
+    }
+}
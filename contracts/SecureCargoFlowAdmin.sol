@@ -0,0 +1,644 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint16, externalEuint16, euint32, externalEuint32, euint64, euint256} from "@fhevm/solidity/lib/FHE.sol";
+import {SecureCargoFlowBase} from "./SecureCargoFlowBase.sol";
+
+/// @title Secure Cargo Flow - Admin Module
+/// @notice Shipment administration (participants, decrypt access, custody) and contract governance
+/// @dev Not used directly: SecureCargoFlow forwards unknown selectors here via DELEGATECALL, so every
+///      function runs against SecureCargoFlow's storage. Split out to keep both contracts under the
+///      EIP-170 code size limit.
+contract SecureCargoFlowAdmin is SecureCargoFlowBase {
+
+    /// @notice Read-only views module, reached through this module's fallback
+    address public immutable viewsModule;
+
+    /// @notice Constructor - links the views module
+    /// @param viewsModule_ Deployed SecureCargoFlowViews module
+    constructor(address viewsModule_) {
+        require(viewsModule_ != address(0), "Views module cannot be zero address");
+        viewsModule = viewsModule_;
+    }
+
+    /// @notice Forward calls not implemented here to the views module
+    /// @dev Already running in SecureCargoFlow's context, so the views read SecureCargoFlow's storage
+    fallback() external {
+        address module = viewsModule;
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), module, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch result
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
+
+    /// @notice Start a two-step ownership transfer
+    /// @param newOwner Account that must accept ownership (zero address cancels a pending transfer)
+    function transferOwnership(address newOwner) external onlyOwner {
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    /// @notice Accept a pending ownership transfer
+    function acceptOwnership() external {
+        require(msg.sender == pendingOwner, "Only pending owner can accept ownership");
+        emit OwnershipTransferred(owner, msg.sender);
+        owner = msg.sender;
+        pendingOwner = address(0);
+    }
+
+    /// @notice Allow an account to create shipments
+    /// @param account Shipper address
+    function addAllowedShipper(address account) external onlyOwner {
+        require(account != address(0), "Shipper cannot be zero address");
+        require(!allowedShippers[account], "Shipper already allowed");
+
+        allowedShippers[account] = true;
+        shipperList.push(account);
+        shipperIndex[account] = shipperList.length;
+
+        emit ShipperAllowed(account);
+    }
+
+    /// @notice Remove an account from the shipper allowlist
+    /// @param account Shipper address
+    function removeAllowedShipper(address account) external onlyOwner {
+        require(allowedShippers[account], "Shipper not allowed");
+
+        uint256 index = shipperIndex[account] - 1;
+        address last = shipperList[shipperList.length - 1];
+        shipperList[index] = last;
+        shipperIndex[last] = index + 1;
+        shipperList.pop();
+
+        delete shipperIndex[account];
+        delete allowedShippers[account];
+
+        emit ShipperRemoved(account);
+    }
+
+    /// @notice Switch between open creation and allowlist-only creation
+    /// @param open Whether any account may create shipments
+    function setOpenCreation(bool open) external onlyOwner {
+        openCreation = open;
+        emit OpenCreationSet(open);
+    }
+
+    /// @notice Set the guardian allowed to pause and unpause
+    /// @param newGuardian Guardian address (zero address removes the guardian)
+    function setGuardian(address newGuardian) external onlyOwner {
+        emit GuardianSet(guardian, newGuardian);
+        guardian = newGuardian;
+    }
+
+    /// @notice Pause a function group
+    /// @param scope Function group to pause
+    function pause(PauseScope scope) public onlyOwnerOrGuardian {
+        require(!paused[scope], "Scope already paused");
+        paused[scope] = true;
+        emit Paused(scope, msg.sender);
+    }
+
+    /// @notice Unpause a function group
+    /// @param scope Function group to unpause
+    function unpause(PauseScope scope) external onlyOwnerOrGuardian {
+        require(paused[scope], "Scope not paused");
+        paused[scope] = false;
+        emit Unpaused(scope, msg.sender);
+    }
+
+    /// @notice Emergency pause of every function group
+    function emergencyPause() external onlyOwnerOrGuardian {
+        for (uint8 i = 0; i <= uint8(PauseScope.Status); i++) {
+            if (!paused[PauseScope(i)]) {
+                pause(PauseScope(i));
+            }
+        }
+    }
+
+    /// @notice Propose handing custody of a shipment to a new address
+    /// @param trackingId Shipment tracking ID
+    /// @param newCustodian Address that must accept the transfer
+    function proposeCustodyTransfer(string memory trackingId, address newCustodian) external {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(shipments[trackingId].creator == msg.sender, "Only current custodian can transfer custody");
+        require(newCustodian != address(0), "New custodian cannot be zero address");
+        require(newCustodian != msg.sender, "New custodian must be different from current");
+
+        pendingCustodians[trackingId] = newCustodian;
+
+        emit CustodyTransferProposed(trackingId, msg.sender, newCustodian);
+    }
+
+    /// @notice Cancel a pending custody transfer
+    /// @param trackingId Shipment tracking ID
+    function cancelCustodyTransfer(string memory trackingId) external {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(shipments[trackingId].creator == msg.sender, "Only current custodian can cancel transfer");
+        address pending = pendingCustodians[trackingId];
+        require(pending != address(0), "No pending custody transfer");
+
+        delete pendingCustodians[trackingId];
+
+        emit CustodyTransferCancelled(trackingId, msg.sender, pending);
+    }
+
+    /// @notice Accept a pending custody transfer
+    /// @dev The new custodian becomes the shipper and is granted access to all existing encrypted data.
+    ///      The previous custodian keeps access to handles it could already decrypt. The shipment moves to the
+    ///      new custodian's getShipmentsByCreator list and encrypted running totals.
+    /// @param trackingId Shipment tracking ID
+    function acceptCustodyTransfer(string memory trackingId) external {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(pendingCustodians[trackingId] == msg.sender, "Only pending custodian can accept");
+
+        address previous = shipments[trackingId].creator;
+        delete pendingCustodians[trackingId];
+        shipments[trackingId].creator = msg.sender;
+
+        _removeParticipant(trackingId, previous);
+        if (participantRoles[trackingId][msg.sender] != ParticipantRole.None) {
+            _removeParticipant(trackingId, msg.sender);
+        }
+        _addParticipant(trackingId, msg.sender, ParticipantRole.Shipper);
+        _allowShipmentData(trackingId, msg.sender);
+        _moveCreatorShipment(trackingId, previous, msg.sender);
+
+        custodyHistory[trackingId].push(CustodyRecord({from: previous, to: msg.sender, timestamp: block.timestamp}));
+
+        emit CustodyTransferred(trackingId, previous, msg.sender);
+    }
+
+    /// @notice Move a shipment from one account's creator index and encrypted running totals to another's
+    /// @dev Swap-and-pop keeps the removal constant-cost; the declared weight only moves once it is declared
+    /// @param trackingId Shipment tracking ID
+    /// @param from Previous creator
+    /// @param to New creator
+    function _moveCreatorShipment(string memory trackingId, address from, address to) internal {
+        string[] storage fromIds = creatorShipments[from];
+        uint256 index = creatorShipmentIndex[trackingId];
+        string memory last = fromIds[fromIds.length - 1];
+        fromIds[index - 1] = last;
+        creatorShipmentIndex[last] = index;
+        fromIds.pop();
+        creatorShipments[to].push(trackingId);
+        creatorShipmentIndex[trackingId] = creatorShipments[to].length;
+
+        _setCreatorShipmentCount(from, FHE.sub(creatorShipmentCounts[from], 1));
+        _setCreatorShipmentCount(to, FHE.add(creatorShipmentCounts[to], 1));
+        if (FHE.isInitialized(declaredWeights[trackingId])) {
+            euint64 weight = FHE.asEuint64(declaredWeights[trackingId]);
+            _setCreatorWeightTotal(from, FHE.sub(creatorWeightTotals[from], weight));
+            _setCreatorWeightTotal(to, FHE.add(creatorWeightTotals[to], weight));
+        }
+    }
+
+    /// @notice Store an account's encrypted shipment count, readable by the contract and the account
+    /// @param creator Shipment creator
+    /// @param count New encrypted count
+    function _setCreatorShipmentCount(address creator, euint32 count) internal {
+        FHE.allowThis(count);
+        FHE.allow(count, creator);
+        creatorShipmentCounts[creator] = count;
+    }
+
+    /// @notice Store an account's encrypted total declared weight, readable by the contract and the account
+    /// @param creator Shipment creator
+    /// @param total New encrypted total in grams
+    function _setCreatorWeightTotal(address creator, euint64 total) internal {
+        FHE.allowThis(total);
+        FHE.allow(total, creator);
+        creatorWeightTotals[creator] = total;
+    }
+
+    /// @notice Allow an account on every encrypted handle of a shipment
+    /// @param trackingId Shipment tracking ID
+    /// @param account Account to allow
+    function _allowShipmentData(string memory trackingId, address account) internal {
+        FHE.allow(deliveryPins[trackingId], account);
+        if (FHE.isInitialized(deliveryProofs[trackingId])) {
+            FHE.allow(deliveryProofs[trackingId], account);
+        }
+        if (FHE.isInitialized(weightTolerances[trackingId])) {
+            FHE.allow(weightTolerances[trackingId], account);
+        }
+        if (FHE.isInitialized(declaredValues[trackingId])) {
+            FHE.allow(declaredValues[trackingId], account);
+        }
+        if (FHE.isInitialized(excursionCounts[trackingId])) {
+            FHE.allow(excursionCounts[trackingId], account);
+        }
+
+        SensorReading[] storage readings = sensorReadings[trackingId];
+        for (uint256 i = 0; i < readings.length; i++) {
+            FHE.allow(readings[i].temperature, account);
+            FHE.allow(readings[i].humidity, account);
+            FHE.allow(readings[i].excursion, account);
+        }
+
+        CargoEvent[] storage events = cargoEvents[trackingId];
+        for (uint256 i = 0; i < events.length; i++) {
+            if (FHE.isInitialized(events[i].encryptedWeight)) {
+                FHE.allow(events[i].encryptedWeight, account);
+            }
+            if (FHE.isInitialized(events[i].weightDiscrepancy)) {
+                FHE.allow(events[i].weightDiscrepancy, account);
+            }
+        }
+
+        _allowManifest(trackingId, account);
+    }
+
+    /// @notice Allow an account on every version of a shipment's manifest
+    /// @param trackingId Shipment tracking ID
+    /// @param account Address to allow
+    function _allowManifest(string memory trackingId, address account) internal {
+        ManifestVersion[] storage versions = manifests[trackingId];
+        for (uint256 i = 0; i < versions.length; i++) {
+            euint256[] storage contents = versions[i].encContents;
+            for (uint256 j = 0; j < contents.length; j++) {
+                FHE.allow(contents[j], account);
+            }
+        }
+    }
+
+    /// @notice Register a participant on a shipment
+    /// @param trackingId Shipment tracking ID
+    /// @param account Participant address
+    /// @param role Participant role (Carrier, Customs or Consignee)
+    function addParticipant(string memory trackingId, address account, ParticipantRole role) external {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(shipments[trackingId].creator == msg.sender, "Only shipment creator can manage participants");
+        require(account != address(0), "Participant cannot be zero address");
+        require(
+            role == ParticipantRole.Carrier || role == ParticipantRole.Customs || role == ParticipantRole.Consignee,
+            "Invalid participant role"
+        );
+        require(participantRoles[trackingId][account] == ParticipantRole.None, "Participant already registered");
+
+        _addParticipant(trackingId, account, role);
+        // Consignees read the delivery PIN to hand it to the courier
+        if (role == ParticipantRole.Consignee) {
+            FHE.allow(deliveryPins[trackingId], account);
+        }
+    }
+
+    /// @notice Remove a participant from a shipment
+    /// @param trackingId Shipment tracking ID
+    /// @param account Participant address
+    function removeParticipant(string memory trackingId, address account) external {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(shipments[trackingId].creator == msg.sender, "Only shipment creator can manage participants");
+        require(account != shipments[trackingId].creator, "Cannot remove shipment creator");
+        require(participantRoles[trackingId][account] != ParticipantRole.None, "Participant not registered");
+
+        _removeParticipant(trackingId, account);
+    }
+
+    /// @notice Grant an account decryption access to one encrypted field of a shipment
+    /// @dev Applies to every existing handle of the field and to handles added later
+    /// @param trackingId Shipment tracking ID
+    /// @param account Partner address
+    /// @param field Encrypted field to share
+    function grantDecryptAccess(string memory trackingId, address account, EncryptedField field) external {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(shipments[trackingId].creator == msg.sender, "Only shipment creator can manage decrypt access");
+        require(account != address(0), "Grantee cannot be zero address");
+        require(!decryptGrants[trackingId][account][field], "Access already granted");
+
+        decryptGrants[trackingId][account][field] = true;
+        fieldGrantees[trackingId][field].push(account);
+
+        if (field == EncryptedField.DeclaredValue) {
+            if (FHE.isInitialized(declaredValues[trackingId])) {
+                FHE.allow(declaredValues[trackingId], account);
+            }
+            emit DecryptAccessGranted(trackingId, account, field);
+            return;
+        }
+
+        if (field == EncryptedField.Telemetry) {
+            if (FHE.isInitialized(excursionCounts[trackingId])) {
+                FHE.allow(excursionCounts[trackingId], account);
+            }
+            SensorReading[] storage readings = sensorReadings[trackingId];
+            for (uint256 i = 0; i < readings.length; i++) {
+                FHE.allow(readings[i].temperature, account);
+                FHE.allow(readings[i].humidity, account);
+                FHE.allow(readings[i].excursion, account);
+            }
+            emit DecryptAccessGranted(trackingId, account, field);
+            return;
+        }
+
+        if (field == EncryptedField.Contents) {
+            _allowManifest(trackingId, account);
+            emit DecryptAccessGranted(trackingId, account, field);
+            return;
+        }
+
+        CargoEvent[] storage events = cargoEvents[trackingId];
+        for (uint256 i = 0; i < events.length; i++) {
+            if (FHE.isInitialized(events[i].encryptedWeight)) {
+                FHE.allow(events[i].encryptedWeight, account);
+            }
+        }
+
+        emit DecryptAccessGranted(trackingId, account, field);
+    }
+
+    /// @notice Revoke an account's decryption access to one encrypted field of a shipment
+    /// @dev ACL entries cannot be removed, so every handle of the field is re-encrypted to a fresh
+    ///      handle that only the contract, the creator and the remaining grantees may read.
+    ///      Gas grows with the number of events, manifest versions and readings on the shipment.
+    /// @param trackingId Shipment tracking ID
+    /// @param account Partner address
+    /// @param field Encrypted field to revoke
+    function revokeDecryptAccess(string memory trackingId, address account, EncryptedField field) external {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(shipments[trackingId].creator == msg.sender, "Only shipment creator can manage decrypt access");
+        require(decryptGrants[trackingId][account][field], "Access not granted");
+
+        decryptGrants[trackingId][account][field] = false;
+        address[] storage grantees = fieldGrantees[trackingId][field];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            if (grantees[i] == account) {
+                grantees[i] = grantees[grantees.length - 1];
+                grantees.pop();
+                break;
+            }
+        }
+
+        if (field == EncryptedField.DeclaredValue) {
+            if (FHE.isInitialized(declaredValues[trackingId])) {
+                euint64 mask = FHE.randEuint64();
+                euint64 fresh = FHE.xor(FHE.xor(declaredValues[trackingId], mask), mask);
+                _allowDeclaredValueReaders(trackingId, fresh);
+                declaredValues[trackingId] = fresh;
+            }
+            emit DecryptAccessRevoked(trackingId, account, field);
+            return;
+        }
+
+        if (field == EncryptedField.Telemetry) {
+            _reencryptTelemetry(trackingId);
+            emit DecryptAccessRevoked(trackingId, account, field);
+            return;
+        }
+
+        if (field == EncryptedField.Contents) {
+            ManifestVersion[] storage versions = manifests[trackingId];
+            for (uint256 i = 0; i < versions.length; i++) {
+                euint256[] storage contents = versions[i].encContents;
+                for (uint256 j = 0; j < contents.length; j++) {
+                    euint256 contentsMask = FHE.randEuint256();
+                    euint256 freshContents = FHE.xor(FHE.xor(contents[j], contentsMask), contentsMask);
+                    _allowContentsReaders(trackingId, freshContents);
+                    contents[j] = freshContents;
+                }
+            }
+            emit DecryptAccessRevoked(trackingId, account, field);
+            return;
+        }
+
+        CargoEvent[] storage events = cargoEvents[trackingId];
+        bytes32 declared = euint32.unwrap(declaredWeights[trackingId]);
+        for (uint256 i = 0; i < events.length; i++) {
+            if (FHE.isInitialized(events[i].encryptedWeight)) {
+                // XOR with a random mask twice yields the same value under a new handle
+                euint32 mask = FHE.randEuint32();
+                bytes32 previous = euint32.unwrap(events[i].encryptedWeight);
+                euint32 fresh = FHE.xor(FHE.xor(events[i].encryptedWeight, mask), mask);
+                _allowWeightReaders(trackingId, fresh);
+                events[i].encryptedWeight = fresh;
+                if (previous == declared) {
+                    declaredWeights[trackingId] = fresh;
+                }
+            }
+        }
+
+        emit DecryptAccessRevoked(trackingId, account, field);
+    }
+
+    /// @notice Re-encrypt every sensor reading and the excursion count of a shipment to fresh handles
+    /// @param trackingId Shipment tracking ID
+    function _reencryptTelemetry(string memory trackingId) internal {
+        if (FHE.isInitialized(excursionCounts[trackingId])) {
+            euint32 countMask = FHE.randEuint32();
+            euint32 count = FHE.xor(FHE.xor(excursionCounts[trackingId], countMask), countMask);
+            _allowExcursionCountReaders(trackingId, count);
+            excursionCounts[trackingId] = count;
+        }
+
+        SensorReading[] storage readings = sensorReadings[trackingId];
+        for (uint256 i = 0; i < readings.length; i++) {
+            euint16 mask = FHE.randEuint16();
+            ebool flagMask = FHE.randEbool();
+            readings[i].temperature = FHE.xor(FHE.xor(readings[i].temperature, mask), mask);
+            readings[i].humidity = FHE.xor(FHE.xor(readings[i].humidity, mask), mask);
+            readings[i].excursion = FHE.xor(FHE.xor(readings[i].excursion, flagMask), flagMask);
+            _allowTelemetryReaders(trackingId, readings[i]);
+        }
+    }
+
+    /// @notice Set the encrypted allowed range for cold-chain sensor readings
+    /// @dev Set right after creation; the range is locked once the first reading is recorded
+    /// @param trackingId Shipment tracking ID
+    /// @param encMinTemperature Encrypted minimum temperature in 0.1 °C, offset by +100 °C
+    /// @param encMaxTemperature Encrypted maximum temperature in 0.1 °C, offset by +100 °C
+    /// @param encMinHumidity Encrypted minimum relative humidity in 0.1 %
+    /// @param encMaxHumidity Encrypted maximum relative humidity in 0.1 %
+    /// @param inputProof Input proof shared by all four bounds
+    function setSensorRange(
+        string memory trackingId,
+        externalEuint16 encMinTemperature,
+        externalEuint16 encMaxTemperature,
+        externalEuint16 encMinHumidity,
+        externalEuint16 encMaxHumidity,
+        bytes calldata inputProof
+    ) external {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(shipments[trackingId].creator == msg.sender, "Only shipment creator can set sensor range");
+        require(sensorReadings[trackingId].length == 0, "Sensor range locked after first reading");
+
+        SensorRange storage range = sensorRanges[trackingId];
+        range.minTemperature = FHE.fromExternal(encMinTemperature, inputProof);
+        range.maxTemperature = FHE.fromExternal(encMaxTemperature, inputProof);
+        range.minHumidity = FHE.fromExternal(encMinHumidity, inputProof);
+        range.maxHumidity = FHE.fromExternal(encMaxHumidity, inputProof);
+        FHE.allowThis(range.minTemperature);
+        FHE.allowThis(range.maxTemperature);
+        FHE.allowThis(range.minHumidity);
+        FHE.allowThis(range.maxHumidity);
+
+        emit SensorRangeSet(trackingId, msg.sender);
+    }
+
+    /// @notice Record an encrypted cold-chain sensor reading and count it if it leaves the allowed range
+    /// @dev The range check runs under FHE; only the excursion flag and count reveal a breach, and
+    ///      only to the shipper, the reporter and telemetry grantees
+    /// @param trackingId Shipment tracking ID
+    /// @param encTemperature Encrypted temperature in 0.1 °C, offset by +100 °C (externalEuint16)
+    /// @param encHumidity Encrypted relative humidity in 0.1 % (externalEuint16)
+    /// @param inputProof Input proof shared by both readings
+    function addSensorReading(
+        string memory trackingId,
+        externalEuint16 encTemperature,
+        externalEuint16 encHumidity,
+        bytes calldata inputProof
+    ) external whenNotPaused(PauseScope.Events) {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(participantRoles[trackingId][msg.sender] != ParticipantRole.None, "Only shipment participants can add sensor readings");
+        SensorRange storage range = sensorRanges[trackingId];
+        require(FHE.isInitialized(range.maxTemperature), "Sensor range not set");
+
+        euint16 temperature = FHE.fromExternal(encTemperature, inputProof);
+        euint16 humidity = FHE.fromExternal(encHumidity, inputProof);
+        ebool excursion = FHE.or(
+            FHE.or(FHE.lt(temperature, range.minTemperature), FHE.gt(temperature, range.maxTemperature)),
+            FHE.or(FHE.lt(humidity, range.minHumidity), FHE.gt(humidity, range.maxHumidity))
+        );
+
+        euint32 count = FHE.add(excursionCounts[trackingId], FHE.asEuint32(excursion));
+        _allowExcursionCountReaders(trackingId, count);
+        FHE.allow(count, msg.sender);
+        excursionCounts[trackingId] = count;
+
+        uint256 readingIndex = sensorReadings[trackingId].length;
+        SensorReading storage reading = sensorReadings[trackingId].push();
+        reading.timestamp = block.timestamp;
+        reading.reporter = msg.sender;
+        reading.temperature = temperature;
+        reading.humidity = humidity;
+        reading.excursion = excursion;
+        _allowTelemetryReaders(trackingId, reading);
+        FHE.allow(temperature, msg.sender);
+        FHE.allow(humidity, msg.sender);
+        FHE.allow(excursion, msg.sender);
+
+        emit SensorReadingAdded(trackingId, readingIndex, msg.sender);
+    }
+
+    /// @notice Report an exception (damage, delay, ...) on a shipment
+    /// @param trackingId Shipment tracking ID
+    /// @param reason Standardized reason code
+    /// @param details Free-text details (public)
+    /// @return exceptionId ID of the new exception
+    function reportException(string memory trackingId, ExceptionReason reason, string memory details)
+        external
+        whenNotPaused(PauseScope.Events)
+        returns (uint256 exceptionId)
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(participantRoles[trackingId][msg.sender] != ParticipantRole.None, "Only shipment participants can report exceptions");
+        require(bytes(details).length > 0, "Details cannot be empty");
+
+        exceptionId = shipmentExceptions.length;
+        ShipmentException storage exception_ = shipmentExceptions.push();
+        exception_.id = exceptionId;
+        exception_.trackingId = trackingId;
+        exception_.reason = reason;
+        exception_.details = details;
+        exception_.reporter = msg.sender;
+        exception_.reportedAt = block.timestamp;
+        exception_.open = true;
+        exceptionIds[trackingId].push(exceptionId);
+        openExceptionCount++;
+
+        emit ExceptionReported(trackingId, exceptionId, msg.sender, reason);
+    }
+
+    /// @notice Close an open exception
+    /// @param trackingId Shipment tracking ID
+    /// @param exceptionId Exception ID
+    /// @param resolution Free-text resolution note (public)
+    function resolveException(string memory trackingId, uint256 exceptionId, string memory resolution)
+        external
+        whenNotPaused(PauseScope.Events)
+    {
+        require(exceptionId < shipmentExceptions.length, "Exception does not exist");
+        ShipmentException storage exception_ = shipmentExceptions[exceptionId];
+        require(keccak256(bytes(exception_.trackingId)) == keccak256(bytes(trackingId)), "Exception does not belong to shipment");
+        require(exception_.open, "Exception already resolved");
+        require(
+            msg.sender == shipments[trackingId].creator || msg.sender == exception_.reporter,
+            "Only the shipper or reporter can resolve an exception"
+        );
+
+        exception_.open = false;
+        exception_.resolver = msg.sender;
+        exception_.resolvedAt = block.timestamp;
+        exception_.resolution = resolution;
+        openExceptionCount--;
+
+        emit ExceptionResolved(trackingId, exceptionId, msg.sender);
+    }
+
+    /// @notice Set which roles may move shipments from one status to another
+    /// @param from Current status
+    /// @param to New status
+    /// @param roleMask Bitmask of allowed ParticipantRole values (bit i = role i, 0 disables the transition)
+    function setTransition(ShipmentStatus from, ShipmentStatus to, uint8 roleMask) external onlyOwner {
+        require(from != to, "Transition must change status");
+        require(roleMask & 1 == 0, "Role None cannot change status");
+        require(roleMask < uint8(1 << (uint8(type(ParticipantRole).max) + 1)), "Invalid role mask");
+
+        _setTransition(from, to, roleMask);
+    }
+
+    /// @notice Revise the estimated delivery of a shipment, keeping the previous ETA in the revision history
+    /// @dev The revised ETA becomes the committed ETA that isLate and SlaBreached are measured against.
+    ///      Revisions close once the committed ETA has passed, so a missed ETA cannot be moved to hide the breach.
+    /// @param trackingId Shipment tracking ID
+    /// @param newTimestamp New estimated delivery timestamp
+    /// @param reasonCode Standardized reason for the revision
+    function reviseEstimatedDelivery(string memory trackingId, uint256 newTimestamp, EtaRevisionReason reasonCode)
+        external
+        whenNotPaused(PauseScope.Status)
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        ParticipantRole role = participantRoles[trackingId][msg.sender];
+        require(
+            role == ParticipantRole.Shipper || role == ParticipantRole.Carrier,
+            "Only shipper or carrier can revise estimated delivery"
+        );
+        require(deliveredAt[trackingId] == 0, "Shipment already delivered");
+        require(newTimestamp > block.timestamp, "Estimated delivery must be in the future");
+        require(newTimestamp <= block.timestamp + 365 days, "Estimated delivery cannot be more than 1 year in the future");
+        uint256 previousEta = shipments[trackingId].estimatedDelivery;
+        require(block.timestamp <= previousEta, "Estimated delivery already passed");
+        require(newTimestamp != previousEta, "Estimated delivery unchanged");
+
+        etaRevisions[trackingId].push(EtaRevision({
+            previousEta: previousEta,
+            newEta: newTimestamp,
+            reason: reasonCode,
+            revisedBy: msg.sender,
+            revisedAt: block.timestamp
+        }));
+        shipments[trackingId].estimatedDelivery = newTimestamp;
+
+        emit EstimatedDeliveryRevised(trackingId, msg.sender, previousEta, newTimestamp, reasonCode);
+    }
+
+    /// @notice Let couriers submit the delivery PIN again once a shipment has used up its attempts
+    /// @dev Only the creator, who issued the PIN, can lift the cap, e.g. after checking with the consignee
+    /// @param trackingId Shipment tracking ID
+    function resetDeliveryAttempts(string memory trackingId) external {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(shipments[trackingId].creator == msg.sender, "Only shipment creator can reset delivery attempts");
+        require(deliveredAt[trackingId] == 0, "Shipment already delivered");
+
+        uint8 attempts = deliveryAttempts[trackingId];
+        delete deliveryAttempts[trackingId];
+
+        emit DeliveryAttemptsReset(trackingId, msg.sender, attempts);
+    }
+}
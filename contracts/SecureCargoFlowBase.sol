@@ -0,0 +1,617 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint16, euint32, externalEuint32, euint64, externalEuint64, euint256, externalEuint256} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title Secure Cargo Flow - Shared State
+/// @notice Storage layout, types, events and shared helpers of SecureCargoFlow
+/// @dev Inherited by SecureCargoFlow, SecureCargoFlowAdmin and SecureCargoFlowViews. The modules run via
+///      DELEGATECALL from SecureCargoFlow, so all three contracts must keep exactly this storage layout and
+///      declare no state variables of their own.
+abstract contract SecureCargoFlowBase {
+
+    /// @notice How long a submitted PIN blocks the shipment while waiting for the oracle; a later answer is ignored
+    uint256 internal constant DELIVERY_REQUEST_TIMEOUT = 1 hours;
+
+    /// @notice PINs that may be submitted per shipment before the creator has to reset the count
+    uint8 internal constant MAX_DELIVERY_ATTEMPTS = 5;
+
+    /// @notice Contract owner
+    address public owner;
+
+    /// @notice Account nominated to become owner, pending acceptance
+    address public pendingOwner;
+
+    /// @notice Whether any account may create shipments (public demo mode)
+    bool public openCreation;
+
+    /// @notice Guardian allowed to pause and unpause alongside the owner
+    address public guardian;
+
+    /// @notice Shipment status enum
+    enum ShipmentStatus {
+        Created,
+        InTransit,
+        CustomsClearance,
+        Arrived,
+        Delivered,
+        Exception,
+        Held,
+        Returned,
+        Cancelled,
+        Lost
+    }
+
+    /// @notice Function groups that can be paused independently
+    enum PauseScope {
+        Creation,
+        Events,
+        Status
+    }
+
+    /// @notice Participant role on a shipment
+    enum ParticipantRole {
+        None,
+        Shipper,
+        Carrier,
+        Customs,
+        Consignee
+    }
+
+    /// @notice Encrypted shipment field that can be shared with partners
+    enum EncryptedField {
+        Weight,
+        Contents,
+        DeclaredValue,
+        Telemetry
+    }
+
+    /// @notice Cargo event structure
+    struct CargoEvent {
+        uint256 eventId;
+        string trackingId;
+        uint256 timestamp;
+        string location;
+        ShipmentStatus status;
+        string description;
+        euint32 encryptedWeight;        // Encrypted weight in grams
+        uint256 manifestVersion;        // Manifest version current when recorded (0 = no manifest yet)
+        ebool weightDiscrepancy;        // Encrypted flag: measured weight outside tolerance
+    }
+
+    /// @notice One version of a shipment's encrypted manifest
+    struct ManifestVersion {
+        euint256[] encContents;         // Encrypted contents (UTF-8 packed 32 bytes per chunk)
+        string reason;                  // Public reason for the version
+        address amendedBy;
+        uint256 amendedAt;
+    }
+
+    /// @notice One shipment of a createShipmentsBatch call
+    struct ShipmentInput {
+        string trackingId;
+        string origin;
+        string destination;
+        uint256 estimatedDelivery;
+        externalEuint32 encPin;         // Encrypted delivery PIN
+        externalEuint64 encValue;       // Encrypted declared value, zero handle for an uninsured shipment
+        string currency;                // Currency of the declared value, ignored when uninsured
+    }
+
+    /// @notice One cargo event of an addCargoEventsBatch call
+    struct CargoEventInput {
+        string trackingId;
+        string location;
+        ShipmentStatus status;
+        string description;
+        externalEuint32 encWeight;      // Zero handle when the parcel was not weighed
+        externalEuint256[] encContents; // Initial manifest, first event only (may be empty)
+    }
+
+    /// @notice Cargo event signed off-chain by a shipment participant, submitted by any relayer
+    struct SignedCargoEvent {
+        string trackingId;
+        string location;
+        ShipmentStatus status;
+        string description;
+        externalEuint32 encWeight;      // Zero handle when the parcel was not weighed
+        externalEuint256[] encContents; // Initial manifest, first event only (may be empty)
+        address signer;                 // Participant recorded as the event creator
+        uint256 nonce;                  // Must equal nonces[signer]
+        uint256 deadline;               // Last timestamp at which the signature is accepted
+    }
+
+    /// @notice Standardized reason codes for shipment exceptions
+    enum ExceptionReason {
+        Damage,
+        Delay,
+        Documentation,
+        Weather,
+        Security
+    }
+
+    /// @notice Reported shipment exception and its resolution
+    struct ShipmentException {
+        uint256 id;
+        string trackingId;
+        ExceptionReason reason;
+        string details;
+        address reporter;
+        uint256 reportedAt;
+        bool open;
+        address resolver;
+        uint256 resolvedAt;
+        string resolution;
+    }
+
+    /// @notice Standardized reason codes for estimated delivery revisions
+    enum EtaRevisionReason {
+        CarrierDelay,
+        CustomsDelay,
+        Weather,
+        CustomerRequest,
+        Expedited,
+        Other
+    }
+
+    /// @notice One revision of a shipment's estimated delivery
+    struct EtaRevision {
+        uint256 previousEta;
+        uint256 newEta;
+        EtaRevisionReason reason;
+        address revisedBy;
+        uint256 revisedAt;
+    }
+
+    /// @notice Grouping of an aggregate statistic
+    enum StatKind {
+        Lane,
+        Month
+    }
+
+    /// @notice Encrypted aggregate over many shipments and its latest oracle-published cleartext
+    struct AggregateStat {
+        StatKind kind;
+        string origin;                  // Lane statistics only
+        string destination;             // Lane statistics only
+        uint32 month;                   // Month statistics only, as YYYYMM (UTC) of shipment creation
+        euint64 tonnage;                // Encrypted total declared weight in grams
+        uint32 shipments;               // Shipments counted in tonnage
+        uint32 requestedShipments;      // Shipments covered by the latest reveal request
+        uint64 revealedTonnage;         // Total declared weight in grams published by the oracle
+        uint32 revealedShipments;       // Shipments covered by revealedTonnage
+        uint256 revealedAt;
+    }
+
+    /// @notice Pending oracle decryption of aggregate statistics
+    struct StatsRequest {
+        bytes32[] statKeys;
+        uint32[] shipments;             // Shipment count of each statistic when requested
+    }
+
+    /// @notice Delivery waiting for the oracle to decrypt whether the submitted PIN matched
+    struct PendingDelivery {
+        string trackingId;
+        address courier;                // Participant that submitted the PIN
+    }
+
+    /// @notice Encrypted cold-chain sensor reading
+    struct SensorReading {
+        uint256 timestamp;
+        address reporter;
+        euint16 temperature;            // Encrypted temperature in 0.1 °C, offset by +100 °C
+        euint16 humidity;               // Encrypted relative humidity in 0.1 %
+        ebool excursion;                // Encrypted flag: reading outside the allowed range
+    }
+
+    /// @notice Encrypted allowed range for sensor readings (same units as SensorReading)
+    struct SensorRange {
+        euint16 minTemperature;
+        euint16 maxTemperature;
+        euint16 minHumidity;
+        euint16 maxHumidity;
+    }
+
+    /// @notice Chain-of-custody record
+    struct CustodyRecord {
+        address from;
+        address to;
+        uint256 timestamp;
+    }
+
+    /// @notice Shipment structure
+    struct Shipment {
+        string trackingId;
+        string origin;
+        string destination;
+        uint256 createdAt;
+        uint256 estimatedDelivery;
+        address creator;
+        bool exists;
+    }
+
+    /// @notice Roles allowed to move a shipment between two statuses, as a bitmask (bit i = ParticipantRole i)
+    mapping(ShipmentStatus => mapping(ShipmentStatus => uint8)) public transitionRoles;
+
+    /// @notice Mapping from tracking ID to shipment
+    mapping(string => Shipment) public shipments;
+
+    /// @notice Mapping from tracking ID to cargo events
+    mapping(string => CargoEvent[]) public cargoEvents;
+
+    /// @notice Mapping from tracking ID to event count
+    mapping(string => uint256) public eventCounts;
+
+    /// @notice Mapping from tracking ID to participant roles
+    mapping(string => mapping(address => ParticipantRole)) public participantRoles;
+
+    /// @notice Mapping from tracking ID to registered participant addresses
+    mapping(string => address[]) internal participantList;
+
+    /// @notice Mapping from tracking ID to participant position in participantList (1-based)
+    mapping(string => mapping(address => uint256)) internal participantIndex;
+
+    /// @notice Mapping from tracking ID to decryption grants per account and field
+    mapping(string => mapping(address => mapping(EncryptedField => bool))) public decryptGrants;
+
+    /// @notice Mapping from tracking ID to accounts granted decryption of a field
+    mapping(string => mapping(EncryptedField => address[])) internal fieldGrantees;
+
+    /// @notice Mapping from tracking ID to encrypted declared weight (grams, from the first weighed event)
+    mapping(string => euint32) internal declaredWeights;
+
+    /// @notice Mapping from tracking ID to encrypted weight tolerance (grams)
+    mapping(string => euint32) internal weightTolerances;
+
+    /// @notice Mapping from tracking ID to encrypted declared cargo value (minor currency units)
+    mapping(string => euint64) internal declaredValues;
+
+    /// @notice Mapping from tracking ID to ISO 4217 currency code of the declared value
+    mapping(string => string) public valueCurrencies;
+
+    /// @notice Mapping from tracking ID to encrypted allowed sensor range
+    mapping(string => SensorRange) internal sensorRanges;
+
+    /// @notice Mapping from tracking ID to encrypted sensor readings
+    mapping(string => SensorReading[]) internal sensorReadings;
+
+    /// @notice Mapping from tracking ID to encrypted count of out-of-range readings
+    mapping(string => euint32) internal excursionCounts;
+
+    /// @notice Encrypted manifest versions per shipment (version n is stored at index n - 1)
+    mapping(string => ManifestVersion[]) internal manifests;
+
+    /// @notice All reported exceptions, indexed by exception ID
+    ShipmentException[] internal shipmentExceptions;
+
+    /// @notice Mapping from tracking ID to the IDs of its exceptions
+    mapping(string => uint256[]) internal exceptionIds;
+
+    /// @notice Number of exceptions not yet resolved, across all shipments
+    uint256 public openExceptionCount;
+
+    /// @notice Mapping from tracking ID to proposed next custodian
+    mapping(string => address) public pendingCustodians;
+
+    /// @notice Mapping from tracking ID to chain-of-custody history
+    mapping(string => CustodyRecord[]) internal custodyHistory;
+
+    /// @notice Accounts allowed to create shipments when creation is not open
+    mapping(address => bool) public allowedShippers;
+
+    /// @notice Allowed shipper addresses
+    address[] internal shipperList;
+
+    /// @notice Position of an allowed shipper in shipperList (1-based)
+    mapping(address => uint256) internal shipperIndex;
+
+    /// @notice Pause state per function group
+    mapping(PauseScope => bool) public paused;
+
+    /// @notice Total shipment count
+    uint256 public totalShipments;
+
+    /// @notice Every tracking ID in creation order (global shipment index)
+    string[] internal shipmentIds;
+
+    /// @notice Tracking IDs held by each account: created by it or handed over to it through custody.
+    ///         Kept in creation order, except that a handover moves the account's last ID into the freed slot
+    mapping(address => string[]) internal creatorShipments;
+
+    /// @notice Next EIP-712 signature nonce of each account
+    mapping(address => uint256) public nonces;
+
+    /// @notice Mapping from tracking ID to encrypted delivery PIN, known to the shipper and consignee
+    mapping(string => euint32) internal deliveryPins;
+
+    /// @notice Mapping from tracking ID to encrypted proof of delivery (the latest submitted PIN matched)
+    mapping(string => ebool) internal deliveryProofs;
+
+    /// @notice Mapping from tracking ID to when the latest PIN was submitted (0 once the oracle answered it)
+    /// @dev Status changes are blocked until the oracle answers or DELIVERY_REQUEST_TIMEOUT passes (see _deliveryPending)
+    mapping(string => uint256) internal deliveryRequestedAt;
+
+    /// @notice Pending delivery confirmations by oracle request ID
+    mapping(uint256 => PendingDelivery) internal pendingDeliveries;
+
+    /// @notice Mapping from tracking ID to estimated delivery revisions, oldest first
+    mapping(string => EtaRevision[]) internal etaRevisions;
+
+    /// @notice Mapping from tracking ID to delivery timestamp (0 until delivered)
+    mapping(string => uint256) public deliveredAt;
+
+    /// @notice Aggregate statistics by key (see _laneStatKey and _monthStatKey)
+    mapping(bytes32 => AggregateStat) internal aggregateStats;
+
+    /// @notice Every aggregate statistic key, in first-seen order
+    bytes32[] internal statKeys;
+
+    /// @notice Pending aggregate reveal requests by oracle request ID
+    mapping(uint256 => StatsRequest) internal statsRequests;
+
+    /// @notice Encrypted total declared weight (grams) of each creator's shipments, readable only by the creator
+    mapping(address => euint64) internal creatorWeightTotals;
+
+    /// @notice Encrypted number of shipments each account has created, readable only by the creator
+    mapping(address => euint32) internal creatorShipmentCounts;
+
+    /// @notice Mapping from tracking ID to its 1-based position in creatorShipments of the current creator
+    mapping(string => uint256) internal creatorShipmentIndex;
+
+    /// @notice Mapping from tracking ID to the oracle request ID of the latest submitted PIN
+    mapping(string => uint256) internal deliveryRequestIds;
+
+    /// @notice Mapping from tracking ID to the number of PINs submitted since creation or the last reset
+    mapping(string => uint8) public deliveryAttempts;
+
+    /// @notice Whether the first statistics reveal has fixed the grouping that may be revealed
+    bool internal statsGroupingFixed;
+
+    /// @notice The only grouping whose statistics may be revealed once statsGroupingFixed is set
+    /// @dev Lane and month statistics count the same shipments, so totals of both could be differenced
+    StatKind internal statsGrouping;
+
+    /// @notice Events
+    /// @dev Shipment lifecycle events index trackingKey = keccak256(bytes(trackingId)), the same topic a
+    /// `string indexed` parameter produces, and repeat the plain tracking ID as data so log consumers can read it
+    event ShipmentCreated(bytes32 indexed trackingKey, address indexed creator, string trackingId, string origin, string destination, uint256 estimatedDelivery);
+    event CargoEventAdded(
+        bytes32 indexed trackingKey,
+        uint256 indexed eventId,
+        address indexed creator,
+        string trackingId,
+        string location,
+        ShipmentStatus status,
+        string description,
+        uint256 timestamp,
+        uint256 manifestVersion
+    );
+    event StatusUpdated(bytes32 indexed trackingKey, uint256 indexed eventId, address indexed creator, string trackingId, ShipmentStatus oldStatus, ShipmentStatus newStatus);
+    event CargoEventRelayed(bytes32 indexed trackingKey, uint256 indexed eventId, address indexed signer, string trackingId, address relayer);
+    event BatchItemFailed(uint256 indexed index, string trackingId, bytes reason);
+    event TransitionSet(ShipmentStatus indexed from, ShipmentStatus indexed to, uint8 roleMask);
+    event ParticipantAdded(string indexed trackingId, address indexed account, ParticipantRole role);
+    event ParticipantRemoved(string indexed trackingId, address indexed account, ParticipantRole role);
+    event DecryptAccessGranted(string indexed trackingId, address indexed account, EncryptedField field);
+    event DecryptAccessRevoked(string indexed trackingId, address indexed account, EncryptedField field);
+    event DeclaredValueSet(string indexed trackingId, address indexed creator, string currency);
+    event WeightToleranceSet(string indexed trackingId, address indexed creator);
+    event WeightReconciled(string indexed trackingId, uint256 indexed eventId, address indexed reporter);
+    event DeliveryRequested(string indexed trackingId, uint256 indexed requestId, address indexed courier);
+    event DeliveryConfirmed(string indexed trackingId, uint256 indexed eventId, address indexed courier);
+    event DeliveryRejected(string indexed trackingId, uint256 indexed requestId, address indexed courier);
+    event DeliveryExpired(string indexed trackingId, uint256 indexed requestId, address indexed courier);
+    event DeliveryAttemptsReset(string indexed trackingId, address indexed resetBy, uint8 attempts);
+    event EstimatedDeliveryRevised(string indexed trackingId, address indexed revisedBy, uint256 previousEta, uint256 newEta, EtaRevisionReason reason);
+    event SlaBreached(string indexed trackingId, uint256 indexed eventId, uint256 estimatedDelivery, uint256 timestamp);
+    event StatsRevealRequested(uint256 indexed requestId, bytes32[] statKeys);
+    event StatsRevealed(uint256 indexed requestId, bytes32[] statKeys);
+    event ManifestAmended(string indexed trackingId, uint256 indexed version, address indexed amendedBy, string reason);
+    event SensorRangeSet(string indexed trackingId, address indexed creator);
+    event SensorReadingAdded(string indexed trackingId, uint256 indexed readingIndex, address indexed reporter);
+    event ExceptionReported(string indexed trackingId, uint256 indexed exceptionId, address indexed reporter, ExceptionReason reason);
+    event ExceptionResolved(string indexed trackingId, uint256 indexed exceptionId, address indexed resolver);
+    event CustodyTransferProposed(string indexed trackingId, address indexed from, address indexed to);
+    event CustodyTransferCancelled(string indexed trackingId, address indexed from, address indexed to);
+    event CustodyTransferred(string indexed trackingId, address indexed from, address indexed to);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event ShipperAllowed(address indexed account);
+    event ShipperRemoved(address indexed account);
+    event OpenCreationSet(bool open);
+    event GuardianSet(address indexed previousGuardian, address indexed newGuardian);
+    event Paused(PauseScope indexed scope, address indexed account);
+    event Unpaused(PauseScope indexed scope, address indexed account);
+
+    /// @notice Modifier to restrict access to owner only
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner can call this function");
+        _;
+    }
+
+    /// @notice Modifier to restrict access to owner or guardian
+    modifier onlyOwnerOrGuardian() {
+        require(msg.sender == owner || (guardian != address(0) && msg.sender == guardian), "Only owner or guardian can call this function");
+        _;
+    }
+
+    /// @notice Modifier to block a function group while it is paused
+    modifier whenNotPaused(PauseScope scope) {
+        require(!paused[scope], "Function group is paused");
+        _;
+    }
+
+    /// @notice Store the roles allowed to perform a status transition
+    /// @param from Current status
+    /// @param to New status
+    /// @param roleMask Bitmask of allowed ParticipantRole values (0 disables the transition)
+    function _setTransition(ShipmentStatus from, ShipmentStatus to, uint8 roleMask) internal {
+        transitionRoles[from][to] = roleMask;
+        emit TransitionSet(from, to, roleMask);
+    }
+
+    /// @notice Aggregate statistic key of a lane
+    /// @param origin Lane origin
+    /// @param destination Lane destination
+    /// @return key Statistic key
+    function _laneStatKey(string memory origin, string memory destination) internal pure returns (bytes32 key) {
+        return keccak256(abi.encode(StatKind.Lane, origin, destination));
+    }
+
+    /// @notice Aggregate statistic key of a calendar month
+    /// @param month Month as YYYYMM
+    /// @return key Statistic key
+    function _monthStatKey(uint32 month) internal pure returns (bytes32 key) {
+        return keccak256(abi.encode(StatKind.Month, month));
+    }
+
+    /// @notice Convert status enum to string
+    /// @param status Status enum value
+    /// @return status as string
+    function _statusToString(ShipmentStatus status) internal pure returns (string memory) {
+        if (status == ShipmentStatus.Created) return "Created";
+        if (status == ShipmentStatus.InTransit) return "InTransit";
+        if (status == ShipmentStatus.CustomsClearance) return "CustomsClearance";
+        if (status == ShipmentStatus.Arrived) return "Arrived";
+        if (status == ShipmentStatus.Delivered) return "Delivered";
+        if (status == ShipmentStatus.Exception) return "Exception";
+        if (status == ShipmentStatus.Held) return "Held";
+        if (status == ShipmentStatus.Returned) return "Returned";
+        if (status == ShipmentStatus.Cancelled) return "Cancelled";
+        if (status == ShipmentStatus.Lost) return "Lost";
+        return "Unknown";
+    }
+
+    /// @notice Store a participant and append it to the participant list
+    /// @param trackingId Shipment tracking ID
+    /// @param account Participant address
+    /// @param role Participant role
+    function _addParticipant(string memory trackingId, address account, ParticipantRole role) internal {
+        participantRoles[trackingId][account] = role;
+        participantList[trackingId].push(account);
+        participantIndex[trackingId][account] = participantList[trackingId].length;
+
+        emit ParticipantAdded(trackingId, account, role);
+    }
+
+    /// @notice Clear a participant role and swap-remove it from the participant list
+    /// @param trackingId Shipment tracking ID
+    /// @param account Participant address
+    function _removeParticipant(string memory trackingId, address account) internal {
+        ParticipantRole role = participantRoles[trackingId][account];
+        address[] storage list = participantList[trackingId];
+        uint256 index = participantIndex[trackingId][account] - 1;
+        address last = list[list.length - 1];
+
+        list[index] = last;
+        participantIndex[trackingId][last] = index + 1;
+        list.pop();
+
+        delete participantIndex[trackingId][account];
+        delete participantRoles[trackingId][account];
+
+        emit ParticipantRemoved(trackingId, account, role);
+    }
+
+    /// @notice Allow the contract, the shipment creator and weight grantees on a weight handle
+    /// @param trackingId Shipment tracking ID
+    /// @param weight Encrypted weight handle
+    function _allowWeightReaders(string memory trackingId, euint32 weight) internal {
+        FHE.allowThis(weight);
+        FHE.allow(weight, shipments[trackingId].creator);
+        address[] storage grantees = fieldGrantees[trackingId][EncryptedField.Weight];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            FHE.allow(weight, grantees[i]);
+        }
+    }
+
+    /// @notice Allow the contract, the shipment creator and contents grantees on a contents chunk handle
+    /// @param trackingId Shipment tracking ID
+    /// @param contentsChunk Encrypted contents chunk handle
+    function _allowContentsReaders(string memory trackingId, euint256 contentsChunk) internal {
+        FHE.allowThis(contentsChunk);
+        FHE.allow(contentsChunk, shipments[trackingId].creator);
+        address[] storage grantees = fieldGrantees[trackingId][EncryptedField.Contents];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            FHE.allow(contentsChunk, grantees[i]);
+        }
+    }
+
+    /// @notice Allow the contract, the shipment creator and declared value grantees on a value handle
+    /// @param trackingId Shipment tracking ID
+    /// @param value Encrypted declared value handle
+    function _allowDeclaredValueReaders(string memory trackingId, euint64 value) internal {
+        FHE.allowThis(value);
+        FHE.allow(value, shipments[trackingId].creator);
+        address[] storage grantees = fieldGrantees[trackingId][EncryptedField.DeclaredValue];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            FHE.allow(value, grantees[i]);
+        }
+    }
+
+    /// @notice Allow the contract, the shipment creator and telemetry grantees on a sensor reading
+    /// @param trackingId Shipment tracking ID
+    /// @param reading Stored sensor reading
+    function _allowTelemetryReaders(string memory trackingId, SensorReading storage reading) internal {
+        address creator = shipments[trackingId].creator;
+        FHE.allowThis(reading.temperature);
+        FHE.allowThis(reading.humidity);
+        FHE.allowThis(reading.excursion);
+        FHE.allow(reading.temperature, creator);
+        FHE.allow(reading.humidity, creator);
+        FHE.allow(reading.excursion, creator);
+        address[] storage grantees = fieldGrantees[trackingId][EncryptedField.Telemetry];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            FHE.allow(reading.temperature, grantees[i]);
+            FHE.allow(reading.humidity, grantees[i]);
+            FHE.allow(reading.excursion, grantees[i]);
+        }
+    }
+
+    /// @notice Allow the contract, the shipment creator and telemetry grantees on the excursion count
+    /// @param trackingId Shipment tracking ID
+    /// @param count Encrypted excursion count handle
+    function _allowExcursionCountReaders(string memory trackingId, euint32 count) internal {
+        FHE.allowThis(count);
+        FHE.allow(count, shipments[trackingId].creator);
+        address[] storage grantees = fieldGrantees[trackingId][EncryptedField.Telemetry];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            FHE.allow(count, grantees[i]);
+        }
+    }
+
+    /// @notice Whether a submitted PIN is still waiting for the oracle and has not expired
+    /// @param trackingId Shipment tracking ID
+    function _deliveryPending(string memory trackingId) internal view returns (bool) {
+        uint256 requestedAt = deliveryRequestedAt[trackingId];
+        return requestedAt != 0 && block.timestamp <= requestedAt + DELIVERY_REQUEST_TIMEOUT;
+    }
+
+    /// @notice Allow the contract, the shipment creator and consignees on the delivery PIN
+    /// @param trackingId Shipment tracking ID
+    /// @param pin Encrypted delivery PIN handle
+    function _allowDeliveryPinReaders(string memory trackingId, euint32 pin) internal {
+        FHE.allowThis(pin);
+        FHE.allow(pin, shipments[trackingId].creator);
+        address[] storage accounts = participantList[trackingId];
+        for (uint256 i = 0; i < accounts.length; i++) {
+            if (participantRoles[trackingId][accounts[i]] == ParticipantRole.Consignee) {
+                FHE.allow(pin, accounts[i]);
+            }
+        }
+    }
+
+    /// @notice Allow the contract, the shipment creator and consignees on the proof of delivery
+    /// @param trackingId Shipment tracking ID
+    /// @param proof Encrypted proof-of-delivery handle
+    function _allowDeliveryProofReaders(string memory trackingId, ebool proof) internal {
+        FHE.allowThis(proof);
+        FHE.allow(proof, shipments[trackingId].creator);
+        address[] storage accounts = participantList[trackingId];
+        for (uint256 i = 0; i < accounts.length; i++) {
+            if (participantRoles[trackingId][accounts[i]] == ParticipantRole.Consignee) {
+                FHE.allow(proof, accounts[i]);
+            }
+        }
+    }
+}
@@ -0,0 +1,613 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint16, euint32, euint64, euint256} from "@fhevm/solidity/lib/FHE.sol";
+import {SecureCargoFlowBase} from "./SecureCargoFlowBase.sol";
+
+/// @title Secure Cargo Flow - Views Module
+/// @notice Read-only views: shipment records, participants, workflow, histories, pages and statistics,
+///         plus the oracle reveal of the aggregate statistics
+/// @dev Not used directly: SecureCargoFlowAdmin forwards selectors it does not implement here via
+///      DELEGATECALL, so every function reads SecureCargoFlow's storage. Split out to keep the core
+///      and admin contracts under the EIP-170 code size limit.
+contract SecureCargoFlowViews is SecureCargoFlowBase {
+
+    /// @notice Maximum number of entries returned by one page of a paged view
+    uint256 private constant MAX_PAGE_SIZE = 100;
+
+    /// @notice Shipments that must be added to a statistic between two reveals, so no reveal isolates a few weights
+    uint32 public constant MIN_STATS_SHIPMENTS = 3;
+
+    /// @notice Get complete shipment details including all events
+    /// @dev Returns every event; use getEventsPage for shipments with long histories
+    /// @param trackingId Shipment tracking ID
+    /// @return shipment Basic shipment info
+    /// @return events Array of all cargo events
+    /// @return eventCount Total number of events
+    function getShipmentDetails(string memory trackingId)
+        external
+        view
+        returns (
+            Shipment memory shipment,
+            CargoEvent[] memory events,
+            uint256 eventCount
+        )
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+
+        shipment = shipments[trackingId];
+        events = cargoEvents[trackingId];
+        eventCount = eventCounts[trackingId];
+    }
+
+    /// @notice Get shipment details
+    /// @param trackingId Shipment tracking ID
+    /// @return shipment Shipment struct
+    function getShipment(string memory trackingId) external view returns (Shipment memory) {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        return shipments[trackingId];
+    }
+
+    /// @notice Get cargo event count for a shipment
+    /// @param trackingId Shipment tracking ID
+    /// @return count Number of events
+    function getEventCount(string memory trackingId) external view returns (uint256) {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        return eventCounts[trackingId];
+    }
+
+    /// @notice Get encrypted weight for an event
+    /// @param trackingId Shipment tracking ID
+    /// @param eventIndex Event index
+    /// @return encryptedWeight Encrypted weight handle
+    function getEncryptedWeight(string memory trackingId, uint256 eventIndex)
+        external
+        view
+        returns (euint32)
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(eventIndex < cargoEvents[trackingId].length, "Event does not exist");
+        return cargoEvents[trackingId][eventIndex].encryptedWeight;
+    }
+
+    /// @notice Get the encrypted contents chunks of the manifest version an event points to
+    /// @dev Each chunk packs 32 UTF-8 bytes big-endian; the last chunk is zero-padded.
+    ///      Empty when the event was recorded before any manifest existed.
+    /// @param trackingId Shipment tracking ID
+    /// @param eventIndex Event index
+    /// @return contents Encrypted contents chunk handles
+    function getEncryptedContents(string memory trackingId, uint256 eventIndex)
+        external
+        view
+        returns (euint256[] memory contents)
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(eventIndex < cargoEvents[trackingId].length, "Event does not exist");
+        uint256 version = cargoEvents[trackingId][eventIndex].manifestVersion;
+        if (version == 0) {
+            return contents;
+        }
+        return manifests[trackingId][version - 1].encContents;
+    }
+
+    /// @notice Get public cargo event data (location, status, timestamp)
+    /// @param trackingId Shipment tracking ID
+    /// @param eventIndex Event index
+    /// @return eventId Event ID
+    /// @return timestamp Event timestamp
+    /// @return location Event location
+    /// @return status Event status
+    /// @return description Event description
+    function getCargoEventPublic(string memory trackingId, uint256 eventIndex)
+        external
+        view
+        returns (
+            uint256 eventId,
+            uint256 timestamp,
+            string memory location,
+            ShipmentStatus status,
+            string memory description
+        )
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(eventIndex < cargoEvents[trackingId].length, "Event does not exist");
+
+        CargoEvent memory event_ = cargoEvents[trackingId][eventIndex];
+        return (
+            event_.eventId,
+            event_.timestamp,
+            event_.location,
+            event_.status,
+            event_.description
+        );
+    }
+
+    /// @notice Get cargo event details
+    /// @param trackingId Shipment tracking ID
+    /// @param eventIndex Event index
+    /// @return eventId Event ID
+    /// @return timestamp Event timestamp
+    /// @return location Event location
+    /// @return status Event status
+    /// @return description Event description
+    function getCargoEvent(string memory trackingId, uint256 eventIndex)
+        external
+        view
+        returns (
+            uint256 eventId,
+            uint256 timestamp,
+            string memory location,
+            ShipmentStatus status,
+            string memory description
+        )
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(eventIndex < cargoEvents[trackingId].length, "Event does not exist");
+
+        CargoEvent memory event_ = cargoEvents[trackingId][eventIndex];
+        return (
+            event_.eventId,
+            event_.timestamp,
+            event_.location,
+            event_.status,
+            event_.description
+        );
+    }
+
+    /// @notice Get the encrypted weight discrepancy flag for an event
+    /// @dev Returns an uninitialized handle for events without a new weight measurement
+    /// @param trackingId Shipment tracking ID
+    /// @param eventIndex Event index
+    /// @return weightDiscrepancy Encrypted discrepancy flag handle
+    function getWeightDiscrepancy(string memory trackingId, uint256 eventIndex)
+        external
+        view
+        returns (ebool)
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(eventIndex < cargoEvents[trackingId].length, "Event does not exist");
+        return cargoEvents[trackingId][eventIndex].weightDiscrepancy;
+    }
+
+    /// @notice Get the encrypted declared value of a shipment
+    /// @dev Returns an uninitialized handle for shipments created without a declared value
+    /// @param trackingId Shipment tracking ID
+    /// @return declaredValue Encrypted declared value handle (minor currency units)
+    function getEncryptedDeclaredValue(string memory trackingId)
+        external
+        view
+        returns (euint64)
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        return declaredValues[trackingId];
+    }
+
+    /// @notice Get the number of sensor readings recorded for a shipment
+    /// @param trackingId Shipment tracking ID
+    /// @return count Number of sensor readings
+    function getSensorReadingCount(string memory trackingId) external view returns (uint256) {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        return sensorReadings[trackingId].length;
+    }
+
+    /// @notice Get an encrypted sensor reading
+    /// @param trackingId Shipment tracking ID
+    /// @param readingIndex Reading index
+    /// @return timestamp Reading timestamp
+    /// @return reporter Account that submitted the reading
+    /// @return temperature Encrypted temperature handle (0.1 °C, offset by +100 °C)
+    /// @return humidity Encrypted relative humidity handle (0.1 %)
+    /// @return excursion Encrypted out-of-range flag handle
+    function getSensorReading(string memory trackingId, uint256 readingIndex)
+        external
+        view
+        returns (uint256 timestamp, address reporter, euint16 temperature, euint16 humidity, ebool excursion)
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(readingIndex < sensorReadings[trackingId].length, "Reading does not exist");
+
+        SensorReading storage reading = sensorReadings[trackingId][readingIndex];
+        return (reading.timestamp, reading.reporter, reading.temperature, reading.humidity, reading.excursion);
+    }
+
+    /// @notice Get the encrypted number of out-of-range sensor readings
+    /// @dev Returns an uninitialized handle until the first reading is recorded
+    /// @param trackingId Shipment tracking ID
+    /// @return excursionCount Encrypted excursion count handle
+    function getExcursionCount(string memory trackingId) external view returns (euint32) {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        return excursionCounts[trackingId];
+    }
+
+    /// @notice Get the manifest version that was current when an event was recorded
+    /// @param trackingId Shipment tracking ID
+    /// @param eventIndex Event index
+    /// @return version Manifest version (0 if no manifest existed yet)
+    function getEventManifestVersion(string memory trackingId, uint256 eventIndex)
+        external
+        view
+        returns (uint256 version)
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(eventIndex < cargoEvents[trackingId].length, "Event does not exist");
+        return cargoEvents[trackingId][eventIndex].manifestVersion;
+    }
+
+    /// @notice Get the number of manifest versions of a shipment
+    /// @param trackingId Shipment tracking ID
+    /// @return count Number of versions (the latest version number)
+    function getManifestVersionCount(string memory trackingId) external view returns (uint256 count) {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        return manifests[trackingId].length;
+    }
+
+    /// @notice Get one version of a shipment's encrypted manifest
+    /// @param trackingId Shipment tracking ID
+    /// @param version Manifest version, starting at 1
+    /// @return contents Encrypted contents chunk handles
+    /// @return reason Public reason for the version
+    /// @return amendedBy Account that recorded the version
+    /// @return amendedAt Block timestamp of the version
+    function getManifestVersion(string memory trackingId, uint256 version)
+        external
+        view
+        returns (euint256[] memory contents, string memory reason, address amendedBy, uint256 amendedAt)
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        require(version > 0 && version <= manifests[trackingId].length, "Manifest version does not exist");
+        ManifestVersion storage manifest = manifests[trackingId][version - 1];
+        return (manifest.encContents, manifest.reason, manifest.amendedBy, manifest.amendedAt);
+    }
+
+    /// @notice Get one page of a shipment's cargo events, oldest first
+    /// @param trackingId Shipment tracking ID
+    /// @param offset Index of the first event to return
+    /// @param limit Maximum number of events to return (capped at MAX_PAGE_SIZE)
+    /// @return events Cargo events in [offset, offset + limit)
+    /// @return total Total number of events on the shipment
+    function getEventsPage(string memory trackingId, uint256 offset, uint256 limit)
+        external
+        view
+        returns (CargoEvent[] memory events, uint256 total)
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+
+        CargoEvent[] storage all = cargoEvents[trackingId];
+        total = all.length;
+        (uint256 start, uint256 end) = _pageBounds(total, offset, limit);
+        events = new CargoEvent[](end - start);
+        for (uint256 i = start; i < end; i++) {
+            events[i - start] = all[i];
+        }
+    }
+
+    /// @notice Get one page of the tracking IDs an account currently holds as creator
+    /// @dev Includes shipments handed over to the account and leaves out those it handed over
+    /// @param creator Shipment creator
+    /// @param offset Index of the first tracking ID to return
+    /// @param limit Maximum number of tracking IDs to return (capped at MAX_PAGE_SIZE)
+    /// @return trackingIds Tracking IDs in creation order, except that a handover moves the account's last ID
+    ///         into the slot it frees
+    /// @return total Total number of shipments the account holds
+    function getShipmentsByCreator(address creator, uint256 offset, uint256 limit)
+        external
+        view
+        returns (string[] memory trackingIds, uint256 total)
+    {
+        return _pageIds(creatorShipments[creator], offset, limit);
+    }
+
+    /// @notice Get one page of the global shipment index
+    /// @param offset Index of the first tracking ID to return
+    /// @param limit Maximum number of tracking IDs to return (capped at MAX_PAGE_SIZE)
+    /// @return trackingIds Tracking IDs in creation order
+    /// @return total Total number of shipments
+    function getShipmentIds(uint256 offset, uint256 limit)
+        external
+        view
+        returns (string[] memory trackingIds, uint256 total)
+    {
+        return _pageIds(shipmentIds, offset, limit);
+    }
+
+    /// @notice Copy one page of a tracking ID list into memory
+    /// @param ids Stored tracking IDs
+    /// @param offset Index of the first tracking ID to return
+    /// @param limit Maximum number of tracking IDs to return
+    /// @return page Tracking IDs in [offset, offset + limit)
+    /// @return total Length of the stored list
+    function _pageIds(string[] storage ids, uint256 offset, uint256 limit)
+        internal
+        view
+        returns (string[] memory page, uint256 total)
+    {
+        total = ids.length;
+        (uint256 start, uint256 end) = _pageBounds(total, offset, limit);
+        page = new string[](end - start);
+        for (uint256 i = start; i < end; i++) {
+            page[i - start] = ids[i];
+        }
+    }
+
+    /// @notice Clamp a requested page to the list length and MAX_PAGE_SIZE
+    /// @dev An offset past the end yields an empty page rather than a revert
+    /// @param total List length
+    /// @param offset Requested first index
+    /// @param limit Requested page size
+    /// @return start First index of the page
+    /// @return end One past the last index of the page
+    function _pageBounds(uint256 total, uint256 offset, uint256 limit)
+        internal
+        pure
+        returns (uint256 start, uint256 end)
+    {
+        if (limit > MAX_PAGE_SIZE) {
+            limit = MAX_PAGE_SIZE;
+        }
+        start = offset < total ? offset : total;
+        end = total - start > limit ? start + limit : total;
+    }
+
+    /// @notice Get shipment history summary
+    /// @param trackingId Shipment tracking ID
+    /// @return locations Array of locations visited
+    /// @return statuses Array of status changes
+    /// @return timestamps Array of event timestamps
+    function getShipmentHistory(string memory trackingId)
+        external
+        view
+        returns (
+            string[] memory locations,
+            ShipmentStatus[] memory statuses,
+            uint256[] memory timestamps
+        )
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+
+        uint256 count = cargoEvents[trackingId].length;
+        locations = new string[](count);
+        statuses = new ShipmentStatus[](count);
+        timestamps = new uint256[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            CargoEvent memory event_ = cargoEvents[trackingId][i];
+            locations[i] = event_.location;
+            statuses[i] = event_.status;
+            timestamps[i] = event_.timestamp;
+        }
+    }
+
+    /// @notice Get all allowed shippers
+    /// @return shippers Allowed shipper addresses
+    function getAllowedShippers() external view returns (address[] memory shippers) {
+        return shipperList;
+    }
+
+    /// @notice Get all exceptions reported on a shipment, open and resolved
+    /// @param trackingId Shipment tracking ID
+    /// @return exceptions Exceptions in reporting order
+    function getExceptions(string memory trackingId) external view returns (ShipmentException[] memory exceptions) {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+
+        uint256[] storage ids = exceptionIds[trackingId];
+        exceptions = new ShipmentException[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            exceptions[i] = shipmentExceptions[ids[i]];
+        }
+    }
+
+    /// @notice Get every open exception across all shipments
+    /// @dev Intended for off-chain monitoring; iterates over all exceptions ever reported
+    /// @return exceptions Open exceptions in reporting order
+    function getOpenExceptions() external view returns (ShipmentException[] memory exceptions) {
+        exceptions = new ShipmentException[](openExceptionCount);
+        uint256 found = 0;
+        for (uint256 i = 0; i < shipmentExceptions.length && found < exceptions.length; i++) {
+            if (shipmentExceptions[i].open) {
+                exceptions[found++] = shipmentExceptions[i];
+            }
+        }
+    }
+
+    /// @notice Get the status workflow: status names and the full transition table
+    /// @return statusNames Status names indexed by ShipmentStatus value
+    /// @return roleMasks Allowed role bitmask for every transition, indexed [from][to]
+    function getWorkflow() external view returns (string[] memory statusNames, uint8[][] memory roleMasks) {
+        uint256 count = uint256(type(ShipmentStatus).max) + 1;
+        statusNames = new string[](count);
+        roleMasks = new uint8[][](count);
+        for (uint256 i = 0; i < count; i++) {
+            statusNames[i] = _statusToString(ShipmentStatus(i));
+            roleMasks[i] = new uint8[](count);
+            for (uint256 j = 0; j < count; j++) {
+                roleMasks[i][j] = transitionRoles[ShipmentStatus(i)][ShipmentStatus(j)];
+            }
+        }
+    }
+
+    /// @notice Get all participants registered on a shipment
+    /// @param trackingId Shipment tracking ID
+    /// @return accounts Participant addresses
+    /// @return roles Participant roles (same order as accounts)
+    function getParticipants(string memory trackingId)
+        external
+        view
+        returns (address[] memory accounts, ParticipantRole[] memory roles)
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+
+        accounts = participantList[trackingId];
+        roles = new ParticipantRole[](accounts.length);
+        for (uint256 i = 0; i < accounts.length; i++) {
+            roles[i] = participantRoles[trackingId][accounts[i]];
+        }
+    }
+
+    /// @notice Get the accounts granted decryption access to a field of a shipment
+    /// @param trackingId Shipment tracking ID
+    /// @param field Encrypted field
+    /// @return grantees Granted addresses
+    function getDecryptGrantees(string memory trackingId, EncryptedField field)
+        external
+        view
+        returns (address[] memory)
+    {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        return fieldGrantees[trackingId][field];
+    }
+
+    /// @notice Get the chain-of-custody history of a shipment
+    /// @dev The first record (from the zero address) marks shipment creation
+    /// @param trackingId Shipment tracking ID
+    /// @return history Custody records in chronological order
+    function getCustodyHistory(string memory trackingId) external view returns (CustodyRecord[] memory) {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        return custodyHistory[trackingId];
+    }
+
+    /// @notice Get one page of the aggregate statistics, in first-seen order
+    /// @dev tonnage is an encrypted handle only the contract can use; revealedTonnage is the latest published value
+    /// @param offset Index of the first statistic to return
+    /// @param limit Maximum number of statistics to return (capped at MAX_PAGE_SIZE)
+    /// @return keys Statistic keys, as passed to requestStatsReveal
+    /// @return stats Statistics in the same order as keys
+    /// @return total Total number of statistics
+    function getAggregateStats(uint256 offset, uint256 limit)
+        external
+        view
+        returns (bytes32[] memory keys, AggregateStat[] memory stats, uint256 total)
+    {
+        total = statKeys.length;
+        (uint256 start, uint256 end) = _pageBounds(total, offset, limit);
+        keys = new bytes32[](end - start);
+        stats = new AggregateStat[](end - start);
+        for (uint256 i = start; i < end; i++) {
+            keys[i - start] = statKeys[i];
+            stats[i - start] = aggregateStats[statKeys[i]];
+        }
+    }
+
+    /// @notice Ask the decryption oracle to publish aggregate statistics as cleartext
+    /// @dev Only the aggregate handles are made decryptable. Each statistic needs MIN_STATS_SHIPMENTS more
+    ///      shipments than at its previous request, so the difference of two reveals never exposes fewer weights.
+    ///      A lane and a month total share shipments, so the first request fixes the grouping for good: only
+    ///      statistics of the same kind as its first key can ever be revealed (see getStatsGrouping).
+    /// @param keys Statistic keys (see getAggregateStats)
+    /// @return requestId Oracle request ID, fulfilled through onStatsRevealed
+    function requestStatsReveal(bytes32[] calldata keys) external onlyOwner returns (uint256 requestId) {
+        require(keys.length > 0, "No statistics requested");
+        if (!statsGroupingFixed) {
+            statsGroupingFixed = true;
+            statsGrouping = aggregateStats[keys[0]].kind;
+        }
+
+        bytes32[] memory handles = new bytes32[](keys.length);
+        uint32[] memory counts = new uint32[](keys.length);
+        for (uint256 i = 0; i < keys.length; i++) {
+            AggregateStat storage stat = aggregateStats[keys[i]];
+            require(stat.shipments > 0, "Statistic does not exist");
+            require(stat.kind == statsGrouping, "Only one grouping can be revealed");
+            require(stat.shipments >= stat.requestedShipments + MIN_STATS_SHIPMENTS, "Too few new shipments to reveal");
+            stat.requestedShipments = stat.shipments;
+            handles[i] = FHE.toBytes32(stat.tonnage);
+            counts[i] = stat.shipments;
+        }
+
+        requestId = FHE.requestDecryption(handles, this.onStatsRevealed.selector);
+        statsRequests[requestId] = StatsRequest({statKeys: keys, shipments: counts});
+
+        emit StatsRevealRequested(requestId, keys);
+    }
+
+    /// @notice Get the grouping whose statistics may be revealed
+    /// @return locked False until the first reveal request, when either grouping may still be chosen
+    /// @return kind Revealable grouping (meaningful once locked)
+    function getStatsGrouping() external view returns (bool locked, StatKind kind) {
+        return (statsGroupingFixed, statsGrouping);
+    }
+
+    /// @notice Decryption oracle callback publishing the requested aggregates
+    /// @param requestId Oracle request ID
+    /// @param cleartexts Decrypted totals, one 32-byte word per requested statistic
+    /// @param decryptionProof KMS signatures over the cleartexts
+    function onStatsRevealed(uint256 requestId, bytes calldata cleartexts, bytes calldata decryptionProof) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        StatsRequest storage request = statsRequests[requestId];
+        bytes32[] memory keys = request.statKeys;
+        require(keys.length > 0, "Unknown stats request");
+        for (uint256 i = 0; i < keys.length; i++) {
+            AggregateStat storage stat = aggregateStats[keys[i]];
+            // A later request may have been fulfilled first
+            if (request.shipments[i] > stat.revealedShipments) {
+                stat.revealedTonnage = uint64(uint256(bytes32(cleartexts[i * 32:(i + 1) * 32])));
+                stat.revealedShipments = request.shipments[i];
+                stat.revealedAt = block.timestamp;
+            }
+        }
+        delete statsRequests[requestId];
+
+        emit StatsRevealed(requestId, keys);
+    }
+
+    /// @notice Get the estimated delivery revisions of a shipment
+    /// @dev The first revision's previousEta is the ETA committed at creation
+    /// @param trackingId Shipment tracking ID
+    /// @return revisions Revisions in chronological order
+    function getEtaRevisions(string memory trackingId) external view returns (EtaRevision[] memory revisions) {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        return etaRevisions[trackingId];
+    }
+
+    /// @notice Whether a shipment missed its committed (latest revised) ETA
+    /// @dev Delivered shipments compare the delivery time; cancelled shipments are never late
+    /// @param trackingId Shipment tracking ID
+    /// @return late True when delivered after the ETA, or still undelivered past it
+    function isLate(string memory trackingId) external view returns (bool late) {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+
+        uint256 eta = shipments[trackingId].estimatedDelivery;
+        uint256 delivered = deliveredAt[trackingId];
+        if (delivered != 0) {
+            return delivered > eta;
+        }
+        CargoEvent[] storage events = cargoEvents[trackingId];
+        if (events.length > 0 && events[events.length - 1].status == ShipmentStatus.Cancelled) {
+            return false;
+        }
+        return block.timestamp > eta;
+    }
+
+    /// @notice Get the encrypted running totals of an account's shipments
+    /// @dev Only the account itself can decrypt them; weights count once their first weighed event declares them.
+    ///      A custody handover moves the shipment's count and declared weight to the new custodian.
+    /// @param creator Shipment creator
+    /// @return totalWeight Encrypted total declared weight in grams (zero handle before the first declared weight)
+    /// @return shipmentCount Encrypted number of shipments created (zero handle before the first shipment)
+    function getCreatorTotals(address creator) external view returns (euint64 totalWeight, euint32 shipmentCount) {
+        return (creatorWeightTotals[creator], creatorShipmentCounts[creator]);
+    }
+
+    /// @notice Get the delivery PIN of a shipment
+    /// @param trackingId Shipment tracking ID
+    /// @return pin Encrypted PIN, readable by the creator and consignees (zero handle if not set)
+    function getDeliveryPin(string memory trackingId) external view returns (euint32 pin) {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        return deliveryPins[trackingId];
+    }
+
+    /// @notice Get the proof of delivery of a shipment
+    /// @param trackingId Shipment tracking ID
+    /// @return proof Encrypted flag, true when the submitted PIN matched (zero handle before delivery)
+    function getDeliveryProof(string memory trackingId) external view returns (ebool proof) {
+        require(shipments[trackingId].exists, "Shipment does not exist");
+        return deliveryProofs[trackingId];
+    }
+
+    /// @notice Whether a submitted PIN is waiting for the oracle; status changes are blocked meanwhile
+    /// @dev Turns false once the oracle answers or the request expires, whichever comes first
+    /// @param trackingId Shipment tracking ID
+    function deliveryPending(string memory trackingId) external view returns (bool) {
+        return _deliveryPending(trackingId);
+    }
+}
@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint8, externalEuint8, euint256, externalEuint256} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @title Contents layout benchmark
+/// @notice Test-only contract comparing the former one-handle-per-byte contents layout with packed chunks
+/// @dev Both functions import, permission and store handles the way SecureCargoFlow does; not deployed
+contract ContentsLayoutBenchmark is SepoliaConfig {
+    mapping(string => euint8[]) private byteContents;
+    mapping(string => euint256[]) private packedContents;
+
+    /// @notice Store contents as one encrypted byte per handle (layout used before packing)
+    /// @param key Storage key
+    /// @param encContentsBytes Encrypted contents bytes (externalEuint8[])
+    /// @param inputProof Input proof for contents
+    function storeBytes(string memory key, externalEuint8[] calldata encContentsBytes, bytes calldata inputProof)
+        external
+    {
+        for (uint256 i = 0; i < encContentsBytes.length; i++) {
+            euint8 b = FHE.fromExternal(encContentsBytes[i], inputProof);
+            FHE.allowThis(b);
+            FHE.allow(b, msg.sender);
+            byteContents[key].push(b);
+        }
+    }
+
+    /// @notice Store contents packed 32 bytes per encrypted chunk (current layout)
+    /// @param key Storage key
+    /// @param encContents Encrypted contents chunks (externalEuint256[])
+    /// @param inputProof Input proof for contents
+    function storePacked(string memory key, externalEuint256[] calldata encContents, bytes calldata inputProof)
+        external
+    {
+        for (uint256 i = 0; i < encContents.length; i++) {
+            euint256 chunk = FHE.fromExternal(encContents[i], inputProof);
+            FHE.allowThis(chunk);
+            FHE.allow(chunk, msg.sender);
+            packedContents[key].push(chunk);
+        }
+    }
+
+    /// @notice Get the byte-layout handles stored under a key
+    /// @param key Storage key
+    /// @return contents Encrypted byte handles
+    function getBytes(string memory key) external view returns (euint8[] memory contents) {
+        return byteContents[key];
+    }
+
+    /// @notice Get the packed-layout handles stored under a key
+    /// @param key Storage key
+    /// @return contents Encrypted chunk handles
+    function getPacked(string memory key) external view returns (euint256[] memory contents) {
+        return packedContents[key];
+    }
+}
@@ -1,4 +1,5 @@
 import { DeployFunction } from "hardhat-deploy/types";
+import { vars } from "hardhat/config";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
@@ -8,14 +9,47 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const chainId = await hre.getChainId();
   console.log(`Deploying to network with chainId: ${chainId}`);
 
-  const deployedSecureCargoFlow = await deploy("SecureCargoFlow", {
+  // Admin functions and bulky views live in modules: SecureCargoFlow delegates to the admin module,
+  // which delegates the views onwards
+  const deployedViewsModule = await deploy("SecureCargoFlowViews", {
     from: deployer,
     log: true,
     args: [],
   });
 
+  const deployedAdminModule = await deploy("SecureCargoFlowAdmin", {
+    from: deployer,
+    log: true,
+    args: [deployedViewsModule.address],
+  });
+
+  const deployedSecureCargoFlow = await deploy("SecureCargoFlow", {
+    from: deployer,
+    log: true,
+    args: [deployedAdminModule.address],
+  });
+
   console.log(`SecureCargoFlow contract deployed at: ${deployedSecureCargoFlow.address}`);
 
+  // SecureCargoFlow starts with creation restricted to the allowlist. Local nodes open it so the demo tasks and
+  // the UI work with any account; elsewhere it stays closed unless OPEN_CREATION is set to "true"
+  // (npx hardhat vars set OPEN_CREATION true), and the deployer is allowlisted instead.
+  if (deployedSecureCargoFlow.newlyDeployed) {
+    const openCreation = chainId === "31337" || vars.get("OPEN_CREATION", "false") === "true";
+    const adminModule = await hre.ethers.getContractAt(
+      "SecureCargoFlowAdmin",
+      deployedSecureCargoFlow.address,
+      await hre.ethers.getSigner(deployer)
+    );
+    if (openCreation) {
+      await (await adminModule.setOpenCreation(true)).wait();
+      console.log("Shipment creation: open to any account");
+    } else {
+      await (await adminModule.addAllowedShipper(deployer)).wait();
+      console.log(`Shipment creation: allowlist only, with ${deployer} allowed (add more with task:add-shipper)`);
+    }
+  }
+
   if (chainId === "31337") {
     console.log("Local Hardhat network detected - contracts ready for testing");
   } else if (chainId === "11155111") {
@@ -11,6 +11,8 @@ import "solidity-coverage";
 
 import "./tasks/accounts";
 import "./tasks/SecureCargoFlow";
+import "./tasks/relayer";
+import "./tasks/watch";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
 
@@ -1,6 +1,9 @@
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { Interface, Log } from "ethers";
+import * as fs from "fs";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { cargoTask, connectTask, parseIndex, resolveStatus, waitForTx, type TaskContext } from "./cli";
 
 /**
  * Tutorial: Deploy and Interact Locally (--network localhost)
@@ -16,9 +19,12 @@ import type { TaskArguments } from "hardhat/types";
  *
  * 3. Interact with the SecureCargoFlow contract
  *
- *   npx hardhat --network localhost task:create-shipment --trackingId CARGO-001 --origin "Shanghai Port" --destination "Los Angeles Port"
- *   npx hardhat --network localhost task:add-event --trackingId CARGO-001 --location "Shanghai Port, China" --weight 2500
- *   npx hardhat --network localhost task:decrypt-weight --trackingId CARGO-001 --eventIndex 0
+ *   npx hardhat --network localhost task:create-shipment --tracking-id CARGO-001 --origin "Shanghai Port" --destination "Los Angeles Port" --pin 482913
+ *   npx hardhat --network localhost task:add-event --tracking-id CARGO-001 --location "Shanghai Port, China" --weight 2500 --contents "40 cartons"
+ *   npx hardhat --network localhost task:update-status --tracking-id CARGO-001 --status InTransit
+ *   npx hardhat --network localhost task:decrypt-weight --tracking-id CARGO-001 --event-index 0
+ *   npx hardhat --network localhost task:decrypt-contents --tracking-id CARGO-001 --event-index 0
+ *   npx hardhat --network localhost task:history --tracking-id CARGO-001
  *
  *
  * Tutorial: Deploy and Interact on Sepolia (--network sepolia)
@@ -30,10 +36,12 @@ import type { TaskArguments } from "hardhat/types";
  *
  * 2. Interact with the SecureCargoFlow contract
  *
- *   npx hardhat --network sepolia task:create-shipment --trackingId CARGO-001 --origin "Shanghai Port" --destination "Los Angeles Port"
- *   npx hardhat --network sepolia task:add-event --trackingId CARGO-001 --location "Shanghai Port, China" --weight 2500
- *   npx hardhat --network sepolia task:decrypt-weight --trackingId CARGO-001 --eventIndex 0
+ *   npx hardhat --network sepolia task:create-shipment --tracking-id CARGO-001 --origin "Shanghai Port" --destination "Los Angeles Port" --pin 482913
+ *   npx hardhat --network sepolia task:add-event --tracking-id CARGO-001 --location "Shanghai Port, China" --weight 2500
+ *   npx hardhat --network sepolia task:decrypt-weight --tracking-id CARGO-001 --event-index 0
+ *   npx hardhat --network sepolia task:decrypt-contents --tracking-id CARGO-001 --event-index 0
  *
+ * Every task except task:address takes --address, --signer <account index> and --json (see ./cli.ts).
  */
 
 /**
@@ -41,232 +49,2709 @@ import type { TaskArguments } from "hardhat/types";
  *   - npx hardhat --network localhost task:address
  *   - npx hardhat --network sepolia task:address
  */
-task("task:address", "Prints the SecureCargoFlow address").setAction(
-  async function (_taskArguments: TaskArguments, hre) {
+task("task:address", "Prints the SecureCargoFlow address")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
     const { deployments, getChainId } = hre;
 
     const chainId = await getChainId();
     const secureCargoFlow = await deployments.get("SecureCargoFlow");
 
+    if (taskArguments.json) {
+      console.log(JSON.stringify({ chainId: Number(chainId), address: secureCargoFlow.address }, null, 2));
+      return;
+    }
     console.log(`Network Chain ID: ${chainId}`);
     console.log(`SecureCargoFlow contract address: ${secureCargoFlow.address}`);
-  }
-);
+  });
 
 /**
  * Example:
- *   - npx hardhat --network localhost task:create-shipment --trackingId CARGO-001 --origin "Shanghai Port" --destination "Los Angeles Port"
+ *   - npx hardhat --network localhost task:create-shipment --tracking-id CARGO-001 --origin "Shanghai Port" --destination "Los Angeles Port" --pin 482913
+ *   - npx hardhat --network localhost task:create-shipment --tracking-id CARGO-002 --origin Rotterdam --destination "New York" --days 14 --pin 482913 --json
  */
-task("task:create-shipment", "Creates a new shipment")
-  .addOptionalParam("address", "Optionally specify the SecureCargoFlow contract address")
+cargoTask("task:create-shipment", "Creates a new shipment with its encrypted delivery PIN")
   .addParam("trackingId", "Tracking ID for the shipment")
   .addParam("origin", "Origin location")
   .addParam("destination", "Destination location")
+  .addParam("pin", "Delivery PIN the consignee hands to the courier (4 to 9 digits, will be encrypted)")
+  .addOptionalParam("days", "Estimated delivery in days from now", "7")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments } = hre;
+    const { ethers, fhevm } = hre;
 
-    const SecureCargoFlowDeployment = taskArguments.address
-      ? { address: taskArguments.address }
-      : await deployments.get("SecureCargoFlow");
-    console.log(`SecureCargoFlow: ${SecureCargoFlowDeployment.address}`);
+    const days = Number(taskArguments.days);
+    if (!(days > 0) || days > 365) {
+      throw new Error(`Argument --days must be between 0 and 365`);
+    }
+    if (!/^[1-9]\d{3,8}$/.test(taskArguments.pin)) {
+      throw new Error(`Argument --pin must be 4 to 9 digits and cannot start with 0`);
+    }
 
-    const signers = await ethers.getSigners();
-    const secureCargoFlowContract = await ethers.getContractAt(
-      "SecureCargoFlow",
-      SecureCargoFlowDeployment.address
-    );
+    await fhevm.initializeCLIApi();
 
-    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7; // 7 days from now
+    const context = await connectTask(hre, taskArguments);
+    const secureCargoFlowContract = await ethers.getContractAt("SecureCargoFlow", context.address, context.signer);
 
-    const tx = await secureCargoFlowContract
-      .connect(signers[0])
-      .createShipment(
+    // Relative to the chain clock, which differs from the wall clock after time travel on local nodes
+    const latest = await ethers.provider.getBlock("latest");
+    const estimatedDelivery = (latest?.timestamp ?? Math.floor(Date.now() / 1000)) + Math.round(86400 * days);
+
+    const encryptedPin = await fhevm
+      .createEncryptedInput(context.address, context.signer.address)
+      .add32(parseInt(taskArguments.pin))
+      .encrypt();
+    const created = await waitForTx(
+      context,
+      await secureCargoFlowContract.createShipment(
         taskArguments.trackingId,
         taskArguments.origin,
         taskArguments.destination,
-        estimatedDelivery
-      );
-    console.log(`Wait for tx:${tx.hash}...`);
-
-    const receipt = await tx.wait();
-    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+        estimatedDelivery,
+        encryptedPin.handles[0],
+        encryptedPin.inputProof
+      )
+    );
+    context.log(`Shipment ${taskArguments.trackingId} created successfully!`);
 
-    console.log(`Shipment ${taskArguments.trackingId} created successfully!`);
+    context.done({
+      trackingId: taskArguments.trackingId,
+      origin: taskArguments.origin,
+      destination: taskArguments.destination,
+      estimatedDelivery,
+      creator: context.signer.address,
+      transaction: created.summary,
+    });
   });
 
+/**
+ * Check a status change against the contract workflow before paying for a reverting transaction
+ */
+function checkTransition(statusNames: string[], roleMasks: bigint[][], from: number, to: number) {
+  if (from !== to && Number(roleMasks[from][to]) === 0) {
+    const allowed = statusNames.filter((_: string, next: number) => Number(roleMasks[from][next]) !== 0);
+    throw new Error(
+      `Transition ${statusNames[from]} -> ${statusNames[to]} is not allowed; ` +
+        `next statuses: ${allowed.join(", ") || "none"}`
+    );
+  }
+}
+
+// Contents are encrypted as UTF-8 packed 32 bytes per euint256 chunk, at most 7 chunks per event
+const CONTENTS_CHUNK_BYTES = 32;
+const MAX_CONTENTS_BYTES = CONTENTS_CHUNK_BYTES * 7;
+
+/**
+ * Pack a contents string into big-endian 256-bit words, zero-padding the last one
+ */
+function packContents(contents: string): bigint[] {
+  const bytes = Buffer.from(contents, "utf8");
+  if (bytes.length > MAX_CONTENTS_BYTES) {
+    throw new Error(`Argument --contents must be at most ${MAX_CONTENTS_BYTES} bytes`);
+  }
+  const chunks: bigint[] = [];
+  for (let offset = 0; offset < bytes.length; offset += CONTENTS_CHUNK_BYTES) {
+    const chunk = Buffer.alloc(CONTENTS_CHUNK_BYTES);
+    bytes.copy(chunk, 0, offset, offset + CONTENTS_CHUNK_BYTES);
+    chunks.push(BigInt(`0x${chunk.toString("hex")}`));
+  }
+  return chunks;
+}
+
+/**
+ * Decode decrypted contents chunks back into a string, dropping the zero padding
+ */
+function unpackContents(chunks: bigint[]): string {
+  const bytes = Buffer.concat(chunks.map((chunk) => Buffer.from(chunk.toString(16).padStart(64, "0"), "hex")));
+  let end = bytes.length;
+  while (end > 0 && bytes[end - 1] === 0) {
+    end--;
+  }
+  return bytes.subarray(0, end).toString("utf8");
+}
+
+/**
+ * Decrypt euint256 contents chunks for the task signer
+ */
+async function decryptContents(
+  hre: HardhatRuntimeEnvironment,
+  context: TaskContext,
+  handles: readonly string[]
+): Promise<string> {
+  const chunks: bigint[] = [];
+  for (const handle of handles) {
+    chunks.push(await hre.fhevm.userDecryptEuint(FhevmType.euint256, handle, context.address, context.signer));
+  }
+  return unpackContents(chunks);
+}
+
 /**
  * Example:
- *   - npx hardhat --network localhost task:add-event --trackingId CARGO-001 --location "Shanghai Port, China" --weight 2500
+ *   - npx hardhat --network localhost task:add-event --tracking-id CARGO-001 --location "Shanghai Port, China" --weight 2500 --contents "40 cartons of lithium batteries"
+ *   - npx hardhat --network localhost task:add-event --tracking-id CARGO-001 --location "Rotterdam" --weight 2500 --status InTransit --signer 1
  */
-task("task:add-event", "Adds a cargo event with encrypted weight")
-  .addOptionalParam("address", "Optionally specify the SecureCargoFlow contract address")
+cargoTask("task:add-event", "Adds a cargo event with encrypted weight and contents")
   .addParam("trackingId", "Tracking ID for the shipment")
   .addParam("location", "Event location")
   .addParam("weight", "Weight in kg (will be encrypted)")
-  .addOptionalParam("status", "Shipment status (0=Created, 1=InTransit, 2=CustomsClearance, 3=Arrived, 4=Delivered)", "0")
-  .addOptionalParam("contents", "Public contents description", "Electronic Components")
+  .addOptionalParam("status", "Status name or number from the contract workflow (defaults to the current status)")
+  .addOptionalParam("description", "Public event description", "Checkpoint")
+  .addOptionalParam("contents", "Initial manifest for the first event (will be encrypted, max 224 bytes)")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
+    const { ethers, fhevm } = hre;
 
     const weightInKg = parseFloat(taskArguments.weight);
-    if (isNaN(weightInKg)) {
-      throw new Error(`Argument --weight is not a number`);
+    if (isNaN(weightInKg) || weightInKg <= 0) {
+      throw new Error(`Argument --weight must be a positive number`);
     }
 
     await fhevm.initializeCLIApi();
 
-    const SecureCargoFlowDeployment = taskArguments.address
-      ? { address: taskArguments.address }
-      : await deployments.get("SecureCargoFlow");
-    console.log(`SecureCargoFlow: ${SecureCargoFlowDeployment.address}`);
+    const context = await connectTask(hre, taskArguments);
+    const secureCargoFlowContract = await ethers.getContractAt("SecureCargoFlow", context.address, context.signer);
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
 
-    const signers = await ethers.getSigners();
-    const secureCargoFlowContract = await ethers.getContractAt(
-      "SecureCargoFlow",
-      SecureCargoFlowDeployment.address
-    );
+    // Contents form the initial manifest and are only accepted with the first event; use task:amend-manifest later
+    const eventCount = Number(await viewsModule.getEventCount(taskArguments.trackingId));
+    if (eventCount > 0 && taskArguments.contents) {
+      throw new Error(`Argument --contents is only accepted on the first event; use task:amend-manifest`);
+    }
 
-    // Convert kg to grams and encrypt
+    // Convert kg to grams and encrypt it together with the packed contents under one proof
     const weightInGrams = Math.floor(weightInKg * 1000);
-    const encryptedWeight = await fhevm
-      .createEncryptedInput(SecureCargoFlowDeployment.address, signers[0].address)
-      .add32(weightInGrams)
-      .encrypt();
+    const encryptedInput = fhevm.createEncryptedInput(context.address, context.signer.address).add32(weightInGrams);
+    for (const chunk of packContents(taskArguments.contents ?? "")) {
+      encryptedInput.add256(chunk);
+    }
+    const encrypted = await encryptedInput.encrypt();
 
-    const status = parseInt(taskArguments.status || "0");
+    // Resolve the status against the workflow stored in the contract
+    const [statusNames, roleMasks] = await viewsModule.getWorkflow();
+    const currentStatus = Number(await secureCargoFlowContract.getCurrentStatus(taskArguments.trackingId));
+    const status = taskArguments.status ? resolveStatus(statusNames, taskArguments.status) : currentStatus;
+    checkTransition(statusNames, roleMasks, currentStatus, status);
+    context.log(`Status: ${statusNames[status]}`);
 
-    const tx = await secureCargoFlowContract
-      .connect(signers[0])
-      .addCargoEvent(
+    const { summary } = await waitForTx(
+      context,
+      await secureCargoFlowContract.addCargoEvent(
         taskArguments.trackingId,
         taskArguments.location,
         status,
-        encryptedWeight.handles[0],
-        encryptedWeight.inputProof,
-        taskArguments.contents || "Electronic Components"
-      );
-    console.log(`Wait for tx:${tx.hash}...`);
-
-    const receipt = await tx.wait();
-    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+        taskArguments.description,
+        encrypted.handles[0],
+        encrypted.inputProof,
+        encrypted.handles.slice(1),
+        encrypted.inputProof
+      )
+    );
+    context.log(`Cargo event added successfully!`);
 
-    console.log(`Cargo event added successfully!`);
+    context.done({
+      trackingId: taskArguments.trackingId,
+      eventIndex: eventCount,
+      location: taskArguments.location,
+      status: statusNames[status],
+      description: taskArguments.description,
+      contentsChunks: encrypted.handles.length - 1,
+      transaction: summary,
+    });
   });
 
 /**
  * Example:
- *   - npx hardhat --network localhost task:decrypt-weight --trackingId CARGO-001 --eventIndex 0
+ *   - npx hardhat --network localhost task:update-status --tracking-id CARGO-001 --status InTransit
+ *   - npx hardhat --network localhost task:update-status --tracking-id CARGO-001 --status customsclearance --signer 2 --json
  */
-task("task:decrypt-weight", "Decrypts the weight for a cargo event")
-  .addOptionalParam("address", "Optionally specify the SecureCargoFlow contract address")
+cargoTask("task:update-status", "Moves a shipment to another status, given by name or number")
   .addParam("trackingId", "Tracking ID for the shipment")
-  .addParam("eventIndex", "Event index to decrypt")
+  .addParam("status", "Status name or number from the contract workflow")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
+    const { ethers } = hre;
 
-    await fhevm.initializeCLIApi();
+    const context = await connectTask(hre, taskArguments);
+    const secureCargoFlowContract = await ethers.getContractAt("SecureCargoFlow", context.address, context.signer);
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
 
-    const SecureCargoFlowDeployment = taskArguments.address
-      ? { address: taskArguments.address }
-      : await deployments.get("SecureCargoFlow");
-    console.log(`SecureCargoFlow: ${SecureCargoFlowDeployment.address}`);
+    const [statusNames, roleMasks] = await viewsModule.getWorkflow();
+    const currentStatus = Number(await secureCargoFlowContract.getCurrentStatus(taskArguments.trackingId));
+    const status = resolveStatus(statusNames, taskArguments.status);
+    if (status === currentStatus) {
+      throw new Error(`Shipment ${taskArguments.trackingId} is already ${statusNames[status]}`);
+    }
+    if (statusNames[status] === "Delivered") {
+      throw new Error(`Delivery needs the consignee's PIN; use task:confirm-delivery`);
+    }
+    checkTransition(statusNames, roleMasks, currentStatus, status);
 
-    const signers = await ethers.getSigners();
-    const secureCargoFlowContract = await ethers.getContractAt(
-      "SecureCargoFlow",
-      SecureCargoFlowDeployment.address
+    const { summary } = await waitForTx(
+      context,
+      await secureCargoFlowContract.updateShipmentStatus(taskArguments.trackingId, status)
     );
+    context.log(`${taskArguments.trackingId}: ${statusNames[currentStatus]} -> ${statusNames[status]}`);
+
+    context.done({
+      trackingId: taskArguments.trackingId,
+      previousStatus: statusNames[currentStatus],
+      status: statusNames[status],
+      transaction: summary,
+    });
+  });
+
+// How long task:confirm-delivery waits for the oracle to check the PIN on a real network
+const DELIVERY_CHECK_TIMEOUT = 10 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wait until the oracle has checked the PIN submitted for a shipment, and return whether it was delivered.
+ * Mock networks relay the decryption on demand; elsewhere the callback transaction is polled for.
+ */
+async function awaitDeliveryCheck(hre: HardhatRuntimeEnvironment, context: TaskContext, trackingId: string) {
+  const { ethers, fhevm } = hre;
+  const secureCargoFlowContract = await ethers.getContractAt("SecureCargoFlow", context.address, context.signer);
+  const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
 
-    const eventIndex = parseInt(taskArguments.eventIndex);
-    if (isNaN(eventIndex)) {
-      throw new Error(`Argument --eventIndex is not a number`);
+  if (fhevm.isMock) {
+    await fhevm.awaitDecryptionOracle();
+  }
+  const deadline = Date.now() + DELIVERY_CHECK_TIMEOUT;
+  while (await viewsModule.deliveryPending(trackingId)) {
+    if (Date.now() > deadline) {
+      throw new Error(`The oracle has not checked the PIN of ${trackingId} yet; try task:check-events later`);
     }
+    await sleep(5000);
+  }
+  return (await secureCargoFlowContract.deliveredAt(trackingId)) !== 0n;
+}
 
-    const encryptedWeight = await secureCargoFlowContract.getEncryptedWeight(
-      taskArguments.trackingId,
-      eventIndex
-    );
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:confirm-delivery --tracking-id CARGO-001 --pin 482913 --signer 1
+ */
+cargoTask("task:confirm-delivery", "Submits the consignee's PIN; the shipment is delivered once the oracle confirms it")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .addParam("pin", "Delivery PIN given by the consignee (will be encrypted)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
 
-    if (encryptedWeight === ethers.ZeroHash) {
-      console.log(`Encrypted weight: ${encryptedWeight}`);
-      console.log("Clear weight: 0 kg");
-      return;
+    if (!/^\d{1,9}$/.test(taskArguments.pin)) {
+      throw new Error(`Argument --pin must be at most 9 digits`);
     }
 
-    const decryptedWeightGrams = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      encryptedWeight,
-      SecureCargoFlowDeployment.address,
-      signers[0]
+    await fhevm.initializeCLIApi();
+
+    const context = await connectTask(hre, taskArguments);
+    const secureCargoFlowContract = await ethers.getContractAt("SecureCargoFlow", context.address, context.signer);
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+
+    const [statusNames, roleMasks] = await viewsModule.getWorkflow();
+    const currentStatus = Number(await secureCargoFlowContract.getCurrentStatus(taskArguments.trackingId));
+    checkTransition(statusNames, roleMasks, currentStatus, statusNames.indexOf("Delivered"));
+
+    const encryptedPin = await fhevm
+      .createEncryptedInput(context.address, context.signer.address)
+      .add32(parseInt(taskArguments.pin))
+      .encrypt();
+    const { summary } = await waitForTx(
+      context,
+      await secureCargoFlowContract.confirmDelivery(
+        taskArguments.trackingId,
+        encryptedPin.handles[0],
+        encryptedPin.inputProof
+      )
     );
+    context.log(`PIN submitted; waiting for the oracle to check it...`);
+
+    const delivered = await awaitDeliveryCheck(hre, context, taskArguments.trackingId);
+    if (delivered) {
+      context.log(`${taskArguments.trackingId} delivered`);
+    } else {
+      context.log(`${taskArguments.trackingId} not delivered: the PIN does not match`);
+      process.exitCode = 1;
+    }
 
-    const decryptedWeightKg = decryptedWeightGrams / 1000;
-    console.log(`Encrypted weight: ${encryptedWeight}`);
-    console.log(`Clear weight: ${decryptedWeightGrams} grams (${decryptedWeightKg} kg)`);
+    context.done({
+      trackingId: taskArguments.trackingId,
+      delivered,
+      status: delivered ? "Delivered" : statusNames[currentStatus],
+      transaction: summary,
+    });
   });
 
 /**
  * Example:
- *   - npx hardhat --network localhost task:check-events --trackingId CARGO-2024-DEMO-001
+ *   - npx hardhat --network localhost task:reset-delivery-attempts --tracking-id CARGO-001
  */
-task("task:check-events", "Checks cargo events for a shipment")
-  .addOptionalParam("address", "Optionally specify the SecureCargoFlow contract address")
+cargoTask("task:reset-delivery-attempts", "Lets couriers submit the delivery PIN again after 5 attempts (creator only)")
   .addParam("trackingId", "Tracking ID for the shipment")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments } = hre;
+    const { ethers } = hre;
 
-    const SecureCargoFlowDeployment = taskArguments.address
-      ? { address: taskArguments.address }
-      : await deployments.get("SecureCargoFlow");
-    console.log(`SecureCargoFlow: ${SecureCargoFlowDeployment.address}`);
+    const context = await connectTask(hre, taskArguments);
+    const secureCargoFlowContract = await ethers.getContractAt("SecureCargoFlow", context.address, context.signer);
+    const adminModule = await ethers.getContractAt("SecureCargoFlowAdmin", context.address, context.signer);
 
-    const signers = await ethers.getSigners();
-    const secureCargoFlowContract = await ethers.getContractAt(
-      "SecureCargoFlow",
-      SecureCargoFlowDeployment.address
+    const attempts = Number(await secureCargoFlowContract.deliveryAttempts(taskArguments.trackingId));
+    const { summary } = await waitForTx(context, await adminModule.resetDeliveryAttempts(taskArguments.trackingId));
+    context.log(`${taskArguments.trackingId}: ${attempts} delivery attempts cleared`);
+
+    context.done({ trackingId: taskArguments.trackingId, previousAttempts: attempts, transaction: summary });
+  });
+
+// Batch calls take at most 20 items, and the encrypted input shared by a batch holds at most 2048 bits
+const MAX_BATCH_SIZE = 20;
+const MAX_INPUT_BITS = 2048;
+
+/**
+ * Split items into batches that fit both limits, given the encrypted bits each item needs
+ */
+function groupBatches<T>(items: T[], inputBits: (item: T) => number): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let bits = 0;
+  for (const item of items) {
+    const itemBits = inputBits(item);
+    if (current.length === MAX_BATCH_SIZE || (current.length > 0 && bits + itemBits > MAX_INPUT_BITS)) {
+      batches.push(current);
+      current = [];
+      bits = 0;
+    }
+    current.push(item);
+    bits += itemBits;
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+/**
+ * Read the revert reasons of skipped batch items from a receipt, by position in the batch
+ */
+function readBatchFailures(
+  hre: HardhatRuntimeEnvironment,
+  contract: { interface: Interface },
+  logs: readonly Log[]
+): Map<number, string> {
+  const { ethers } = hre;
+  const failures = new Map<number, string>();
+  for (const log of logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name !== "BatchItemFailed") {
+      continue;
+    }
+    const reason: string = parsed.args.reason;
+    // Error(string) revert data: selector 0x08c379a0 followed by the ABI-encoded message
+    failures.set(
+      Number(parsed.args.index),
+      reason.startsWith("0x08c379a0")
+        ? ethers.AbiCoder.defaultAbiCoder().decode(["string"], ethers.dataSlice(reason, 4))[0]
+        : "Reverted"
     );
+  }
+  return failures;
+}
 
-    // Check if shipment exists
-    try {
-      const shipment = await secureCargoFlowContract.getShipment(taskArguments.trackingId);
-      console.log(`\nShipment found:`);
-      console.log(`  Tracking ID: ${shipment.trackingId}`);
-      console.log(`  Origin: ${shipment.origin}`);
-      console.log(`  Destination: ${shipment.destination}`);
-      console.log(`  Creator: ${shipment.creator}`);
-      console.log(`  Created at: ${new Date(Number(shipment.createdAt) * 1000).toLocaleString()}`);
-      console.log(`  Exists: ${shipment.exists}`);
-      
-      // Get event count
-      const eventCount = await secureCargoFlowContract.getEventCount(taskArguments.trackingId);
-      console.log(`\nEvent count: ${eventCount}`);
-      
-      if (eventCount > 0) {
-        console.log(`\nEvents:`);
-        for (let i = 0; i < eventCount; i++) {
-          const eventPublic = await secureCargoFlowContract.getCargoEventPublic(
-            taskArguments.trackingId,
-            i
-          );
-          console.log(`\n  Event ${i}:`);
-          console.log(`    Event ID: ${eventPublic.eventId}`);
-          console.log(`    Location: ${eventPublic.location}`);
-          console.log(`    Status: ${eventPublic.status}`);
-          console.log(`    Contents: ${eventPublic.publicContents}`);
-          console.log(`    Timestamp: ${new Date(Number(eventPublic.timestamp) * 1000).toLocaleString()}`);
-          console.log(`    Has Anomaly: ${eventPublic.hasAnomaly}`);
-          if (eventPublic.hasAnomaly) {
-            console.log(`    Anomaly: ${eventPublic.anomalyDescription}`);
-          }
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:create-batch --file parcels.csv
+ *   - npx hardhat --network localhost task:create-batch --file parcels.csv --days 14 --json
+ *
+ * parcels.csv holds one parcel per line (blank lines and lines starting with # are skipped):
+ *   CARGO-101,Shanghai Port,Los Angeles Port,120,482913,12 boxes of phones
+ *   CARGO-102,Shanghai Port,Seattle Port,80,771204,Laptop chargers, cables and adapters
+ */
+cargoTask("task:create-batch", "Creates shipments and their first events from a CSV file using batch transactions")
+  .addParam("file", "CSV file: trackingId,origin,destination,weightKg,deliveryPin,contents")
+  .addOptionalParam("days", "Estimated delivery in days from now", "7")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const days = parseInt(taskArguments.days);
+    if (!Number.isInteger(days) || days <= 0) {
+      throw new Error(`Argument --days must be a positive integer`);
+    }
+
+    const parcels = fs
+      .readFileSync(taskArguments.file, "utf8")
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith("#"))
+      .map((line, i) => {
+        const [trackingId, origin, destination, weight, pin, ...contents] = line.split(",").map((part) => part.trim());
+        const weightInKg = parseFloat(weight);
+        if (
+          !trackingId ||
+          !origin ||
+          !destination ||
+          isNaN(weightInKg) ||
+          weightInKg <= 0 ||
+          !/^[1-9]\d{3,8}$/.test(pin ?? "")
+        ) {
+          throw new Error(`Line ${i + 1}: expected trackingId,origin,destination,weightKg,deliveryPin,contents`);
         }
+        return {
+          trackingId,
+          origin,
+          destination,
+          weightInKg,
+          pin: parseInt(pin),
+          chunks: packContents(contents.join(", ")),
+        };
+      });
+    if (parcels.length === 0) {
+      throw new Error(`No parcels found in ${taskArguments.file}`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const context = await connectTask(hre, taskArguments);
+    const secureCargoFlowContract = await ethers.getContractAt("SecureCargoFlow", context.address, context.signer);
+
+    const latest = await ethers.provider.getBlock("latest");
+    const estimatedDelivery = (latest?.timestamp ?? Math.floor(Date.now() / 1000)) + 86400 * days;
+    // Keyed by parcel, so a duplicated tracking ID in the file only fails its second line
+    const errors = new Map<(typeof parcels)[number], string>();
+    const transactions = [];
+
+    // Shipments with their delivery PINs, one shared proof per batch
+    for (const batch of groupBatches(parcels, () => 32)) {
+      const input = fhevm.createEncryptedInput(context.address, context.signer.address);
+      for (const parcel of batch) {
+        input.add32(parcel.pin);
+      }
+      const encrypted = await input.encrypt();
+
+      const { summary, receipt } = await waitForTx(
+        context,
+        await secureCargoFlowContract.createShipmentsBatch(
+          batch.map((parcel, index) => ({
+            trackingId: parcel.trackingId,
+            origin: parcel.origin,
+            destination: parcel.destination,
+            estimatedDelivery,
+            encPin: encrypted.handles[index],
+            encValue: ethers.ZeroHash,
+            currency: "",
+          })),
+          encrypted.inputProof
+        )
+      );
+      transactions.push(summary);
+      for (const [index, reason] of readBatchFailures(hre, secureCargoFlowContract, receipt?.logs ?? [])) {
+        errors.set(batch[index], `create failed: ${reason}`);
+      }
+    }
+
+    // First events declare the weights and initial manifests, one shared proof per batch
+    const created = parcels.filter((parcel) => !errors.has(parcel));
+    for (const batch of groupBatches(created, (parcel) => 32 + parcel.chunks.length * 256)) {
+      const input = fhevm.createEncryptedInput(context.address, context.signer.address);
+      for (const parcel of batch) {
+        input.add32(Math.floor(parcel.weightInKg * 1000));
+        for (const chunk of parcel.chunks) {
+          input.add256(chunk);
+        }
+      }
+      const encrypted = await input.encrypt();
+
+      let next = 0;
+      const items = batch.map((parcel) => ({
+        trackingId: parcel.trackingId,
+        location: parcel.origin,
+        status: 0, // Created
+        description: "Shipment created",
+        encWeight: encrypted.handles[next++],
+        encContents: parcel.chunks.map(() => encrypted.handles[next++]),
+      }));
+
+      const { summary, receipt } = await waitForTx(
+        context,
+        await secureCargoFlowContract.addCargoEventsBatch(items, encrypted.inputProof)
+      );
+      transactions.push(summary);
+      for (const [index, reason] of readBatchFailures(hre, secureCargoFlowContract, receipt?.logs ?? [])) {
+        errors.set(batch[index], `created, but first event failed: ${reason}`);
+      }
+    }
+
+    for (const parcel of parcels) {
+      const error = errors.get(parcel);
+      context.log(`  ${error ? "FAILED" : "ok    "} ${parcel.trackingId}${error ? ` (${error})` : ""}`);
+    }
+    context.log(`${parcels.length - errors.size} of ${parcels.length} shipments created`);
+
+    context.done({
+      created: parcels.length - errors.size,
+      total: parcels.length,
+      results: parcels.map((parcel) => ({ trackingId: parcel.trackingId, error: errors.get(parcel) ?? null })),
+      transactions,
+    });
+  });
+
+// Columns of task:import-shipments, named after the ShipmentForm fields; the first five and deliveryPin are required
+const IMPORT_COLUMNS = [
+  "trackingId",
+  "origin",
+  "destination",
+  "weight",
+  "contents",
+  "estimatedDelivery",
+  "declaredValue",
+  "currency",
+  "deliveryPin",
+];
+const IMPORT_PROGRESS_FORMAT = "secure-cargo-flow-import/1";
+const IMPORT_STAGES = ["created", "done"] as const;
+
+type ImportRow = { line: number; values: Record<string, string> };
+type ImportStage = (typeof IMPORT_STAGES)[number];
+type ImportProgress = {
+  format: string;
+  chainId: string;
+  contract: string;
+  source: string;
+  /** Furthest step reached per tracking ID: shipment created, or its first event added as well */
+  shipments: Record<string, { stage: ImportStage; updatedAt: string }>;
+};
+
+/**
+ * Split CSV text into records with their starting line numbers; quoted fields may hold commas, quotes and line
+ * breaks, and blank lines and lines starting with # are skipped
+ */
+function parseCsv(text: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  let atRecordStart = true;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== "") {
+      records.push({ line: start, fields: fields.map((value) => value.trim()) });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (atRecordStart) {
+      start = line;
+      atRecordStart = false;
+      if (char === "#") {
+        while (i < text.length && text[i] !== "\n") i++;
+        line++;
+        atRecordStart = true;
+        continue;
+      }
+    }
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
       } else {
-        console.log(`\n⚠️  No events found for this shipment.`);
-        console.log(`   Try adding an event with: npx hardhat --network localhost task:add-event ...`);
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === "") {
+      field = "";
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRecord();
+      line++;
+      atRecordStart = true;
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error(`Line ${start}: unterminated quoted field`);
+  }
+  if (!atRecordStart) {
+    endRecord();
+  }
+  return records;
+}
+
+/**
+ * Read import rows from a CSV file with a header row, or a JSON array of objects keyed by column name
+ */
+function readImportRows(file: string): ImportRow[] {
+  const text = fs.readFileSync(file, "utf8").replace(/^\uFEFF/, "");
+  const column = (name: string) => {
+    const match = IMPORT_COLUMNS.find((known) => known.toLowerCase() === name.trim().toLowerCase());
+    if (!match) {
+      throw new Error(`Unknown column "${name}"; expected ${IMPORT_COLUMNS.join(", ")}`);
+    }
+    return match;
+  };
+
+  if (file.toLowerCase().endsWith(".json")) {
+    const items: unknown = JSON.parse(text);
+    if (!Array.isArray(items)) {
+      throw new Error(`${file} must hold a JSON array of shipments`);
+    }
+    return items.map((item, index) => {
+      if (typeof item !== "object" || item === null) {
+        throw new Error(`Item ${index + 1}: expected an object`);
+      }
+      const values: Record<string, string> = {};
+      for (const [key, value] of Object.entries(item)) {
+        values[column(key)] = value === null || value === undefined ? "" : String(value).trim();
+      }
+      return { line: index + 1, values };
+    });
+  }
+
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    throw new Error(`No header row found in ${file}`);
+  }
+  const columns = header.fields.map(column);
+  return records.map((record) => {
+    if (record.fields.length !== columns.length) {
+      throw new Error(`Line ${record.line}: expected ${columns.length} fields, found ${record.fields.length}`);
+    }
+    return { line: record.line, values: Object.fromEntries(columns.map((name, i) => [name, record.fields[i]])) };
+  });
+}
+
+/**
+ * Check a row against the ShipmentForm schema and the createShipment requirements, returning every problem found.
+ * The delivery date is checked against the chain clock, and only for rows still to be created.
+ */
+function validateImportRow(
+  values: Record<string, string>,
+  now: number,
+  defaultDelivery: number,
+  creating: boolean
+): string[] {
+  const errors: string[] = [];
+  const {
+    trackingId = "",
+    origin = "",
+    destination = "",
+    weight = "",
+    contents = "",
+    estimatedDelivery = "",
+    declaredValue = "",
+    currency = "",
+    deliveryPin = "",
+  } = values;
+
+  if (trackingId.length < 6) {
+    errors.push("Tracking ID must be at least 6 characters");
+  } else if (!/^[A-Z0-9-]+$/.test(trackingId)) {
+    errors.push("Tracking ID can only contain uppercase letters, numbers, and hyphens");
+  }
+  if (origin.length < 2 || origin.length > 50) {
+    errors.push("Origin must be 2 to 50 characters");
+  }
+  if (destination.length < 2 || destination.length > 50) {
+    errors.push("Destination must be 2 to 50 characters");
+  }
+  if (!/^\d+(\.\d{1,2})?$/.test(weight)) {
+    errors.push("Weight must be a valid number with max 2 decimal places");
+  } else if (!(parseFloat(weight) > 0) || parseFloat(weight) > 100000) {
+    errors.push("Weight must be between 0.01 and 100,000 kg");
+  }
+  if (contents.length < 3 || contents.length > 200) {
+    errors.push("Contents description must be 3 to 200 characters");
+  } else if (Buffer.byteLength(contents, "utf8") > MAX_CONTENTS_BYTES) {
+    errors.push(`Contents description must be at most ${MAX_CONTENTS_BYTES} bytes of UTF-8`);
+  }
+
+  const delivery = estimatedDelivery ? Math.floor(new Date(estimatedDelivery).getTime() / 1000) : defaultDelivery;
+  if (Number.isNaN(delivery)) {
+    errors.push("Estimated delivery must be a date such as 2026-11-30 or 2026-11-30T17:00:00Z");
+  } else if (creating && delivery <= now + 300) {
+    errors.push("Estimated delivery must be in the future");
+  } else if (creating && delivery > now + 365 * 86400) {
+    errors.push("Estimated delivery cannot be more than 1 year in the future");
+  }
+
+  if (!/^(\d+(\.\d{1,2})?)?$/.test(declaredValue)) {
+    errors.push("Declared value must be a valid amount with max 2 decimal places");
+  }
+  if (declaredValue && !/^[A-Za-z]{3}$/.test(currency || "USD")) {
+    errors.push("Currency must be a 3-letter code such as USD");
+  }
+  if (!/^[1-9]\d{3,8}$/.test(deliveryPin)) {
+    errors.push("PIN must be 4 to 9 digits and cannot start with 0");
+  }
+  return errors;
+}
+
+/**
+ * Load the progress of an earlier run, refusing one written for another chain or contract
+ */
+function loadImportProgress(file: string, chainId: string, contract: string, source: string): ImportProgress {
+  if (!fs.existsSync(file)) {
+    return { format: IMPORT_PROGRESS_FORMAT, chainId, contract, source, shipments: {} };
+  }
+  const progress: ImportProgress = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (progress.format !== IMPORT_PROGRESS_FORMAT) {
+    throw new Error(`${file} is not an import progress file`);
+  }
+  if (progress.chainId !== chainId || progress.contract !== contract) {
+    throw new Error(`${file} records an import into ${progress.contract} on chain ${progress.chainId}`);
+  }
+  return progress;
+}
+
+// Written to a temporary file first, so an interrupted run never leaves a truncated progress file
+function saveImportProgress(file: string, progress: ImportProgress) {
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(progress, null, 2) + "\n");
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:import-shipments --file manifest-2026-10-19.csv --dry-run
+ *   - npx hardhat --network localhost task:import-shipments --file manifest-2026-10-19.csv
+ *   - npx hardhat --network localhost task:import-shipments --file manifest.json --skip-invalid --json
+ *
+ * manifest-2026-10-19.csv starts with a header row naming its columns (see IMPORT_COLUMNS):
+ *   trackingId,origin,destination,weight,contents,estimatedDelivery,declaredValue,currency,deliveryPin
+ *   ERP-2026-0001,Shanghai Port,Los Angeles Port,1250.5,"Phones, tablets and chargers",2026-11-02,48000,USD,482913
+ *   ERP-2026-0002,Rotterdam,New York,800,Machine parts,,,,771204
+ *
+ * Progress is saved to <file>.progress.json after every transaction; running the same command again resumes,
+ * skipping shipments already imported and finishing those whose first event is missing. On a rerun every
+ * tracking ID is checked against the chain, so a row whose transaction was mined before its progress was
+ * saved is resumed rather than reported as a duplicate.
+ */
+cargoTask("task:import-shipments", "Validates and imports an ERP shipment manifest (CSV or JSON), resuming earlier runs")
+  .addParam("file", "CSV file with a header row, or JSON array of shipments")
+  .addOptionalParam("days", "Estimated delivery in days from now, for rows that leave it empty", "7")
+  .addOptionalParam("progress", "Progress file (defaults to <file>.progress.json)")
+  .addFlag("dryRun", "Validate the rows against the contract and print the plan without sending transactions")
+  .addFlag("skipInvalid", "Import the valid rows even when others fail validation")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const days = Number(taskArguments.days);
+    if (!(days > 0) || days > 365) {
+      throw new Error(`Argument --days must be between 0 and 365`);
+    }
+    const rows = readImportRows(taskArguments.file);
+    if (rows.length === 0) {
+      throw new Error(`No shipments found in ${taskArguments.file}`);
+    }
+    const progressFile: string = taskArguments.progress ?? `${taskArguments.file}.progress.json`;
+
+    const context = await connectTask(hre, taskArguments);
+    const secureCargoFlowContract = await ethers.getContractAt("SecureCargoFlow", context.address, context.signer);
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const progress = loadImportProgress(
+      progressFile,
+      chainId.toString(),
+      context.address.toLowerCase(),
+      taskArguments.file
+    );
+
+    // Relative to the chain clock; dates within five minutes of it may have passed by the time a batch is mined
+    const latest = await ethers.provider.getBlock("latest");
+    const now = latest?.timestamp ?? Math.floor(Date.now() / 1000);
+    const defaultDelivery = now + Math.round(86400 * days);
+
+    // Problems that stop the whole import rather than single rows
+    const blockers: string[] = [];
+    const [openCreation, allowed, creationPaused, eventsPaused] = await Promise.all([
+      secureCargoFlowContract.openCreation(),
+      secureCargoFlowContract.allowedShippers(context.signer.address),
+      secureCargoFlowContract.paused(0),
+      secureCargoFlowContract.paused(1),
+    ]);
+    if (!openCreation && !allowed) {
+      blockers.push(`${context.signer.address} is not an allowed shipper`);
+    }
+    if (creationPaused) {
+      blockers.push("Shipment creation is paused");
+    }
+    if (eventsPaused) {
+      blockers.push("Cargo events are paused");
+    }
+
+    type Planned = {
+      line: number;
+      trackingId: string;
+      origin: string;
+      destination: string;
+      weightInKg: number;
+      contents: string;
+      estimatedDelivery: number;
+      declaredValue: { cents: bigint; currency: string } | null;
+      pin: number;
+      stage: ImportStage | null;
+      errors: string[];
+    };
+    const seen = new Set<string>();
+    const planned: Planned[] = [];
+    for (const { line, values } of rows) {
+      const trackingId = values.trackingId ?? "";
+
+      // The chain decides how far a row got: a transaction mined just before an interrupted run saved its
+      // progress leaves a shipment the file does not record. One this signer created from the same route is
+      // this row's; any other existing tracking ID is a conflict.
+      let stage: ImportStage | null = null;
+      let conflict: string | null = null;
+      const shipment = trackingId ? await secureCargoFlowContract.shipments(trackingId) : null;
+      if (shipment?.exists) {
+        if (shipment.creator !== context.signer.address) {
+          conflict = `Shipment already exists, created by ${shipment.creator}`;
+        } else if (shipment.origin !== values.origin || shipment.destination !== values.destination) {
+          conflict = `Shipment already exists, from ${shipment.origin} to ${shipment.destination}`;
+        } else {
+          stage = (await secureCargoFlowContract.eventCounts(trackingId)) > 0n ? "done" : "created";
+        }
+      }
+      if (stage !== null && progress.shipments[trackingId]?.stage !== stage) {
+        progress.shipments[trackingId] = { stage, updatedAt: new Date().toISOString() };
+      }
+
+      const errors = validateImportRow(values, now, defaultDelivery, stage === null);
+      if (seen.has(trackingId)) {
+        errors.push("Tracking ID appears more than once in the file");
+      }
+      seen.add(trackingId);
+      if (conflict) {
+        errors.push(conflict);
+      }
+
+      planned.push({
+        line,
+        trackingId,
+        origin: values.origin ?? "",
+        destination: values.destination ?? "",
+        weightInKg: parseFloat(values.weight),
+        contents: values.contents ?? "",
+        estimatedDelivery: values.estimatedDelivery
+          ? Math.floor(new Date(values.estimatedDelivery).getTime() / 1000)
+          : defaultDelivery,
+        declaredValue: values.declaredValue
+          ? {
+              cents: BigInt(Math.round(parseFloat(values.declaredValue) * 100)),
+              currency: (values.currency || "USD").toUpperCase(),
+            }
+          : null,
+        pin: parseInt(values.deliveryPin),
+        // A repeated row must not take over the progress of the first row with its tracking ID
+        stage: errors.length > 0 ? null : stage,
+        errors,
+      });
+    }
+
+    const invalid = planned.filter((item) => item.errors.length > 0);
+    const valid = planned.filter((item) => item.errors.length === 0);
+    const actionOf = (item: Planned) =>
+      item.errors.length > 0
+        ? "invalid"
+        : item.stage === null
+          ? "create"
+          : item.stage === "done"
+            ? "skip"
+            : "resume";
+
+    context.log(`${rows.length} rows in ${taskArguments.file}, ${invalid.length} invalid`);
+    for (const item of planned) {
+      context.log(`  line ${item.line} ${item.trackingId || "(no tracking ID)"}: ${actionOf(item)}`);
+      for (const error of item.errors) {
+        context.log(`      ${error}`);
+      }
+    }
+    for (const blocker of blockers) {
+      context.log(`Cannot import: ${blocker}`);
+    }
+
+    const plan = planned.map((item) => ({
+      line: item.line,
+      trackingId: item.trackingId,
+      action: actionOf(item),
+      stage: item.stage,
+      errors: item.errors,
+    }));
+    if (taskArguments.dryRun) {
+      context.done({ dryRun: true, total: rows.length, invalid: invalid.length, blockers, rows: plan });
+      if (invalid.length > 0 || blockers.length > 0) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+    if (blockers.length > 0) {
+      throw new Error(`Cannot import: ${blockers.join("; ")}`);
+    }
+    if (invalid.length > 0 && !taskArguments.skipInvalid) {
+      throw new Error(`${invalid.length} rows failed validation; fix them, or pass --skip-invalid to import the rest`);
+    }
+
+    const failures = new Map<Planned, string>();
+    const transactions = [];
+    const advance = (item: Planned, stage: ImportStage) => {
+      item.stage = stage;
+      progress.shipments[item.trackingId] = { stage, updatedAt: new Date().toISOString() };
+    };
+
+    await fhevm.initializeCLIApi();
+
+    // 1. Shipments, with the delivery PINs and declared values of a batch sharing one encrypted input
+    const toCreate = valid.filter((item) => item.stage === null);
+    for (const batch of groupBatches(toCreate, (item) => 32 + (item.declaredValue ? 64 : 0))) {
+      const input = fhevm.createEncryptedInput(context.address, context.signer.address);
+      for (const item of batch) {
+        input.add32(item.pin);
+        if (item.declaredValue) {
+          input.add64(item.declaredValue.cents);
+        }
       }
-    } catch (error) {
-      console.error(`\n❌ Error: ${error}`);
-      console.log(`\nShipment may not exist. Create it first with:`);
-      console.log(`  npx hardhat --network localhost task:create-shipment --trackingId ${taskArguments.trackingId} --origin "Origin" --destination "Destination"`);
+      const encrypted = await input.encrypt();
+
+      let next = 0;
+      const { summary, receipt } = await waitForTx(
+        context,
+        await secureCargoFlowContract.createShipmentsBatch(
+          batch.map((item) => ({
+            trackingId: item.trackingId,
+            origin: item.origin,
+            destination: item.destination,
+            estimatedDelivery: item.estimatedDelivery,
+            encPin: encrypted.handles[next++],
+            encValue: item.declaredValue ? encrypted.handles[next++] : ethers.ZeroHash,
+            currency: item.declaredValue?.currency ?? "",
+          })),
+          encrypted.inputProof
+        )
+      );
+      transactions.push(summary);
+      const batchFailures = readBatchFailures(hre, secureCargoFlowContract, receipt?.logs ?? []);
+      batch.forEach((item, index) => {
+        const reason = batchFailures.get(index);
+        if (reason) {
+          failures.set(item, `create failed: ${reason}`);
+        } else {
+          advance(item, "created");
+        }
+      });
+      saveImportProgress(progressFile, progress);
+    }
+
+    // 2. First events with the encrypted weights and manifests, one shared proof per batch
+    const toRecord = valid.filter((item) => item.stage === "created");
+    for (const batch of groupBatches(
+      toRecord,
+      (item) => 32 + Math.ceil(Buffer.byteLength(item.contents, "utf8") / CONTENTS_CHUNK_BYTES) * 256
+    )) {
+      const input = fhevm.createEncryptedInput(context.address, context.signer.address);
+      const chunks = batch.map((item) => packContents(item.contents));
+      batch.forEach((item, index) => {
+        input.add32(Math.round(item.weightInKg * 1000));
+        for (const chunk of chunks[index]) {
+          input.add256(chunk);
+        }
+      });
+      const encrypted = await input.encrypt();
+
+      let next = 0;
+      const { summary, receipt } = await waitForTx(
+        context,
+        await secureCargoFlowContract.addCargoEventsBatch(
+          batch.map((item, index) => ({
+            trackingId: item.trackingId,
+            location: item.origin,
+            status: 0, // Created
+            description: "Shipment created",
+            encWeight: encrypted.handles[next++],
+            encContents: chunks[index].map(() => encrypted.handles[next++]),
+          })),
+          encrypted.inputProof
+        )
+      );
+      transactions.push(summary);
+      const batchFailures = readBatchFailures(hre, secureCargoFlowContract, receipt?.logs ?? []);
+      batch.forEach((item, index) => {
+        const reason = batchFailures.get(index);
+        if (reason) {
+          failures.set(item, `created, but first event failed: ${reason}`);
+        } else {
+          advance(item, "done");
+        }
+      });
+      saveImportProgress(progressFile, progress);
+    }
+    saveImportProgress(progressFile, progress);
+
+    const imported = valid.filter((item) => item.stage === "done");
+    for (const item of valid) {
+      const failure = failures.get(item);
+      context.log(`  ${failure ? "FAILED" : "ok    "} ${item.trackingId}${failure ? ` (${failure})` : ""}`);
     }
+    context.log(`${imported.length} of ${rows.length} shipments imported; progress saved to ${progressFile}`);
+    if (failures.size > 0) {
+      context.log(`Run the same command again to retry the failed shipments`);
+    }
+    if (failures.size > 0 || invalid.length > 0) {
+      process.exitCode = 1;
+    }
+
+    context.done({
+      dryRun: false,
+      total: rows.length,
+      imported: imported.length,
+      invalid: invalid.length,
+      progressFile,
+      rows: planned.map((item) => ({
+        line: item.line,
+        trackingId: item.trackingId,
+        stage: item.stage,
+        errors: failures.has(item) ? [...item.errors, failures.get(item)] : item.errors,
+      })),
+      transactions,
+    });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:decrypt-weight --tracking-id CARGO-001 --event-index 0
+ *   - npx hardhat --network localhost task:decrypt-weight --tracking-id CARGO-001 --event-index 0 --signer 1 --json
+ */
+cargoTask("task:decrypt-weight", "Decrypts the weight for a cargo event")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .addParam("eventIndex", "Event index to decrypt")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const eventIndex = parseIndex(taskArguments.eventIndex, "event-index");
+
+    await fhevm.initializeCLIApi();
+
+    const context = await connectTask(hre, taskArguments);
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+
+    const encryptedWeight = await viewsModule.getEncryptedWeight(taskArguments.trackingId, eventIndex);
+
+    const weightInGrams =
+      encryptedWeight === ethers.ZeroHash
+        ? 0n
+        : await fhevm.userDecryptEuint(FhevmType.euint32, encryptedWeight, context.address, context.signer);
+    const weightInKg = Number(weightInGrams) / 1000;
+
+    context.log(`Encrypted weight: ${encryptedWeight}`);
+    context.log(`Clear weight: ${weightInGrams} grams (${weightInKg} kg)`);
+
+    context.done({
+      trackingId: taskArguments.trackingId,
+      eventIndex,
+      handle: encryptedWeight,
+      weightInGrams,
+      weightInKg,
+    });
   });
 
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:decrypt-contents --tracking-id CARGO-001 --event-index 0
+ *   - npx hardhat --network localhost task:decrypt-contents --tracking-id CARGO-001 --event-index 0 --json
+ */
+cargoTask("task:decrypt-contents", "Decrypts the contents description of a cargo event")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .addParam("eventIndex", "Event index to decrypt")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const eventIndex = parseIndex(taskArguments.eventIndex, "event-index");
+
+    await fhevm.initializeCLIApi();
+
+    const context = await connectTask(hre, taskArguments);
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+
+    const handles = await viewsModule.getEncryptedContents(taskArguments.trackingId, eventIndex);
+    const contents = await decryptContents(hre, context, handles);
+
+    context.log(`Encrypted chunks: ${handles.length}`);
+    context.log(`Clear contents: ${contents}`);
+
+    context.done({ trackingId: taskArguments.trackingId, eventIndex, chunks: handles.length, contents });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:amend-manifest --tracking-id CARGO-001 --contents "38 cartons of lithium batteries" --reason "2 cartons damaged"
+ */
+cargoTask("task:amend-manifest", "Records a new version of a shipment's encrypted manifest")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .addParam("contents", "New contents (will be encrypted, max 224 bytes)")
+  .addParam("reason", "Public reason for the amendment")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const context = await connectTask(hre, taskArguments);
+    const secureCargoFlowContract = await ethers.getContractAt("SecureCargoFlow", context.address, context.signer);
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+
+    const input = fhevm.createEncryptedInput(context.address, context.signer.address);
+    for (const chunk of packContents(taskArguments.contents)) {
+      input.add256(chunk);
+    }
+    const encrypted = await input.encrypt();
+
+    const { summary } = await waitForTx(
+      context,
+      await secureCargoFlowContract.amendManifest(
+        taskArguments.trackingId,
+        encrypted.handles,
+        encrypted.inputProof,
+        taskArguments.reason
+      )
+    );
+
+    const version = await viewsModule.getManifestVersionCount(taskArguments.trackingId);
+    context.log(`Manifest version ${version} recorded`);
+
+    context.done({ trackingId: taskArguments.trackingId, version, reason: taskArguments.reason, transaction: summary });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:manifest --tracking-id CARGO-001
+ *   - npx hardhat --network localhost task:manifest --tracking-id CARGO-001 --decrypt
+ */
+cargoTask("task:manifest", "Lists the manifest versions of a shipment, optionally decrypting them")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .addFlag("decrypt", "Decrypt each version's contents")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const decrypt: boolean = taskArguments.decrypt;
+    if (decrypt) {
+      await fhevm.initializeCLIApi();
+    }
+
+    const context = await connectTask(hre, taskArguments);
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+
+    const count = Number(await viewsModule.getManifestVersionCount(taskArguments.trackingId));
+    context.log(`Manifest versions: ${count}`);
+    const versions = [];
+    for (let version = 1; version <= count; version++) {
+      const manifest = await viewsModule.getManifestVersion(taskArguments.trackingId, version);
+      context.log(
+        `  v${version} ${new Date(Number(manifest.amendedAt) * 1000).toISOString()} by ${manifest.amendedBy}: ${manifest.reason}`
+      );
+      const contents = decrypt ? await decryptContents(hre, context, manifest.contents) : null;
+      if (contents !== null) {
+        context.log(`      ${contents}`);
+      }
+      versions.push({
+        version,
+        reason: manifest.reason,
+        amendedBy: manifest.amendedBy,
+        amendedAt: Number(manifest.amendedAt),
+        chunks: manifest.contents.length,
+        contents,
+      });
+    }
+
+    context.done({ trackingId: taskArguments.trackingId, versions });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:check-events --tracking-id CARGO-2024-DEMO-001
+ */
+cargoTask("task:check-events", "Prints a shipment and its public cargo events from contract storage")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const context = await connectTask(hre, taskArguments);
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+
+    const shipment = await viewsModule.getShipment(taskArguments.trackingId);
+    if (!shipment.exists) {
+      throw new Error(
+        `Shipment ${taskArguments.trackingId} does not exist; create it with task:create-shipment --tracking-id ${taskArguments.trackingId}`
+      );
+    }
+    const [statusNames] = await viewsModule.getWorkflow();
+
+    context.log(`\nShipment found:`);
+    context.log(`  Tracking ID: ${shipment.trackingId}`);
+    context.log(`  Origin: ${shipment.origin}`);
+    context.log(`  Destination: ${shipment.destination}`);
+    context.log(`  Creator: ${shipment.creator}`);
+    context.log(`  Created at: ${new Date(Number(shipment.createdAt) * 1000).toLocaleString()}`);
+    context.log(`  Estimated delivery: ${new Date(Number(shipment.estimatedDelivery) * 1000).toLocaleString()}`);
+
+    const eventCount = Number(await viewsModule.getEventCount(taskArguments.trackingId));
+    context.log(`\nEvent count: ${eventCount}`);
+    const events = [];
+    for (let i = 0; i < eventCount; i++) {
+      const event = await viewsModule.getCargoEventPublic(taskArguments.trackingId, i);
+      context.log(`\n  Event ${i}:`);
+      context.log(`    Event ID: ${event.eventId}`);
+      context.log(`    Location: ${event.location}`);
+      context.log(`    Status: ${statusNames[Number(event.status)]}`);
+      context.log(`    Description: ${event.description}`);
+      context.log(`    Timestamp: ${new Date(Number(event.timestamp) * 1000).toLocaleString()}`);
+      events.push({
+        eventId: Number(event.eventId),
+        location: event.location,
+        status: statusNames[Number(event.status)],
+        description: event.description,
+        timestamp: Number(event.timestamp),
+      });
+    }
+    if (eventCount === 0) {
+      context.log(`\nNo events found for this shipment. Add one with task:add-event.`);
+    }
+
+    context.done({
+      trackingId: shipment.trackingId,
+      origin: shipment.origin,
+      destination: shipment.destination,
+      creator: shipment.creator,
+      createdAt: Number(shipment.createdAt),
+      estimatedDelivery: Number(shipment.estimatedDelivery),
+      events,
+    });
+  });
+
+/**
+ * Rebuild a shipment and its events from the ShipmentCreated, CargoEventAdded and StatusUpdated logs
+ */
+async function loadShipmentLogs(
+  hre: HardhatRuntimeEnvironment,
+  context: TaskContext,
+  trackingId: string,
+  fromBlock: number
+) {
+  const { ethers } = hre;
+
+  const secureCargoFlowContract = await ethers.getContractAt("SecureCargoFlow", context.address, context.signer);
+  const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+
+  // Lifecycle events index keccak256(trackingId), so one topic filter finds the whole shipment
+  const trackingKey = ethers.id(trackingId);
+  const [created, added, updated] = await Promise.all([
+    secureCargoFlowContract.queryFilter(secureCargoFlowContract.filters.ShipmentCreated(trackingKey), fromBlock),
+    secureCargoFlowContract.queryFilter(secureCargoFlowContract.filters.CargoEventAdded(trackingKey), fromBlock),
+    secureCargoFlowContract.queryFilter(secureCargoFlowContract.filters.StatusUpdated(trackingKey), fromBlock),
+  ]);
+  if (created.length === 0) {
+    throw new Error(`No ShipmentCreated log for ${trackingId} since block ${fromBlock}`);
+  }
+  const [statusNames] = await viewsModule.getWorkflow();
+
+  const shipment = created[0];
+  const previousStatuses = new Map(updated.map((log) => [log.args.eventId, Number(log.args.oldStatus)]));
+  return {
+    trackingId: shipment.args.trackingId,
+    origin: shipment.args.origin,
+    destination: shipment.args.destination,
+    estimatedDelivery: Number(shipment.args.estimatedDelivery),
+    creator: shipment.args.creator,
+    createdBlock: shipment.blockNumber,
+    createdBlockHash: shipment.blockHash,
+    createdTransaction: shipment.transactionHash,
+    events: added
+      .map((log) => ({
+        eventId: Number(log.args.eventId),
+        location: log.args.location,
+        status: statusNames[Number(log.args.status)],
+        previousStatus: previousStatuses.has(log.args.eventId)
+          ? statusNames[previousStatuses.get(log.args.eventId)!]
+          : null,
+        description: log.args.description,
+        timestamp: Number(log.args.timestamp),
+        manifestVersion: Number(log.args.manifestVersion),
+        creator: log.args.creator,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+      }))
+      .sort((a, b) => a.eventId - b.eventId),
+  };
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:history --tracking-id CARGO-001
+ *   - npx hardhat --network sepolia task:history --tracking-id CARGO-001 --from-block 7000000 --json
+ */
+cargoTask("task:history", "Rebuilds a shipment's timeline, with blocks and transactions, from the lifecycle logs")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .addOptionalParam("fromBlock", "First block to search (the deployment block keeps public RPC queries small)", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const fromBlock = parseIndex(taskArguments.fromBlock, "from-block");
+
+    const context = await connectTask(hre, taskArguments);
+    const history = await loadShipmentLogs(hre, context, taskArguments.trackingId, fromBlock);
+
+    context.log(
+      `\n${history.trackingId}: ${history.origin} -> ${history.destination}, ` +
+        `created by ${history.creator} in block ${history.createdBlock}`
+    );
+    for (const event of history.events) {
+      const change = event.previousStatus ? `${event.previousStatus} -> ${event.status}` : event.status;
+      context.log(
+        `  #${event.eventId} ${new Date(event.timestamp * 1000).toISOString()} ${change} at ${event.location}: ` +
+          `${event.description} (block ${event.blockNumber}, tx ${event.transactionHash})`
+      );
+    }
+
+    context.done(history);
+  });
+
+// Version tag of the export layout; the UI's "Export" action writes the same format
+const EXPORT_FORMAT = "secure-cargo-flow-export/2";
+
+/**
+ * Build the chain-derived part of a shipment export: the header and the first eventLimit events, with their
+ * block and transaction references
+ *
+ * Only facts that never change once mined go in: log fields, block numbers and hashes, transaction hashes and
+ * the creation time. Encrypted handles are left out, since revoking decrypt access re-encrypts them.
+ * Addresses and hashes are lowercased and numbers kept as JSON numbers, so the CLI and the UI serialize
+ * the same record to the same bytes.
+ */
+async function buildExportRecord(
+  hre: HardhatRuntimeEnvironment,
+  context: TaskContext,
+  trackingId: string,
+  fromBlock: number,
+  eventLimit?: number
+) {
+  const { ethers } = hre;
+
+  const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+  const { chainId } = await ethers.provider.getNetwork();
+
+  const [shipment, history] = await Promise.all([
+    viewsModule.getShipment(trackingId),
+    loadShipmentLogs(hre, context, trackingId, fromBlock),
+  ]);
+  const records = history.events.slice(0, eventLimit ?? history.events.length).map((event) => ({
+    eventId: event.eventId,
+    timestamp: event.timestamp,
+    location: event.location,
+    status: event.status,
+    previousStatus: event.previousStatus,
+    description: event.description,
+    manifestVersion: event.manifestVersion,
+    creator: event.creator.toLowerCase(),
+    blockNumber: event.blockNumber,
+    blockHash: event.blockHash.toLowerCase(),
+    transactionHash: event.transactionHash.toLowerCase(),
+  }));
+
+  // The ETA comes from the creation log so later revisions do not change an existing export
+  return {
+    format: EXPORT_FORMAT,
+    chainId: Number(chainId),
+    contract: context.address.toLowerCase(),
+    shipment: {
+      trackingId: history.trackingId,
+      origin: history.origin,
+      destination: history.destination,
+      creator: history.creator.toLowerCase(),
+      createdAt: Number(shipment.createdAt),
+      estimatedDelivery: history.estimatedDelivery,
+      createdBlock: history.createdBlock,
+      createdBlockHash: history.createdBlockHash.toLowerCase(),
+      createdTransaction: history.createdTransaction.toLowerCase(),
+      events: records,
+    },
+  };
+}
+
+type ExportRecord = Awaited<ReturnType<typeof buildExportRecord>>;
+
+type DecryptedExportEvent = { eventId: number; weightKg: number | null; contents: string | null };
+
+// keccak256 of the record's compact JSON, which anyone can rebuild from the chain
+const exportContentHash = (hre: HardhatRuntimeEnvironment, record: ExportRecord) =>
+  hre.ethers.id(
+    JSON.stringify({
+      format: record.format,
+      chainId: record.chainId,
+      contract: record.contract,
+      shipment: record.shipment,
+    })
+  );
+
+// keccak256 of the decrypted values, bound to the record they were read for and the account that read them
+const exportDecryptedHash = (
+  hre: HardhatRuntimeEnvironment,
+  contentHash: string,
+  by: string,
+  events: DecryptedExportEvent[]
+) => hre.ethers.id(JSON.stringify({ contentHash, by, events }));
+
+// Quote a CSV field when it holds a separator, quote or line break
+const csvField = (value: unknown) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Render an export as CSV: the header as # comment lines, then one row per event
+ */
+function exportToCsv(
+  record: ExportRecord & { contentHash: string; exportedAt: string; exportedBy: string },
+  decrypted: { hash: string; events: DecryptedExportEvent[] } | null
+): string {
+  const clearById = new Map(decrypted?.events.map((event) => [event.eventId, event]));
+  const { shipment } = record;
+  const lines = [
+    `# format: ${record.format}`,
+    `# chainId: ${record.chainId}`,
+    `# contract: ${record.contract}`,
+    `# trackingId: ${shipment.trackingId}`,
+    `# origin: ${shipment.origin}`,
+    `# destination: ${shipment.destination}`,
+    `# creator: ${shipment.creator}`,
+    `# createdAt: ${new Date(shipment.createdAt * 1000).toISOString()}`,
+    `# estimatedDelivery: ${new Date(shipment.estimatedDelivery * 1000).toISOString()}`,
+    `# createdBlock: ${shipment.createdBlock}`,
+    `# createdBlockHash: ${shipment.createdBlockHash}`,
+    `# createdTransaction: ${shipment.createdTransaction}`,
+    `# exportedAt: ${record.exportedAt}`,
+    `# exportedBy: ${record.exportedBy}`,
+    `# contentHash: ${record.contentHash}`,
+    `# decryptedHash: ${decrypted?.hash ?? ""}`,
+    [
+      "eventId",
+      "timestamp",
+      "location",
+      "status",
+      "previousStatus",
+      "description",
+      "manifestVersion",
+      "creator",
+      "blockNumber",
+      "blockHash",
+      "transactionHash",
+      "weightKg",
+      "contents",
+    ].join(","),
+  ];
+  for (const event of shipment.events) {
+    const clear = clearById.get(event.eventId);
+    lines.push(
+      [
+        event.eventId,
+        new Date(event.timestamp * 1000).toISOString(),
+        event.location,
+        event.status,
+        event.previousStatus,
+        event.description,
+        event.manifestVersion,
+        event.creator,
+        event.blockNumber,
+        event.blockHash,
+        event.transactionHash,
+        clear?.weightKg,
+        clear?.contents,
+      ]
+        .map(csvField)
+        .join(",")
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Decrypt the weight and contents of every exported event the signer may read; null where access is missing
+ *
+ * The handles are read at decryption time rather than kept in the export, since revokeDecryptAccess replaces them.
+ */
+async function decryptExportEvents(
+  hre: HardhatRuntimeEnvironment,
+  context: TaskContext,
+  record: ExportRecord
+): Promise<DecryptedExportEvent[]> {
+  const { ethers, fhevm } = hre;
+
+  const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+  const { trackingId } = record.shipment;
+
+  // Events recorded under the same manifest version share their contents handles
+  const contentsByVersion = new Map<number, string | null>();
+  const decrypted: DecryptedExportEvent[] = [];
+  for (const event of record.shipment.events) {
+    const [weightHandle, contentsHandles] = await Promise.all([
+      viewsModule.getEncryptedWeight(trackingId, event.eventId),
+      viewsModule.getEncryptedContents(trackingId, event.eventId),
+    ]);
+    let weightKg: number | null = null;
+    if (weightHandle !== ethers.ZeroHash) {
+      try {
+        const grams = await fhevm.userDecryptEuint(FhevmType.euint32, weightHandle, context.address, context.signer);
+        weightKg = Number(grams) / 1000;
+      } catch {
+        context.log(`  event ${event.eventId}: no access to the weight`);
+      }
+    }
+    if (event.manifestVersion > 0 && !contentsByVersion.has(event.manifestVersion)) {
+      try {
+        contentsByVersion.set(event.manifestVersion, await decryptContents(hre, context, contentsHandles));
+      } catch {
+        contentsByVersion.set(event.manifestVersion, null);
+        context.log(`  manifest v${event.manifestVersion}: no access to the contents`);
+      }
+    }
+    decrypted.push({
+      eventId: event.eventId,
+      weightKg,
+      contents: contentsByVersion.get(event.manifestVersion) ?? null,
+    });
+  }
+  return decrypted;
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:export-shipment --tracking-id CARGO-001
+ *   - npx hardhat --network localhost task:export-shipment --tracking-id CARGO-001 --out audit/CARGO-001 --decrypt --signer 1
+ *
+ * Writes <out>.json and <out>.csv (default out: the tracking ID). The contentHash covers the chain-derived
+ * record; with --decrypt, decryptedHash covers the decrypted values together with the contentHash and the
+ * decrypting account. The CSV repeats both hashes, but only the JSON can be checked with task:verify-export.
+ */
+cargoTask("task:export-shipment", "Exports a shipment and its events to JSON and CSV, optionally with decrypted fields")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .addOptionalParam("out", "Output path without extension (defaults to the tracking ID)")
+  .addFlag("decrypt", "Include the weight and contents decrypted for the signer")
+  .addOptionalParam("fromBlock", "First block to search for the shipment logs", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const fromBlock = parseIndex(taskArguments.fromBlock, "from-block");
+    const decrypt: boolean = taskArguments.decrypt;
+    const out: string = taskArguments.out ?? taskArguments.trackingId.replace(/[^\w.-]/g, "_");
+
+    const context = await connectTask(hre, taskArguments);
+    const record = await buildExportRecord(hre, context, taskArguments.trackingId, fromBlock);
+    context.log(`${record.shipment.events.length} events read from the chain`);
+
+    const exported = {
+      ...record,
+      contentHash: exportContentHash(hre, record),
+      exportedAt: new Date().toISOString(),
+      exportedBy: context.signer.address.toLowerCase(),
+    };
+
+    let decrypted: { by: string; events: DecryptedExportEvent[]; hash: string } | null = null;
+    if (decrypt) {
+      await fhevm.initializeCLIApi();
+      const events = await decryptExportEvents(hre, context, record);
+      decrypted = {
+        by: exported.exportedBy,
+        events,
+        hash: exportDecryptedHash(hre, exported.contentHash, exported.exportedBy, events),
+      };
+    }
+    const document = { ...exported, decrypted };
+
+    const files = [`${out}.json`, `${out}.csv`];
+    fs.writeFileSync(files[0], JSON.stringify(document, null, 2) + "\n");
+    fs.writeFileSync(files[1], exportToCsv(exported, decrypted));
+    context.log(`Wrote ${files.join(" and ")}`);
+    context.log(`Content hash: ${exported.contentHash}`);
+    if (decrypted) {
+      context.log(`Decrypted hash: ${decrypted.hash}`);
+    }
+
+    context.done({
+      trackingId: record.shipment.trackingId,
+      events: record.shipment.events.length,
+      decrypted: decrypt,
+      contentHash: exported.contentHash,
+      decryptedHash: decrypted?.hash ?? null,
+      files,
+    });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:verify-export --file CARGO-001.json
+ *   - npx hardhat --network localhost task:verify-export --file CARGO-001.json --decrypt --signer 1
+ *
+ * Rebuilds the exported record from the chain (same contract, same number of events) and compares hashes, and
+ * checks the decrypted values against their decryptedHash. With --decrypt the values are also decrypted again
+ * for the signer, who needs read access to the shipment, and compared with the file.
+ * Exits with code 1 when the file was edited or does not match the chain.
+ */
+cargoTask("task:verify-export", "Checks a JSON shipment export against its content hash and the chain")
+  .addParam("file", "JSON file written by task:export-shipment or the UI")
+  .addFlag("decrypt", "Also decrypt the exported fields for the signer and compare them with the file")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const document = JSON.parse(fs.readFileSync(taskArguments.file, "utf8"));
+    if (document.format !== EXPORT_FORMAT) {
+      throw new Error(`Unsupported export format ${document.format}; expected ${EXPORT_FORMAT}`);
+    }
+    if (taskArguments.decrypt && !document.decrypted) {
+      throw new Error(`Export ${taskArguments.file} holds no decrypted values to compare`);
+    }
+
+    // The export names its contract, so --address is only needed to override it
+    const context = await connectTask(hre, { ...taskArguments, address: taskArguments.address ?? document.contract });
+    const { chainId } = await ethers.provider.getNetwork();
+    if (Number(chainId) !== document.chainId) {
+      throw new Error(`Export is from chain ${document.chainId}, but this network is chain ${chainId}`);
+    }
+
+    const fileHash = exportContentHash(hre, document);
+    const onChain = await buildExportRecord(
+      hre,
+      context,
+      document.shipment.trackingId,
+      document.shipment.createdBlock,
+      document.shipment.events.length
+    );
+    const chainHash = exportContentHash(hre, onChain);
+    const matchesChain = chainHash === fileHash;
+
+    // Decrypted values are bound to the content hash the file claims, so they cannot be moved to another export
+    const decryptedIntact: boolean | null = document.decrypted
+      ? exportDecryptedHash(hre, document.contentHash, document.decrypted.by, document.decrypted.events) ===
+        document.decrypted.hash
+      : null;
+    const intact = fileHash === document.contentHash && decryptedIntact !== false;
+
+    let decryptedMatchesChain: boolean | null = null;
+    if (taskArguments.decrypt) {
+      await fhevm.initializeCLIApi();
+      const events = await decryptExportEvents(hre, context, onChain);
+      decryptedMatchesChain = JSON.stringify(events) === JSON.stringify(document.decrypted.events);
+    }
+
+    // Point at the first event that differs, to help whoever investigates a mismatch
+    const firstDifference = matchesChain
+      ? null
+      : JSON.stringify({ ...document.shipment, events: [] }) !== JSON.stringify({ ...onChain.shipment, events: [] })
+        ? "shipment header"
+        : onChain.shipment.events.length !== document.shipment.events.length
+          ? `event count (${onChain.shipment.events.length} on chain)`
+          : `event ${document.shipment.events.findIndex(
+              (event: unknown, i: number) => JSON.stringify(event) !== JSON.stringify(onChain.shipment.events[i])
+            )}`;
+
+    const verified = intact && matchesChain && decryptedMatchesChain !== false;
+    context.log(`File hashes: ${intact ? "intact" : "do not match the file contents"}`);
+    context.log(`Chain: ${matchesChain ? "matches" : `differs (${firstDifference})`}`);
+    if (decryptedMatchesChain !== null) {
+      context.log(`Decrypted values: ${decryptedMatchesChain ? "match" : "differ from"} the values decrypted now`);
+    } else if (document.decrypted) {
+      context.log(`Decrypted values: attested by ${document.decrypted.by}; rerun with --decrypt to check them`);
+    }
+    context.log(verified ? `Export verified` : `Export NOT verified`);
+    if (!verified) {
+      process.exitCode = 1;
+    }
+
+    context.done({
+      file: taskArguments.file,
+      trackingId: document.shipment.trackingId,
+      contentHash: document.contentHash,
+      chainHash,
+      intact,
+      matchesChain,
+      decryptedIntact,
+      decryptedMatchesChain,
+      firstDifference,
+    });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:list-shipments
+ *   - npx hardhat --network localhost task:list-shipments --creator 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --offset 50 --limit 50
+ */
+cargoTask("task:list-shipments", "Lists shipments from the global index, or those created by one account, one page at a time")
+  .addOptionalParam("creator", "Only list shipments created by this account")
+  .addOptionalParam("offset", "Index of the first shipment to list", "0")
+  .addOptionalParam("limit", "Number of shipments to list (at most 100)", "50")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const offset = parseIndex(taskArguments.offset, "offset");
+    const limit = parseIndex(taskArguments.limit, "limit");
+    if (limit === 0) {
+      throw new Error(`Argument --limit must be positive`);
+    }
+
+    const context = await connectTask(hre, taskArguments);
+    // Paged views are served by SecureCargoFlowViews through the module fallbacks
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+
+    const [trackingIds, total] = taskArguments.creator
+      ? await viewsModule.getShipmentsByCreator(taskArguments.creator, offset, limit)
+      : await viewsModule.getShipmentIds(offset, limit);
+
+    context.log(
+      `Shipments ${trackingIds.length === 0 ? 0 : offset + 1}-${offset + trackingIds.length} of ${total}` +
+        (taskArguments.creator ? ` created by ${taskArguments.creator}` : "")
+    );
+    const shipments = [];
+    for (const trackingId of trackingIds) {
+      const [shipment, eventCount] = await Promise.all([
+        viewsModule.getShipment(trackingId),
+        viewsModule.getEventCount(trackingId),
+      ]);
+      context.log(`  ${trackingId}: ${shipment.origin} -> ${shipment.destination}, ${eventCount} events`);
+      shipments.push({ trackingId, origin: shipment.origin, destination: shipment.destination, eventCount });
+    }
+    const nextOffset = offset + trackingIds.length < total ? offset + trackingIds.length : null;
+    if (nextOffset !== null) {
+      context.log(`Next page: --offset ${nextOffset}`);
+    }
+
+    context.done({ total, offset, shipments, nextOffset });
+  });
+
+
+// Admin functions are served by SecureCargoFlowAdmin through the SecureCargoFlow fallback,
+// so the tasks below call them with the admin ABI at the SecureCargoFlow address.
+
+const PARTICIPANT_ROLES = ["None", "Shipper", "Carrier", "Customs", "Consignee"];
+
+function parseParticipantRole(value: string): number {
+  const role = PARTICIPANT_ROLES.findIndex((name) => name.toLowerCase() === value.toLowerCase());
+  if (role <= 0) {
+    throw new Error(`Argument --role must be one of: carrier, customs, consignee`);
+  }
+  return role;
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:add-participant --tracking-id CARGO-001 --account 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --role carrier
+ */
+cargoTask("task:add-participant", "Registers a participant (carrier, customs, consignee) on a shipment")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .addParam("account", "Participant address")
+  .addParam("role", "Participant role (carrier, customs, consignee)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const role = parseParticipantRole(taskArguments.role);
+
+    const context = await connectTask(hre, taskArguments);
+    const adminModule = await ethers.getContractAt("SecureCargoFlowAdmin", context.address, context.signer);
+
+    const { summary } = await waitForTx(
+      context,
+      await adminModule.addParticipant(taskArguments.trackingId, taskArguments.account, role)
+    );
+    context.log(`${PARTICIPANT_ROLES[role]} ${taskArguments.account} added to ${taskArguments.trackingId}`);
+
+    context.done({
+      trackingId: taskArguments.trackingId,
+      account: taskArguments.account,
+      role: PARTICIPANT_ROLES[role],
+      transaction: summary,
+    });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:remove-participant --tracking-id CARGO-001 --account 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ */
+cargoTask("task:remove-participant", "Removes a participant from a shipment")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .addParam("account", "Participant address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const context = await connectTask(hre, taskArguments);
+    const adminModule = await ethers.getContractAt("SecureCargoFlowAdmin", context.address, context.signer);
+
+    const { summary } = await waitForTx(
+      context,
+      await adminModule.removeParticipant(taskArguments.trackingId, taskArguments.account)
+    );
+    context.log(`${taskArguments.account} removed from ${taskArguments.trackingId}`);
+
+    context.done({ trackingId: taskArguments.trackingId, account: taskArguments.account, transaction: summary });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:list-participants --tracking-id CARGO-001
+ */
+cargoTask("task:list-participants", "Lists the participants registered on a shipment")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const context = await connectTask(hre, taskArguments);
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+
+    const [accounts, roles] = await viewsModule.getParticipants(taskArguments.trackingId);
+    context.log(`\nParticipants of ${taskArguments.trackingId}:`);
+    for (let i = 0; i < accounts.length; i++) {
+      context.log(`  ${accounts[i]}  ${PARTICIPANT_ROLES[Number(roles[i])]}`);
+    }
+
+    context.done({
+      trackingId: taskArguments.trackingId,
+      participants: accounts.map((account, i) => ({ account, role: PARTICIPANT_ROLES[Number(roles[i])] })),
+    });
+  });
+
+/**
+ * Examples:
+ *   - npx hardhat --network localhost task:transfer-custody --tracking-id CARGO-001 --action propose --to 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ *   - npx hardhat --network localhost task:transfer-custody --tracking-id CARGO-001 --action accept --signer 1
+ *   - npx hardhat --network localhost task:transfer-custody --tracking-id CARGO-001 --action cancel
+ *   - npx hardhat --network localhost task:transfer-custody --tracking-id CARGO-001 --action history
+ */
+cargoTask("task:transfer-custody", "Proposes, accepts or cancels a custody handover, or prints the chain of custody")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .addParam("action", "One of: propose, accept, cancel, history")
+  .addOptionalParam("to", "New custodian address (required for propose)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const action = String(taskArguments.action).toLowerCase();
+    if (!["propose", "accept", "cancel", "history"].includes(action)) {
+      throw new Error(`Argument --action must be one of: propose, accept, cancel, history`);
+    }
+    if (action === "propose" && !ethers.isAddress(taskArguments.to)) {
+      throw new Error(`Argument --to must be a valid address`);
+    }
+
+    const context = await connectTask(hre, taskArguments);
+    const adminModule = await ethers.getContractAt("SecureCargoFlowAdmin", context.address, context.signer);
+
+    if (action === "history") {
+      const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+      const history = await viewsModule.getCustodyHistory(taskArguments.trackingId);
+      const pending = await adminModule.pendingCustodians(taskArguments.trackingId);
+      context.log(`\nChain of custody for ${taskArguments.trackingId}:`);
+      for (const record of history) {
+        const from = record.from === ethers.ZeroAddress ? "(created)" : record.from;
+        context.log(`  ${new Date(Number(record.timestamp) * 1000).toISOString()}  ${from} -> ${record.to}`);
+      }
+      if (pending !== ethers.ZeroAddress) {
+        context.log(`  Pending transfer to ${pending}`);
+      }
+      context.done({
+        trackingId: taskArguments.trackingId,
+        history: history.map((record) => ({ from: record.from, to: record.to, timestamp: Number(record.timestamp) })),
+        pendingCustodian: pending === ethers.ZeroAddress ? null : pending,
+      });
+      return;
+    }
+
+    const tx =
+      action === "propose"
+        ? await adminModule.proposeCustodyTransfer(taskArguments.trackingId, taskArguments.to)
+        : action === "accept"
+          ? await adminModule.acceptCustodyTransfer(taskArguments.trackingId)
+          : await adminModule.cancelCustodyTransfer(taskArguments.trackingId);
+    const { summary } = await waitForTx(context, tx);
+    context.log(`Custody ${action} for ${taskArguments.trackingId} sent by ${context.signer.address}`);
+
+    context.done({ trackingId: taskArguments.trackingId, action, transaction: summary });
+  });
+
+/**
+ * Examples:
+ *   - npx hardhat --network localhost task:reconnect --tracking-id CARGO-001 --to 1
+ *   - npx hardhat --network sepolia task:reconnect --tracking-id CARGO-001 --to 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ *
+ * Moves a shipment to a new wallet through the two-step custody handover. The current custodian (--signer)
+ * proposes the transfer; when --to is an account index on this network, that account accepts it in the same run,
+ * otherwise the new wallet accepts later with task:transfer-custody --action accept. A transfer already pending to
+ * the new wallet is not proposed again, so an interrupted run can simply be repeated.
+ */
+cargoTask("task:reconnect", "Hands a shipment over to a new wallet by proposing and accepting a custody transfer")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .addParam("to", "New wallet: an account index on this network, or an address that accepts later")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const signers = await ethers.getSigners();
+    const byIndex = /^\d+$/.test(taskArguments.to);
+    const newSigner = byIndex ? signers[parseIndex(taskArguments.to, "to")] : undefined;
+    if (byIndex && !newSigner) {
+      throw new Error(`Argument --to must be below ${signers.length}, the number of accounts on this network`);
+    }
+    if (!byIndex && !ethers.isAddress(taskArguments.to)) {
+      throw new Error(`Argument --to must be an account index or a valid address`);
+    }
+    const newCustodian = ethers.getAddress(newSigner?.address ?? taskArguments.to);
+
+    const context = await connectTask(hre, taskArguments);
+    const adminModule = await ethers.getContractAt("SecureCargoFlowAdmin", context.address, context.signer);
+
+    const { creator } = await adminModule.shipments(taskArguments.trackingId);
+    if (creator === newCustodian) {
+      context.log(`${taskArguments.trackingId} is already in the custody of ${newCustodian}`);
+      context.done({
+        trackingId: taskArguments.trackingId,
+        custodian: newCustodian,
+        pendingCustodian: null,
+        accepted: true,
+        proposeTransaction: null,
+        acceptTransaction: null,
+      });
+      return;
+    }
+
+    let proposeTransaction = null;
+    if ((await adminModule.pendingCustodians(taskArguments.trackingId)) === newCustodian) {
+      context.log(`Transfer to ${newCustodian} already proposed`);
+    } else {
+      proposeTransaction = (
+        await waitForTx(context, await adminModule.proposeCustodyTransfer(taskArguments.trackingId, newCustodian))
+      ).summary;
+      context.log(`Custody transfer from ${creator} to ${newCustodian} proposed`);
+    }
+
+    let acceptTransaction = null;
+    if (newSigner) {
+      acceptTransaction = (
+        await waitForTx(context, await adminModule.connect(newSigner).acceptCustodyTransfer(taskArguments.trackingId))
+      ).summary;
+      context.log(`${taskArguments.trackingId} is now in the custody of ${newCustodian}`);
+    } else {
+      context.log(`${newCustodian} completes the handover with task:transfer-custody --action accept`);
+    }
+
+    context.done({
+      trackingId: taskArguments.trackingId,
+      custodian: newSigner ? newCustodian : creator,
+      pendingCustodian: newSigner ? null : newCustodian,
+      accepted: newSigner !== undefined,
+      proposeTransaction,
+      acceptTransaction,
+    });
+  });
+
+const PAUSE_SCOPES = ["creation", "events", "status"];
+
+function parsePauseScopes(value: string): number[] {
+  if (value.toLowerCase() === "all") {
+    return PAUSE_SCOPES.map((_, scope) => scope);
+  }
+  const scope = PAUSE_SCOPES.indexOf(value.toLowerCase());
+  if (scope < 0) {
+    throw new Error(`Argument --scope must be one of: creation, events, status, all`);
+  }
+  return [scope];
+}
+
+async function setPaused(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment, pause: boolean) {
+  const { ethers } = hre;
+
+  const scopes = parsePauseScopes(taskArguments.scope);
+
+  const context = await connectTask(hre, taskArguments);
+  const adminModule = await ethers.getContractAt("SecureCargoFlowAdmin", context.address, context.signer);
+
+  const results = [];
+  for (const scope of scopes) {
+    if ((await adminModule.paused(scope)) === pause) {
+      context.log(`${PAUSE_SCOPES[scope]} already ${pause ? "paused" : "unpaused"}`);
+      results.push({ scope: PAUSE_SCOPES[scope], paused: pause, transaction: null });
+      continue;
+    }
+
+    const { summary } = await waitForTx(context, pause ? await adminModule.pause(scope) : await adminModule.unpause(scope));
+    context.log(`${PAUSE_SCOPES[scope]} ${pause ? "paused" : "unpaused"}`);
+    results.push({ scope: PAUSE_SCOPES[scope], paused: pause, transaction: summary });
+  }
+
+  context.done({ scopes: results });
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:pause --scope events
+ *   - npx hardhat --network localhost task:pause --scope all
+ */
+cargoTask("task:pause", "Pauses a function group (owner or guardian only)")
+  .addParam("scope", "Function group to pause (creation, events, status, all)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await setPaused(taskArguments, hre, true);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:unpause --scope events
+ */
+cargoTask("task:unpause", "Unpauses a function group (owner or guardian only)")
+  .addParam("scope", "Function group to unpause (creation, events, status, all)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await setPaused(taskArguments, hre, false);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:list-shippers
+ */
+cargoTask("task:list-shippers", "Lists the accounts allowed to create shipments")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const context = await connectTask(hre, taskArguments);
+    const adminModule = await ethers.getContractAt("SecureCargoFlowAdmin", context.address, context.signer);
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+
+    const openCreation = await adminModule.openCreation();
+    const shippers = await viewsModule.getAllowedShippers();
+    context.log(`\nCreation mode: ${openCreation ? "open (anyone may create shipments)" : "allowlist only"}`);
+    context.log(`Allowed shippers (${shippers.length}):`);
+    for (const shipper of shippers) {
+      context.log(`  ${shipper}`);
+    }
+
+    context.done({ openCreation, shippers });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:add-shipper --account 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ *   - npx hardhat --network localhost task:add-shipper --account 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --close
+ */
+cargoTask("task:add-shipper", "Allows an account to create shipments (owner only)")
+  .addParam("account", "Shipper address")
+  .addFlag("close", "Also switch creation to allowlist-only mode")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const context = await connectTask(hre, taskArguments);
+    const adminModule = await ethers.getContractAt("SecureCargoFlowAdmin", context.address, context.signer);
+
+    const transactions = [(await waitForTx(context, await adminModule.addAllowedShipper(taskArguments.account))).summary];
+
+    if (taskArguments.close && (await adminModule.openCreation())) {
+      transactions.push((await waitForTx(context, await adminModule.setOpenCreation(false))).summary);
+      context.log(`Creation switched to allowlist-only mode`);
+    }
+
+    context.log(`${taskArguments.account} may now create shipments`);
+
+    context.done({ account: taskArguments.account, openCreation: await adminModule.openCreation(), transactions });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:remove-shipper --account 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ */
+cargoTask("task:remove-shipper", "Removes an account from the shipper allowlist (owner only)")
+  .addParam("account", "Shipper address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const context = await connectTask(hre, taskArguments);
+    const adminModule = await ethers.getContractAt("SecureCargoFlowAdmin", context.address, context.signer);
+
+    const { summary } = await waitForTx(context, await adminModule.removeAllowedShipper(taskArguments.account));
+    context.log(`${taskArguments.account} removed from the shipper allowlist`);
+
+    context.done({ account: taskArguments.account, transaction: summary });
+  });
+
+// Sensor readings are encrypted as euint16: temperature in 0.1 °C offset by +100 °C, humidity in 0.1 %
+const encodeTemperature = (celsius: number) => Math.round(celsius * 10) + 1000;
+const decodeTemperature = (encoded: bigint) => (Number(encoded) - 1000) / 10;
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:add-reading --tracking-id CARGO-001 --temperature 5.5 --humidity 42
+ */
+cargoTask("task:add-reading", "Records an encrypted cold-chain sensor reading")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .addParam("temperature", "Temperature in °C (will be encrypted)")
+  .addParam("humidity", "Relative humidity in % (will be encrypted)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const temperature = parseFloat(taskArguments.temperature);
+    const humidity = parseFloat(taskArguments.humidity);
+    if (isNaN(temperature) || temperature < -100 || temperature > 100) {
+      throw new Error(`Argument --temperature must be between -100 and 100`);
+    }
+    if (isNaN(humidity) || humidity < 0 || humidity > 100) {
+      throw new Error(`Argument --humidity must be between 0 and 100`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const context = await connectTask(hre, taskArguments);
+    const adminModule = await ethers.getContractAt("SecureCargoFlowAdmin", context.address, context.signer);
+
+    const encryptedReading = await fhevm
+      .createEncryptedInput(context.address, context.signer.address)
+      .add16(encodeTemperature(temperature))
+      .add16(Math.round(humidity * 10))
+      .encrypt();
+
+    const { summary } = await waitForTx(
+      context,
+      await adminModule.addSensorReading(
+        taskArguments.trackingId,
+        encryptedReading.handles[0],
+        encryptedReading.handles[1],
+        encryptedReading.inputProof
+      )
+    );
+    context.log(`Sensor reading recorded`);
+
+    context.done({ trackingId: taskArguments.trackingId, transaction: summary });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:telemetry --tracking-id CARGO-001
+ */
+cargoTask("task:telemetry", "Decrypts the cold-chain sensor readings and excursion count of a shipment")
+  .addParam("trackingId", "Tracking ID for the shipment")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const context = await connectTask(hre, taskArguments);
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+
+    const count = await viewsModule.getSensorReadingCount(taskArguments.trackingId);
+    context.log(`Sensor readings: ${count}`);
+
+    const readings = [];
+    for (let i = 0; i < Number(count); i++) {
+      const [timestamp, reporter, temperature, humidity, excursion] = await viewsModule.getSensorReading(
+        taskArguments.trackingId,
+        i
+      );
+      const clearTemperature = await fhevm.userDecryptEuint(
+        FhevmType.euint16,
+        temperature,
+        context.address,
+        context.signer
+      );
+      const clearHumidity = await fhevm.userDecryptEuint(FhevmType.euint16, humidity, context.address, context.signer);
+      const clearExcursion = await fhevm.userDecryptEbool(excursion, context.address, context.signer);
+      const reading = {
+        timestamp: Number(timestamp),
+        reporter,
+        temperature: decodeTemperature(clearTemperature),
+        humidity: Number(clearHumidity) / 10,
+        excursion: clearExcursion,
+      };
+      context.log(
+        `  ${new Date(reading.timestamp * 1000).toISOString()} ${reporter}: ` +
+          `${reading.temperature} °C, ${reading.humidity} %` +
+          (clearExcursion ? " (out of range)" : "")
+      );
+      readings.push(reading);
+    }
+
+    const excursionCount = await viewsModule.getExcursionCount(taskArguments.trackingId);
+    let excursions: bigint | null = null;
+    if (excursionCount !== ethers.ZeroHash) {
+      excursions = await fhevm.userDecryptEuint(FhevmType.euint32, excursionCount, context.address, context.signer);
+      context.log(`Excursions: ${excursions}`);
+    }
+
+    context.done({ trackingId: taskArguments.trackingId, readings, excursions });
+  });
+
+const EXCEPTION_REASONS = ["Damage", "Delay", "Documentation", "Weather", "Security"];
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:exceptions
+ */
+cargoTask("task:exceptions", "Lists all open exceptions across shipments")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const context = await connectTask(hre, taskArguments);
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+
+    const exceptions = await viewsModule.getOpenExceptions();
+    context.log(`Open exceptions: ${exceptions.length}`);
+    for (const exception of exceptions) {
+      context.log(
+        `  #${exception.id} ${exception.trackingId} [${EXCEPTION_REASONS[Number(exception.reason)]}] ` +
+          `${new Date(Number(exception.reportedAt) * 1000).toISOString()} by ${exception.reporter}`
+      );
+      context.log(`      ${exception.details}`);
+    }
+
+    context.done({
+      exceptions: exceptions.map((exception) => ({
+        id: exception.id,
+        trackingId: exception.trackingId,
+        reason: EXCEPTION_REASONS[Number(exception.reason)],
+        details: exception.details,
+        reporter: exception.reporter,
+        reportedAt: Number(exception.reportedAt),
+      })),
+    });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:stats
+ *   - npx hardhat --network localhost task:stats --reveal
+ *   - npx hardhat --network localhost task:stats --reveal --grouping month
+ */
+cargoTask("task:stats", "Lists lane and monthly tonnage totals, optionally asking the oracle to publish them (owner only)")
+  .addFlag("reveal", "Request a reveal of every total with enough new shipments")
+  .addOptionalParam("grouping", "Totals to reveal, lane or month; the first reveal fixes it for good (default: lane)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    if (taskArguments.grouping !== undefined && !["lane", "month"].includes(taskArguments.grouping)) {
+      throw new Error(`Argument --grouping must be lane or month`);
+    }
+
+    const context = await connectTask(hre, taskArguments);
+    // The statistics and their reveal live in the views module
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+
+    const minShipments = await viewsModule.MIN_STATS_SHIPMENTS();
+    const [keys, stats] = await viewsModule.getAggregateStats(0, 100);
+    // Lane and month totals share shipments, so only the grouping of the first reveal can ever be revealed
+    const [groupingLocked, lockedKind] = await viewsModule.getStatsGrouping();
+    const lockedGrouping = Number(lockedKind) === 0 ? "lane" : "month";
+    const grouping: string = groupingLocked ? lockedGrouping : taskArguments.grouping ?? "lane";
+    if (groupingLocked && taskArguments.grouping !== undefined && taskArguments.grouping !== lockedGrouping) {
+      throw new Error(`Only ${lockedGrouping} totals can be revealed on this deployment`);
+    }
+    const revealable: string[] = [];
+    context.log(`Statistics: ${stats.length}`);
+    for (let i = 0; i < stats.length; i++) {
+      const stat = stats[i];
+      const label = Number(stat.kind) === 0 ? `${stat.origin} -> ${stat.destination}` : `month ${stat.month}`;
+      const revealed =
+        stat.revealedAt === 0n
+          ? "not revealed"
+          : `${Number(stat.revealedTonnage) / 1_000_000} t over ${stat.revealedShipments} shipments at ` +
+            new Date(Number(stat.revealedAt) * 1000).toISOString();
+      context.log(`  ${label}: ${stat.shipments} shipments, ${revealed}`);
+      const kind = Number(stat.kind) === 0 ? "lane" : "month";
+      if (kind === grouping && stat.shipments >= stat.requestedShipments + minShipments) {
+        revealable.push(keys[i]);
+      }
+    }
+
+    let transaction = null;
+    if (taskArguments.reveal) {
+      if (revealable.length === 0) {
+        context.log(`No ${grouping} total has ${minShipments} new shipments since its last reveal`);
+      } else {
+        transaction = (await waitForTx(context, await viewsModule.requestStatsReveal(revealable))).summary;
+        context.log(`Requested ${revealable.length} statistics; the oracle publishes them in a callback transaction`);
+      }
+    }
+
+    context.done({
+      statistics: stats.map((stat, i) => ({
+        key: keys[i],
+        kind: Number(stat.kind) === 0 ? "lane" : "month",
+        origin: stat.origin,
+        destination: stat.destination,
+        month: Number(stat.month),
+        shipments: Number(stat.shipments),
+        revealedTonnage: stat.revealedAt === 0n ? null : stat.revealedTonnage,
+        revealedShipments: Number(stat.revealedShipments),
+        revealedAt: stat.revealedAt === 0n ? null : Number(stat.revealedAt),
+      })),
+      revealGrouping: groupingLocked ? lockedGrouping : null,
+      revealRequested: transaction === null ? [] : revealable,
+      transaction,
+    });
+  });
+
+// Real-world lanes for task:seed-demo: a transshipment hub for checkpoints, and the ETA in days
+const DEMO_LANES = [
+  { code: "SHA-LAX", origin: "Shanghai, China", destination: "Los Angeles, USA", hub: "Busan, South Korea", days: 16 },
+  { code: "RTM-NYC", origin: "Rotterdam, Netherlands", destination: "New York, USA", hub: "Antwerp, Belgium", days: 10 },
+  { code: "SIN-HAM", origin: "Singapore", destination: "Hamburg, Germany", hub: "Suez Canal, Egypt", days: 24 },
+  { code: "YTN-FXT", origin: "Shenzhen Yantian, China", destination: "Felixstowe, UK", hub: "Colombo, Sri Lanka", days: 28 },
+  { code: "PUS-LGB", origin: "Busan, South Korea", destination: "Long Beach, USA", hub: "Yokohama, Japan", days: 12 },
+  { code: "NSA-JEA", origin: "Nhava Sheva, India", destination: "Jebel Ali, UAE", hub: "Salalah, Oman", days: 5 },
+  { code: "SSZ-ANR", origin: "Santos, Brazil", destination: "Antwerp, Belgium", hub: "Las Palmas, Spain", days: 18 },
+  { code: "NRT-FRA", origin: "Tokyo Narita, Japan", destination: "Frankfurt, Germany", hub: "Incheon, South Korea", days: 3 },
+  { code: "HKG-SYD", origin: "Hong Kong", destination: "Sydney, Australia", hub: "Kaohsiung, Taiwan", days: 12 },
+  { code: "SGN-SEA", origin: "Ho Chi Minh City, Vietnam", destination: "Seattle, USA", hub: "Yokohama, Japan", days: 20 },
+];
+
+// Contents with a plausible weight range in kg
+const DEMO_CARGO: [string, number, number][] = [
+  ["Consumer electronics: 1,200 smartphones in 40 cartons", 800, 1500],
+  ["Auto parts: brake assemblies and rotors", 6000, 14000],
+  ["Frozen shrimp, 2,000 cases at -18 °C", 18000, 22000],
+  ["Pharmaceuticals: vaccines in 2-8 °C shippers", 300, 900],
+  ["Green coffee beans, 320 jute bags", 19000, 19500],
+  ["Cotton T-shirts and denim, 600 cartons", 5000, 9000],
+  ["Flat-pack furniture, 24 pallets", 7000, 11000],
+  ["Solar panels, 620 modules", 14000, 16000],
+  ["Red wine, 1,100 cases", 15000, 17500],
+  ["Medical devices: ultrasound scanners", 400, 1200],
+  ["Lithium-ion battery packs (UN3480)", 2000, 5000],
+];
+
+type DemoStep =
+  | { kind: "status"; status: string }
+  | { kind: "checkpoint"; description: string; weightFactor?: number }
+  | { kind: "exception"; reason: string; details: string }
+  | { kind: "resolve"; resolution: string }
+  | { kind: "deliver" };
+
+// One scenario per final status, run one step per simulated day; shipments cycle through them in this order
+const DEMO_SCENARIOS: DemoStep[][] = [
+  [
+    { kind: "status", status: "InTransit" },
+    { kind: "checkpoint", description: "Transshipped" },
+    { kind: "status", status: "CustomsClearance" },
+    { kind: "status", status: "Arrived" },
+    { kind: "deliver" },
+  ],
+  [
+    { kind: "status", status: "InTransit" },
+    { kind: "checkpoint", description: "Transshipped" },
+  ],
+  [
+    { kind: "status", status: "InTransit" },
+    { kind: "checkpoint", description: "Transshipped" },
+    { kind: "status", status: "CustomsClearance" },
+  ],
+  [
+    { kind: "status", status: "InTransit" },
+    { kind: "status", status: "CustomsClearance" },
+    { kind: "status", status: "Arrived" },
+  ],
+  [
+    { kind: "status", status: "InTransit" },
+    { kind: "checkpoint", description: "Reweighed after handling damage", weightFactor: 0.98 },
+    { kind: "exception", reason: "Damage", details: "Container seal broken at transshipment; 3 cartons crushed" },
+  ],
+  [
+    { kind: "status", status: "InTransit" },
+    { kind: "status", status: "CustomsClearance" },
+    { kind: "status", status: "Held" },
+  ],
+  [
+    { kind: "status", status: "InTransit" },
+    { kind: "status", status: "CustomsClearance" },
+    { kind: "status", status: "Held" },
+    { kind: "status", status: "Returned" },
+  ],
+  [{ kind: "status", status: "Cancelled" }],
+  [
+    { kind: "status", status: "InTransit" },
+    { kind: "exception", reason: "Security", details: "Container missing from the terminal inventory" },
+    { kind: "status", status: "Lost" },
+  ],
+  [],
+  [
+    { kind: "status", status: "InTransit" },
+    { kind: "exception", reason: "Weather", details: "Typhoon warning closed the port for 36 hours" },
+    { kind: "resolve", resolution: "Port reopened; vessel sailed on the next window" },
+    { kind: "status", status: "CustomsClearance" },
+    { kind: "status", status: "Arrived" },
+    { kind: "deliver" },
+  ],
+];
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32), so a seed always produces the same dataset
+ */
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:seed-demo
+ *   - npx hardhat --network localhost task:seed-demo --shipments 30 --seed 7 --json
+ *
+ * Local development nodes only: simulated days pass with evm_increaseTime, which also clears the one-hour
+ * "Too early for status change" guard, and participant accounts without funds are topped up.
+ */
+cargoTask("task:seed-demo", "Creates demo shipments on real-world lanes and moves them through every status")
+  .addOptionalParam("shipments", "Number of shipments to create", String(DEMO_SCENARIOS.length))
+  .addOptionalParam("seed", "Seed for the weights, PINs and time steps", "1")
+  .addOptionalParam("carrier", "Account index of the carrier", "1")
+  .addOptionalParam("customs", "Account index of the customs officer", "2")
+  .addOptionalParam("consignee", "Account index of the consignee", "3")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const count = parseIndex(taskArguments.shipments, "shipments");
+    if (count === 0 || count > 100) {
+      throw new Error(`Argument --shipments must be between 1 and 100`);
+    }
+    const random = seededRandom(parseIndex(taskArguments.seed, "seed"));
+    const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+
+    const { chainId } = await ethers.provider.getNetwork();
+    if (chainId !== 31337n) {
+      throw new Error(`task:seed-demo needs a local development node (chain 31337) for evm_increaseTime`);
+    }
+
+    const context = await connectTask(hre, taskArguments);
+    const signers = await ethers.getSigners();
+    const shipper = context.signer;
+    const accounts = ["carrier", "customs", "consignee"].map((name) => {
+      const index = parseIndex(taskArguments[name], name);
+      if (index >= signers.length) {
+        throw new Error(`Argument --${name} must be below ${signers.length}, the number of accounts on this network`);
+      }
+      return signers[index];
+    });
+    const [carrier, customs, consignee] = accounts;
+    if (new Set([shipper, ...accounts].map((account) => account.address)).size !== 4) {
+      throw new Error(`The shipper, carrier, customs and consignee must be different accounts`);
+    }
+    for (const account of [shipper, ...accounts]) {
+      if ((await ethers.provider.getBalance(account.address)) < ethers.parseEther("1")) {
+        await ethers.provider.send("hardhat_setBalance", [account.address, ethers.toQuantity(ethers.parseEther("100"))]);
+        context.log(`Funded ${account.address}`);
+      }
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const secureCargoFlowContract = await ethers.getContractAt("SecureCargoFlow", context.address, shipper);
+    const adminModule = await ethers.getContractAt("SecureCargoFlowAdmin", context.address, shipper);
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, shipper);
+    const [statusNames, roleMasks] = await viewsModule.getWorkflow();
+
+    const travel = async (seconds: number) => {
+      await ethers.provider.send("evm_increaseTime", [seconds]);
+      await ethers.provider.send("evm_mine", []);
+    };
+
+    // Tracking IDs continue the global shipment count, so running the task again adds new shipments
+    const total = Number(await secureCargoFlowContract.totalShipments());
+    const latest = await ethers.provider.getBlock("latest");
+    const now = latest?.timestamp ?? Math.floor(Date.now() / 1000);
+    const shipments = Array.from({ length: count }, (_, i) => {
+      const lane = DEMO_LANES[i % DEMO_LANES.length];
+      const [contents, minKg, maxKg] = pick(DEMO_CARGO);
+      return {
+        trackingId: `${lane.code}-${String(total + i + 1).padStart(4, "0")}`,
+        lane,
+        contents,
+        weightInKg: Math.round((minKg + random() * (maxKg - minKg)) * 100) / 100,
+        estimatedDelivery: now + lane.days * 86400,
+        pin: 100000 + Math.floor(random() * 900000),
+        steps: DEMO_SCENARIOS[i % DEMO_SCENARIOS.length],
+        status: 0,
+        exceptionId: null as bigint | null,
+      };
+    });
+
+    // 1. Shipments with their delivery PINs, and their first events, in batches like task:create-batch
+    context.log(`Creating ${count} shipments...`);
+    for (const batch of groupBatches(shipments, () => 32)) {
+      const input = fhevm.createEncryptedInput(context.address, shipper.address);
+      batch.forEach((shipment) => input.add32(shipment.pin));
+      const encryptedPins = await input.encrypt();
+      const { receipt } = await waitForTx(
+        context,
+        await secureCargoFlowContract.createShipmentsBatch(
+          batch.map((shipment, index) => ({
+            trackingId: shipment.trackingId,
+            origin: shipment.lane.origin,
+            destination: shipment.lane.destination,
+            estimatedDelivery: shipment.estimatedDelivery,
+            encPin: encryptedPins.handles[index],
+            encValue: ethers.ZeroHash,
+            currency: "",
+          })),
+          encryptedPins.inputProof
+        )
+      );
+      const [failure] = readBatchFailures(hre, secureCargoFlowContract, receipt?.logs ?? []);
+      if (failure) {
+        throw new Error(`Could not create ${batch[failure[0]].trackingId}: ${failure[1]}`);
+      }
+    }
+    for (const batch of groupBatches(shipments, (shipment) => 32 + packContents(shipment.contents).length * 256)) {
+      const input = fhevm.createEncryptedInput(context.address, shipper.address);
+      const chunks = batch.map((shipment) => packContents(shipment.contents));
+      batch.forEach((shipment, index) => {
+        input.add32(Math.round(shipment.weightInKg * 1000));
+        chunks[index].forEach((chunk) => input.add256(chunk));
+      });
+      const encrypted = await input.encrypt();
+      let next = 0;
+      const { receipt } = await waitForTx(
+        context,
+        await secureCargoFlowContract.addCargoEventsBatch(
+          batch.map((shipment, index) => ({
+            trackingId: shipment.trackingId,
+            location: shipment.lane.origin,
+            status: 0, // Created
+            description: "Shipment created",
+            encWeight: encrypted.handles[next++],
+            encContents: chunks[index].map(() => encrypted.handles[next++]),
+          })),
+          encrypted.inputProof
+        )
+      );
+      const [failure] = readBatchFailures(hre, secureCargoFlowContract, receipt?.logs ?? []);
+      if (failure) {
+        throw new Error(`Could not add the first event of ${batch[failure[0]].trackingId}: ${failure[1]}`);
+      }
+    }
+
+    // 2. Participants, sent by the shipper
+    context.log(`Registering participants...`);
+    for (const shipment of shipments) {
+      for (const [account, role] of [
+        [carrier, "Carrier"],
+        [customs, "Customs"],
+        [consignee, "Consignee"],
+      ] as const) {
+        await (await adminModule.addParticipant(shipment.trackingId, account, PARTICIPANT_ROLES.indexOf(role))).wait();
+      }
+    }
+
+    // The first participant the workflow allows to make a transition; consignees only confirm deliveries
+    const actorFor = (from: number, to: number) => {
+      const actor = [
+        { account: carrier, role: "Carrier" },
+        { account: customs, role: "Customs" },
+        { account: shipper, role: "Shipper" },
+      ].find(({ role }) => (Number(roleMasks[from][to]) >> PARTICIPANT_ROLES.indexOf(role)) & 1);
+      if (!actor) {
+        throw new Error(`No demo participant may move a shipment from ${statusNames[from]} to ${statusNames[to]}`);
+      }
+      return actor.account;
+    };
+
+    // 3. One step per shipment per simulated day
+    const rounds = Math.max(...shipments.map((shipment) => shipment.steps.length));
+    for (let round = 0; round < rounds; round++) {
+      const hours = 18 + Math.floor(random() * 13);
+      await travel(hours * 3600);
+      context.log(`Day ${round + 1} (+${hours}h)`);
+
+      for (const shipment of shipments) {
+        const step = shipment.steps[round];
+        if (!step) {
+          continue;
+        }
+        const { trackingId } = shipment;
+        if (step.kind === "status" || step.kind === "exception" || step.kind === "resolve") {
+          const target = resolveStatus(
+            statusNames,
+            step.kind === "status" ? step.status : step.kind === "exception" ? "Exception" : "InTransit"
+          );
+          const actor = actorFor(shipment.status, target);
+          if (step.kind === "exception") {
+            const receipt = await (
+              await adminModule
+                .connect(actor)
+                .reportException(trackingId, EXCEPTION_REASONS.indexOf(step.reason), step.details)
+            ).wait();
+            for (const log of receipt?.logs ?? []) {
+              const parsed = adminModule.interface.parseLog(log);
+              if (parsed?.name === "ExceptionReported") {
+                shipment.exceptionId = parsed.args.exceptionId;
+              }
+            }
+          }
+          if (step.kind === "resolve" && shipment.exceptionId !== null) {
+            await (await adminModule.resolveException(trackingId, shipment.exceptionId, step.resolution)).wait();
+          }
+          await (await secureCargoFlowContract.connect(actor).updateShipmentStatus(trackingId, target)).wait();
+          shipment.status = target;
+        } else if (step.kind === "checkpoint") {
+          const encrypted = await fhevm
+            .createEncryptedInput(context.address, carrier.address)
+            .add32(Math.round(shipment.weightInKg * (step.weightFactor ?? 1) * 1000))
+            .encrypt();
+          await (
+            await secureCargoFlowContract
+              .connect(carrier)
+              .addCargoEvent(
+                trackingId,
+                shipment.lane.hub,
+                shipment.status,
+                step.description,
+                encrypted.handles[0],
+                encrypted.inputProof,
+                [],
+                encrypted.inputProof
+              )
+          ).wait();
+        } else {
+          const delivered = resolveStatus(statusNames, "Delivered");
+          const actor = actorFor(shipment.status, delivered);
+          const encryptedPin = await fhevm
+            .createEncryptedInput(context.address, actor.address)
+            .add32(shipment.pin)
+            .encrypt();
+          await (
+            await secureCargoFlowContract
+              .connect(actor)
+              .confirmDelivery(trackingId, encryptedPin.handles[0], encryptedPin.inputProof)
+          ).wait();
+          if (!(await awaitDeliveryCheck(hre, context, trackingId))) {
+            throw new Error(`The oracle rejected the delivery PIN of ${trackingId}`);
+          }
+          shipment.status = delivered;
+        }
+        context.log(`  ${trackingId}: ${step.kind === "checkpoint" ? step.description : statusNames[shipment.status]}`);
+      }
+    }
+
+    context.log(`Seeded ${count} shipments:`);
+    for (const shipment of shipments) {
+      context.log(
+        `  ${shipment.trackingId.padEnd(13)} ${statusNames[shipment.status].padEnd(16)} PIN ${shipment.pin}  ` +
+          `${shipment.lane.origin} -> ${shipment.lane.destination}`
+      );
+    }
+
+    context.done({
+      shipper: shipper.address,
+      carrier: carrier.address,
+      customs: customs.address,
+      consignee: consignee.address,
+      shipments: shipments.map((shipment) => ({
+        trackingId: shipment.trackingId,
+        origin: shipment.lane.origin,
+        destination: shipment.lane.destination,
+        contents: shipment.contents,
+        weightKg: shipment.weightInKg,
+        estimatedDelivery: shipment.estimatedDelivery,
+        status: statusNames[shipment.status],
+        pin: shipment.pin,
+      })),
+    });
+  });
@@ -0,0 +1,114 @@
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ContractTransactionResponse } from "ethers";
+import { task } from "hardhat/config";
+import type { ConfigurableTaskDefinition, HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+/**
+ * Shared command-line plumbing for the SecureCargoFlow tasks
+ * ==========================================================
+ *
+ * Every task accepts:
+ *
+ *   --address <addr>  SecureCargoFlow address (defaults to the hardhat-deploy deployment)
+ *   --signer <index>  Account index from the network's accounts (default 0)
+ *   --json            Print one JSON document on stdout; progress messages go to stderr
+ *
+ * Hardhat maps camelCase parameter names to kebab-case flags, so trackingId is passed as --tracking-id.
+ */
+
+/**
+ * Declare a task with the --address, --signer and --json options
+ */
+export function cargoTask(name: string, description: string): ConfigurableTaskDefinition {
+  return task(name, description)
+    .addOptionalParam("address", "Optionally specify the SecureCargoFlow contract address")
+    .addOptionalParam("signer", "Index of the account that signs transactions and decryptions", "0")
+    .addFlag("json", "Print the result as JSON on stdout (progress goes to stderr)");
+}
+
+export type TaskContext = {
+  /** SecureCargoFlow address; admin and view functions are reached through it */
+  address: string;
+  signer: HardhatEthersSigner;
+  json: boolean;
+  /** Human-readable progress, kept off stdout in JSON mode */
+  log: (message?: string) => void;
+  /** Print the task result in JSON mode; human output has already been logged */
+  done: (result: object) => void;
+};
+
+// BigInts (uint256 values, decrypted integers) are printed as decimal strings
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => (typeof item === "bigint" ? item.toString() : item), 2);
+}
+
+/**
+ * Parse a non-negative integer argument, naming the flag in the error
+ */
+export function parseIndex(value: string, flag: string): number {
+  const index = Number(value);
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Argument --${flag} must be a non-negative integer`);
+  }
+  return index;
+}
+
+/**
+ * Resolve a status given by name (case-insensitive) or number against the contract's status names
+ */
+export function resolveStatus(statusNames: string[], value: string): number {
+  const index = /^\d+$/.test(value)
+    ? parseInt(value)
+    : statusNames.findIndex((name) => name.toLowerCase() === value.toLowerCase());
+  if (index < 0 || index >= statusNames.length) {
+    throw new Error(`Argument --status must be one of: ${statusNames.join(", ")}`);
+  }
+  return index;
+}
+
+/**
+ * Resolve the contract address, signer and output mode of a task run
+ */
+export async function connectTask(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments): Promise<TaskContext> {
+  const { ethers, deployments } = hre;
+
+  const json = Boolean(taskArguments.json);
+  const log = (message = "") => (json ? console.error(message) : console.log(message));
+
+  const signerIndex = parseIndex(taskArguments.signer ?? "0", "signer");
+  const signers = await ethers.getSigners();
+  if (signerIndex >= signers.length) {
+    throw new Error(`Argument --signer must be below ${signers.length}, the number of accounts on this network`);
+  }
+
+  const address = taskArguments.address ?? (await deployments.get("SecureCargoFlow")).address;
+  if (!ethers.isAddress(address)) {
+    throw new Error(`Argument --address must be a valid address`);
+  }
+  log(`SecureCargoFlow: ${address}`);
+
+  return {
+    address,
+    signer: signers[signerIndex],
+    json,
+    log,
+    done: (result) => {
+      if (json) {
+        console.log(toJson(result));
+      }
+    },
+  };
+}
+
+/**
+ * Wait for a transaction; the summary goes into JSON results, the receipt is for reading logs
+ */
+export async function waitForTx(context: TaskContext, tx: ContractTransactionResponse) {
+  context.log(`Wait for tx:${tx.hash}...`);
+  const receipt = await tx.wait();
+  context.log(`tx:${tx.hash} status=${receipt?.status}`);
+  return {
+    summary: { hash: tx.hash, blockNumber: receipt?.blockNumber ?? null, status: receipt?.status ?? null },
+    receipt,
+  };
+}
@@ -0,0 +1,212 @@
+import * as http from "http";
+import type { TaskArguments } from "hardhat/types";
+import { cargoTask, connectTask } from "./cli";
+
+/**
+ * Relayer for participant-signed cargo events
+ * ===========================================
+ *
+ * Carriers without gas (or without a wallet on the node) sign an EIP-712 CargoEvent payload and hand it to
+ * this service, which submits it through addCargoEventWithSig and pays the gas. The contract checks the
+ * signature, nonce, deadline and the signer's role on the shipment; the relayer only pre-checks the call.
+ *
+ * Encrypted inputs are bound to the submitting account, so clients encrypt the weight and contents for
+ * the relayer address returned by GET /address.
+ *
+ *   GET  /address  -> { relayer, contract, chainId }
+ *   POST /events   <- { event: SignedCargoEvent, inputProof, signature }
+ *                  -> { hash, eventId } or { error } with status 400 when the call would revert
+ *
+ * uint256 fields of the event (nonce, deadline) may be sent as decimal strings.
+ *
+ * --signer picks the account that pays the gas; with --json every relayed or rejected request is printed
+ * as one JSON line on stdout.
+ */
+
+// A request holds at most 8 handles and one input proof
+const MAX_BODY_BYTES = 64 * 1024;
+
+type SignedCargoEventRequest = {
+  event: {
+    trackingId: string;
+    location: string;
+    status: number;
+    description: string;
+    encWeight: string;
+    encContents: string[];
+    signer: string;
+    nonce: string;
+    deadline: string;
+  };
+  inputProof: string;
+  signature: string;
+};
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  // The UI runs on another origin, so every response allows cross-origin reads
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(JSON.stringify(body));
+}
+
+function parseRequest(body: string): SignedCargoEventRequest {
+  const request = JSON.parse(body);
+  const event = request?.event;
+  if (
+    typeof event?.trackingId !== "string" ||
+    typeof event.location !== "string" ||
+    typeof event.description !== "string" ||
+    !Number.isInteger(event.status) ||
+    typeof event.encWeight !== "string" ||
+    !Array.isArray(event.encContents) ||
+    typeof event.signer !== "string" ||
+    event.nonce === undefined ||
+    event.deadline === undefined ||
+    typeof request.inputProof !== "string" ||
+    typeof request.signature !== "string"
+  ) {
+    throw new Error("Expected { event, inputProof, signature }");
+  }
+  return request;
+}
+
+// Prefer the contract's revert reason over the provider's wrapped message
+function errorMessage(error: unknown): string {
+  const { reason, shortMessage, message } = error as { reason?: string; shortMessage?: string; message?: string };
+  const text = reason ?? shortMessage ?? message ?? String(error);
+  // Hardhat nodes report reverts as "... reverted with reason string '<reason>'"
+  return text.match(/reverted with reason string '(.*)'/)?.[1] ?? text;
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:relayer
+ *   - npx hardhat --network localhost task:relayer --port 9000 --signer 3 --json
+ */
+cargoTask("task:relayer", "Runs an HTTP relayer that submits participant-signed cargo events")
+  .addOptionalParam("port", "Port to listen on", "8787")
+  .addOptionalParam("host", "Interface to listen on", "127.0.0.1")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const port = parseInt(taskArguments.port);
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+      throw new Error(`Argument --port must be a valid port number`);
+    }
+
+    const context = await connectTask(hre, taskArguments);
+    const relayer = context.signer;
+    const secureCargoFlowContract = await ethers.getContractAt("SecureCargoFlow", context.address, relayer);
+    const { chainId } = await ethers.provider.getNetwork();
+
+    // A long-running service prints one JSON line per request instead of a single result
+    const record = (entry: { result: string; trackingId: string; signer: string } & Record<string, unknown>) => {
+      if (context.json) {
+        console.log(JSON.stringify({ time: new Date().toISOString(), ...entry }));
+      }
+    };
+
+    // Submissions run one at a time so the relayer's transaction nonces never collide
+    let pending: Promise<unknown> = Promise.resolve();
+    const relay = (request: SignedCargoEventRequest) => {
+      const job = pending.then(async () => {
+        const args = [request.event, request.inputProof, request.signature] as const;
+        // Surface revert reasons (bad signature, stale nonce, not a participant) before paying for gas
+        await secureCargoFlowContract.addCargoEventWithSig.staticCall(...args);
+        const tx = await secureCargoFlowContract.addCargoEventWithSig(...args);
+        const receipt = await tx.wait();
+        let eventId: number | null = null;
+        for (const log of receipt?.logs ?? []) {
+          const parsed = secureCargoFlowContract.interface.parseLog(log);
+          if (parsed?.name === "CargoEventRelayed") {
+            eventId = Number(parsed.args.eventId);
+          }
+        }
+        context.log(`Relayed ${request.event.trackingId} for ${request.event.signer} in tx:${tx.hash}`);
+        record({
+          result: "relayed",
+          trackingId: request.event.trackingId,
+          signer: request.event.signer,
+          hash: tx.hash,
+          eventId,
+        });
+        return { hash: tx.hash, eventId };
+      });
+      pending = job.catch(() => undefined);
+      return job;
+    };
+
+    const server = http.createServer(async (req, res) => {
+      try {
+        if (req.method === "OPTIONS") {
+          sendJson(res, 204, null);
+        } else if (req.method === "GET" && req.url === "/address") {
+          sendJson(res, 200, {
+            relayer: relayer.address,
+            contract: context.address,
+            chainId: Number(chainId),
+          });
+        } else if (req.method === "POST" && req.url === "/events") {
+          let request: SignedCargoEventRequest;
+          try {
+            request = parseRequest(await readBody(req));
+          } catch (error) {
+            sendJson(res, 400, { error: errorMessage(error) });
+            return;
+          }
+          try {
+            sendJson(res, 200, await relay(request));
+          } catch (error) {
+            context.log(`Rejected ${request.event.trackingId} for ${request.event.signer}: ${errorMessage(error)}`);
+            record({
+              result: "rejected",
+              trackingId: request.event.trackingId,
+              signer: request.event.signer,
+              error: errorMessage(error),
+            });
+            sendJson(res, 400, { error: errorMessage(error) });
+          }
+        } else {
+          sendJson(res, 404, { error: "Not found" });
+        }
+      } catch (error) {
+        sendJson(res, 500, { error: errorMessage(error) });
+      }
+    });
+
+    // A failure to bind (port in use, unknown interface) fails the task; later server errors are only logged
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, taskArguments.host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    }).catch((error: Error) => {
+      throw new Error(`Cannot listen on ${taskArguments.host}:${port}: ${error.message}`);
+    });
+    server.on("error", (error) => context.log(`Relayer server error: ${error.message}`));
+    context.log(`Relayer ${relayer.address} listening on http://${taskArguments.host}:${port}`);
+
+    // Serve until the process is interrupted
+    await new Promise<void>((resolve) => server.on("close", resolve));
+  });
@@ -0,0 +1,206 @@
+import type { TaskArguments } from "hardhat/types";
+import { cargoTask, connectTask, parseIndex, resolveStatus } from "./cli";
+
+/**
+ * Live tail of shipment activity
+ * ==============================
+ *
+ * Polls the selected network for ShipmentCreated, CargoEventAdded and StatusUpdated logs and prints them in
+ * block order, one line each. With --from-block the task first backfills everything since that block, then keeps
+ * following new blocks until it is interrupted.
+ *
+ * Filters combine: --tracking-id and --creator are matched through the indexed topics (creator is the account
+ * that created the shipment or recorded the event), --status against the status of a CargoEventAdded log, the
+ * new status of a StatusUpdated log, and Created for ShipmentCreated. The contract emits StatusUpdated for every
+ * status change, whether it came from updateShipmentStatus, a cargo event or a confirmed delivery, so
+ * --status Delivered prints each delivery both as its cargo event and as its status change. Checkpoints that
+ * repeat the current status match through their CargoEventAdded log only.
+ *
+ * Status is not an indexed topic, so --status is applied client-side: every log matching the other filters is
+ * still fetched for each range of up to 5000 blocks (MAX_BLOCK_RANGE), and a backfill over a busy contract costs
+ * as many RPC requests with it as without it.
+ *
+ * With --json every log is printed as one JSON line on stdout; progress messages go to stderr.
+ */
+
+// Keeps a backfill from asking a public RPC endpoint for an unbounded block range
+const MAX_BLOCK_RANGE = 5000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+type WatchedLog = {
+  event: "ShipmentCreated" | "CargoEventAdded" | "StatusUpdated";
+  trackingId: string;
+  creator: string;
+  status: string;
+  /** Human-readable summary of the fields below */
+  summary: string;
+  details: Record<string, string | number | null>;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+};
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:watch
+ *   - npx hardhat --network localhost task:watch --from-block 0 --tracking-id CARGO-001
+ *   - npx hardhat --network sepolia task:watch --from-block 7200000 --status Delivered --json
+ */
+cargoTask("task:watch", "Prints shipment, cargo event and status logs as they are mined, optionally backfilling first")
+  .addOptionalParam("trackingId", "Only logs of this shipment")
+  .addOptionalParam("creator", "Only logs sent by this account")
+  .addOptionalParam("status", "Only logs with this status, by name or number (filtered after fetching)")
+  .addOptionalParam("fromBlock", "Print the logs since this block before following new ones")
+  .addOptionalParam("interval", "Polling interval in milliseconds", "2000")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const interval = parseInt(taskArguments.interval);
+    if (!Number.isInteger(interval) || interval <= 0) {
+      throw new Error(`Argument --interval must be a positive integer`);
+    }
+    if (taskArguments.creator !== undefined && !ethers.isAddress(taskArguments.creator)) {
+      throw new Error(`Argument --creator must be a valid address`);
+    }
+    const fromBlock =
+      taskArguments.fromBlock !== undefined ? parseIndex(taskArguments.fromBlock, "from-block") : undefined;
+
+    const context = await connectTask(hre, taskArguments);
+    const secureCargoFlowContract = await ethers.getContractAt("SecureCargoFlow", context.address, context.signer);
+    const viewsModule = await ethers.getContractAt("SecureCargoFlowViews", context.address, context.signer);
+
+    const [statusNames] = await viewsModule.getWorkflow();
+    const status =
+      taskArguments.status !== undefined ? statusNames[resolveStatus(statusNames, taskArguments.status)] : undefined;
+
+    // Topic filters: undefined matches any value
+    const trackingKey = taskArguments.trackingId !== undefined ? ethers.id(taskArguments.trackingId) : undefined;
+    const creator: string | undefined = taskArguments.creator;
+    const filters = {
+      created: secureCargoFlowContract.filters.ShipmentCreated(trackingKey, creator),
+      added: secureCargoFlowContract.filters.CargoEventAdded(trackingKey, undefined, creator),
+      updated: secureCargoFlowContract.filters.StatusUpdated(trackingKey, undefined, creator),
+    };
+
+    const readRange = async (from: number, to: number): Promise<WatchedLog[]> => {
+      const [created, added, updated] = await Promise.all([
+        secureCargoFlowContract.queryFilter(filters.created, from, to),
+        secureCargoFlowContract.queryFilter(filters.added, from, to),
+        secureCargoFlowContract.queryFilter(filters.updated, from, to),
+      ]);
+      return [
+        ...created.map((log) => ({
+          event: "ShipmentCreated" as const,
+          trackingId: log.args.trackingId,
+          creator: log.args.creator,
+          status: statusNames[0],
+          summary: `${log.args.origin} -> ${log.args.destination}, ETA ${new Date(
+            Number(log.args.estimatedDelivery) * 1000
+          ).toISOString()}`,
+          details: {
+            origin: log.args.origin,
+            destination: log.args.destination,
+            estimatedDelivery: Number(log.args.estimatedDelivery),
+          },
+          blockNumber: log.blockNumber,
+          logIndex: log.index,
+          transactionHash: log.transactionHash,
+        })),
+        ...added.map((log) => ({
+          event: "CargoEventAdded" as const,
+          trackingId: log.args.trackingId,
+          creator: log.args.creator,
+          status: statusNames[Number(log.args.status)],
+          summary: `event #${log.args.eventId} ${statusNames[Number(log.args.status)]} at ${log.args.location}: ${
+            log.args.description
+          }`,
+          details: {
+            eventId: Number(log.args.eventId),
+            location: log.args.location,
+            description: log.args.description,
+            timestamp: Number(log.args.timestamp),
+            manifestVersion: Number(log.args.manifestVersion),
+          },
+          blockNumber: log.blockNumber,
+          logIndex: log.index,
+          transactionHash: log.transactionHash,
+        })),
+        ...updated.map((log) => ({
+          event: "StatusUpdated" as const,
+          trackingId: log.args.trackingId,
+          creator: log.args.creator,
+          status: statusNames[Number(log.args.newStatus)],
+          summary: `${statusNames[Number(log.args.oldStatus)]} -> ${statusNames[Number(log.args.newStatus)]} (event #${
+            log.args.eventId
+          })`,
+          details: {
+            eventId: Number(log.args.eventId),
+            previousStatus: statusNames[Number(log.args.oldStatus)],
+          },
+          blockNumber: log.blockNumber,
+          logIndex: log.index,
+          transactionHash: log.transactionHash,
+        })),
+      ]
+        .filter((log) => status === undefined || log.status === status)
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    };
+
+    // Logs carry no timestamp of their own; several logs usually share a block
+    const blockTimes = new Map<number, number>();
+    const blockTime = async (blockNumber: number) => {
+      if (!blockTimes.has(blockNumber)) {
+        const block = await ethers.provider.getBlock(blockNumber);
+        blockTimes.set(blockNumber, block?.timestamp ?? 0);
+      }
+      return blockTimes.get(blockNumber)!;
+    };
+
+    const print = (log: WatchedLog, timestamp: number) => {
+      const time = new Date(timestamp * 1000).toISOString();
+      if (context.json) {
+        console.log(
+          JSON.stringify({
+            event: log.event,
+            trackingId: log.trackingId,
+            creator: log.creator,
+            status: log.status,
+            ...log.details,
+            blockNumber: log.blockNumber,
+            blockTime: time,
+            transactionHash: log.transactionHash,
+            logIndex: log.logIndex,
+          })
+        );
+      } else {
+        console.log(`[${time} #${log.blockNumber}] ${log.event} ${log.trackingId}: ${log.summary} by ${log.creator}`);
+      }
+    };
+
+    let next = fromBlock ?? (await ethers.provider.getBlockNumber()) + 1;
+    let live = false;
+    context.log(fromBlock !== undefined ? `Backfilling from block ${next}...` : `Watching from block ${next}...`);
+
+    // Runs until the process is interrupted; a failed poll is retried from the same block
+    for (;;) {
+      try {
+        const head = await ethers.provider.getBlockNumber();
+        while (next <= head) {
+          const to = Math.min(head, next + MAX_BLOCK_RANGE - 1);
+          const logs = await readRange(next, to);
+          // Read every timestamp first, so a failed poll never leaves a range half printed
+          const timestamps = await Promise.all(logs.map((log) => blockTime(log.blockNumber)));
+          logs.forEach((log, i) => print(log, timestamps[i]));
+          next = to + 1;
+        }
+        if (!live) {
+          live = true;
+          context.log(`Up to date at block ${head}; waiting for new blocks (Ctrl+C to stop)`);
+        }
+      } catch (error) {
+        context.log(`Poll failed at block ${next}, retrying: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      await sleep(interval);
+    }
+  });
@@ -1,44 +1,142 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { ethers, fhevm } from "hardhat";
-import { SecureCargoFlow, SecureCargoFlow__factory } from "../types";
+import type { ContractRunner } from "ethers";
+import {
+  ContentsLayoutBenchmark,
+  ContentsLayoutBenchmark__factory,
+  SecureCargoFlow,
+  SecureCargoFlow__factory,
+  SecureCargoFlowAdmin,
+  SecureCargoFlowAdmin__factory,
+  SecureCargoFlowViews,
+  SecureCargoFlowViews__factory,
+} from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 
 type Signers = {
   deployer: HardhatEthersSigner;
   alice: HardhatEthersSigner;
   bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+  dave: HardhatEthersSigner;
 };
 
-async function deployFixture() {
+// Participant roles (mirrors SecureCargoFlow.ParticipantRole)
+const Role = { None: 0, Shipper: 1, Carrier: 2, Customs: 3, Consignee: 4 };
+
+// Shareable encrypted fields (mirrors SecureCargoFlow.EncryptedField)
+const Field = { Weight: 0, Contents: 1, DeclaredValue: 2, Telemetry: 3 };
+
+// Pausable function groups (mirrors SecureCargoFlow.PauseScope)
+const Scope = { Creation: 0, Events: 1, Status: 2 };
+
+// Estimated delivery revision reasons (mirrors SecureCargoFlow.EtaRevisionReason)
+const EtaReason = { CarrierDelay: 0, CustomsDelay: 1, Weather: 2, CustomerRequest: 3, Expedited: 4, Other: 5 };
+
+// Aggregate statistic groupings (mirrors SecureCargoFlow.StatKind)
+const StatKind = { Lane: 0, Month: 1 };
+
+// Shipment statuses (mirrors SecureCargoFlow.ShipmentStatus)
+const Status = {
+  Created: 0,
+  InTransit: 1,
+  CustomsClearance: 2,
+  Arrived: 3,
+  Delivered: 4,
+  Exception: 5,
+  Held: 6,
+  Returned: 7,
+  Cancelled: 8,
+  Lost: 9,
+};
+
+// Exception reason codes (mirrors SecureCargoFlow.ExceptionReason)
+const Reason = { Damage: 0, Delay: 1, Documentation: 2, Weather: 3, Security: 4 };
+
+const roleMask = (...roles: number[]) => roles.reduce((mask, role) => mask | (1 << role), 0);
+
+// SecureCargoFlow forwards unknown selectors to its admin module and on to the views module,
+// so one address serves all three ABIs
+type SecureCargoFlowWithAdmin = Omit<SecureCargoFlow, "connect"> &
+  Omit<SecureCargoFlowAdmin, "connect"> &
+  Omit<SecureCargoFlowViews, "connect"> & {
+    connect(runner: ContractRunner | null): SecureCargoFlowWithAdmin;
+  };
+
+async function deployFixture({ openCreation = true }: { openCreation?: boolean } = {}) {
+  const viewsFactory = (await ethers.getContractFactory("SecureCargoFlowViews")) as SecureCargoFlowViews__factory;
+  const viewsModule = (await viewsFactory.deploy()) as SecureCargoFlowViews;
+
+  const adminFactory = (await ethers.getContractFactory("SecureCargoFlowAdmin")) as SecureCargoFlowAdmin__factory;
+  const adminModule = (await adminFactory.deploy(await viewsModule.getAddress())) as SecureCargoFlowAdmin;
+
   const factory = (await ethers.getContractFactory("SecureCargoFlow")) as SecureCargoFlow__factory;
-  const secureCargoFlowContract = (await factory.deploy()) as SecureCargoFlow;
-  const secureCargoFlowContractAddress = await secureCargoFlowContract.getAddress();
+  const deployed = (await factory.deploy(await adminModule.getAddress())) as SecureCargoFlow;
+  const secureCargoFlowContractAddress = await deployed.getAddress();
+
+  const secureCargoFlowContract = new ethers.Contract(
+    secureCargoFlowContractAddress,
+    [
+      ...SecureCargoFlow__factory.abi,
+      // An ABI holds one constructor and one fallback: the admin module's constructor only runs at its own
+      // deployment, and its fallback only forwards to the views
+      ...SecureCargoFlowAdmin__factory.abi.filter(
+        (fragment) => fragment.type !== "constructor" && fragment.type !== "fallback"
+      ),
+      ...SecureCargoFlowViews__factory.abi,
+    ],
+    deployed.runner
+  ) as unknown as SecureCargoFlowWithAdmin;
+
+  // Creation starts allowlist-only; like deploy/deploy.ts on a local node, the tests open it by default
+  if (openCreation) {
+    await (await secureCargoFlowContract.setOpenCreation(true)).wait();
+  }
 
   return { secureCargoFlowContract, secureCargoFlowContractAddress };
 }
 
+// Contents are packed as UTF-8, 32 bytes per euint256 chunk (mirrors SecureCargoFlow.MAX_CONTENTS_CHUNKS)
+const CONTENTS_CHUNK_BYTES = 32;
+const MAX_CONTENTS_CHUNKS = 7;
+// Mirrors SecureCargoFlow.MAX_BATCH_SIZE
+const MAX_BATCH_SIZE = 20;
+
+// Pack a string into big-endian 256-bit words, zero-padding the last one
+function packContents(contents: string): bigint[] {
+  const bytes = new TextEncoder().encode(contents).slice(0, CONTENTS_CHUNK_BYTES * MAX_CONTENTS_CHUNKS);
+  const chunks: bigint[] = [];
+  for (let offset = 0; offset < bytes.length; offset += CONTENTS_CHUNK_BYTES) {
+    const chunk = new Uint8Array(CONTENTS_CHUNK_BYTES);
+    chunk.set(bytes.subarray(offset, offset + CONTENTS_CHUNK_BYTES));
+    chunks.push(BigInt(ethers.hexlify(chunk)));
+  }
+  return chunks;
+}
+
+// Reverse of packContents; trailing zero padding is dropped
+function unpackContents(chunks: bigint[]): string {
+  const bytes = ethers.getBytes(ethers.concat(chunks.map((chunk) => ethers.toBeHex(chunk, CONTENTS_CHUNK_BYTES))));
+  let end = bytes.length;
+  while (end > 0 && bytes[end - 1] === 0) {
+    end--;
+  }
+  return new TextDecoder().decode(bytes.subarray(0, end));
+}
+
 // Helper function to encrypt contents string
 async function encryptContents(
   contractAddress: string,
   userAddress: string,
   contents: string
 ): Promise<{ handles: string[]; inputProof: string }> {
-  // Convert string to bytes (limit to 64 bytes)
-  const contentsBytes: number[] = [];
-  const maxLength = Math.min(contents.length, 64);
-  for (let i = 0; i < maxLength; i++) {
-    contentsBytes.push(contents.charCodeAt(i));
-  }
-  
-  const encryptedInput = fhevm
-    .createEncryptedInput(contractAddress, userAddress);
-  
-  // Add each byte
-  for (const byte of contentsBytes) {
-    encryptedInput.add8(byte);
+  const encryptedInput = fhevm.createEncryptedInput(contractAddress, userAddress);
+  for (const chunk of packContents(contents)) {
+    encryptedInput.add256(chunk);
   }
-  
+
   const encrypted = await encryptedInput.encrypt();
   return {
     handles: encrypted.handles.map(h => ethers.hexlify(h)),
@@ -46,14 +144,90 @@ async function encryptContents(
   };
 }
 
+// Delivery PIN of shipments whose test does not deliver them
+const DEFAULT_DELIVERY_PIN = 482913;
+
+// Helper function to create a shipment with a freshly encrypted delivery PIN
+async function createShipment(
+  contract: SecureCargoFlowWithAdmin,
+  contractAddress: string,
+  signer: HardhatEthersSigner,
+  trackingId: string,
+  origin: string,
+  destination: string,
+  estimatedDelivery: number,
+  pin: number = DEFAULT_DELIVERY_PIN
+) {
+  const encryptedPin = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(pin).encrypt();
+  return contract
+    .connect(signer)
+    .createShipment(trackingId, origin, destination, estimatedDelivery, encryptedPin.handles[0], encryptedPin.inputProof);
+}
+
+// Helper function to add a cargo event with freshly encrypted weight and contents
+async function addEncryptedEvent(
+  contract: SecureCargoFlowWithAdmin,
+  contractAddress: string,
+  signer: HardhatEthersSigner,
+  trackingId: string,
+  location: string,
+  status: number,
+  description: string,
+  weightInGrams: number = 2500000
+) {
+  const encryptedWeight = await fhevm
+    .createEncryptedInput(contractAddress, signer.address)
+    .add32(weightInGrams)
+    .encrypt();
+  // Contents form the initial manifest and are only sent with the first event
+  const isFirstEvent = (await contract.getEventCount(trackingId)) === 0n;
+  const encryptedContents = isFirstEvent
+    ? await encryptContents(contractAddress, signer.address, description)
+    : { handles: [], inputProof: "0x" };
+
+  return contract
+    .connect(signer)
+    .addCargoEvent(
+      trackingId,
+      location,
+      status,
+      description,
+      encryptedWeight.handles[0],
+      encryptedWeight.inputProof,
+      encryptedContents.handles,
+      encryptedContents.inputProof
+    );
+}
+
+// EIP-712 type of addCargoEventWithSig payloads (mirrors SecureCargoFlow.CARGO_EVENT_TYPEHASH)
+const CARGO_EVENT_TYPES = {
+  CargoEvent: [
+    { name: "trackingId", type: "string" },
+    { name: "location", type: "string" },
+    { name: "status", type: "uint8" },
+    { name: "description", type: "string" },
+    { name: "encWeight", type: "bytes32" },
+    { name: "encContents", type: "bytes32[]" },
+    { name: "signer", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
 describe("SecureCargoFlow", function () {
   let signers: Signers;
-  let secureCargoFlowContract: SecureCargoFlow;
+  let secureCargoFlowContract: SecureCargoFlowWithAdmin;
   let secureCargoFlowContractAddress: string;
 
   before(async function () {
     const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
-    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+      dave: ethSigners[4],
+    };
   });
 
   beforeEach(async function () {
@@ -72,9 +246,15 @@ describe("SecureCargoFlow", function () {
     const destination = "Los Angeles Port";
     const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7; // 7 days from now
 
-    const tx = await secureCargoFlowContract
-      .connect(signers.alice)
-      .createShipment(trackingId, origin, destination, estimatedDelivery);
+    const tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      origin,
+      destination,
+      estimatedDelivery
+    );
     await tx.wait();
 
     const shipment = await secureCargoFlowContract.getShipment(trackingId);
@@ -92,9 +272,15 @@ describe("SecureCargoFlow", function () {
     const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
 
     // Create shipment first
-    let tx = await secureCargoFlowContract
-      .connect(signers.alice)
-      .createShipment(trackingId, origin, destination, estimatedDelivery);
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      origin,
+      destination,
+      estimatedDelivery
+    );
     await tx.wait();
 
     // Encrypt weight and contents
@@ -146,8 +332,8 @@ describe("SecureCargoFlow", function () {
     const encryptedWeightHandle = await secureCargoFlowContract.getEncryptedWeight(trackingId, 0);
     expect(encryptedWeightHandle).to.not.eq(ethers.ZeroHash);
     
-    const contentsLength = await secureCargoFlowContract.getContentsLength(trackingId, 0);
-    expect(contentsLength).to.be.gt(0);
+    const contentsHandles = await secureCargoFlowContract.getEncryptedContents(trackingId, 0);
+    expect(contentsHandles.length).to.be.gt(0);
   });
 
   it("should prevent creating duplicate shipments", async function () {
@@ -157,16 +343,28 @@ describe("SecureCargoFlow", function () {
     const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
 
     // Create shipment
-    let tx = await secureCargoFlowContract
-      .connect(signers.alice)
-      .createShipment(trackingId, origin, destination, estimatedDelivery);
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      origin,
+      destination,
+      estimatedDelivery
+    );
     await tx.wait();
 
     // Try to create duplicate
     await expect(
-      secureCargoFlowContract
-        .connect(signers.alice)
-        .createShipment(trackingId, origin, destination, estimatedDelivery)
+      createShipment(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        trackingId,
+        origin,
+        destination,
+        estimatedDelivery
+      )
     ).to.be.revertedWith("Shipment already exists");
   });
 
@@ -208,9 +406,15 @@ describe("SecureCargoFlow", function () {
     const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400;
 
     await expect(
-      secureCargoFlowContract
-        .connect(signers.alice)
-        .createShipment(shortTrackingId, origin, destination, estimatedDelivery)
+      createShipment(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        shortTrackingId,
+        origin,
+        destination,
+        estimatedDelivery
+      )
     ).to.be.revertedWith("Tracking ID too short");
   });
 
@@ -220,9 +424,15 @@ describe("SecureCargoFlow", function () {
     const destination = "Los Angeles Port";
     const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
 
-    let tx = await secureCargoFlowContract
-      .connect(signers.alice)
-      .createShipment(trackingId, origin, destination, estimatedDelivery);
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      origin,
+      destination,
+      estimatedDelivery
+    );
     await tx.wait();
 
     // Create dummy encrypted data
@@ -250,7 +460,7 @@ describe("SecureCargoFlow", function () {
           encryptedContents.handles,
           encryptedContents.inputProof
         )
-    ).to.be.revertedWith("Only shipment creator can add events");
+    ).to.be.revertedWith("Only shipment participants can add events");
   });
 
   it("should validate shipment existence for queries", async function () {
@@ -272,9 +482,15 @@ describe("SecureCargoFlow", function () {
     const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
 
     // Create shipment
-    let tx = await secureCargoFlowContract
-      .connect(signers.alice)
-      .createShipment(trackingId, origin, destination, estimatedDelivery);
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      origin,
+      destination,
+      estimatedDelivery
+    );
     await tx.wait();
 
     // Encrypt data for initial event
@@ -319,9 +535,15 @@ describe("SecureCargoFlow", function () {
     const destination = "Los Angeles Port";
     const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
 
-    let tx = await secureCargoFlowContract
-      .connect(signers.alice)
-      .createShipment(trackingId, origin, destination, estimatedDelivery);
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      origin,
+      destination,
+      estimatedDelivery
+    );
     await tx.wait();
 
     // Create dummy encrypted data
@@ -358,9 +580,15 @@ describe("SecureCargoFlow", function () {
     const destination = "Los Angeles Port";
     const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
 
-    let tx = await secureCargoFlowContract
-      .connect(signers.alice)
-      .createShipment(trackingId, origin, destination, estimatedDelivery);
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      origin,
+      destination,
+      estimatedDelivery
+    );
     await tx.wait();
 
     // Create dummy encrypted data
@@ -398,9 +626,15 @@ describe("SecureCargoFlow", function () {
     const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
 
     // Create shipment
-    let tx = await secureCargoFlowContract
-      .connect(signers.alice)
-      .createShipment(trackingId, origin, destination, estimatedDelivery);
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      origin,
+      destination,
+      estimatedDelivery
+    );
     await tx.wait();
 
     // Encrypt data for events
@@ -431,18 +665,13 @@ describe("SecureCargoFlow", function () {
     await tx.wait();
 
     // For second event, we can reuse weight from first event (contract handles this internally via _addCargoEventInternal)
-    // But for testing, we'll create new encrypted data
+    // But for testing, we'll create new encrypted data; contents stay on the manifest
     const encryptedWeight2 = await fhevm
       .createEncryptedInput(secureCargoFlowContractAddress, signers.alice.address)
       .add32(2500000)
       .encrypt();
-    
-    const encryptedContents2 = await encryptContents(
-      secureCargoFlowContractAddress,
-      signers.alice.address,
-      "In transit cargo"
-    );
 
+    await time.increase(3600);
     tx = await secureCargoFlowContract
       .connect(signers.alice)
       .addCargoEvent(
@@ -452,8 +681,8 @@ describe("SecureCargoFlow", function () {
         "In transit",
         encryptedWeight2.handles[0],
         encryptedWeight2.inputProof,
-        encryptedContents2.handles,
-        encryptedContents2.inputProof
+        [],
+        encryptedWeight2.inputProof
       );
     await tx.wait();
 
@@ -475,9 +704,15 @@ describe("SecureCargoFlow", function () {
     const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
 
     // Create shipment
-    let tx = await secureCargoFlowContract
-      .connect(signers.alice)
-      .createShipment(trackingId, origin, destination, estimatedDelivery);
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      origin,
+      destination,
+      estimatedDelivery
+    );
     await tx.wait();
 
     // Encrypt data for events
@@ -511,13 +746,8 @@ describe("SecureCargoFlow", function () {
       .createEncryptedInput(secureCargoFlowContractAddress, signers.alice.address)
       .add32(2500000)
       .encrypt();
-    
-    const encryptedContents2 = await encryptContents(
-      secureCargoFlowContractAddress,
-      signers.alice.address,
-      "Event 2 contents"
-    );
 
+    await time.increase(3600);
     tx = await secureCargoFlowContract
       .connect(signers.alice)
       .addCargoEvent(
@@ -527,8 +757,8 @@ describe("SecureCargoFlow", function () {
         "Event 2",
         encryptedWeight2.handles[0],
         encryptedWeight2.inputProof,
-        encryptedContents2.handles,
-        encryptedContents2.inputProof
+        [],
+        encryptedWeight2.inputProof
       );
     await tx.wait();
 
@@ -550,9 +780,15 @@ describe("SecureCargoFlow", function () {
     const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
 
     // Create shipment
-    let tx = await secureCargoFlowContract
-      .connect(signers.alice)
-      .createShipment(trackingId, origin, destination, estimatedDelivery);
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      origin,
+      destination,
+      estimatedDelivery
+    );
     await tx.wait();
 
     // Initially no events, should return Created
@@ -572,6 +808,7 @@ describe("SecureCargoFlow", function () {
     );
 
     // Add event with InTransit status
+    await time.increase(3600);
     tx = await secureCargoFlowContract
       .connect(signers.alice)
       .addCargoEvent(
@@ -598,9 +835,15 @@ describe("SecureCargoFlow", function () {
     const estimatedDelivery = Math.floor(Date.now() / 1000) - 86400; // Past date
 
     await expect(
-      secureCargoFlowContract
-        .connect(signers.alice)
-        .createShipment(trackingId, origin, destination, estimatedDelivery)
+      createShipment(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        trackingId,
+        origin,
+        destination,
+        estimatedDelivery
+      )
     ).to.be.revertedWith("Estimated delivery must be in the future");
   });
 
@@ -611,9 +854,2716 @@ describe("SecureCargoFlow", function () {
     const estimatedDelivery = Math.floor(Date.now() / 1000) + 366 * 86400; // More than 1 year
 
     await expect(
-      secureCargoFlowContract
-        .connect(signers.alice)
-        .createShipment(trackingId, origin, destination, estimatedDelivery)
+      createShipment(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        trackingId,
+        origin,
+        destination,
+        estimatedDelivery
+      )
     ).to.be.revertedWith("Estimated delivery cannot be more than 1 year in the future");
   });
+
+  it("should register the creator as shipper", async function () {
+    const trackingId = "CARGO-2024-014";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    const tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+
+    expect(await secureCargoFlowContract.participantRoles(trackingId, signers.alice.address)).to.eq(Role.Shipper);
+
+    const participants = await secureCargoFlowContract.getParticipants(trackingId);
+    expect(participants.accounts).to.deep.eq([signers.alice.address]);
+    expect(participants.roles).to.deep.eq([BigInt(Role.Shipper)]);
+  });
+
+  it("should let only the creator add and remove participants", async function () {
+    const trackingId = "CARGO-2024-015";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+
+    await expect(
+      secureCargoFlowContract.connect(signers.bob).addParticipant(trackingId, signers.bob.address, Role.Carrier)
+    ).to.be.revertedWith("Only shipment creator can manage participants");
+
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).addParticipant(trackingId, signers.bob.address, Role.Shipper)
+    ).to.be.revertedWith("Invalid participant role");
+
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).addParticipant(trackingId, signers.bob.address, Role.Carrier)
+    )
+      .to.emit(secureCargoFlowContract, "ParticipantAdded")
+      .withArgs(trackingId, signers.bob.address, Role.Carrier);
+
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .addParticipant(trackingId, signers.carol.address, Role.Customs);
+    await tx.wait();
+
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).addParticipant(trackingId, signers.bob.address, Role.Customs)
+    ).to.be.revertedWith("Participant already registered");
+
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).removeParticipant(trackingId, signers.alice.address)
+    ).to.be.revertedWith("Cannot remove shipment creator");
+
+    await expect(secureCargoFlowContract.connect(signers.alice).removeParticipant(trackingId, signers.bob.address))
+      .to.emit(secureCargoFlowContract, "ParticipantRemoved")
+      .withArgs(trackingId, signers.bob.address, Role.Carrier);
+
+    const participants = await secureCargoFlowContract.getParticipants(trackingId);
+    expect(participants.accounts).to.deep.eq([signers.alice.address, signers.carol.address]);
+    expect(participants.roles).to.deep.eq([BigInt(Role.Shipper), BigInt(Role.Customs)]);
+    expect(await secureCargoFlowContract.participantRoles(trackingId, signers.bob.address)).to.eq(Role.None);
+  });
+
+  it("should let a carrier add cargo events", async function () {
+    const trackingId = "CARGO-2024-016";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .addParticipant(trackingId, signers.bob.address, Role.Carrier);
+    await tx.wait();
+
+    // A status change recorded as an event waits out the same first hour as updateShipmentStatus
+    await expect(
+      addEncryptedEvent(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.bob,
+        trackingId,
+        "Pacific Ocean",
+        1,
+        "Loaded on vessel"
+      )
+    ).to.be.revertedWith("Too early for status change");
+
+    await time.increase(3600);
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.bob,
+      trackingId,
+      "Pacific Ocean",
+      1,
+      "Loaded on vessel"
+    );
+    await expect(tx)
+      .to.emit(secureCargoFlowContract, "StatusUpdated")
+      .withArgs(ethers.id(trackingId), 0, signers.bob.address, trackingId, 0, 1);
+
+    expect(await secureCargoFlowContract.getCurrentStatus(trackingId)).to.eq(1);
+  });
+
+  it("should restrict status transitions to the right role", async function () {
+    const trackingId = "CARGO-2024-017";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .addParticipant(trackingId, signers.bob.address, Role.Carrier);
+    await tx.wait();
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .addParticipant(trackingId, signers.carol.address, Role.Customs);
+    await tx.wait();
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .addParticipant(trackingId, signers.dave.address, Role.Consignee);
+    await tx.wait();
+
+    await time.increase(3600);
+
+    tx = await secureCargoFlowContract.connect(signers.bob).updateShipmentStatus(trackingId, 1);
+    await tx.wait();
+    tx = await secureCargoFlowContract.connect(signers.bob).updateShipmentStatus(trackingId, 2);
+    await tx.wait();
+
+    // Only customs may move a shipment out of CustomsClearance
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).updateShipmentStatus(trackingId, 3)
+    ).to.be.revertedWith("Invalid status transition");
+    await expect(
+      secureCargoFlowContract.connect(signers.bob).updateShipmentStatus(trackingId, 3)
+    ).to.be.revertedWith("Invalid status transition");
+    await expect(
+      addEncryptedEvent(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.bob,
+        trackingId,
+        "Port of Los Angeles",
+        3,
+        "Skipping customs"
+      )
+    ).to.be.revertedWith("Invalid status transition");
+
+    await expect(secureCargoFlowContract.connect(signers.carol).updateShipmentStatus(trackingId, 3))
+      .to.emit(secureCargoFlowContract, "StatusUpdated")
+      .withArgs(ethers.id(trackingId), 2, signers.carol.address, trackingId, 2, 3);
+
+    // Consignee may deliver (through confirmDelivery) but cannot record plain checkpoints
+    await expect(
+      addEncryptedEvent(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.dave,
+        trackingId,
+        "Warehouse",
+        3,
+        "Waiting at warehouse"
+      )
+    ).to.be.revertedWith("Consignee cannot record checkpoints");
+
+    await expect(
+      secureCargoFlowContract.connect(signers.dave).updateShipmentStatus(trackingId, 4)
+    ).to.be.revertedWith("Use confirmDelivery");
+
+    await expect(
+      secureCargoFlowContract.connect(signers.deployer).updateShipmentStatus(trackingId, 4)
+    ).to.be.revertedWith("Only shipment participants can update status");
+  });
+
+  it("should let partners decrypt only the fields they were granted", async function () {
+    const trackingId = "CARGO-2024-018";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      0,
+      "Lithium cells"
+    );
+    await tx.wait();
+
+    await expect(
+      secureCargoFlowContract.connect(signers.bob).grantDecryptAccess(trackingId, signers.bob.address, Field.Weight)
+    ).to.be.revertedWith("Only shipment creator can manage decrypt access");
+
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).grantDecryptAccess(trackingId, signers.bob.address, Field.Weight)
+    )
+      .to.emit(secureCargoFlowContract, "DecryptAccessGranted")
+      .withArgs(trackingId, signers.bob.address, Field.Weight);
+
+    const weightHandle = await secureCargoFlowContract.getEncryptedWeight(trackingId, 0);
+    const clearWeight = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      weightHandle,
+      secureCargoFlowContractAddress,
+      signers.bob
+    );
+    expect(clearWeight).to.eq(2500000);
+
+    const [contentsHandle] = await secureCargoFlowContract.getEncryptedContents(trackingId, 0);
+    let contentsDecrypted = true;
+    try {
+      await fhevm.userDecryptEuint(FhevmType.euint256, contentsHandle, secureCargoFlowContractAddress, signers.bob);
+    } catch {
+      contentsDecrypted = false;
+    }
+    expect(contentsDecrypted).to.be.false;
+
+    expect(await secureCargoFlowContract.getDecryptGrantees(trackingId, Field.Weight)).to.deep.eq([
+      signers.bob.address,
+    ]);
+  });
+
+  it("should re-encrypt handles when revoking decrypt access", async function () {
+    const trackingId = "CARGO-2024-019";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      0,
+      "Medical supplies"
+    );
+    await tx.wait();
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .grantDecryptAccess(trackingId, signers.bob.address, Field.Contents);
+    await tx.wait();
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .grantDecryptAccess(trackingId, signers.carol.address, Field.Contents);
+    await tx.wait();
+
+    const [oldHandle] = await secureCargoFlowContract.getEncryptedContents(trackingId, 0);
+
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).revokeDecryptAccess(trackingId, signers.bob.address, Field.Contents)
+    )
+      .to.emit(secureCargoFlowContract, "DecryptAccessRevoked")
+      .withArgs(trackingId, signers.bob.address, Field.Contents);
+
+    const [newHandle] = await secureCargoFlowContract.getEncryptedContents(trackingId, 0);
+    expect(newHandle).to.not.eq(oldHandle);
+
+    // Remaining grantee and creator still read the same value from the fresh handle
+    for (const reader of [signers.alice, signers.carol]) {
+      const clearChunk = await fhevm.userDecryptEuint(
+        FhevmType.euint256,
+        newHandle,
+        secureCargoFlowContractAddress,
+        reader
+      );
+      expect(unpackContents([clearChunk])).to.eq("Medical supplies");
+    }
+
+    let revokedDecrypted = true;
+    try {
+      await fhevm.userDecryptEuint(FhevmType.euint256, newHandle, secureCargoFlowContractAddress, signers.bob);
+    } catch {
+      revokedDecrypted = false;
+    }
+    expect(revokedDecrypted).to.be.false;
+
+    expect(await secureCargoFlowContract.decryptGrants(trackingId, signers.bob.address, Field.Contents)).to.be.false;
+    expect(await secureCargoFlowContract.getDecryptGrantees(trackingId, Field.Contents)).to.deep.eq([
+      signers.carol.address,
+    ]);
+  });
+
+  it("should flag measured weights outside the declared tolerance", async function () {
+    const trackingId = "CARGO-2024-020";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .addParticipant(trackingId, signers.bob.address, Role.Carrier);
+    await tx.wait();
+
+    // Declared weight 2500 kg, default tolerance 1% (25 kg)
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      0,
+      "Declared",
+      2500000
+    );
+    await tx.wait();
+    expect(await secureCargoFlowContract.getWeightDiscrepancy(trackingId, 0)).to.eq(ethers.ZeroHash);
+
+    await time.increase(3600);
+    await expect(
+      addEncryptedEvent(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.bob,
+        trackingId,
+        "Busan Port",
+        1,
+        "Transshipment weighing",
+        2480000
+      )
+    )
+      .to.emit(secureCargoFlowContract, "WeightReconciled")
+      .withArgs(trackingId, 1, signers.bob.address);
+
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.bob,
+      trackingId,
+      "Pacific Ocean",
+      1,
+      "Vessel weighing",
+      2400000
+    );
+    await tx.wait();
+
+    const withinTolerance = await secureCargoFlowContract.getWeightDiscrepancy(trackingId, 1);
+    const outsideTolerance = await secureCargoFlowContract.getWeightDiscrepancy(trackingId, 2);
+
+    // Both the shipper and the reporting carrier can read the flags
+    for (const reader of [signers.alice, signers.bob]) {
+      expect(
+        await fhevm.userDecryptEbool(withinTolerance, secureCargoFlowContractAddress, reader)
+      ).to.be.false;
+      expect(
+        await fhevm.userDecryptEbool(outsideTolerance, secureCargoFlowContractAddress, reader)
+      ).to.be.true;
+    }
+
+    let outsiderDecrypted = true;
+    try {
+      await fhevm.userDecryptEbool(outsideTolerance, secureCargoFlowContractAddress, signers.carol);
+    } catch {
+      outsiderDecrypted = false;
+    }
+    expect(outsiderDecrypted).to.be.false;
+  });
+
+  it("should declare the weight on the first weighed event when the status changed first", async function () {
+    const trackingId = "CARGO-2024-022";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    await time.increase(3600);
+    tx = await secureCargoFlowContract.connect(signers.alice).updateShipmentStatus(trackingId, Status.InTransit);
+    await tx.wait();
+    expect(await secureCargoFlowContract.getEncryptedWeight(trackingId, 0)).to.eq(ethers.ZeroHash);
+
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      Status.InTransit,
+      "Declared",
+      2500000
+    );
+    await tx.wait();
+    expect(await secureCargoFlowContract.getWeightDiscrepancy(trackingId, 1)).to.eq(ethers.ZeroHash);
+
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Busan Port",
+      Status.InTransit,
+      "Transshipment weighing",
+      2490000
+    );
+    await tx.wait();
+    const flag = await secureCargoFlowContract.getWeightDiscrepancy(trackingId, 2);
+    expect(await fhevm.userDecryptEbool(flag, secureCargoFlowContractAddress, signers.alice)).to.be.false;
+
+    // Status updates after the declaration carry the declared weight
+    tx = await secureCargoFlowContract.connect(signers.alice).updateShipmentStatus(trackingId, Status.Exception);
+    await tx.wait();
+    expect(await secureCargoFlowContract.getEncryptedWeight(trackingId, 3)).to.eq(
+      await secureCargoFlowContract.getEncryptedWeight(trackingId, 1)
+    );
+  });
+
+  it("should reconcile against a custom encrypted tolerance and skip unmeasured checkpoints", async function () {
+    const trackingId = "CARGO-2024-021";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+
+    const encryptedTolerance = await fhevm
+      .createEncryptedInput(secureCargoFlowContractAddress, signers.bob.address)
+      .add32(200000)
+      .encrypt();
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.bob)
+        .setWeightTolerance(trackingId, encryptedTolerance.handles[0], encryptedTolerance.inputProof)
+    ).to.be.revertedWith("Only shipment creator can set weight tolerance");
+
+    // 200 kg tolerance
+    const aliceTolerance = await fhevm
+      .createEncryptedInput(secureCargoFlowContractAddress, signers.alice.address)
+      .add32(200000)
+      .encrypt();
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .setWeightTolerance(trackingId, aliceTolerance.handles[0], aliceTolerance.inputProof);
+    await tx.wait();
+
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      0,
+      "Declared",
+      2500000
+    );
+    await tx.wait();
+    await time.increase(3600);
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Busan Port",
+      1,
+      "Weighed",
+      2400000
+    );
+    await tx.wait();
+
+    const flag = await secureCargoFlowContract.getWeightDiscrepancy(trackingId, 1);
+    expect(await fhevm.userDecryptEbool(flag, secureCargoFlowContractAddress, signers.alice)).to.be.false;
+
+    // Checkpoint without a new measurement: zero weight handle and no contents
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .addCargoEvent(trackingId, "Pacific Ocean", 1, "Sealed container", ethers.ZeroHash, "0x", [], "0x");
+    await tx.wait();
+
+    expect(await secureCargoFlowContract.getWeightDiscrepancy(trackingId, 2)).to.eq(ethers.ZeroHash);
+    expect(await secureCargoFlowContract.getEncryptedWeight(trackingId, 2)).to.eq(
+      await secureCargoFlowContract.getEncryptedWeight(trackingId, 0)
+    );
+  });
+
+  it("should hand over custody in two steps and record the chain of custody", async function () {
+    const trackingId = "CARGO-2024-022";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      0,
+      "Machine parts"
+    );
+    await tx.wait();
+
+    await expect(
+      secureCargoFlowContract.connect(signers.bob).proposeCustodyTransfer(trackingId, signers.bob.address)
+    ).to.be.revertedWith("Only current custodian can transfer custody");
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).proposeCustodyTransfer(trackingId, ethers.ZeroAddress)
+    ).to.be.revertedWith("New custodian cannot be zero address");
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).cancelCustodyTransfer(trackingId)
+    ).to.be.revertedWith("No pending custody transfer");
+
+    // A proposal can be cancelled before it is accepted
+    tx = await secureCargoFlowContract.connect(signers.alice).proposeCustodyTransfer(trackingId, signers.carol.address);
+    await tx.wait();
+    await expect(secureCargoFlowContract.connect(signers.alice).cancelCustodyTransfer(trackingId))
+      .to.emit(secureCargoFlowContract, "CustodyTransferCancelled")
+      .withArgs(trackingId, signers.alice.address, signers.carol.address);
+    await expect(
+      secureCargoFlowContract.connect(signers.carol).acceptCustodyTransfer(trackingId)
+    ).to.be.revertedWith("Only pending custodian can accept");
+
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).proposeCustodyTransfer(trackingId, signers.bob.address)
+    )
+      .to.emit(secureCargoFlowContract, "CustodyTransferProposed")
+      .withArgs(trackingId, signers.alice.address, signers.bob.address);
+    expect(await secureCargoFlowContract.pendingCustodians(trackingId)).to.eq(signers.bob.address);
+
+    await expect(secureCargoFlowContract.connect(signers.bob).acceptCustodyTransfer(trackingId))
+      .to.emit(secureCargoFlowContract, "CustodyTransferred")
+      .withArgs(trackingId, signers.alice.address, signers.bob.address);
+
+    const shipment = await secureCargoFlowContract.getShipment(trackingId);
+    expect(shipment.creator).to.eq(signers.bob.address);
+    expect(await secureCargoFlowContract.pendingCustodians(trackingId)).to.eq(ethers.ZeroAddress);
+    expect(await secureCargoFlowContract.participantRoles(trackingId, signers.bob.address)).to.eq(Role.Shipper);
+    expect(await secureCargoFlowContract.participantRoles(trackingId, signers.alice.address)).to.eq(Role.None);
+
+    const history = await secureCargoFlowContract.getCustodyHistory(trackingId);
+    expect(history.length).to.eq(2);
+    expect(history[0].from).to.eq(ethers.ZeroAddress);
+    expect(history[0].to).to.eq(signers.alice.address);
+    expect(history[1].from).to.eq(signers.alice.address);
+    expect(history[1].to).to.eq(signers.bob.address);
+
+    // The new custodian can read data recorded before the handover
+    const weightHandle = await secureCargoFlowContract.getEncryptedWeight(trackingId, 0);
+    const clearWeight = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      weightHandle,
+      secureCargoFlowContractAddress,
+      signers.bob
+    );
+    expect(clearWeight).to.eq(2500000);
+    // ...including the delivery PIN it may have to pass on to the consignee
+    const clearPin = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      await secureCargoFlowContract.getDeliveryPin(trackingId),
+      secureCargoFlowContractAddress,
+      signers.bob
+    );
+    expect(clearPin).to.eq(DEFAULT_DELIVERY_PIN);
+
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).addParticipant(trackingId, signers.carol.address, Role.Carrier)
+    ).to.be.revertedWith("Only shipment creator can manage participants");
+  });
+
+  it("should move handed-over shipments between the creators' indexes and running totals", async function () {
+    const estimatedDelivery = (await time.latest()) + 7 * 86400;
+    const weights: Record<string, number> = { "CARGO-2024-058": 1000000, "CARGO-2024-060": 2000000 };
+
+    for (const trackingId of ["CARGO-2024-058", "CARGO-2024-059", "CARGO-2024-060"]) {
+      await (
+        await createShipment(
+          secureCargoFlowContract,
+          secureCargoFlowContractAddress,
+          signers.alice,
+          trackingId,
+          "Rotterdam",
+          "New York",
+          estimatedDelivery
+        )
+      ).wait();
+      if (weights[trackingId] !== undefined) {
+        await (
+          await addEncryptedEvent(
+            secureCargoFlowContract,
+            secureCargoFlowContractAddress,
+            signers.alice,
+            trackingId,
+            "Rotterdam",
+            Status.Created,
+            "Machine parts",
+            weights[trackingId]
+          )
+        ).wait();
+      }
+    }
+    await (
+      await createShipment(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.bob,
+        "CARGO-2024-061",
+        "Rotterdam",
+        "New York",
+        estimatedDelivery
+      )
+    ).wait();
+
+    const handOver = async (trackingId: string, custodian: HardhatEthersSigner) => {
+      const tx = await secureCargoFlowContract
+        .connect(signers.alice)
+        .proposeCustodyTransfer(trackingId, custodian.address);
+      await tx.wait();
+      await (await secureCargoFlowContract.connect(custodian).acceptCustodyTransfer(trackingId)).wait();
+    };
+    const heldBy = async (account: HardhatEthersSigner) => {
+      const [trackingIds, total] = await secureCargoFlowContract.getShipmentsByCreator(account.address, 0, 100);
+      expect(total).to.eq(trackingIds.length);
+      return [...trackingIds];
+    };
+    const totalsOf = async (account: HardhatEthersSigner) => {
+      const [weightHandle, countHandle] = await secureCargoFlowContract.getCreatorTotals(account.address);
+      return [
+        await fhevm.userDecryptEuint(FhevmType.euint64, weightHandle, secureCargoFlowContractAddress, account),
+        await fhevm.userDecryptEuint(FhevmType.euint32, countHandle, secureCargoFlowContractAddress, account),
+      ];
+    };
+
+    // Alice's last tracking ID takes the slot of the one she hands over
+    await handOver("CARGO-2024-058", signers.bob);
+    expect(await heldBy(signers.alice)).to.deep.eq(["CARGO-2024-060", "CARGO-2024-059"]);
+    expect(await heldBy(signers.bob)).to.deep.eq(["CARGO-2024-061", "CARGO-2024-058"]);
+
+    // The moved tracking ID can itself be handed over from its new slot
+    await handOver("CARGO-2024-060", signers.carol);
+    expect(await heldBy(signers.alice)).to.deep.eq(["CARGO-2024-059"]);
+    expect(await heldBy(signers.carol)).to.deep.eq(["CARGO-2024-060"]);
+
+    // Declared weights follow their shipments; CARGO-2024-059 and CARGO-2024-061 have none yet
+    expect(await totalsOf(signers.alice)).to.deep.eq([0n, 1n]);
+    expect(await totalsOf(signers.bob)).to.deep.eq([1000000n, 2n]);
+    expect(await totalsOf(signers.carol)).to.deep.eq([2000000n, 1n]);
+  });
+
+  it("should let only the owner or guardian pause and unpause", async function () {
+    await expect(secureCargoFlowContract.connect(signers.alice).pause(Scope.Creation)).to.be.revertedWith(
+      "Only owner or guardian can call this function"
+    );
+    await expect(secureCargoFlowContract.connect(signers.alice).emergencyPause()).to.be.revertedWith(
+      "Only owner or guardian can call this function"
+    );
+    await expect(secureCargoFlowContract.connect(signers.alice).setGuardian(signers.alice.address)).to.be.revertedWith(
+      "Only owner can call this function"
+    );
+
+    await expect(secureCargoFlowContract.connect(signers.deployer).setGuardian(signers.bob.address))
+      .to.emit(secureCargoFlowContract, "GuardianSet")
+      .withArgs(ethers.ZeroAddress, signers.bob.address);
+
+    await expect(secureCargoFlowContract.connect(signers.bob).pause(Scope.Events))
+      .to.emit(secureCargoFlowContract, "Paused")
+      .withArgs(Scope.Events, signers.bob.address);
+    expect(await secureCargoFlowContract.paused(Scope.Events)).to.eq(true);
+    await expect(secureCargoFlowContract.connect(signers.bob).pause(Scope.Events)).to.be.revertedWith(
+      "Scope already paused"
+    );
+
+    await expect(secureCargoFlowContract.connect(signers.deployer).unpause(Scope.Events))
+      .to.emit(secureCargoFlowContract, "Unpaused")
+      .withArgs(Scope.Events, signers.deployer.address);
+    await expect(secureCargoFlowContract.connect(signers.deployer).unpause(Scope.Events)).to.be.revertedWith(
+      "Scope not paused"
+    );
+
+    // Emergency pause stops every group; each one is released separately
+    const tx = await secureCargoFlowContract.connect(signers.bob).emergencyPause();
+    await tx.wait();
+    for (const scope of Object.values(Scope)) {
+      expect(await secureCargoFlowContract.paused(scope)).to.eq(true);
+    }
+  });
+
+  it("should block only shipment creation while creation is paused", async function () {
+    const trackingId = "CARGO-2024-023";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await secureCargoFlowContract.connect(signers.deployer).pause(Scope.Creation);
+    await tx.wait();
+
+    await expect(
+      createShipment(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        trackingId,
+        "Shanghai Port",
+        "Los Angeles Port",
+        estimatedDelivery
+      )
+    ).to.be.revertedWith("Function group is paused");
+
+    tx = await secureCargoFlowContract.connect(signers.deployer).unpause(Scope.Creation);
+    await tx.wait();
+    tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+
+    // Other groups keep working while creation is paused
+    tx = await secureCargoFlowContract.connect(signers.deployer).pause(Scope.Creation);
+    await tx.wait();
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      0,
+      "Textiles"
+    );
+    await tx.wait();
+    expect(await secureCargoFlowContract.getEventCount(trackingId)).to.eq(1);
+  });
+
+  it("should block cargo events while events are paused", async function () {
+    const trackingId = "CARGO-2024-024";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      0,
+      "Textiles"
+    );
+    await tx.wait();
+
+    tx = await secureCargoFlowContract.connect(signers.deployer).pause(Scope.Events);
+    await tx.wait();
+
+    await expect(
+      addEncryptedEvent(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        trackingId,
+        "Shanghai Port",
+        0,
+        "Loaded"
+      )
+    ).to.be.revertedWith("Function group is paused");
+
+    // Status updates are a separate group
+    await time.increase(3600);
+    tx = await secureCargoFlowContract.connect(signers.alice).updateShipmentStatus(trackingId, 1);
+    await tx.wait();
+    expect(await secureCargoFlowContract.getCurrentStatus(trackingId)).to.eq(1);
+
+    tx = await secureCargoFlowContract.connect(signers.deployer).unpause(Scope.Events);
+    await tx.wait();
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Pacific Ocean",
+      1,
+      "At sea"
+    );
+    await tx.wait();
+    expect(await secureCargoFlowContract.getEventCount(trackingId)).to.eq(3);
+  });
+
+  it("should block status changes while status updates are paused", async function () {
+    const trackingId = "CARGO-2024-025";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      0,
+      "Textiles"
+    );
+    await tx.wait();
+
+    tx = await secureCargoFlowContract.connect(signers.deployer).pause(Scope.Status);
+    await tx.wait();
+    await time.increase(3600);
+
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).updateShipmentStatus(trackingId, 1)
+    ).to.be.revertedWith("Function group is paused");
+    await expect(
+      addEncryptedEvent(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        trackingId,
+        "Shanghai Port",
+        1,
+        "Departed"
+      )
+    ).to.be.revertedWith("Function group is paused");
+
+    // Checkpoints that keep the current status are still recorded
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      0,
+      "Awaiting departure"
+    );
+    await tx.wait();
+
+    tx = await secureCargoFlowContract.connect(signers.deployer).unpause(Scope.Status);
+    await tx.wait();
+    tx = await secureCargoFlowContract.connect(signers.alice).updateShipmentStatus(trackingId, 1);
+    await tx.wait();
+    expect(await secureCargoFlowContract.getCurrentStatus(trackingId)).to.eq(1);
+  });
+
+  it("should transfer ownership in two steps", async function () {
+    expect(await secureCargoFlowContract.owner()).to.eq(signers.deployer.address);
+
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).transferOwnership(signers.alice.address)
+    ).to.be.revertedWith("Only owner can call this function");
+
+    await expect(secureCargoFlowContract.connect(signers.deployer).transferOwnership(signers.alice.address))
+      .to.emit(secureCargoFlowContract, "OwnershipTransferStarted")
+      .withArgs(signers.deployer.address, signers.alice.address);
+    expect(await secureCargoFlowContract.pendingOwner()).to.eq(signers.alice.address);
+    expect(await secureCargoFlowContract.owner()).to.eq(signers.deployer.address);
+
+    await expect(secureCargoFlowContract.connect(signers.bob).acceptOwnership()).to.be.revertedWith(
+      "Only pending owner can accept ownership"
+    );
+
+    await expect(secureCargoFlowContract.connect(signers.alice).acceptOwnership())
+      .to.emit(secureCargoFlowContract, "OwnershipTransferred")
+      .withArgs(signers.deployer.address, signers.alice.address);
+    expect(await secureCargoFlowContract.owner()).to.eq(signers.alice.address);
+    expect(await secureCargoFlowContract.pendingOwner()).to.eq(ethers.ZeroAddress);
+
+    // The previous owner loses admin rights
+    await expect(
+      secureCargoFlowContract.connect(signers.deployer).setOpenCreation(false)
+    ).to.be.revertedWith("Only owner can call this function");
+    const tx = await secureCargoFlowContract.connect(signers.alice).setOpenCreation(false);
+    await tx.wait();
+    expect(await secureCargoFlowContract.openCreation()).to.eq(false);
+  });
+
+  it("should start a fresh deployment with creation restricted to the allowlist", async function () {
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+    const { secureCargoFlowContract: fresh, secureCargoFlowContractAddress: freshAddress } = await deployFixture({
+      openCreation: false,
+    });
+    expect(await fresh.openCreation()).to.eq(false);
+
+    const trackingId = "CARGO-2024-057";
+    await expect(
+      createShipment(fresh, freshAddress, signers.bob, trackingId, "Shanghai Port", "Los Angeles Port", estimatedDelivery)
+    ).to.be.revertedWith("Not an allowed shipper");
+
+    let tx = await fresh.connect(signers.deployer).addAllowedShipper(signers.bob.address);
+    await tx.wait();
+    tx = await createShipment(
+      fresh,
+      freshAddress,
+      signers.bob,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    expect((await fresh.getShipment(trackingId)).creator).to.eq(signers.bob.address);
+  });
+
+  it("should restrict shipment creation to allowed shippers when creation is closed", async function () {
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+    expect(await secureCargoFlowContract.openCreation()).to.eq(true);
+
+    // Open mode: anyone may create shipments
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.bob,
+      "CARGO-2024-026",
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+
+    await expect(secureCargoFlowContract.connect(signers.alice).setOpenCreation(false)).to.be.revertedWith(
+      "Only owner can call this function"
+    );
+    await expect(secureCargoFlowContract.connect(signers.deployer).setOpenCreation(false))
+      .to.emit(secureCargoFlowContract, "OpenCreationSet")
+      .withArgs(false);
+
+    await expect(
+      createShipment(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        "CARGO-2024-027",
+        "Shanghai Port",
+        "Los Angeles Port",
+        estimatedDelivery
+      )
+    ).to.be.revertedWith("Not an allowed shipper");
+
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).addAllowedShipper(signers.alice.address)
+    ).to.be.revertedWith("Only owner can call this function");
+    await expect(secureCargoFlowContract.connect(signers.deployer).addAllowedShipper(signers.alice.address))
+      .to.emit(secureCargoFlowContract, "ShipperAllowed")
+      .withArgs(signers.alice.address);
+    await expect(
+      secureCargoFlowContract.connect(signers.deployer).addAllowedShipper(signers.alice.address)
+    ).to.be.revertedWith("Shipper already allowed");
+    tx = await secureCargoFlowContract.connect(signers.deployer).addAllowedShipper(signers.carol.address);
+    await tx.wait();
+    expect(await secureCargoFlowContract.getAllowedShippers()).to.deep.eq([
+      signers.alice.address,
+      signers.carol.address,
+    ]);
+
+    tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      "CARGO-2024-027",
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    expect((await secureCargoFlowContract.getShipment("CARGO-2024-027")).creator).to.eq(signers.alice.address);
+
+    await expect(secureCargoFlowContract.connect(signers.deployer).removeAllowedShipper(signers.alice.address))
+      .to.emit(secureCargoFlowContract, "ShipperRemoved")
+      .withArgs(signers.alice.address);
+    await expect(
+      secureCargoFlowContract.connect(signers.deployer).removeAllowedShipper(signers.alice.address)
+    ).to.be.revertedWith("Shipper not allowed");
+    expect(await secureCargoFlowContract.getAllowedShippers()).to.deep.eq([signers.carol.address]);
+
+    await expect(
+      createShipment(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        "CARGO-2024-028",
+        "Shanghai Port",
+        "Los Angeles Port",
+        estimatedDelivery
+      )
+    ).to.be.revertedWith("Not an allowed shipper");
+  });
+
+  it("should store an encrypted declared value readable by the shipper and granted insurers", async function () {
+    const trackingId = "CARGO-2024-029";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+    const declaredValueInCents = 125_000_000_00n; // 125M USD
+
+    // The PIN and the declared value share one input proof
+    const encryptedValue = await fhevm
+      .createEncryptedInput(secureCargoFlowContractAddress, signers.alice.address)
+      .add32(DEFAULT_DELIVERY_PIN)
+      .add64(declaredValueInCents)
+      .encrypt();
+
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.alice)
+        .createInsuredShipment(
+          trackingId,
+          "Shanghai Port",
+          "Los Angeles Port",
+          estimatedDelivery,
+          encryptedValue.handles[0],
+          encryptedValue.handles[1],
+          "US",
+          encryptedValue.inputProof
+        )
+    ).to.be.revertedWith("Currency code must be 3 characters");
+
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.alice)
+        .createInsuredShipment(
+          trackingId,
+          "Shanghai Port",
+          "Los Angeles Port",
+          estimatedDelivery,
+          encryptedValue.handles[0],
+          encryptedValue.handles[1],
+          "USD",
+          encryptedValue.inputProof
+        )
+    )
+      .to.emit(secureCargoFlowContract, "DeclaredValueSet")
+      .withArgs(trackingId, signers.alice.address, "USD");
+    expect(await secureCargoFlowContract.valueCurrencies(trackingId)).to.eq("USD");
+
+    const valueHandle = await secureCargoFlowContract.getEncryptedDeclaredValue(trackingId);
+    const clearValue = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      valueHandle,
+      secureCargoFlowContractAddress,
+      signers.alice
+    );
+    expect(clearValue).to.eq(declaredValueInCents);
+
+    let insurerDecrypted = true;
+    try {
+      await fhevm.userDecryptEuint(FhevmType.euint64, valueHandle, secureCargoFlowContractAddress, signers.bob);
+    } catch {
+      insurerDecrypted = false;
+    }
+    expect(insurerDecrypted).to.eq(false);
+
+    let tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .grantDecryptAccess(trackingId, signers.bob.address, Field.DeclaredValue);
+    await tx.wait();
+    const insurerValue = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      valueHandle,
+      secureCargoFlowContractAddress,
+      signers.bob
+    );
+    expect(insurerValue).to.eq(declaredValueInCents);
+
+    // Revoking re-encrypts the value away from the insurer
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .revokeDecryptAccess(trackingId, signers.bob.address, Field.DeclaredValue);
+    await tx.wait();
+    const freshHandle = await secureCargoFlowContract.getEncryptedDeclaredValue(trackingId);
+    expect(freshHandle).to.not.eq(valueHandle);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, freshHandle, secureCargoFlowContractAddress, signers.alice)
+    ).to.eq(declaredValueInCents);
+    insurerDecrypted = true;
+    try {
+      await fhevm.userDecryptEuint(FhevmType.euint64, freshHandle, secureCargoFlowContractAddress, signers.bob);
+    } catch {
+      insurerDecrypted = false;
+    }
+    expect(insurerDecrypted).to.eq(false);
+
+    // Shipments created without a value have no declared value handle
+    tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      "CARGO-2024-030",
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    expect(await secureCargoFlowContract.getEncryptedDeclaredValue("CARGO-2024-030")).to.eq(ethers.ZeroHash);
+  });
+
+  it("should follow the owner-configurable status workflow", async function () {
+    const trackingId = "CARGO-2024-032";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    const [statusNames, roleMasks] = await secureCargoFlowContract.getWorkflow();
+    expect(statusNames).to.deep.eq(Object.keys(Status));
+    expect(roleMasks[Status.CustomsClearance][Status.Arrived]).to.eq(roleMask(Role.Customs));
+    expect(roleMasks[Status.Delivered][Status.InTransit]).to.eq(0);
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await secureCargoFlowContract.connect(signers.alice).addParticipant(trackingId, signers.bob.address, Role.Carrier);
+    await tx.wait();
+    await time.increase(3600);
+
+    // Default workflow: a carrier can raise an exception and report the shipment lost
+    tx = await secureCargoFlowContract.connect(signers.bob).updateShipmentStatus(trackingId, Status.InTransit);
+    await tx.wait();
+    tx = await secureCargoFlowContract.connect(signers.bob).updateShipmentStatus(trackingId, Status.Exception);
+    await tx.wait();
+    await expect(
+      secureCargoFlowContract.connect(signers.bob).updateShipmentStatus(trackingId, Status.Cancelled)
+    ).to.be.revertedWith("Invalid status transition");
+
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).setTransition(Status.Exception, Status.Cancelled, roleMask(Role.Carrier))
+    ).to.be.revertedWith("Only owner can call this function");
+    await expect(
+      secureCargoFlowContract.setTransition(Status.Exception, Status.Exception, roleMask(Role.Carrier))
+    ).to.be.revertedWith("Transition must change status");
+    await expect(
+      secureCargoFlowContract.setTransition(Status.Exception, Status.Cancelled, roleMask(Role.None))
+    ).to.be.revertedWith("Role None cannot change status");
+
+    await expect(
+      secureCargoFlowContract.setTransition(Status.Exception, Status.Cancelled, roleMask(Role.Shipper, Role.Carrier))
+    )
+      .to.emit(secureCargoFlowContract, "TransitionSet")
+      .withArgs(Status.Exception, Status.Cancelled, roleMask(Role.Shipper, Role.Carrier));
+
+    tx = await secureCargoFlowContract.connect(signers.bob).updateShipmentStatus(trackingId, Status.Cancelled);
+    await tx.wait();
+    expect(await secureCargoFlowContract.getCurrentStatus(trackingId)).to.eq(Status.Cancelled);
+
+    // Disabling a transition blocks it for every role
+    tx = await secureCargoFlowContract.setTransition(Status.Created, Status.InTransit, 0);
+    await tx.wait();
+    expect(await secureCargoFlowContract.transitionRoles(Status.Created, Status.InTransit)).to.eq(0);
+  });
+
+  it("should report and resolve shipment exceptions", async function () {
+    const trackingId = "CARGO-2024-033";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await secureCargoFlowContract.connect(signers.alice).addParticipant(trackingId, signers.bob.address, Role.Carrier);
+    await tx.wait();
+
+    await expect(
+      secureCargoFlowContract.connect(signers.carol).reportException(trackingId, Reason.Damage, "Container dented")
+    ).to.be.revertedWith("Only shipment participants can report exceptions");
+    await expect(
+      secureCargoFlowContract.connect(signers.bob).reportException(trackingId, Reason.Damage, "")
+    ).to.be.revertedWith("Details cannot be empty");
+
+    await expect(secureCargoFlowContract.connect(signers.bob).reportException(trackingId, Reason.Damage, "Container dented"))
+      .to.emit(secureCargoFlowContract, "ExceptionReported")
+      .withArgs(trackingId, 0, signers.bob.address, Reason.Damage);
+    tx = await secureCargoFlowContract.connect(signers.alice).reportException(trackingId, Reason.Weather, "Typhoon delay");
+    await tx.wait();
+    expect(await secureCargoFlowContract.openExceptionCount()).to.eq(2);
+
+    await expect(
+      secureCargoFlowContract.connect(signers.carol).resolveException(trackingId, 0, "Repaired")
+    ).to.be.revertedWith("Only the shipper or reporter can resolve an exception");
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).resolveException("CARGO-2024-999", 0, "Repaired")
+    ).to.be.revertedWith("Exception does not belong to shipment");
+
+    await expect(secureCargoFlowContract.connect(signers.bob).resolveException(trackingId, 0, "Repaired at port"))
+      .to.emit(secureCargoFlowContract, "ExceptionResolved")
+      .withArgs(trackingId, 0, signers.bob.address);
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).resolveException(trackingId, 0, "Repaired")
+    ).to.be.revertedWith("Exception already resolved");
+
+    const exceptions = await secureCargoFlowContract.getExceptions(trackingId);
+    expect(exceptions.length).to.eq(2);
+    expect(exceptions[0].open).to.eq(false);
+    expect(exceptions[0].resolver).to.eq(signers.bob.address);
+    expect(exceptions[0].resolution).to.eq("Repaired at port");
+    expect(exceptions[1].open).to.eq(true);
+    expect(exceptions[1].reason).to.eq(Reason.Weather);
+
+    const open = await secureCargoFlowContract.getOpenExceptions();
+    expect(open.length).to.eq(1);
+    expect(open[0].id).to.eq(1);
+    expect(open[0].trackingId).to.eq(trackingId);
+    expect(await secureCargoFlowContract.openExceptionCount()).to.eq(1);
+  });
+
+  it("should count encrypted sensor readings outside the cold-chain range", async function () {
+    const trackingId = "CARGO-2024-031";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+    // Temperatures are encoded in 0.1 °C offset by +100 °C, humidity in 0.1 %
+    const encodeTemperature = (celsius: number) => Math.round(celsius * 10) + 1000;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Basel",
+      "Chicago",
+      estimatedDelivery
+    );
+    await tx.wait();
+
+    const readingInput = async (signer: HardhatEthersSigner, celsius: number, humidity: number) =>
+      fhevm
+        .createEncryptedInput(secureCargoFlowContractAddress, signer.address)
+        .add16(encodeTemperature(celsius))
+        .add16(humidity * 10)
+        .encrypt();
+
+    let reading = await readingInput(signers.alice, 5, 45);
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.alice)
+        .addSensorReading(trackingId, reading.handles[0], reading.handles[1], reading.inputProof)
+    ).to.be.revertedWith("Sensor range not set");
+
+    // 2-8 °C pharmaceutical lane, humidity up to 60 %
+    const range = await fhevm
+      .createEncryptedInput(secureCargoFlowContractAddress, signers.alice.address)
+      .add16(encodeTemperature(2))
+      .add16(encodeTemperature(8))
+      .add16(0)
+      .add16(600)
+      .encrypt();
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.alice)
+        .setSensorRange(trackingId, range.handles[0], range.handles[1], range.handles[2], range.handles[3], range.inputProof)
+    )
+      .to.emit(secureCargoFlowContract, "SensorRangeSet")
+      .withArgs(trackingId, signers.alice.address);
+
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .addSensorReading(trackingId, reading.handles[0], reading.handles[1], reading.inputProof);
+    await tx.wait();
+
+    reading = await readingInput(signers.bob, 12.5, 50);
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.bob)
+        .addSensorReading(trackingId, reading.handles[0], reading.handles[1], reading.inputProof)
+    ).to.be.revertedWith("Only shipment participants can add sensor readings");
+
+    tx = await secureCargoFlowContract.connect(signers.alice).addParticipant(trackingId, signers.bob.address, Role.Carrier);
+    await tx.wait();
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.bob)
+        .addSensorReading(trackingId, reading.handles[0], reading.handles[1], reading.inputProof)
+    )
+      .to.emit(secureCargoFlowContract, "SensorReadingAdded")
+      .withArgs(trackingId, 1, signers.bob.address);
+
+    expect(await secureCargoFlowContract.getSensorReadingCount(trackingId)).to.eq(2);
+    const [, reporter, temperature, humidity, excursion] = await secureCargoFlowContract.getSensorReading(trackingId, 1);
+    expect(reporter).to.eq(signers.bob.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint16, temperature, secureCargoFlowContractAddress, signers.alice)
+    ).to.eq(BigInt(encodeTemperature(12.5)));
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint16, humidity, secureCargoFlowContractAddress, signers.bob)
+    ).to.eq(500n);
+    expect(await fhevm.userDecryptEbool(excursion, secureCargoFlowContractAddress, signers.alice)).to.be.true;
+
+    const [, , , , firstExcursion] = await secureCargoFlowContract.getSensorReading(trackingId, 0);
+    expect(await fhevm.userDecryptEbool(firstExcursion, secureCargoFlowContractAddress, signers.alice)).to.be.false;
+
+    const countHandle = await secureCargoFlowContract.getExcursionCount(trackingId);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, countHandle, secureCargoFlowContractAddress, signers.alice)
+    ).to.eq(1n);
+
+    // Telemetry grantees can read every reading and the excursion count
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .grantDecryptAccess(trackingId, signers.carol.address, Field.Telemetry);
+    await tx.wait();
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, countHandle, secureCargoFlowContractAddress, signers.carol)
+    ).to.eq(1n);
+
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .revokeDecryptAccess(trackingId, signers.carol.address, Field.Telemetry);
+    await tx.wait();
+    const freshCount = await secureCargoFlowContract.getExcursionCount(trackingId);
+    expect(freshCount).to.not.eq(countHandle);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, freshCount, secureCargoFlowContractAddress, signers.alice)
+    ).to.eq(1n);
+    let granteeDecrypted = true;
+    try {
+      await fhevm.userDecryptEuint(FhevmType.euint32, freshCount, secureCargoFlowContractAddress, signers.carol);
+    } catch {
+      granteeDecrypted = false;
+    }
+    expect(granteeDecrypted).to.eq(false);
+
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.alice)
+        .setSensorRange(trackingId, range.handles[0], range.handles[1], range.handles[2], range.handles[3], range.inputProof)
+    ).to.be.revertedWith("Sensor range locked after first reading");
+  });
+
+  it("should store contents as packed euint256 chunks", async function () {
+    const trackingId = "CARGO-2024-034";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+    // 70 UTF-8 bytes including multi-byte characters -> 3 chunks
+    const description = "Frozen vaccines 2–8 °C, handle with care — ref #A17 / lot 0042 ✓";
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      Status.Created,
+      description
+    );
+    await tx.wait();
+
+    const handles = await secureCargoFlowContract.getEncryptedContents(trackingId, 0);
+    expect(handles.length).to.eq(Math.ceil(new TextEncoder().encode(description).length / CONTENTS_CHUNK_BYTES));
+    const chunks: bigint[] = [];
+    for (const handle of handles) {
+      chunks.push(
+        await fhevm.userDecryptEuint(FhevmType.euint256, handle, secureCargoFlowContractAddress, signers.alice)
+      );
+    }
+    expect(unpackContents(chunks)).to.eq(description);
+
+    // One chunk over the limit is rejected
+    const oversized = fhevm.createEncryptedInput(secureCargoFlowContractAddress, signers.alice.address);
+    for (let i = 0; i <= MAX_CONTENTS_CHUNKS; i++) {
+      oversized.add256(1n);
+    }
+    const encryptedContents = await oversized.encrypt();
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.alice)
+        .amendManifest(trackingId, encryptedContents.handles, encryptedContents.inputProof, "Oversized manifest")
+    ).to.be.revertedWith("Contents too long");
+  });
+
+  it("should use less gas and decrypt faster than one handle per byte", async function () {
+    const benchmarkFactory = (await ethers.getContractFactory(
+      "ContentsLayoutBenchmark"
+    )) as ContentsLayoutBenchmark__factory;
+    const benchmark = (await benchmarkFactory.deploy()) as ContentsLayoutBenchmark;
+    const benchmarkAddress = await benchmark.getAddress();
+    // 64 bytes was the most the per-byte layout accepted
+    const description = "Temperature-controlled pharmaceuticals, 40 cartons, keep upright";
+    expect(description.length).to.eq(64);
+
+    // Former layout: one euint8 handle per byte
+    let started = Date.now();
+    const byteInput = fhevm.createEncryptedInput(benchmarkAddress, signers.alice.address);
+    for (const byte of new TextEncoder().encode(description)) {
+      byteInput.add8(byte);
+    }
+    const encryptedBytes = await byteInput.encrypt();
+    const byteReceipt = await (
+      await benchmark.connect(signers.alice).storeBytes("bytes", encryptedBytes.handles, encryptedBytes.inputProof)
+    ).wait();
+    const clearBytes: number[] = [];
+    for (const handle of await benchmark.getBytes("bytes")) {
+      clearBytes.push(
+        Number(await fhevm.userDecryptEuint(FhevmType.euint8, handle, benchmarkAddress, signers.alice))
+      );
+    }
+    const byteLatency = Date.now() - started;
+    expect(new TextDecoder().decode(Uint8Array.from(clearBytes))).to.eq(description);
+
+    // Packed layout: 32 bytes per euint256 handle
+    started = Date.now();
+    const packedInput = fhevm.createEncryptedInput(benchmarkAddress, signers.alice.address);
+    for (const chunk of packContents(description)) {
+      packedInput.add256(chunk);
+    }
+    const encryptedChunks = await packedInput.encrypt();
+    const packedReceipt = await (
+      await benchmark.connect(signers.alice).storePacked("packed", encryptedChunks.handles, encryptedChunks.inputProof)
+    ).wait();
+    const clearChunks: bigint[] = [];
+    for (const handle of await benchmark.getPacked("packed")) {
+      clearChunks.push(await fhevm.userDecryptEuint(FhevmType.euint256, handle, benchmarkAddress, signers.alice));
+    }
+    const packedLatency = Date.now() - started;
+    expect(unpackContents(clearChunks)).to.eq(description);
+
+    console.log(
+      `      64-byte contents: per-byte ${encryptedBytes.handles.length} handles, ${byteReceipt!.gasUsed} gas, ` +
+        `${byteLatency} ms; packed ${encryptedChunks.handles.length} handles, ${packedReceipt!.gasUsed} gas, ` +
+        `${packedLatency} ms`
+    );
+    expect(encryptedChunks.handles.length).to.eq(2);
+    expect(packedReceipt!.gasUsed * 10n).to.be.lt(byteReceipt!.gasUsed);
+    expect(packedLatency).to.be.lt(byteLatency);
+  });
+
+  it("should version the encrypted manifest and link events to the current version", async function () {
+    const trackingId = "CARGO-2024-035";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await secureCargoFlowContract.connect(signers.alice).addParticipant(trackingId, signers.bob.address, Role.Customs);
+    await tx.wait();
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      Status.Created,
+      "20 pallets of laptops"
+    );
+    await tx.wait();
+    expect(await secureCargoFlowContract.getManifestVersionCount(trackingId)).to.eq(1);
+    expect(await secureCargoFlowContract.getEventManifestVersion(trackingId, 0)).to.eq(1);
+
+    // Contents cannot be replaced through a cargo event once the manifest exists
+    const eventContents = await encryptContents(secureCargoFlowContractAddress, signers.alice.address, "Other");
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.alice)
+        .addCargoEvent(
+          trackingId,
+          "Shanghai Port",
+          Status.Created,
+          "Repacked",
+          ethers.ZeroHash,
+          eventContents.inputProof,
+          eventContents.handles,
+          eventContents.inputProof
+        )
+    ).to.be.revertedWith("Use amendManifest to change contents");
+
+    const amended = await encryptContents(secureCargoFlowContractAddress, signers.bob.address, "18 pallets of laptops");
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.carol)
+        .amendManifest(trackingId, amended.handles, amended.inputProof, "Inspection count")
+    ).to.be.revertedWith("Only shipment participants can amend the manifest");
+    await expect(
+      secureCargoFlowContract.connect(signers.bob).amendManifest(trackingId, amended.handles, amended.inputProof, "")
+    ).to.be.revertedWith("Reason cannot be empty");
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.bob)
+        .amendManifest(trackingId, amended.handles, amended.inputProof, "Inspection count")
+    )
+      .to.emit(secureCargoFlowContract, "ManifestAmended")
+      .withArgs(trackingId, 2, signers.bob.address, "Inspection count");
+
+    await time.increase(3600);
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      Status.InTransit,
+      "Departed"
+    );
+    await tx.wait();
+    expect(await secureCargoFlowContract.getEventManifestVersion(trackingId, 0)).to.eq(1);
+    expect(await secureCargoFlowContract.getEventManifestVersion(trackingId, 1)).to.eq(2);
+
+    const decryptVersion = async (version: number, reader: HardhatEthersSigner) => {
+      const manifest = await secureCargoFlowContract.getManifestVersion(trackingId, version);
+      const chunks: bigint[] = [];
+      for (const handle of manifest.contents) {
+        chunks.push(await fhevm.userDecryptEuint(FhevmType.euint256, handle, secureCargoFlowContractAddress, reader));
+      }
+      return {
+        contents: manifest.contents,
+        reason: manifest.reason,
+        amendedBy: manifest.amendedBy,
+        text: unpackContents(chunks),
+      };
+    };
+
+    // The shipper reads every version; the amender reads what they recorded
+    const first = await decryptVersion(1, signers.alice);
+    expect(first.text).to.eq("20 pallets of laptops");
+    expect(first.reason).to.eq("Initial manifest");
+    expect(first.amendedBy).to.eq(signers.alice.address);
+    const second = await decryptVersion(2, signers.alice);
+    expect(second.text).to.eq("18 pallets of laptops");
+    expect(second.reason).to.eq("Inspection count");
+    expect((await decryptVersion(2, signers.bob)).text).to.eq("18 pallets of laptops");
+
+    // Events resolve contents through their version
+    const [eventHandle] = await secureCargoFlowContract.getEncryptedContents(trackingId, 1);
+    expect(eventHandle).to.eq(second.contents[0]);
+
+    // A contents grant covers every version
+    tx = await secureCargoFlowContract
+      .connect(signers.alice)
+      .grantDecryptAccess(trackingId, signers.dave.address, Field.Contents);
+    await tx.wait();
+    expect((await decryptVersion(1, signers.dave)).text).to.eq("20 pallets of laptops");
+
+    await expect(secureCargoFlowContract.getManifestVersion(trackingId, 0)).to.be.revertedWith(
+      "Manifest version does not exist"
+    );
+    await expect(secureCargoFlowContract.getManifestVersion(trackingId, 3)).to.be.revertedWith(
+      "Manifest version does not exist"
+    );
+  });
+
+  it("should page through events, creator shipments and the global shipment index", async function () {
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+    const trackingId = "CARGO-2024-036";
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.bob,
+      "CARGO-2024-037",
+      "Rotterdam Port",
+      "New York Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      "CARGO-2024-038",
+      "Busan Port",
+      "Seattle Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+
+    const locations = ["Shanghai Port", "Pacific Ocean", "Los Angeles Port"];
+    for (const [i, location] of locations.entries()) {
+      if (i === 1) {
+        await time.increase(3600);
+      }
+      tx = await addEncryptedEvent(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        trackingId,
+        location,
+        i === 0 ? Status.Created : Status.InTransit,
+        i === 0 ? "20 pallets of laptops" : "Checkpoint"
+      );
+      await tx.wait();
+    }
+
+    // Events are returned oldest first with the total for the next request
+    const [firstPage, eventTotal] = await secureCargoFlowContract.getEventsPage(trackingId, 0, 2);
+    expect(eventTotal).to.eq(3);
+    expect(firstPage.map((event) => event.location)).to.deep.eq(["Shanghai Port", "Pacific Ocean"]);
+    expect(firstPage[0].manifestVersion).to.eq(1);
+    const [secondPage] = await secureCargoFlowContract.getEventsPage(trackingId, 2, 2);
+    expect(secondPage.map((event) => event.location)).to.deep.eq(["Los Angeles Port"]);
+    expect(secondPage[0].eventId).to.eq(2);
+    const [pastEnd] = await secureCargoFlowContract.getEventsPage(trackingId, 10, 2);
+    expect(pastEnd.length).to.eq(0);
+    await expect(secureCargoFlowContract.getEventsPage("CARGO-2024-999", 0, 2)).to.be.revertedWith(
+      "Shipment does not exist"
+    );
+
+    const [aliceIds, aliceTotal] = await secureCargoFlowContract.getShipmentsByCreator(signers.alice.address, 0, 10);
+    expect(aliceTotal).to.eq(2);
+    expect(aliceIds).to.deep.eq([trackingId, "CARGO-2024-038"]);
+    const [bobIds] = await secureCargoFlowContract.getShipmentsByCreator(signers.bob.address, 0, 10);
+    expect(bobIds).to.deep.eq(["CARGO-2024-037"]);
+    const [carolIds, carolTotal] = await secureCargoFlowContract.getShipmentsByCreator(signers.carol.address, 0, 10);
+    expect(carolIds.length).to.eq(0);
+    expect(carolTotal).to.eq(0);
+
+    const [allIds, allTotal] = await secureCargoFlowContract.getShipmentIds(1, 5);
+    expect(allTotal).to.eq(await secureCargoFlowContract.totalShipments());
+    expect(allIds).to.deep.eq(["CARGO-2024-037", "CARGO-2024-038"]);
+  });
+
+  it("should index lifecycle logs by tracking key and carry the plain tracking ID", async function () {
+    const trackingId = "CARGO-2024-039";
+    const trackingKey = ethers.id(trackingId);
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    await expect(
+      createShipment(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        trackingId,
+        "Shanghai Port",
+        "Los Angeles Port",
+        estimatedDelivery
+      )
+    )
+      .to.emit(secureCargoFlowContract, "ShipmentCreated")
+      .withArgs(trackingKey, signers.alice.address, trackingId, "Shanghai Port", "Los Angeles Port", estimatedDelivery);
+
+    let tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      Status.Created,
+      "20 pallets of laptops"
+    );
+    const receipt = await tx.wait();
+    const block = await ethers.provider.getBlock(receipt!.blockNumber);
+    await expect(tx)
+      .to.emit(secureCargoFlowContract, "CargoEventAdded")
+      .withArgs(
+        trackingKey,
+        0,
+        signers.alice.address,
+        trackingId,
+        "Shanghai Port",
+        Status.Created,
+        "20 pallets of laptops",
+        block!.timestamp,
+        1
+      );
+
+    await time.increase(3600);
+    tx = await secureCargoFlowContract.connect(signers.alice).updateShipmentStatus(trackingId, Status.InTransit);
+    await tx.wait();
+
+    // A key filter alone recovers the tracking ID and rebuilds the timeline
+    const created = await secureCargoFlowContract.queryFilter(secureCargoFlowContract.filters.ShipmentCreated(trackingKey));
+    expect(created.length).to.eq(1);
+    expect(created[0].args.trackingId).to.eq(trackingId);
+
+    const added = await secureCargoFlowContract.queryFilter(secureCargoFlowContract.filters.CargoEventAdded(trackingKey));
+    expect(added.map((log) => [log.args.eventId, log.args.location, log.args.status])).to.deep.eq([
+      [0n, "Shanghai Port", BigInt(Status.Created)],
+      [1n, "Status Update", BigInt(Status.InTransit)],
+    ]);
+    expect(added.every((log) => log.args.trackingId === trackingId)).to.eq(true);
+
+    const updates = await secureCargoFlowContract.queryFilter(secureCargoFlowContract.filters.StatusUpdated(trackingKey));
+    expect(updates.length).to.eq(1);
+    expect(updates[0].args.trackingId).to.eq(trackingId);
+    expect(updates[0].args.oldStatus).to.eq(Status.Created);
+    expect(updates[0].transactionHash).to.eq(added[1].transactionHash);
+  });
+
+  it("should create shipments and add events in batches sharing one input proof", async function () {
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    // Bob's shipment makes Alice's event on it fail later on
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.bob,
+      "CARGO-2024-043",
+      "Rotterdam Port",
+      "New York Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+
+    // One proof carries the three PINs and the first shipment's declared value
+    const values = await fhevm
+      .createEncryptedInput(secureCargoFlowContractAddress, signers.alice.address)
+      .add32(111111)
+      .add32(222222)
+      .add32(333333)
+      .add64(1250000)
+      .encrypt();
+    const valueHandles = values.handles.map((handle) => ethers.hexlify(handle));
+    const shipmentItems = [
+      {
+        trackingId: "CARGO-2024-040",
+        origin: "Shanghai Port",
+        destination: "Los Angeles Port",
+        estimatedDelivery,
+        encPin: valueHandles[0],
+        encValue: valueHandles[3],
+        currency: "USD",
+      },
+      {
+        trackingId: "CARGO-2024-041",
+        origin: "Shanghai Port",
+        destination: "Seattle Port",
+        estimatedDelivery,
+        encPin: valueHandles[1],
+        encValue: ethers.ZeroHash,
+        currency: "",
+      },
+      {
+        trackingId: "CARGO-2024-043",
+        origin: "Shanghai Port",
+        destination: "Oakland Port",
+        estimatedDelivery,
+        encPin: valueHandles[2],
+        encValue: ethers.ZeroHash,
+        currency: "",
+      },
+    ];
+    const shipmentProof = ethers.hexlify(values.inputProof);
+
+    expect(
+      await secureCargoFlowContract.connect(signers.alice).createShipmentsBatch.staticCall(shipmentItems, shipmentProof)
+    ).to.deep.eq([true, true, false]);
+    tx = await secureCargoFlowContract.connect(signers.alice).createShipmentsBatch(shipmentItems, shipmentProof);
+    await expect(tx)
+      .to.emit(secureCargoFlowContract, "BatchItemFailed")
+      .withArgs(2, "CARGO-2024-043", secureCargoFlowContract.interface.encodeErrorResult("Error", ["Shipment already exists"]));
+    expect((await secureCargoFlowContract.getShipment("CARGO-2024-041")).creator).to.eq(signers.alice.address);
+    expect((await secureCargoFlowContract.getShipment("CARGO-2024-043")).creator).to.eq(signers.bob.address);
+    const valueHandle = await secureCargoFlowContract.getEncryptedDeclaredValue("CARGO-2024-040");
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, valueHandle, secureCargoFlowContractAddress, signers.alice)
+    ).to.eq(1250000n);
+    const pinHandle = await secureCargoFlowContract.getDeliveryPin("CARGO-2024-041");
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, pinHandle, secureCargoFlowContractAddress, signers.alice)
+    ).to.eq(222222n);
+
+    // One proof carries both weights and the first parcel's contents
+    const input = fhevm.createEncryptedInput(secureCargoFlowContractAddress, signers.alice.address);
+    input.add32(1200000).add32(800000).add32(500000);
+    for (const chunk of packContents("12 boxes of phones")) {
+      input.add256(chunk);
+    }
+    const encrypted = await input.encrypt();
+    const handles = encrypted.handles.map((handle) => ethers.hexlify(handle));
+    const eventItems = [
+      {
+        trackingId: "CARGO-2024-040",
+        location: "Shanghai Port",
+        status: Status.Created,
+        description: "Loaded on truck 7",
+        encWeight: handles[0],
+        encContents: [handles[3]],
+      },
+      {
+        trackingId: "CARGO-2024-041",
+        location: "Shanghai Port",
+        status: Status.Created,
+        description: "Loaded on truck 7",
+        encWeight: handles[1],
+        encContents: [],
+      },
+      {
+        trackingId: "CARGO-2024-043",
+        location: "Shanghai Port",
+        status: Status.Created,
+        description: "Loaded on truck 7",
+        encWeight: handles[2],
+        encContents: [],
+      },
+    ];
+    const eventProof = ethers.hexlify(encrypted.inputProof);
+
+    expect(
+      await secureCargoFlowContract.connect(signers.alice).addCargoEventsBatch.staticCall(eventItems, eventProof)
+    ).to.deep.eq([true, true, false]);
+    tx = await secureCargoFlowContract.connect(signers.alice).addCargoEventsBatch(eventItems, eventProof);
+    await expect(tx)
+      .to.emit(secureCargoFlowContract, "BatchItemFailed")
+      .withArgs(
+        2,
+        "CARGO-2024-043",
+        secureCargoFlowContract.interface.encodeErrorResult("Error", ["Only shipment participants can add events"])
+      );
+    expect(await secureCargoFlowContract.getEventCount("CARGO-2024-043")).to.eq(0);
+
+    const weightHandle = await secureCargoFlowContract.getEncryptedWeight("CARGO-2024-041", 0);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, weightHandle, secureCargoFlowContractAddress, signers.alice)
+    ).to.eq(800000n);
+    const [contentsHandle] = await secureCargoFlowContract.getEncryptedContents("CARGO-2024-040", 0);
+    expect(
+      unpackContents([
+        await fhevm.userDecryptEuint(FhevmType.euint256, contentsHandle, secureCargoFlowContractAddress, signers.alice),
+      ])
+    ).to.eq("12 boxes of phones");
+    expect(await secureCargoFlowContract.getManifestVersionCount("CARGO-2024-041")).to.eq(0);
+
+    const tooMany = Array.from({ length: 21 }, () => shipmentItems[1]);
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).createShipmentsBatch(tooMany, "0x")
+    ).to.be.revertedWith("Invalid batch size");
+  });
+
+  it("should fit full batches within the per-transaction FHE limits", async function () {
+    // Every item runs in its own sub-call, so an item over the HCU limits would show up as BatchItemFailed
+    const batchSize = MAX_BATCH_SIZE;
+    const estimatedDelivery = (await time.latest()) + 7 * 86400;
+    const trackingIds = Array.from({ length: batchSize }, (_, i) => `CARGO-FULL-${String(i).padStart(2, "0")}`);
+
+    // Insured shipments: a PIN and a declared value each, 20 x (32 + 64) bits under one proof
+    const valuesInput = fhevm.createEncryptedInput(secureCargoFlowContractAddress, signers.alice.address);
+    trackingIds.forEach((_, i) => valuesInput.add32(100000 + i).add64(1000000 + i));
+    const values = await valuesInput.encrypt();
+    const valueHandles = values.handles.map((handle) => ethers.hexlify(handle));
+    const shipmentItems = trackingIds.map((trackingId, i) => ({
+      trackingId,
+      origin: "Rotterdam Port",
+      destination: "New York Port",
+      estimatedDelivery,
+      encPin: valueHandles[2 * i],
+      encValue: valueHandles[2 * i + 1],
+      currency: "EUR",
+    }));
+    const shipmentProof = ethers.hexlify(values.inputProof);
+    expect(
+      await secureCargoFlowContract.connect(signers.alice).createShipmentsBatch.staticCall(shipmentItems, shipmentProof)
+    ).to.deep.eq(trackingIds.map(() => true));
+    let tx = await secureCargoFlowContract.connect(signers.alice).createShipmentsBatch(shipmentItems, shipmentProof);
+    await expect(tx).not.to.emit(secureCargoFlowContract, "BatchItemFailed");
+
+    // First events on one lane and month chain every weight through the same aggregates (the deepest case),
+    // with as many contents chunks as fit next to the weights in 2048 bits
+    const chunks = packContents(
+      "Refrigerated containers of cut flowers, aged cheese, insulin pens and vaccines bound for the East Coast " +
+        "distribution centres, kept between 2 and 8 degrees"
+    );
+    expect(chunks.length).to.eq(5);
+    const eventsInput = fhevm.createEncryptedInput(secureCargoFlowContractAddress, signers.alice.address);
+    trackingIds.forEach((_, i) => eventsInput.add32(2000000 + i * 1000));
+    chunks.forEach((chunk) => eventsInput.add256(chunk));
+    const events = await eventsInput.encrypt();
+    const eventHandles = events.handles.map((handle) => ethers.hexlify(handle));
+    const eventItems = trackingIds.map((trackingId, i) => ({
+      trackingId,
+      location: "Rotterdam Port",
+      status: Status.Created,
+      description: "Gated in",
+      encWeight: eventHandles[i],
+      encContents: i === 0 ? eventHandles.slice(batchSize) : [],
+    }));
+    const eventProof = ethers.hexlify(events.inputProof);
+    expect(
+      await secureCargoFlowContract.connect(signers.alice).addCargoEventsBatch.staticCall(eventItems, eventProof)
+    ).to.deep.eq(trackingIds.map(() => true));
+    tx = await secureCargoFlowContract.connect(signers.alice).addCargoEventsBatch(eventItems, eventProof);
+    await expect(tx).not.to.emit(secureCargoFlowContract, "BatchItemFailed");
+
+    const [, stats] = await secureCargoFlowContract.getAggregateStats(0, 100);
+    expect(stats.map((stat) => Number(stat.shipments))).to.deep.eq([batchSize, batchSize]);
+    const [weightHandle] = await secureCargoFlowContract.getCreatorTotals(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, weightHandle, secureCargoFlowContractAddress, signers.alice)
+    ).to.eq(BigInt(batchSize * 2000000 + ((batchSize - 1) * batchSize * 1000) / 2));
+  });
+
+  it("should record cargo events signed by a participant and submitted by a relayer", async function () {
+    const trackingId = "CARGO-2024-044";
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    let tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    tx = await secureCargoFlowContract.connect(signers.alice).addParticipant(trackingId, signers.bob.address, Role.Carrier);
+    await tx.wait();
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      trackingId,
+      "Shanghai Port",
+      Status.Created,
+      "20 pallets of laptops"
+    );
+    await tx.wait();
+    await time.increase(3600);
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = { name: "SecureCargoFlow", version: "1", chainId, verifyingContract: secureCargoFlowContractAddress };
+    expect(await secureCargoFlowContract.DOMAIN_SEPARATOR()).to.eq(ethers.TypedDataEncoder.hashDomain(domain));
+
+    // Dave relays, so the carrier encrypts for Dave's address
+    const relayer = signers.dave;
+    const encrypted = await fhevm
+      .createEncryptedInput(secureCargoFlowContractAddress, relayer.address)
+      .add32(2500000)
+      .encrypt();
+    const signed = {
+      trackingId,
+      location: "Pacific Ocean",
+      status: Status.InTransit,
+      description: "Loaded on vessel",
+      encWeight: ethers.hexlify(encrypted.handles[0]),
+      encContents: [] as string[],
+      signer: signers.bob.address,
+      nonce: await secureCargoFlowContract.nonces(signers.bob.address),
+      deadline: (await time.latest()) + 3600,
+    };
+    const inputProof = ethers.hexlify(encrypted.inputProof);
+    const signature = await signers.bob.signTypedData(domain, CARGO_EVENT_TYPES, signed);
+
+    // A payload changed after signing no longer matches the signer
+    await expect(
+      secureCargoFlowContract
+        .connect(relayer)
+        .addCargoEventWithSig({ ...signed, location: "Tokyo Port" }, inputProof, signature)
+    ).to.be.revertedWith("Invalid signature");
+
+    tx = await secureCargoFlowContract.connect(relayer).addCargoEventWithSig(signed, inputProof, signature);
+    await expect(tx)
+      .to.emit(secureCargoFlowContract, "CargoEventRelayed")
+      .withArgs(ethers.id(trackingId), 1, signers.bob.address, trackingId, relayer.address);
+    const added = await secureCargoFlowContract.queryFilter(
+      secureCargoFlowContract.filters.CargoEventAdded(ethers.id(trackingId), 1)
+    );
+    expect(added[0].args.creator).to.eq(signers.bob.address);
+    expect(await secureCargoFlowContract.getCurrentStatus(trackingId)).to.eq(Status.InTransit);
+    expect(await secureCargoFlowContract.nonces(signers.bob.address)).to.eq(1);
+
+    // The signer, not the relayer, may decrypt the reported weight
+    const weightHandle = await secureCargoFlowContract.getEncryptedWeight(trackingId, 1);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, weightHandle, secureCargoFlowContractAddress, signers.bob)
+    ).to.eq(2500000n);
+
+    await expect(
+      secureCargoFlowContract.connect(relayer).addCargoEventWithSig(signed, inputProof, signature)
+    ).to.be.revertedWith("Invalid nonce");
+
+    const checkpoint = {
+      ...signed,
+      status: Status.InTransit,
+      description: "Passed Honolulu",
+      encWeight: ethers.ZeroHash,
+      nonce: 1n,
+      deadline: (await time.latest()) + 60,
+    };
+    const checkpointSignature = await signers.bob.signTypedData(domain, CARGO_EVENT_TYPES, checkpoint);
+    await time.increase(120);
+    await expect(
+      secureCargoFlowContract.connect(relayer).addCargoEventWithSig(checkpoint, "0x", checkpointSignature)
+    ).to.be.revertedWith("Signature expired");
+
+    // Carol signs correctly but is not a participant of the shipment
+    const outsider = { ...checkpoint, signer: signers.carol.address, nonce: 0n, deadline: (await time.latest()) + 3600 };
+    await expect(
+      secureCargoFlowContract
+        .connect(relayer)
+        .addCargoEventWithSig(outsider, "0x", await signers.carol.signTypedData(domain, CARGO_EVENT_TYPES, outsider))
+    ).to.be.revertedWith("Only shipment participants can add events");
+  });
+
+  it("should deliver only when the oracle confirms the PIN and record an encrypted proof of delivery", async function () {
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    // Alice ships with Bob as carrier, Carol as customs and Dave as consignee, up to Arrived
+    const shipToArrival = async (trackingId: string, pin: number) => {
+      let tx = await createShipment(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        trackingId,
+        "Shanghai Port",
+        "Los Angeles Port",
+        estimatedDelivery,
+        pin
+      );
+      await tx.wait();
+      for (const [account, role] of [
+        [signers.bob, Role.Carrier],
+        [signers.carol, Role.Customs],
+        [signers.dave, Role.Consignee],
+      ] as const) {
+        tx = await secureCargoFlowContract.connect(signers.alice).addParticipant(trackingId, account.address, role);
+        await tx.wait();
+      }
+      await time.increase(3600);
+      for (const [account, status] of [
+        [signers.bob, Status.InTransit],
+        [signers.bob, Status.CustomsClearance],
+        [signers.carol, Status.Arrived],
+      ] as const) {
+        tx = await secureCargoFlowContract.connect(account).updateShipmentStatus(trackingId, status);
+        await tx.wait();
+      }
+    };
+    const submitPin = async (trackingId: string, pin: number) => {
+      const encryptedPin = await fhevm
+        .createEncryptedInput(secureCargoFlowContractAddress, signers.bob.address)
+        .add32(pin)
+        .encrypt();
+      return secureCargoFlowContract
+        .connect(signers.bob)
+        .confirmDelivery(trackingId, encryptedPin.handles[0], encryptedPin.inputProof);
+    };
+    const decryptProof = async (trackingId: string, account: HardhatEthersSigner) =>
+      fhevm.userDecryptEbool(
+        await secureCargoFlowContract.getDeliveryProof(trackingId),
+        secureCargoFlowContractAddress,
+        account
+      );
+
+    await shipToArrival("CARGO-2024-045", 771204);
+
+    // The consignee reads the PIN to give it to the courier at the door
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await secureCargoFlowContract.getDeliveryPin("CARGO-2024-045"),
+        secureCargoFlowContractAddress,
+        signers.dave
+      )
+    ).to.eq(771204n);
+
+    // The plain status paths never reach Delivered
+    await expect(
+      secureCargoFlowContract.connect(signers.bob).updateShipmentStatus("CARGO-2024-045", Status.Delivered)
+    ).to.be.revertedWith("Use confirmDelivery");
+    await expect(
+      addEncryptedEvent(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.bob,
+        "CARGO-2024-045",
+        "Los Angeles",
+        Status.Delivered,
+        "Left at the door"
+      )
+    ).to.be.revertedWith("Use confirmDelivery");
+    // Customs may not deliver, PIN or not
+    const customsPin = await fhevm
+      .createEncryptedInput(secureCargoFlowContractAddress, signers.carol.address)
+      .add32(771204)
+      .encrypt();
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.carol)
+        .confirmDelivery("CARGO-2024-045", customsPin.handles[0], customsPin.inputProof)
+    ).to.be.revertedWith("Invalid status transition");
+
+    // A wrong PIN parks the shipment until the oracle answers, then releases it for another attempt
+    let tx = await submitPin("CARGO-2024-045", 771205);
+    await expect(tx).to.emit(secureCargoFlowContract, "DeliveryRequested");
+    expect(await secureCargoFlowContract.deliveryPending("CARGO-2024-045")).to.eq(true);
+    await expect(submitPin("CARGO-2024-045", 771204)).to.be.revertedWith("Delivery verification pending");
+    await expect(
+      secureCargoFlowContract.connect(signers.bob).updateShipmentStatus("CARGO-2024-045", Status.Exception)
+    ).to.be.revertedWith("Delivery verification pending");
+
+    await fhevm.awaitDecryptionOracle();
+    expect(await secureCargoFlowContract.deliveryPending("CARGO-2024-045")).to.eq(false);
+    expect(await secureCargoFlowContract.getCurrentStatus("CARGO-2024-045")).to.eq(Status.Arrived);
+    expect(await secureCargoFlowContract.deliveredAt("CARGO-2024-045")).to.eq(0);
+    expect(await decryptProof("CARGO-2024-045", signers.alice)).to.eq(false);
+    const rejected = await secureCargoFlowContract.queryFilter(secureCargoFlowContract.filters.DeliveryRejected());
+    expect(rejected.map((log) => log.args.courier)).to.deep.eq([signers.bob.address]);
+
+    // The right PIN delivers once the oracle confirms the match
+    tx = await submitPin("CARGO-2024-045", 771204);
+    await tx.wait();
+    expect(await secureCargoFlowContract.getCurrentStatus("CARGO-2024-045")).to.eq(Status.Arrived);
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await secureCargoFlowContract.getCurrentStatus("CARGO-2024-045")).to.eq(Status.Delivered);
+    expect(await secureCargoFlowContract.deliveredAt("CARGO-2024-045")).to.be.greaterThan(0);
+    const [confirmed] = await secureCargoFlowContract.queryFilter(secureCargoFlowContract.filters.DeliveryConfirmed());
+    expect(confirmed.args.eventId).to.eq(3);
+    expect(confirmed.args.courier).to.eq(signers.bob.address);
+    const updates = await secureCargoFlowContract.queryFilter(
+      secureCargoFlowContract.filters.StatusUpdated(ethers.id("CARGO-2024-045"), 3)
+    );
+    expect(updates.map((log) => [log.args.creator, log.args.oldStatus, log.args.newStatus])).to.deep.eq([
+      [signers.bob.address, BigInt(Status.Arrived), BigInt(Status.Delivered)],
+    ]);
+    expect(await decryptProof("CARGO-2024-045", signers.alice)).to.eq(true);
+    expect(await decryptProof("CARGO-2024-045", signers.dave)).to.eq(true);
+    expect(await decryptProof("CARGO-2024-045", signers.bob)).to.eq(true);
+
+    // Delivered is final
+    await expect(submitPin("CARGO-2024-045", 771204)).to.be.revertedWith("Invalid status transition");
+  });
+
+  it("should expire unanswered delivery requests and cap PIN attempts per shipment", async function () {
+    const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
+
+    // Alice ships with Bob as carrier, Carol as customs and Dave as consignee, up to Arrived
+    const shipToArrival = async (trackingId: string, pin: number) => {
+      let tx = await createShipment(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        trackingId,
+        "Rotterdam",
+        "Hamburg",
+        estimatedDelivery,
+        pin
+      );
+      await tx.wait();
+      for (const [account, role] of [
+        [signers.bob, Role.Carrier],
+        [signers.carol, Role.Customs],
+        [signers.dave, Role.Consignee],
+      ] as const) {
+        tx = await secureCargoFlowContract.connect(signers.alice).addParticipant(trackingId, account.address, role);
+        await tx.wait();
+      }
+      await time.increase(3600);
+      for (const [account, status] of [
+        [signers.bob, Status.InTransit],
+        [signers.bob, Status.CustomsClearance],
+        [signers.carol, Status.Arrived],
+      ] as const) {
+        tx = await secureCargoFlowContract.connect(account).updateShipmentStatus(trackingId, status);
+        await tx.wait();
+      }
+    };
+    const submitPin = async (trackingId: string, pin: number) => {
+      const encryptedPin = await fhevm
+        .createEncryptedInput(secureCargoFlowContractAddress, signers.bob.address)
+        .add32(pin)
+        .encrypt();
+      return secureCargoFlowContract
+        .connect(signers.bob)
+        .confirmDelivery(trackingId, encryptedPin.handles[0], encryptedPin.inputProof);
+    };
+
+    // A request the oracle never answers stops blocking the shipment after an hour
+    await shipToArrival("CARGO-2024-062", 304958);
+    let tx = await submitPin("CARGO-2024-062", 111111);
+    await tx.wait();
+    await time.increase(1800);
+    expect(await secureCargoFlowContract.deliveryPending("CARGO-2024-062")).to.eq(true);
+    await expect(submitPin("CARGO-2024-062", 304958)).to.be.revertedWith("Delivery verification pending");
+    await time.increase(1801);
+    expect(await secureCargoFlowContract.deliveryPending("CARGO-2024-062")).to.eq(false);
+
+    // The courier submits again; the late answer to the first request is ignored, the new one delivers
+    tx = await submitPin("CARGO-2024-062", 304958);
+    await tx.wait();
+    expect(await secureCargoFlowContract.deliveryPending("CARGO-2024-062")).to.eq(true);
+    await fhevm.awaitDecryptionOracle();
+    const expired = await secureCargoFlowContract.queryFilter(secureCargoFlowContract.filters.DeliveryExpired());
+    expect(expired.map((log) => log.args.courier)).to.deep.eq([signers.bob.address]);
+    expect(await secureCargoFlowContract.queryFilter(secureCargoFlowContract.filters.DeliveryRejected())).to.be.empty;
+    expect(await secureCargoFlowContract.getCurrentStatus("CARGO-2024-062")).to.eq(Status.Delivered);
+
+    // Even the right PIN changes nothing once its request has expired
+    await shipToArrival("CARGO-2024-063", 582046);
+    tx = await submitPin("CARGO-2024-063", 582046);
+    await tx.wait();
+    await time.increase(3601);
+    await fhevm.awaitDecryptionOracle();
+    expect(await secureCargoFlowContract.getCurrentStatus("CARGO-2024-063")).to.eq(Status.Arrived);
+    expect(await secureCargoFlowContract.deliveredAt("CARGO-2024-063")).to.eq(0);
+    expect(await secureCargoFlowContract.queryFilter(secureCargoFlowContract.filters.DeliveryExpired())).to.have.length(
+      2
+    );
+
+    // Every submission counts towards the cap, answered or not
+    for (const pin of [100000, 200000, 300000, 400000]) {
+      tx = await submitPin("CARGO-2024-063", pin);
+      await tx.wait();
+      await fhevm.awaitDecryptionOracle();
+    }
+    expect(await secureCargoFlowContract.deliveryAttempts("CARGO-2024-063")).to.eq(5);
+    await expect(submitPin("CARGO-2024-063", 582046)).to.be.revertedWith("Too many delivery attempts");
+
+    // Only the creator, who issued the PIN, can allow more attempts
+    await expect(
+      secureCargoFlowContract.connect(signers.bob).resetDeliveryAttempts("CARGO-2024-063")
+    ).to.be.revertedWith("Only shipment creator can reset delivery attempts");
+    await expect(secureCargoFlowContract.connect(signers.alice).resetDeliveryAttempts("CARGO-2024-063"))
+      .to.emit(secureCargoFlowContract, "DeliveryAttemptsReset")
+      .withArgs("CARGO-2024-063", signers.alice.address, 5);
+    expect(await secureCargoFlowContract.deliveryAttempts("CARGO-2024-063")).to.eq(0);
+
+    tx = await submitPin("CARGO-2024-063", 582046);
+    await tx.wait();
+    await fhevm.awaitDecryptionOracle();
+    expect(await secureCargoFlowContract.getCurrentStatus("CARGO-2024-063")).to.eq(Status.Delivered);
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).resetDeliveryAttempts("CARGO-2024-063")
+    ).to.be.revertedWith("Shipment already delivered");
+  });
+
+  it("should revise the estimated delivery, track lateness and emit SlaBreached after the ETA", async function () {
+    const day = 86400;
+
+    // Alice ships with Bob as carrier, Carol as customs and Dave as consignee
+    const createWithParticipants = async (trackingId: string, estimatedDelivery: number) => {
+      let tx = await createShipment(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        trackingId,
+        "Shanghai Port",
+        "Los Angeles Port",
+        estimatedDelivery
+      );
+      await tx.wait();
+      for (const [account, role] of [
+        [signers.bob, Role.Carrier],
+        [signers.carol, Role.Customs],
+        [signers.dave, Role.Consignee],
+      ] as const) {
+        tx = await secureCargoFlowContract.connect(signers.alice).addParticipant(trackingId, account.address, role);
+        await tx.wait();
+      }
+    };
+    // The oracle callback records the delivery, so breaches are read from the logs
+    const deliver = async (trackingId: string) => {
+      const encryptedPin = await fhevm
+        .createEncryptedInput(secureCargoFlowContractAddress, signers.bob.address)
+        .add32(DEFAULT_DELIVERY_PIN)
+        .encrypt();
+      const tx = await secureCargoFlowContract
+        .connect(signers.bob)
+        .confirmDelivery(trackingId, encryptedPin.handles[0], encryptedPin.inputProof);
+      await tx.wait();
+      await fhevm.awaitDecryptionOracle();
+    };
+    const breaches = async (trackingId: string) =>
+      (await secureCargoFlowContract.queryFilter(secureCargoFlowContract.filters.SlaBreached(trackingId))).map(
+        (log) => [log.args.eventId, log.args.estimatedDelivery, log.args.timestamp]
+      );
+
+    const committedEta = (await time.latest()) + 2 * day;
+    await createWithParticipants("CARGO-2024-048", committedEta);
+    expect(await secureCargoFlowContract.isLate("CARGO-2024-048")).to.eq(false);
+    expect(await secureCargoFlowContract.getEtaRevisions("CARGO-2024-048")).to.have.length(0);
+
+    // Only the shipper and carriers commit to an ETA
+    const revisedEta = committedEta + day;
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.dave)
+        .reviseEstimatedDelivery("CARGO-2024-048", revisedEta, EtaReason.CustomerRequest)
+    ).to.be.revertedWith("Only shipper or carrier can revise estimated delivery");
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.bob)
+        .reviseEstimatedDelivery("CARGO-2024-048", (await time.latest()) - 1, EtaReason.CustomsDelay)
+    ).to.be.revertedWith("Estimated delivery must be in the future");
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.bob)
+        .reviseEstimatedDelivery("CARGO-2024-048", committedEta, EtaReason.CustomsDelay)
+    ).to.be.revertedWith("Estimated delivery unchanged");
+
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.bob)
+        .reviseEstimatedDelivery("CARGO-2024-048", revisedEta, EtaReason.CustomsDelay)
+    )
+      .to.emit(secureCargoFlowContract, "EstimatedDeliveryRevised")
+      .withArgs("CARGO-2024-048", signers.bob.address, committedEta, revisedEta, EtaReason.CustomsDelay);
+    expect((await secureCargoFlowContract.getShipment("CARGO-2024-048")).estimatedDelivery).to.eq(revisedEta);
+    const revisions = await secureCargoFlowContract.getEtaRevisions("CARGO-2024-048");
+    expect(revisions).to.have.length(1);
+    expect(revisions[0].previousEta).to.eq(committedEta);
+    expect(revisions[0].newEta).to.eq(revisedEta);
+    expect(revisions[0].reason).to.eq(EtaReason.CustomsDelay);
+    expect(revisions[0].revisedBy).to.eq(signers.bob.address);
+
+    // Status changes before the revised ETA are on time
+    await time.increase(3600);
+    let tx = await secureCargoFlowContract.connect(signers.bob).updateShipmentStatus("CARGO-2024-048", Status.InTransit);
+    await expect(tx).not.to.emit(secureCargoFlowContract, "SlaBreached");
+
+    // Past the original ETA the revised one still holds
+    await time.increaseTo(committedEta + 3600);
+    expect(await secureCargoFlowContract.isLate("CARGO-2024-048")).to.eq(false);
+
+    // Past the revised ETA every status change is reported, through either status path
+    await time.increaseTo(revisedEta + 3600);
+    expect(await secureCargoFlowContract.isLate("CARGO-2024-048")).to.eq(true);
+    // A missed ETA cannot be moved afterwards to hide the breach
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.bob)
+        .reviseEstimatedDelivery("CARGO-2024-048", (await time.latest()) + day, EtaReason.CustomsDelay)
+    ).to.be.revertedWith("Estimated delivery already passed");
+    tx = await secureCargoFlowContract.connect(signers.bob).updateShipmentStatus("CARGO-2024-048", Status.CustomsClearance);
+    await tx.wait();
+    await expect(tx)
+      .to.emit(secureCargoFlowContract, "SlaBreached")
+      .withArgs("CARGO-2024-048", 1, revisedEta, await time.latest());
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.carol,
+      "CARGO-2024-048",
+      "Los Angeles Port",
+      Status.Arrived,
+      "Released by customs"
+    );
+    await tx.wait();
+    await expect(tx)
+      .to.emit(secureCargoFlowContract, "SlaBreached")
+      .withArgs("CARGO-2024-048", 2, revisedEta, await time.latest());
+    // Checkpoints at the same status are not status changes
+    tx = await addEncryptedEvent(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.bob,
+      "CARGO-2024-048",
+      "Los Angeles Warehouse",
+      Status.Arrived,
+      "Waiting for pickup"
+    );
+    await expect(tx).not.to.emit(secureCargoFlowContract, "SlaBreached");
+
+    await deliver("CARGO-2024-048");
+    const deliveredAt = await secureCargoFlowContract.deliveredAt("CARGO-2024-048");
+    expect(deliveredAt).to.be.greaterThan(revisedEta);
+    expect((await breaches("CARGO-2024-048")).at(-1)).to.deep.eq([4n, BigInt(revisedEta), deliveredAt]);
+    expect(await secureCargoFlowContract.isLate("CARGO-2024-048")).to.eq(true);
+    await expect(
+      secureCargoFlowContract
+        .connect(signers.alice)
+        .reviseEstimatedDelivery("CARGO-2024-048", (await time.latest()) + day, EtaReason.Other)
+    ).to.be.revertedWith("Shipment already delivered");
+
+    // Delivered before the ETA, the shipment stays on time once the ETA has passed
+    const onTimeEta = (await time.latest()) + 2 * day;
+    await createWithParticipants("CARGO-2024-049", onTimeEta);
+    await time.increase(3600);
+    for (const [account, status] of [
+      [signers.bob, Status.InTransit],
+      [signers.bob, Status.CustomsClearance],
+      [signers.carol, Status.Arrived],
+    ] as const) {
+      tx = await secureCargoFlowContract.connect(account).updateShipmentStatus("CARGO-2024-049", status);
+      await tx.wait();
+    }
+    await deliver("CARGO-2024-049");
+    expect(await secureCargoFlowContract.deliveredAt("CARGO-2024-049")).to.be.greaterThan(0);
+    expect(await breaches("CARGO-2024-049")).to.have.length(0);
+    await time.increaseTo(onTimeEta + day);
+    expect(await secureCargoFlowContract.isLate("CARGO-2024-049")).to.eq(false);
+  });
+
+  it("should aggregate declared weights per lane and month and reveal only the totals through the oracle", async function () {
+    const weights = [1200000, 2500000, 800000];
+    const trackingIds = ["CARGO-2024-050", "CARGO-2024-051", "CARGO-2024-052"];
+    const estimatedDelivery = (await time.latest()) + 7 * 86400;
+    const createWithWeight = async (
+      shipper: HardhatEthersSigner,
+      trackingId: string,
+      origin: string,
+      weightInGrams: number
+    ) => {
+      const tx = await createShipment(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        shipper,
+        trackingId,
+        origin,
+        "Los Angeles Port",
+        estimatedDelivery
+      );
+      await tx.wait();
+      await (
+        await addEncryptedEvent(
+          secureCargoFlowContract,
+          secureCargoFlowContractAddress,
+          shipper,
+          trackingId,
+          origin,
+          Status.Created,
+          "Electronics",
+          weightInGrams
+        )
+      ).wait();
+    };
+    const findLane = async (origin: string) => {
+      const [keys, stats] = await secureCargoFlowContract.getAggregateStats(0, 100);
+      const index = stats.findIndex((stat) => Number(stat.kind) === StatKind.Lane && stat.origin === origin);
+      return { key: keys[index], stat: stats[index] };
+    };
+
+    await createWithWeight(signers.alice, trackingIds[0], "Shanghai Port", weights[0]);
+    await createWithWeight(signers.bob, trackingIds[1], "Shanghai Port", weights[1]);
+
+    // One lane and one month statistic, counted but still encrypted
+    let [, stats, total] = await secureCargoFlowContract.getAggregateStats(0, 100);
+    expect(total).to.eq(2);
+    expect(stats.map((stat) => Number(stat.kind))).to.have.members([StatKind.Lane, StatKind.Month]);
+    let lane = await findLane("Shanghai Port");
+    expect(lane.stat.destination).to.eq("Los Angeles Port");
+    expect(lane.stat.shipments).to.eq(2);
+    expect(lane.stat.revealedAt).to.eq(0);
+    const createdAt = Number((await secureCargoFlowContract.getShipment(trackingIds[0])).createdAt);
+    const created = new Date(createdAt * 1000);
+    const month = stats.find((stat) => Number(stat.kind) === StatKind.Month)!;
+    expect(month.month).to.eq(created.getUTCFullYear() * 100 + created.getUTCMonth() + 1);
+
+    // Nobody but the contract can decrypt a total that mixes shippers, not even one of them
+    let shipperDecrypted = true;
+    try {
+      await fhevm.userDecryptEuint(FhevmType.euint64, lane.stat.tonnage, secureCargoFlowContractAddress, signers.alice);
+    } catch {
+      shipperDecrypted = false;
+    }
+    expect(shipperDecrypted).to.be.false;
+
+    await expect(
+      secureCargoFlowContract.connect(signers.alice).requestStatsReveal([lane.key])
+    ).to.be.revertedWith("Only owner can call this function");
+    await expect(secureCargoFlowContract.requestStatsReveal([])).to.be.revertedWith("No statistics requested");
+    await expect(secureCargoFlowContract.requestStatsReveal([ethers.ZeroHash])).to.be.revertedWith(
+      "Statistic does not exist"
+    );
+    await expect(secureCargoFlowContract.requestStatsReveal([lane.key])).to.be.revertedWith(
+      "Too few new shipments to reveal"
+    );
+
+    await createWithWeight(signers.carol, trackingIds[2], "Shanghai Port", weights[2]);
+    // Shipments without a declared weight are not counted
+    const tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      "CARGO-2024-053",
+      "Shanghai Port",
+      "Los Angeles Port",
+      estimatedDelivery
+    );
+    await tx.wait();
+    lane = await findLane("Shanghai Port");
+    expect(lane.stat.shipments).to.eq(3);
+
+    // Lane and month totals count the same shipments, so one request cannot mix the groupings
+    const findMonth = async () => {
+      const [keys, stats] = await secureCargoFlowContract.getAggregateStats(0, 100);
+      const index = stats.findIndex((stat) => Number(stat.kind) === StatKind.Month);
+      return { key: keys[index], stat: stats[index] };
+    };
+    const monthKey = (await findMonth()).key;
+    await expect(secureCargoFlowContract.requestStatsReveal([lane.key, monthKey])).to.be.revertedWith(
+      "Only one grouping can be revealed"
+    );
+    expect((await secureCargoFlowContract.getStatsGrouping()).locked).to.eq(false);
+
+    await expect(secureCargoFlowContract.requestStatsReveal([lane.key])).to.emit(
+      secureCargoFlowContract,
+      "StatsRevealRequested"
+    );
+    await fhevm.awaitDecryptionOracle();
+
+    lane = await findLane("Shanghai Port");
+    expect(lane.stat.revealedTonnage).to.eq(weights.reduce((sum, weight) => sum + weight, 0));
+    expect(lane.stat.revealedShipments).to.eq(3);
+    expect(lane.stat.revealedAt).to.be.greaterThan(0);
+    // Statistics that were not requested stay unpublished
+    [, stats] = await secureCargoFlowContract.getAggregateStats(0, 100);
+    expect(stats.find((stat) => Number(stat.kind) === StatKind.Month)!.revealedAt).to.eq(0);
+
+    // The next reveal needs three more shipments, so no single weight can be differenced out
+    await expect(secureCargoFlowContract.requestStatsReveal([lane.key])).to.be.revertedWith(
+      "Too few new shipments to reveal"
+    );
+
+    // The first reveal fixed the grouping: a shipment on another lane brings the month to four shipments, and
+    // revealing the month would expose its weight as the month total minus the revealed lane total
+    const grouping = await secureCargoFlowContract.getStatsGrouping();
+    expect([grouping.locked, Number(grouping.kind)]).to.deep.eq([true, StatKind.Lane]);
+    await createWithWeight(signers.dave, "CARGO-2024-064", "Busan Port", 650000);
+    const monthStat = await findMonth();
+    expect(monthStat.stat.shipments).to.eq(4);
+    await expect(secureCargoFlowContract.requestStatsReveal([monthStat.key])).to.be.revertedWith(
+      "Only one grouping can be revealed"
+    );
+    expect((await findMonth()).stat.revealedAt).to.eq(0);
+  });
+
+  it("should keep encrypted per-creator running totals readable only by the creator", async function () {
+    const estimatedDelivery = (await time.latest()) + 7 * 86400;
+    let [weightHandle, countHandle] = await secureCargoFlowContract.getCreatorTotals(signers.alice.address);
+    expect(weightHandle).to.eq(ethers.ZeroHash);
+    expect(countHandle).to.eq(ethers.ZeroHash);
+
+    for (const [trackingId, weightInGrams] of [
+      ["CARGO-2024-054", 1500000],
+      ["CARGO-2024-055", 2750000],
+    ] as const) {
+      const tx = await createShipment(
+        secureCargoFlowContract,
+        secureCargoFlowContractAddress,
+        signers.alice,
+        trackingId,
+        "Rotterdam",
+        "New York",
+        estimatedDelivery
+      );
+      await tx.wait();
+      await (
+        await addEncryptedEvent(
+          secureCargoFlowContract,
+          secureCargoFlowContractAddress,
+          signers.alice,
+          trackingId,
+          "Rotterdam",
+          Status.Created,
+          "Machine parts",
+          weightInGrams
+        )
+      ).wait();
+      // Later events reuse the declared weight and do not add to the total
+      await (
+        await addEncryptedEvent(
+          secureCargoFlowContract,
+          secureCargoFlowContractAddress,
+          signers.alice,
+          trackingId,
+          "Rotterdam",
+          Status.Created,
+          "Loaded",
+          weightInGrams
+        )
+      ).wait();
+    }
+    // A shipment counts at creation; its weight joins the total with its first event
+    const tx = await createShipment(
+      secureCargoFlowContract,
+      secureCargoFlowContractAddress,
+      signers.alice,
+      "CARGO-2024-056",
+      "Rotterdam",
+      "New York",
+      estimatedDelivery
+    );
+    await tx.wait();
+
+    [weightHandle, countHandle] = await secureCargoFlowContract.getCreatorTotals(signers.alice.address);
+    const totalWeight = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      weightHandle,
+      secureCargoFlowContractAddress,
+      signers.alice
+    );
+    const shipmentCount = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      countHandle,
+      secureCargoFlowContractAddress,
+      signers.alice
+    );
+    expect(totalWeight).to.eq(4250000);
+    expect(shipmentCount).to.eq(3);
+
+    // Nobody else can read them, and other accounts keep their own totals
+    for (const [type, handle] of [
+      [FhevmType.euint64, weightHandle],
+      [FhevmType.euint32, countHandle],
+    ] as const) {
+      let outsiderDecrypted = true;
+      try {
+        await fhevm.userDecryptEuint(type, handle, secureCargoFlowContractAddress, signers.bob);
+      } catch {
+        outsiderDecrypted = false;
+      }
+      expect(outsiderDecrypted).to.be.false;
+    }
+    expect((await secureCargoFlowContract.getCreatorTotals(signers.bob.address))[1]).to.eq(ethers.ZeroHash);
+  });
 });
@@ -1,6 +1,6 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { ethers, fhevm, deployments } from "hardhat";
-import { SecureCargoFlow } from "../types";
+import { SecureCargoFlow, SecureCargoFlowViews } from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
 
@@ -11,6 +11,8 @@ type Signers = {
 describe("SecureCargoFlowSepolia", function () {
   let signers: Signers;
   let secureCargoFlowContract: SecureCargoFlow;
+  // Getters live in the views module, reached through SecureCargoFlow's address
+  let viewsModule: SecureCargoFlowViews;
   let secureCargoFlowContractAddress: string;
   let step: number;
   let steps: number;
@@ -32,6 +34,7 @@ describe("SecureCargoFlowSepolia", function () {
         "SecureCargoFlow",
         SecureCargoFlowDeployment.address
       );
+      viewsModule = await ethers.getContractAt("SecureCargoFlowViews", SecureCargoFlowDeployment.address);
     } catch (e) {
       (e as Error).message += ". Call 'npx hardhat deploy --network sepolia'";
       throw e;
@@ -56,10 +59,16 @@ describe("SecureCargoFlowSepolia", function () {
     const destination = "Los Angeles Port";
     const estimatedDelivery = Math.floor(Date.now() / 1000) + 86400 * 7;
 
+    progress(`Encrypting delivery PIN...`);
+    const encryptedPin = await fhevm
+      .createEncryptedInput(secureCargoFlowContractAddress, signers.alice.address)
+      .add32(482913)
+      .encrypt();
+
     progress(`Creating shipment ${trackingId}...`);
     let tx = await secureCargoFlowContract
       .connect(signers.alice)
-      .createShipment(trackingId, origin, destination, estimatedDelivery);
+      .createShipment(trackingId, origin, destination, estimatedDelivery, encryptedPin.handles[0], encryptedPin.inputProof);
     await tx.wait();
 
     progress(`Encrypting weight (2500 kg = 2500000 grams)...`);
@@ -69,6 +78,15 @@ describe("SecureCargoFlowSepolia", function () {
       .add32(weightInGrams)
       .encrypt();
 
+    // Contents are packed as UTF-8 into 32-byte euint256 chunks; this description fits one chunk
+    const contents = "Electronic Components (Class A)";
+    const contentsChunk = BigInt(ethers.hexlify(ethers.zeroPadBytes(ethers.toUtf8Bytes(contents), 32)));
+    progress(`Encrypting contents...`);
+    const encryptedContents = await fhevm
+      .createEncryptedInput(secureCargoFlowContractAddress, signers.alice.address)
+      .add256(contentsChunk)
+      .encrypt();
+
     progress(
       `Adding cargo event SecureCargoFlow=${secureCargoFlowContractAddress} handle=${ethers.hexlify(encryptedWeight.handles[0])} signer=${signers.alice.address}...`
     );
@@ -78,14 +96,16 @@ describe("SecureCargoFlowSepolia", function () {
         trackingId,
         "Shanghai Port, China",
         0, // ShipmentStatus.Created
+        "Loaded at origin",
         encryptedWeight.handles[0],
         encryptedWeight.inputProof,
-        "Electronic Components (Class A)"
+        encryptedContents.handles,
+        encryptedContents.inputProof
       );
     await tx.wait();
 
     progress(`Getting encrypted weight...`);
-    const encryptedWeightHandle = await secureCargoFlowContract.getEncryptedWeight(trackingId, 0);
+    const encryptedWeightHandle = await viewsModule.getEncryptedWeight(trackingId, 0);
     expect(encryptedWeightHandle).to.not.eq(ethers.ZeroHash);
 
     progress(`Decrypting weight...`);
@@ -95,18 +115,31 @@ describe("SecureCargoFlowSepolia", function () {
       secureCargoFlowContractAddress,
       signers.alice
     );
-    progress(`Decrypted weight: ${decryptedWeight} grams (${decryptedWeight / 1000} kg)`);
+    progress(`Decrypted weight: ${decryptedWeight} grams (${decryptedWeight / 1000n} kg)`);
 
     expect(decryptedWeight).to.eq(weightInGrams);
 
     progress(`Getting event count...`);
-    const eventCount = await secureCargoFlowContract.getEventCount(trackingId);
+    const eventCount = await viewsModule.getEventCount(trackingId);
     expect(eventCount).to.eq(1);
 
     progress(`Getting event public data...`);
-    const eventPublic = await secureCargoFlowContract.getCargoEventPublic(trackingId, 0);
+    const eventPublic = await viewsModule.getCargoEventPublic(trackingId, 0);
     expect(eventPublic.location).to.eq("Shanghai Port, China");
-    expect(eventPublic.publicContents).to.eq("Electronic Components (Class A)");
+    expect(eventPublic.description).to.eq("Loaded at origin");
+
+    progress(`Getting encrypted contents...`);
+    const contentsHandles = await viewsModule.getEncryptedContents(trackingId, 0);
+    expect(contentsHandles.length).to.eq(1);
+
+    progress(`Decrypting contents...`);
+    const decryptedContents = await fhevm.userDecryptEuint(
+      FhevmType.euint256,
+      contentsHandles[0],
+      secureCargoFlowContractAddress,
+      signers.alice
+    );
+    expect(decryptedContents).to.eq(contentsChunk);
   });
 });
 
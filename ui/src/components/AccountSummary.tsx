@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, Lock, Package } from "lucide-react";
+import { useAccount } from "wagmi";
+import { toast } from "sonner";
+import { useSecureCargoFlow, type CreatorTotals } from "@/hooks/useSecureCargoFlow";
+
+// Grams to tonnes, or kilograms below one tonne
+const formatWeight = (grams: bigint) =>
+  grams >= 1_000_000n
+    ? `${(Number(grams) / 1_000_000).toLocaleString(undefined, { maximumFractionDigits: 1 })} t`
+    : `${(Number(grams) / 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })} kg`;
+
+// The connected account's shipped weight and shipment count, decrypted on request and never published
+export const AccountSummary = () => {
+  const [totals, setTotals] = useState<CreatorTotals | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const { address, isConnected } = useAccount();
+  const { decryptMyTotals } = useSecureCargoFlow();
+
+  useEffect(() => {
+    setTotals(null);
+  }, [address]);
+
+  const handleDecrypt = useCallback(async () => {
+    setIsDecrypting(true);
+    try {
+      const value = await decryptMyTotals();
+      if (value === null) {
+        toast.error("Could not decrypt your totals");
+      }
+      setTotals(value);
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [decryptMyTotals]);
+
+  if (!isConnected) {
+    return null;
+  }
+
+  return (
+    <div className="hidden sm:flex items-center gap-3 px-4 py-2 rounded-lg border bg-card text-sm">
+      <Package className="h-4 w-4 text-muted-foreground" />
+      {totals === null ? (
+        <button
+          type="button"
+          onClick={handleDecrypt}
+          disabled={isDecrypting}
+          className="flex items-center gap-2 text-muted-foreground hover:text-foreground disabled:opacity-50"
+          title="Your totals are encrypted; only you can decrypt them"
+        >
+          {isDecrypting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Lock className="h-3 w-3" />}
+          My shipments
+        </button>
+      ) : (
+        <span>
+          <span className="font-semibold">{totals.shipmentCount}</span>{" "}
+          <span className="text-muted-foreground">shipment{totals.shipmentCount === 1 ? "" : "s"} ·</span>{" "}
+          <span className="font-semibold">{formatWeight(totals.totalWeight)}</span>{" "}
+          <span className="text-muted-foreground">shipped</span>
+        </span>
+      )}
+    </div>
+  );
+};
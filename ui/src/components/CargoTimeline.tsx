@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
-import { Lock, LockOpen, MapPin, Package, Scale, AlertTriangle, Loader2, Search, Plus } from "lucide-react";
+import { Lock, LockOpen, MapPin, Package, Scale, AlertTriangle, Loader2, Search, Plus, ShieldCheck, Thermometer, FileText } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -22,7 +22,17 @@ import {
 } from "@/components/ui/form";
 import { useAccount, usePublicClient } from "wagmi";
 import { toast } from "sonner";
-import { useSecureCargoFlow } from "@/hooks/useSecureCargoFlow";
+import { useSecureCargoFlow, EVENTS_PAGE_SIZE } from "@/hooks/useSecureCargoFlow";
+import { ParticipantsPanel } from "@/components/ParticipantsPanel";
+import { SharePartnerDialog } from "@/components/SharePartnerDialog";
+import { CustodyTrack } from "@/components/CustodyTrack";
+import { TelemetryPanel } from "@/components/TelemetryPanel";
+import { ExceptionsPanel } from "@/components/ExceptionsPanel";
+import { ManifestHistory } from "@/components/ManifestHistory";
+import { DeliveryConfirmDialog } from "@/components/DeliveryConfirmDialog";
+import { DeliveryEta } from "@/components/DeliveryEta";
+import { ShipmentList } from "@/components/ShipmentList";
+import { ShipmentExportDialog } from "@/components/ShipmentExportDialog";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -34,6 +44,7 @@ interface CargoEvent {
   status: number;
   weight?: number; // Decrypted weight in kg
   contents?: string;
+  manifestVersion?: number; // Manifest version current when the event was recorded (0 = none)
   anomaly?: string;
   isEncrypted: boolean;
 }
@@ -53,17 +64,29 @@ interface DecryptionResult {
   contents?: string;
 }
 
-const STATUS_NAMES = ["Created", "In Transit", "Customs Clearance", "Arrived", "Delivered"];
+// Status workflow read from the contract (status names and allowed role bitmask per transition)
+interface Workflow {
+  statusNames: string[];
+  roleMasks: number[][];
+}
+
+// Contract status names are PascalCase ("InTransit"); show them with spaces
+const formatStatusName = (workflow: Workflow | null, status: number) =>
+  workflow?.statusNames[status]?.replace(/([a-z])([A-Z])/g, "$1 $2") ?? "Unknown";
 
 const eventSchema = z.object({
   location: z.string().min(2, "Location is required"),
-  weight: z.string().optional(), // Optional, will be inherited from previous event
+  weight: z.string().optional(), // Required for the first event, optional measured weight afterwards
   status: z.string().min(1, "Status is required"),
-  contents: z.string().min(3, "Contents description is required"),
+  description: z.string().min(2, "Description is required"),
+  contents: z.string().optional(), // Initial manifest, first event only; later changes go through amendManifest
 });
 
 type EventFormValues = z.infer<typeof eventSchema>;
 
+// ShipmentStatus.Delivered
+const DELIVERED = 4;
+
 // Shared Add Event Dialog Content Component
 const AddEventDialogContent = ({
   trackingId,
@@ -75,20 +98,59 @@ const AddEventDialogContent = ({
   loadShipmentData,
   getEventCount,
   isPending,
+  workflow,
+  currentStatus,
 }: {
   trackingId: string;
   eventForm: ReturnType<typeof useForm<EventFormValues>>;
   isAddingEvent: boolean;
   setIsAddingEvent: (value: boolean) => void;
   setAddEventDialogOpen: (value: boolean) => void;
-  addCargoEvent: (trackingId: string, location: string, status: number, weightInKg: number | null, contents: string) => Promise<string | undefined>;
+  addCargoEvent: (
+    trackingId: string,
+    location: string,
+    status: number,
+    weightInKg: number | null,
+    description: string,
+    contents?: string
+  ) => Promise<string | undefined>;
   loadShipmentData: (id: string) => Promise<void>;
   getEventCount: (trackingId: string) => Promise<number>;
   isPending: boolean;
+  workflow: Workflow | null;
+  currentStatus: number;
 }) => {
-  const { isConnected } = useAccount();
+  const { isConnected, address } = useAccount();
+  const { getParticipants, relayCargoEvent } = useSecureCargoFlow();
+  const [viaRelayer, setViaRelayer] = useState(false);
   const [eventCount, setEventCount] = useState<number>(0);
   const [isLoadingCount, setIsLoadingCount] = useState(false);
+  const [role, setRole] = useState<number | null>(null);
+
+  // Look up the caller's role so only transitions they may perform are offered
+  useEffect(() => {
+    if (trackingId && address) {
+      getParticipants(trackingId).then((participants) => {
+        const participant = participants.find((p) => p.account.toLowerCase() === address.toLowerCase());
+        setRole(participant ? participant.role : null);
+      });
+    }
+  }, [trackingId, address, getParticipants]);
+
+  // Default to a checkpoint at the current status
+  useEffect(() => {
+    eventForm.setValue("status", String(currentStatus));
+  }, [currentStatus, eventForm]);
+
+  const statusOptions = useMemo(() => {
+    const transitions = workflow?.roleMasks[currentStatus] ?? [];
+    const targets = transitions
+      .map((mask, status) => ({ mask, status }))
+      // Delivered is only reachable through confirmDelivery with the consignee's PIN
+      .filter(({ mask, status }) => status !== currentStatus && status !== DELIVERED && (role === null ? mask !== 0 : (mask >> role) & 1))
+      .map(({ status }) => status);
+    return [currentStatus, ...targets];
+  }, [workflow, currentStatus, role]);
 
   // Load event count when dialog opens
   useEffect(() => {
@@ -110,8 +172,8 @@ const AddEventDialogContent = ({
         </DialogTitle>
         <DialogDescription>
           {eventCount > 0 
-            ? "Add a new event to track this shipment. Weight will be inherited from the previous event (cannot be changed)."
-            : "Add a new event to track this shipment. Weight and contents will be encrypted using FHE."}
+            ? "Add a new event to track this shipment. Optionally enter a measured weight to reconcile it against the declared weight under FHE."
+            : "Add a new event to track this shipment. Weight and the contents manifest will be encrypted using FHE."}
         </DialogDescription>
       </DialogHeader>
       <Form {...eventForm}>
@@ -128,11 +190,8 @@ const AddEventDialogContent = ({
 
             setIsAddingEvent(true);
             try {
-              // If there are previous events, weight is inherited (pass null)
-              // Otherwise, use provided weight
-              const weightValue = eventCount > 0 
-                ? null 
-                : (data.weight ? parseFloat(data.weight.replace(/[^0-9.]/g, "")) : null);
+              // First event declares the weight; later events may submit a measured weight (or null)
+              const weightValue = data.weight ? parseFloat(data.weight.replace(/[^0-9.]/g, "")) : null;
 
               if (weightValue === null && eventCount === 0) {
                 toast.error("Weight is required for the first event");
@@ -140,6 +199,13 @@ const AddEventDialogContent = ({
                 return;
               }
 
+              const contents = data.contents?.trim() ?? "";
+              if (eventCount === 0 && contents.length < 3) {
+                toast.error("Contents description is required for the first event");
+                setIsAddingEvent(false);
+                return;
+              }
+
               if (weightValue !== null) {
                 if (isNaN(weightValue) || weightValue <= 0) {
                   toast.error("Weight must be a positive number");
@@ -162,17 +228,19 @@ const AddEventDialogContent = ({
                 trackingId,
                 location: data.location,
                 status: parseInt(data.status),
-                weight: weightValue || "inherited",
-                contents: data.contents,
+                weight: weightValue || "not measured",
+                description: data.description,
                 eventCount,
               });
 
-              await addCargoEvent(
+              // Signed events are submitted by the relayer, which pays the gas
+              await (viaRelayer ? relayCargoEvent : addCargoEvent)(
                 trackingId,
                 data.location,
                 parseInt(data.status),
-                weightValue, // null if eventCount > 0
-                data.contents
+                weightValue, // null if no new measurement
+                data.description,
+                eventCount === 0 ? contents : "" // Later contents changes go through amendManifest
               );
 
               console.log("Cargo event added successfully, refreshing...");
@@ -216,18 +284,17 @@ const AddEventDialogContent = ({
               name="weight"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Weight (kg, encrypted)</FormLabel>
+                  <FormLabel>{eventCount > 0 ? "Measured weight (kg, optional)" : "Weight (kg, encrypted)"}</FormLabel>
                   <FormControl>
                     <Input 
-                      placeholder={eventCount > 0 ? "Inherited from previous event" : "2500"} 
+                      placeholder={eventCount > 0 ? "Leave empty if not weighed" : "2500"} 
                       type="number" 
                       {...field}
-                      disabled={eventCount > 0 || isLoadingCount}
-                      value={eventCount > 0 ? "Inherited" : field.value}
+                      disabled={isLoadingCount}
                     />
                   </FormControl>
                   {eventCount > 0 && (
-                    <p className="text-xs text-muted-foreground">Weight cannot be changed after first event</p>
+                    <p className="text-xs text-muted-foreground">Compared with the declared weight under FHE</p>
                   )}
                   <FormMessage />
                 </FormItem>
@@ -244,11 +311,12 @@ const AddEventDialogContent = ({
                       {...field}
                       className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
                     >
-                      <option value="0">Created</option>
-                      <option value="1">In Transit</option>
-                      <option value="2">Customs Clearance</option>
-                      <option value="3">Arrived</option>
-                      <option value="4">Delivered</option>
+                      {statusOptions.map((status) => (
+                        <option key={status} value={String(status)}>
+                          {formatStatusName(workflow, status)}
+                          {status === currentStatus ? " (checkpoint)" : ""}
+                        </option>
+                      ))}
                     </select>
                   </FormControl>
                   <FormMessage />
@@ -258,22 +326,41 @@ const AddEventDialogContent = ({
           </div>
           <FormField
             control={eventForm.control}
-            name="contents"
+            name="description"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Contents</FormLabel>
+                <FormLabel>Description (public)</FormLabel>
                 <FormControl>
-                  <Textarea
-                    placeholder="Electronic Components (Class A)"
-                    className="resize-none"
-                    rows={3}
-                    {...field}
-                  />
+                  <Input placeholder="Loaded onto vessel" {...field} />
                 </FormControl>
                 <FormMessage />
               </FormItem>
             )}
           />
+          {eventCount === 0 && (
+            <FormField
+              control={eventForm.control}
+              name="contents"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contents (encrypted manifest)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Electronic Components (Class A)"
+                      className="resize-none"
+                      rows={3}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <input type="checkbox" checked={viaRelayer} onChange={(e) => setViaRelayer(e.target.checked)} />
+            Sign only and let the relayer submit (no gas)
+          </label>
           <div className="flex justify-end gap-3 pt-4">
             <Button
               type="button"
@@ -301,18 +388,23 @@ const AddEventDialogContent = ({
 };
 
 export const CargoTimeline = () => {
-  const [unlockedEvents, setUnlockedEvents] = useState<Map<string, { weight?: number; contents?: string }>>(new Map());
+  const [unlockedEvents, setUnlockedEvents] = useState<Map<string, { weight?: number; contents?: string; value?: { amount: number; currency: string } }>>(new Map());
   const [decryptingEvents, setDecryptingEvents] = useState<Set<string>>(new Set());
   const [trackingId, setTrackingId] = useState<string>("");
   const [searchTrackingId, setSearchTrackingId] = useState<string>("");
   const [cargoEvents, setCargoEvents] = useState<CargoEvent[]>([]);
+  const [eventTotal, setEventTotal] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [currentStatus, setCurrentStatus] = useState(0);
   const [shipment, setShipment] = useState<ShipmentData | null>(null);
   const [isLoadingShipment, setIsLoadingShipment] = useState(false);
   const [isAddingEvent, setIsAddingEvent] = useState(false);
   const [addEventDialogOpen, setAddEventDialogOpen] = useState(false);
-  const { isConnected } = useAccount();
+  const [activeTab, setActiveTab] = useState<"timeline" | "telemetry" | "manifest">("timeline");
+  const [workflow, setWorkflow] = useState<Workflow | null>(null);
+  const { isConnected, address } = useAccount();
   const publicClient = usePublicClient();
-  const { getShipment, loadCargoEvents, addCargoEvent, getEventCount, isPending, decryptWeight, decryptContents } = useSecureCargoFlow();
+  const { getShipment, loadCargoEvents, getCurrentStatus, addCargoEvent, getEventCount, getWorkflow, isPending, decryptWeight, decryptContents, decryptWeightDiscrepancy, decryptDeclaredValue } = useSecureCargoFlow();
 
   const eventForm = useForm<EventFormValues>({
     resolver: zodResolver(eventSchema),
@@ -320,6 +412,7 @@ export const CargoTimeline = () => {
       location: "",
       weight: "",
       status: "0",
+      description: "",
       contents: "",
     },
   });
@@ -327,6 +420,7 @@ export const CargoTimeline = () => {
   const loadShipmentData = useCallback(async (id: string) => {
     if (!id.trim()) {
       setCargoEvents([]);
+      setEventTotal(0);
       setShipment(null);
       return;
     }
@@ -339,20 +433,20 @@ export const CargoTimeline = () => {
       
       if (shipmentData && shipmentData.exists) {
         setShipment(shipmentData);
-        // Load events
-        console.log("Loading cargo events...");
-        const events = await loadCargoEvents(id);
-        console.log("Loaded events:", events);
-        console.log("Event count:", events.length);
+        // Load the first page of events; later pages are fetched on demand
+        const [{ events, total }, status] = await Promise.all([loadCargoEvents(id), getCurrentStatus(id)]);
         setCargoEvents(events);
+        setEventTotal(total);
+        setCurrentStatus(status);
         
-        if (events.length === 0) {
+        if (total === 0) {
           console.warn("No events found for shipment:", id);
           toast.info("Shipment found but no events yet. Events may still be processing.");
         }
       } else {
         setShipment(null);
         setCargoEvents([]);
+        setEventTotal(0);
         toast.error("Shipment not found");
       }
     } catch (error) {
@@ -361,10 +455,29 @@ export const CargoTimeline = () => {
       toast.error(`Failed to load shipment: ${errorMessage}`);
       setShipment(null);
       setCargoEvents([]);
+      setEventTotal(0);
     } finally {
       setIsLoadingShipment(false);
     }
-  }, [getShipment, loadCargoEvents]);
+  }, [getShipment, loadCargoEvents, getCurrentStatus]);
+
+  const handleLoadMore = useCallback(async () => {
+    setIsLoadingMore(true);
+    try {
+      const { events, total } = await loadCargoEvents(trackingId, cargoEvents.length, EVENTS_PAGE_SIZE);
+      setCargoEvents((prev) => [...prev, ...events]);
+      setEventTotal(total);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [trackingId, cargoEvents.length, loadCargoEvents]);
+
+  // Load the status workflow once; it only changes when the owner edits the transition table
+  useEffect(() => {
+    if (publicClient) {
+      getWorkflow().then(setWorkflow);
+    }
+  }, [publicClient, getWorkflow]);
 
   // Load shipment and events when trackingId changes
   useEffect(() => {
@@ -428,18 +541,29 @@ export const CargoTimeline = () => {
 
     setDecryptingEvents((prev) => new Set(prev).add(eventId));
     try {
-      // Decrypt both weight and contents
-      const [decryptedWeight, decryptedContents] = await Promise.all([
+      // Decrypt weight, contents, the weight reconciliation flag and the insured value
+      const [decryptedWeight, decryptedContents, discrepancy, declaredValue] = await Promise.all([
         decryptWeight(trackingId, eventIndex),
         decryptContents(trackingId, eventIndex),
+        decryptWeightDiscrepancy(trackingId, eventIndex),
+        decryptDeclaredValue(trackingId),
       ]);
 
+      if (discrepancy) {
+        setCargoEvents((prev) =>
+          prev.map((e) =>
+            e.eventId === eventId ? { ...e, anomaly: "Measured weight outside declared tolerance" } : e
+          )
+        );
+      }
+
       if (decryptedWeight !== null || decryptedContents !== null) {
         setUnlockedEvents((prev) => {
           const newUnlocked = new Map(prev);
           newUnlocked.set(eventId, {
             weight: decryptedWeight ?? undefined,
             contents: decryptedContents ?? undefined,
+            value: declaredValue ?? undefined,
           });
           return newUnlocked;
         });
@@ -454,7 +578,7 @@ export const CargoTimeline = () => {
         return next;
       });
     }
-  }, [isConnected, unlockedEvents, decryptWeight, decryptContents]);
+  }, [isConnected, unlockedEvents, decryptWeight, decryptContents, decryptWeightDiscrepancy, decryptDeclaredValue]);
 
   const formatTimestamp = useCallback((timestamp: number) => {
     return new Date(timestamp * 1000).toLocaleString("en-US", {
@@ -478,8 +602,15 @@ export const CargoTimeline = () => {
     }
   }, [isPending, trackingId, loadShipmentData]);
 
+  const handleSelectShipment = useCallback((id: string) => {
+    setSearchTrackingId(id);
+    setTrackingId(id);
+  }, []);
+
   return (
     <div className="max-w-4xl mx-auto space-y-6">
+      <ShipmentList onSelect={handleSelectShipment} />
+
       {/* Search Section */}
       <Card className="p-6">
         <div className="flex items-center gap-3 mb-4">
@@ -526,12 +657,23 @@ export const CargoTimeline = () => {
             <p className="text-sm text-muted-foreground mt-1">
               Created: {formatTimestamp(Number(shipment.createdAt))}
             </p>
+            <DeliveryEta trackingId={shipment.trackingId} refreshKey={eventTotal} />
           </div>
           <div className="flex items-center gap-3">
             <div className="flex items-center gap-2 px-4 py-2 bg-success/10 border border-success/20 rounded-lg">
               <Package className="h-5 w-5 text-success" />
               <span className="text-success font-medium">Active Shipment</span>
             </div>
+            {address && address.toLowerCase() === shipment.creator.toLowerCase() && (
+              <SharePartnerDialog trackingId={shipment.trackingId} />
+            )}
+            <ShipmentExportDialog trackingId={shipment.trackingId} />
+            <DeliveryConfirmDialog
+              trackingId={shipment.trackingId}
+              currentStatus={currentStatus}
+              canDeliver={(workflow?.roleMasks[currentStatus]?.[DELIVERED] ?? 0) !== 0}
+              onDelivered={() => loadShipmentData(shipment.trackingId)}
+            />
             <Dialog open={addEventDialogOpen} onOpenChange={setAddEventDialogOpen}>
               <DialogTrigger asChild>
                 <Button variant="outline" size="sm" disabled={!isConnected || isPending}>
@@ -549,6 +691,8 @@ export const CargoTimeline = () => {
                 loadShipmentData={loadShipmentData}
                 getEventCount={getEventCount}
                 isPending={isPending}
+                workflow={workflow}
+                currentStatus={currentStatus}
               />
             </Dialog>
           </div>
@@ -560,6 +704,44 @@ export const CargoTimeline = () => {
         </Card>
       ) : null}
 
+      {shipment && (
+        <>
+          <ParticipantsPanel key={shipment.creator} trackingId={shipment.trackingId} creator={shipment.creator} />
+          <CustodyTrack
+            trackingId={shipment.trackingId}
+            creator={shipment.creator}
+            onCustodyChanged={() => loadShipmentData(shipment.trackingId)}
+          />
+          <ExceptionsPanel trackingId={shipment.trackingId} creator={shipment.creator} />
+          <div className="flex gap-2">
+            <Button
+              variant={activeTab === "timeline" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setActiveTab("timeline")}
+            >
+              <MapPin className="w-4 h-4 mr-2" />
+              Timeline
+            </Button>
+            <Button
+              variant={activeTab === "telemetry" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setActiveTab("telemetry")}
+            >
+              <Thermometer className="w-4 h-4 mr-2" />
+              Telemetry
+            </Button>
+            <Button
+              variant={activeTab === "manifest" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setActiveTab("manifest")}
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              Manifest
+            </Button>
+          </div>
+        </>
+      )}
+
       {!trackingId ? (
         <Card className="p-8 text-center">
           <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -570,6 +752,10 @@ export const CargoTimeline = () => {
         <Card className="p-8 text-center">
           <p className="text-muted-foreground">Shipment not found. Please check the tracking ID.</p>
         </Card>
+      ) : activeTab === "telemetry" ? (
+        <TelemetryPanel trackingId={shipment.trackingId} />
+      ) : activeTab === "manifest" ? (
+        <ManifestHistory trackingId={shipment.trackingId} onAmended={() => loadShipmentData(shipment.trackingId)} />
       ) : cargoEvents.length === 0 ? (
         <Card className="p-8 text-center space-y-4">
           <p className="text-muted-foreground">No cargo events found for this shipment.</p>
@@ -590,6 +776,8 @@ export const CargoTimeline = () => {
               loadShipmentData={loadShipmentData}
               getEventCount={getEventCount}
               isPending={isPending}
+              workflow={workflow}
+              currentStatus={currentStatus}
             />
           </Dialog>
         </Card>
@@ -605,6 +793,7 @@ export const CargoTimeline = () => {
             const showEncrypted = event.isEncrypted && !isUnlocked;
             const decryptedWeight = unlockedData?.weight;
             const decryptedContents = unlockedData?.contents;
+            const declaredValue = unlockedData?.value;
 
             return (
               <div key={event.eventId} className="relative pl-16 pb-8 last:pb-0">
@@ -653,8 +842,14 @@ export const CargoTimeline = () => {
                     <div className="flex items-center gap-2 text-sm">
                       <span className="font-medium text-foreground">Status:</span>
                       <span className="px-3 py-1 bg-primary/10 text-primary rounded-full">
-                        {STATUS_NAMES[event.status] || "Unknown"}
+                        {formatStatusName(workflow, event.status)}
                       </span>
+                      {event.anomaly && (
+                        <span className="flex items-center gap-1 px-3 py-1 bg-destructive/10 text-destructive rounded-full">
+                          <AlertTriangle className="h-3 w-3" />
+                          {event.anomaly}
+                        </span>
+                      )}
                     </div>
 
                     {/* Weight is encrypted */}
@@ -677,18 +872,41 @@ export const CargoTimeline = () => {
                     {event.isEncrypted && (
                       <div className="flex items-center gap-2 text-sm">
                         <Package className="h-4 w-4 text-muted-foreground" />
-                        <span className="font-medium text-foreground">Contents:</span>
+                        <span className="font-medium text-foreground">
+                          Contents{event.manifestVersion ? ` (manifest v${event.manifestVersion})` : ""}:
+                        </span>
                         <span className={showEncrypted ? "blur-sm select-none" : ""}>
                           {showEncrypted ? "████████████████" : decryptedContents || "N/A"}
                         </span>
                         {showEncrypted && <Lock className="h-3 w-3 text-muted-foreground ml-1" />}
                       </div>
                     )}
+
+                    {/* Declared value is only shown to the shipper, custodian and granted insurers */}
+                    {declaredValue && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+                        <span className="font-medium text-foreground">Declared value:</span>
+                        <span>
+                          {declaredValue.amount.toLocaleString("en-US", { minimumFractionDigits: 2 })}{" "}
+                          {declaredValue.currency}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </Card>
               </div>
             );
           })}
+
+          {cargoEvents.length < eventTotal && (
+            <div className="relative pl-16 pt-2">
+              <Button variant="outline" size="sm" onClick={handleLoadMore} disabled={isLoadingMore}>
+                {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load more ({eventTotal - cargoEvents.length} remaining)
+              </Button>
+            </div>
+          )}
         </div>
       )}
 
@@ -0,0 +1,158 @@
+import { useState, useEffect, useCallback } from "react";
+import { ArrowRightLeft, Loader2, Check, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAccount } from "wagmi";
+import { toast } from "sonner";
+import { isAddress, zeroAddress } from "viem";
+import { useSecureCargoFlow } from "@/hooks/useSecureCargoFlow";
+
+interface CustodyRecord {
+  from: string;
+  to: string;
+  timestamp: number;
+}
+
+export const CustodyTrack = ({
+  trackingId,
+  creator,
+  onCustodyChanged,
+}: {
+  trackingId: string;
+  creator: string;
+  onCustodyChanged: () => void;
+}) => {
+  const [history, setHistory] = useState<CustodyRecord[]>([]);
+  const [pendingCustodian, setPendingCustodian] = useState<string | null>(null);
+  const [newCustodian, setNewCustodian] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { address } = useAccount();
+  const {
+    getCustodyHistory,
+    getPendingCustodian,
+    proposeCustodyTransfer,
+    acceptCustodyTransfer,
+    cancelCustodyTransfer,
+  } = useSecureCargoFlow();
+
+  const isCustodian = !!address && address.toLowerCase() === creator.toLowerCase();
+  const isPendingCustodian = !!address && !!pendingCustodian && address.toLowerCase() === pendingCustodian.toLowerCase();
+
+  const loadCustody = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [records, pending] = await Promise.all([getCustodyHistory(trackingId), getPendingCustodian(trackingId)]);
+      setHistory(records);
+      setPendingCustodian(pending);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [trackingId, getCustodyHistory, getPendingCustodian]);
+
+  useEffect(() => {
+    loadCustody();
+  }, [loadCustody, creator]);
+
+  const runAction = useCallback(
+    async (action: () => Promise<unknown>, custodyChanged = false) => {
+      setIsSubmitting(true);
+      try {
+        await action();
+        await loadCustody();
+        if (custodyChanged) {
+          onCustodyChanged();
+        }
+      } catch (error) {
+        console.error("Custody action failed:", error);
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [loadCustody, onCustodyChanged]
+  );
+
+  const handlePropose = useCallback(() => {
+    if (!isAddress(newCustodian.trim())) {
+      toast.error("Please enter a valid address");
+      return;
+    }
+    runAction(async () => {
+      await proposeCustodyTransfer(trackingId, newCustodian.trim());
+      setNewCustodian("");
+    });
+  }, [trackingId, newCustodian, proposeCustodyTransfer, runAction]);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <ArrowRightLeft className="h-5 w-5 text-muted-foreground" />
+        <h3 className="text-lg font-semibold">Chain of Custody</h3>
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      <div className="relative space-y-4">
+        <div className="absolute left-2 top-1 bottom-1 w-0.5 bg-border" />
+        {history.map((record, index) => (
+          <div key={`${record.to}-${index}`} className="relative pl-8 text-sm">
+            <div className="absolute left-0.5 top-1 w-3 h-3 rounded-full bg-accent border-2 border-background" />
+            <p className="text-muted-foreground">
+              {new Date(record.timestamp * 1000).toLocaleString()} ·{" "}
+              {record.from === zeroAddress ? "Shipment created" : "Custody transferred"}
+            </p>
+            {record.from !== zeroAddress && <p className="font-mono truncate text-muted-foreground">{record.from}</p>}
+            <p className="font-mono truncate">→ {record.to}</p>
+          </div>
+        ))}
+        {pendingCustodian && (
+          <div className="relative pl-8 text-sm">
+            <div className="absolute left-0.5 top-1 w-3 h-3 rounded-full bg-muted border-2 border-background" />
+            <p className="text-muted-foreground">Pending handover</p>
+            <div className="flex items-center justify-between gap-3">
+              <span className="font-mono truncate">→ {pendingCustodian}</span>
+              <div className="flex gap-2">
+                {isPendingCustodian && (
+                  <Button
+                    size="sm"
+                    onClick={() => runAction(() => acceptCustodyTransfer(trackingId), true)}
+                    disabled={isSubmitting}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Accept
+                  </Button>
+                )}
+                {isCustodian && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => runAction(() => cancelCustodyTransfer(trackingId))}
+                    disabled={isSubmitting}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {isCustodian && (
+        <div className="flex gap-3 mt-4">
+          <Input
+            placeholder="0x... next custodian address"
+            value={newCustodian}
+            onChange={(e) => setNewCustodian(e.target.value)}
+            className="flex-1"
+          />
+          <Button onClick={handlePropose} disabled={isSubmitting || !newCustodian.trim()}>
+            {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ArrowRightLeft className="h-4 w-4 mr-2" />}
+            Propose handover
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback } from "react";
+import { BadgeCheck, KeyRound, Loader2, LockOpen, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useAccount } from "wagmi";
+import { toast } from "sonner";
+import { useSecureCargoFlow } from "@/hooks/useSecureCargoFlow";
+
+// ShipmentStatus.Delivered
+const DELIVERED = 4;
+
+export const DeliveryConfirmDialog = ({
+  trackingId,
+  currentStatus,
+  canDeliver,
+  onDelivered,
+}: {
+  trackingId: string;
+  currentStatus: number;
+  canDeliver: boolean;
+  onDelivered?: () => void;
+}) => {
+  const [open, setOpen] = useState(false);
+  const [pin, setPin] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [revealedPin, setRevealedPin] = useState<number | null>(null);
+  const [proof, setProof] = useState<boolean | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const { isConnected } = useAccount();
+  const { confirmDelivery, decryptDeliveryPin, decryptDeliveryProof } = useSecureCargoFlow();
+
+  const isDelivered = currentStatus === DELIVERED;
+
+  useEffect(() => {
+    setPin("");
+    setRevealedPin(null);
+    setProof(null);
+  }, [trackingId]);
+
+  const handleConfirm = useCallback(async () => {
+    if (!/^[1-9]\d{3,8}$/.test(pin)) {
+      toast.error("PIN must be 4 to 9 digits and cannot start with 0");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { delivered } = await confirmDelivery(trackingId, parseInt(pin, 10));
+      setPin("");
+      if (delivered) {
+        onDelivered?.();
+      }
+    } catch (error) {
+      console.error("Failed to confirm delivery:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [trackingId, pin, confirmDelivery, onDelivered]);
+
+  const handleRevealPin = useCallback(async () => {
+    setIsDecrypting(true);
+    try {
+      const value = await decryptDeliveryPin(trackingId);
+      if (value === null) {
+        toast.error("No delivery PIN you can decrypt for this shipment");
+      }
+      setRevealedPin(value);
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [trackingId, decryptDeliveryPin]);
+
+  const handleVerifyProof = useCallback(async () => {
+    setIsDecrypting(true);
+    try {
+      const value = await decryptDeliveryProof(trackingId);
+      if (value === null) {
+        toast.error("No proof of delivery you can decrypt for this shipment");
+      }
+      setProof(value);
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [trackingId, decryptDeliveryProof]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!isConnected}>
+          {isDelivered ? <BadgeCheck className="w-4 h-4 mr-2" /> : <KeyRound className="w-4 h-4 mr-2" />}
+          {isDelivered ? "Proof of Delivery" : "Confirm Delivery"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isDelivered ? "Proof of delivery" : "Confirm delivery"}</DialogTitle>
+          <DialogDescription>
+            {isDelivered
+              ? "The PIN check result is stored encrypted. The shipper, consignees and delivering courier can decrypt it."
+              : "Enter the PIN the consignee gives you at handover. It is encrypted and compared on-chain, and the shipment is marked delivered once the decryption oracle confirms that it matches."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {isDelivered ? (
+            <div className="flex items-center justify-between gap-3">
+              {proof === null ? (
+                <span className="text-sm text-muted-foreground">Proof is encrypted</span>
+              ) : proof ? (
+                <span className="flex items-center gap-2 text-sm text-success font-medium">
+                  <BadgeCheck className="h-4 w-4" />
+                  PIN matched, delivery verified
+                </span>
+              ) : (
+                <span className="flex items-center gap-2 text-sm text-destructive font-medium">
+                  <XCircle className="h-4 w-4" />
+                  PIN did not match
+                </span>
+              )}
+              <Button size="sm" onClick={handleVerifyProof} disabled={isDecrypting}>
+                {isDecrypting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LockOpen className="h-4 w-4 mr-2" />}
+                Decrypt proof
+              </Button>
+            </div>
+          ) : (
+            <>
+              <Input
+                placeholder="Delivery PIN"
+                inputMode="numeric"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.trim())}
+              />
+              {!canDeliver && (
+                <p className="text-sm text-muted-foreground">
+                  The workflow does not allow delivery from the current status.
+                </p>
+              )}
+              <div className="flex justify-end">
+                <Button onClick={handleConfirm} disabled={isSubmitting || !pin || !canDeliver}>
+                  {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Confirm delivery
+                </Button>
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center justify-between gap-3 pt-4 border-t">
+            <span className="text-sm text-muted-foreground">
+              {revealedPin === null ? "Consignee? Reveal the PIN to hand to the courier." : "Delivery PIN"}
+            </span>
+            {revealedPin === null ? (
+              <Button variant="outline" size="sm" onClick={handleRevealPin} disabled={isDecrypting}>
+                {isDecrypting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LockOpen className="h-4 w-4 mr-2" />}
+                Reveal PIN
+              </Button>
+            ) : (
+              <span className="font-mono text-lg tracking-widest">{revealedPin}</span>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback } from "react";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useAccount } from "wagmi";
+import { toast } from "sonner";
+import { useSecureCargoFlow, type DeliveryPerformance, type EtaRevision } from "@/hooks/useSecureCargoFlow";
+import { ETA_REVISION_REASONS } from "@/config/contracts";
+
+// "2d 4h", "5h", "12m" - coarse enough for delivery windows
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(Math.abs(seconds) / 60);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) {
+    return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  }
+  return hours > 0 ? `${hours}h` : `${minutes % 60}m`;
+};
+
+// Committed ETA versus actual (or expected) delivery
+export const EtaBadge = ({ performance }: { performance: DeliveryPerformance }) => {
+  const { estimatedDelivery, deliveredAt, isLate } = performance;
+  const now = Math.floor(Date.now() / 1000);
+
+  let label: string;
+  if (deliveredAt !== null) {
+    const delta = deliveredAt - estimatedDelivery;
+    label = delta > 0 ? `Delivered ${formatDuration(delta)} late` : `Delivered ${formatDuration(delta)} early`;
+  } else if (isLate) {
+    label = `Overdue by ${formatDuration(now - estimatedDelivery)}`;
+  } else {
+    label = estimatedDelivery > now ? `Due in ${formatDuration(estimatedDelivery - now)}` : "Not due";
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full ${
+        isLate ? "bg-destructive/10 text-destructive" : "bg-success/10 text-success"
+      }`}
+      title={`ETA ${new Date(estimatedDelivery * 1000).toLocaleString()}`}
+    >
+      <CalendarClock className="h-3 w-3" />
+      {label}
+    </span>
+  );
+};
+
+// ETA indicator of one shipment with its revision history; the shipper and carriers may revise it
+export const DeliveryEta = ({ trackingId, refreshKey }: { trackingId: string; refreshKey?: number }) => {
+  const [performance, setPerformance] = useState<DeliveryPerformance | null>(null);
+  const [revisions, setRevisions] = useState<EtaRevision[]>([]);
+  const [open, setOpen] = useState(false);
+  const [newEta, setNewEta] = useState("");
+  const [reason, setReason] = useState("0");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { isConnected } = useAccount();
+  const { getDeliveryPerformance, getEtaRevisions, reviseEstimatedDelivery } = useSecureCargoFlow();
+
+  const load = useCallback(async () => {
+    const [latest, history] = await Promise.all([getDeliveryPerformance(trackingId), getEtaRevisions(trackingId)]);
+    setPerformance(latest);
+    setRevisions(history);
+  }, [trackingId, getDeliveryPerformance, getEtaRevisions]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const handleRevise = useCallback(async () => {
+    const timestamp = Math.floor(new Date(newEta).getTime() / 1000);
+    if (!newEta || timestamp <= Date.now() / 1000) {
+      toast.error("The new estimated delivery must be in the future");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await reviseEstimatedDelivery(trackingId, timestamp, Number(reason));
+      setNewEta("");
+      setOpen(false);
+      await load();
+    } catch (error) {
+      console.error("Failed to revise estimated delivery:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [trackingId, newEta, reason, reviseEstimatedDelivery, load]);
+
+  if (!performance) {
+    return null;
+  }
+
+  // The contract closes revisions on delivery and once the committed ETA has passed
+  const canRevise = performance.deliveredAt === null && performance.estimatedDelivery >= Date.now() / 1000;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground mt-1">
+      <span>ETA: {new Date(performance.estimatedDelivery * 1000).toLocaleString()}</span>
+      <EtaBadge performance={performance} />
+      {revisions.length > 0 && (
+        <span>
+          · revised {revisions.length} time{revisions.length === 1 ? "" : "s"}
+        </span>
+      )}
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button variant="link" size="sm" className="h-auto p-0" disabled={!isConnected}>
+            {canRevise ? "Revise" : "History"}
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Estimated delivery</DialogTitle>
+            <DialogDescription>
+              Status changes after the committed ETA are reported on-chain as SLA breaches. Revisions are public,
+              kept in the shipment's history, and only possible before the committed ETA.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {canRevise && (
+              <div className="space-y-3">
+                <Input type="datetime-local" value={newEta} onChange={(e) => setNewEta(e.target.value)} />
+                <select
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm"
+                >
+                  {ETA_REVISION_REASONS.map((name, code) => (
+                    <option key={code} value={String(code)}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex justify-end">
+                  <Button onClick={handleRevise} disabled={isSubmitting || !newEta}>
+                    {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Revise ETA
+                  </Button>
+                </div>
+              </div>
+            )}
+            {revisions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">The ETA committed at creation has not been revised.</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {[...revisions].reverse().map((revision, index) => (
+                  <li key={index} className="px-3 py-2 border rounded-md">
+                    <p>
+                      {new Date(revision.previousEta * 1000).toLocaleString()} →{" "}
+                      <span className="font-medium">{new Date(revision.newEta * 1000).toLocaleString()}</span>
+                    </p>
+                    <p className="text-muted-foreground">
+                      {ETA_REVISION_REASONS[revision.reason] ?? "Unknown"} ·{" "}
+                      {new Date(revision.revisedAt * 1000).toLocaleString()}
+                    </p>
+                    <p className="font-mono truncate text-muted-foreground">By {revision.revisedBy}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
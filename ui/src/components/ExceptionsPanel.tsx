@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback } from "react";
+import { AlertOctagon, CheckCircle2, Loader2, Plus } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useAccount } from "wagmi";
+import { toast } from "sonner";
+import { useSecureCargoFlow, type ShipmentException } from "@/hooks/useSecureCargoFlow";
+import { EXCEPTION_REASONS } from "@/config/contracts";
+
+export const ExceptionsPanel = ({ trackingId, creator }: { trackingId: string; creator: string }) => {
+  const [exceptions, setExceptions] = useState<ShipmentException[]>([]);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [reason, setReason] = useState("0");
+  const [details, setDetails] = useState("");
+  const [resolutions, setResolutions] = useState<Record<number, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { address, isConnected } = useAccount();
+  const { getExceptions, reportException, resolveException } = useSecureCargoFlow();
+
+  const loadExceptions = useCallback(async () => {
+    setExceptions(await getExceptions(trackingId));
+  }, [trackingId, getExceptions]);
+
+  useEffect(() => {
+    loadExceptions();
+  }, [loadExceptions]);
+
+  const handleReport = useCallback(async () => {
+    if (!details.trim()) {
+      toast.error("Please describe the exception");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await reportException(trackingId, parseInt(reason), details.trim());
+      setDetails("");
+      setReportOpen(false);
+      await loadExceptions();
+    } catch (error) {
+      console.error("Failed to report exception:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [trackingId, reason, details, reportException, loadExceptions]);
+
+  const handleResolve = useCallback(async (exceptionId: number) => {
+    setIsSubmitting(true);
+    try {
+      await resolveException(trackingId, exceptionId, resolutions[exceptionId]?.trim() ?? "");
+      setResolutions((prev) => {
+        const next = { ...prev };
+        delete next[exceptionId];
+        return next;
+      });
+      await loadExceptions();
+    } catch (error) {
+      console.error("Failed to resolve exception:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [trackingId, resolutions, resolveException, loadExceptions]);
+
+  const canResolve = (exception: ShipmentException) =>
+    !!address &&
+    (address.toLowerCase() === creator.toLowerCase() || address.toLowerCase() === exception.reporter.toLowerCase());
+
+  const openExceptions = exceptions.filter((exception) => exception.open);
+  const resolvedExceptions = exceptions.filter((exception) => !exception.open);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <AlertOctagon className="h-5 w-5 text-muted-foreground" />
+          <h3 className="text-lg font-semibold">Exceptions</h3>
+          {openExceptions.length > 0 && (
+            <span className="px-2 py-0.5 text-xs bg-destructive/10 text-destructive rounded-full">
+              {openExceptions.length} open
+            </span>
+          )}
+        </div>
+        <Dialog open={reportOpen} onOpenChange={setReportOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" disabled={!isConnected}>
+              <Plus className="h-4 w-4 mr-2" />
+              Report exception
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Report exception</DialogTitle>
+              <DialogDescription>
+                Record damage, delays or other problems on this shipment. Details are public.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <select
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                {EXCEPTION_REASONS.map((name, code) => (
+                  <option key={name} value={String(code)}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+              <Textarea
+                placeholder="Container dented during unloading"
+                className="resize-none"
+                rows={3}
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+              />
+              <div className="flex justify-end">
+                <Button onClick={handleReport} disabled={isSubmitting || !details.trim()}>
+                  {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Report
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {exceptions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No exceptions reported</p>
+      ) : (
+        <div className="relative space-y-4">
+          <div className="absolute left-2 top-1 bottom-1 w-0.5 bg-border" />
+          {openExceptions.map((exception) => (
+            <div key={exception.id} className="relative pl-8 text-sm">
+              <div className="absolute left-0.5 top-1 w-3 h-3 rounded-full bg-destructive border-2 border-background" />
+              <p className="font-medium text-destructive">
+                {EXCEPTION_REASONS[exception.reason] ?? "Unknown"} ·{" "}
+                <span className="font-normal text-muted-foreground">
+                  {new Date(exception.reportedAt * 1000).toLocaleString()}
+                </span>
+              </p>
+              <p>{exception.details}</p>
+              <p className="font-mono truncate text-muted-foreground">Reported by {exception.reporter}</p>
+              {canResolve(exception) && (
+                <div className="flex gap-2 mt-2">
+                  <Input
+                    placeholder="Resolution note"
+                    value={resolutions[exception.id] ?? ""}
+                    onChange={(e) => setResolutions((prev) => ({ ...prev, [exception.id]: e.target.value }))}
+                    className="flex-1"
+                  />
+                  <Button size="sm" onClick={() => handleResolve(exception.id)} disabled={isSubmitting}>
+                    <CheckCircle2 className="h-4 w-4 mr-1" />
+                    Resolve
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+          {resolvedExceptions.map((exception) => (
+            <div key={exception.id} className="relative pl-8 text-sm text-muted-foreground">
+              <div className="absolute left-0.5 top-1 w-3 h-3 rounded-full bg-muted border-2 border-background" />
+              <p>
+                {EXCEPTION_REASONS[exception.reason] ?? "Unknown"} · resolved{" "}
+                {new Date(exception.resolvedAt * 1000).toLocaleString()}
+              </p>
+              <p>{exception.details}</p>
+              {exception.resolution && <p className="italic">{exception.resolution}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,246 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { FileText, GitCompare, Loader2, PencilLine } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useAccount } from "wagmi";
+import { toast } from "sonner";
+import { useSecureCargoFlow, type ManifestVersion } from "@/hooks/useSecureCargoFlow";
+
+// Contents are packed into at most 7 chunks of 32 bytes on-chain
+const MAX_MANIFEST_BYTES = 224;
+
+type DiffPart = { text: string; change: "same" | "added" | "removed" };
+
+// Word-level diff via longest common subsequence; manifests are short so O(n*m) is fine
+const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/(\s+)/);
+  const b = after.split(/(\s+)/);
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      parts.push({ text: a[i++], change: "same" });
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      parts.push({ text: b[j++], change: "added" });
+    } else {
+      parts.push({ text: a[i++], change: "removed" });
+    }
+  }
+  return parts;
+};
+
+export const ManifestHistory = ({ trackingId, onAmended }: { trackingId: string; onAmended?: () => void }) => {
+  const [versions, setVersions] = useState<ManifestVersion[]>([]);
+  const [fromVersion, setFromVersion] = useState("");
+  const [toVersion, setToVersion] = useState("");
+  const [decrypted, setDecrypted] = useState<Record<number, string>>({});
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [amendOpen, setAmendOpen] = useState(false);
+  const [contents, setContents] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { isConnected } = useAccount();
+  const { getManifestHistory, decryptManifestVersions, amendManifest } = useSecureCargoFlow();
+
+  const loadVersions = useCallback(async () => {
+    const history = await getManifestHistory(trackingId);
+    setVersions(history);
+    // Compare the latest version with the one before it by default
+    setToVersion(history.length > 0 ? String(history.length) : "");
+    setFromVersion(history.length > 0 ? String(Math.max(history.length - 1, 1)) : "");
+  }, [trackingId, getManifestHistory]);
+
+  useEffect(() => {
+    setDecrypted({});
+    loadVersions();
+  }, [loadVersions]);
+
+  const handleCompare = useCallback(async () => {
+    const selected = versions.filter(
+      (version) =>
+        (String(version.version) === fromVersion || String(version.version) === toVersion) &&
+        decrypted[version.version] === undefined
+    );
+    if (selected.length === 0) {
+      return;
+    }
+    setIsDecrypting(true);
+    try {
+      const result = await decryptManifestVersions(selected);
+      if (result) {
+        setDecrypted((prev) => ({ ...prev, ...result }));
+      }
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [versions, fromVersion, toVersion, decrypted, decryptManifestVersions]);
+
+  const handleAmend = useCallback(async () => {
+    if (new TextEncoder().encode(contents).length > MAX_MANIFEST_BYTES) {
+      toast.error(`Contents must be at most ${MAX_MANIFEST_BYTES} bytes`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await amendManifest(trackingId, contents.trim(), reason.trim());
+      setContents("");
+      setReason("");
+      setAmendOpen(false);
+      await loadVersions();
+      onAmended?.();
+    } catch (error) {
+      console.error("Failed to amend manifest:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [trackingId, contents, reason, amendManifest, loadVersions, onAmended]);
+
+  const before = decrypted[Number(fromVersion)];
+  const after = decrypted[Number(toVersion)];
+  const diff = useMemo(
+    () => (before !== undefined && after !== undefined ? diffWords(before, after) : null),
+    [before, after]
+  );
+
+  const versionSelect = (value: string, onChange: (value: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+    >
+      {versions.map((version) => (
+        <option key={version.version} value={String(version.version)}>
+          v{version.version}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <FileText className="h-5 w-5 text-muted-foreground" />
+          <h3 className="text-lg font-semibold">Manifest</h3>
+          <span className="text-sm text-muted-foreground">
+            {versions.length} version{versions.length === 1 ? "" : "s"}
+          </span>
+        </div>
+        <Dialog open={amendOpen} onOpenChange={setAmendOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" disabled={!isConnected}>
+              <PencilLine className="h-4 w-4 mr-2" />
+              Amend manifest
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Amend manifest</DialogTitle>
+              <DialogDescription>
+                Record a new encrypted version of the contents. Earlier versions stay on-chain; the reason is public.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <Textarea
+                placeholder="18 pallets of laptops (2 removed at inspection)"
+                className="resize-none"
+                rows={4}
+                value={contents}
+                onChange={(e) => setContents(e.target.value)}
+              />
+              <Input placeholder="Reason (public)" value={reason} onChange={(e) => setReason(e.target.value)} />
+              <div className="flex justify-end">
+                <Button onClick={handleAmend} disabled={isSubmitting || !contents.trim() || !reason.trim()}>
+                  {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Record version
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {versions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No manifest recorded yet. The first cargo event sets it.</p>
+      ) : (
+        <>
+          <div className="relative space-y-4">
+            <div className="absolute left-2 top-1 bottom-1 w-0.5 bg-border" />
+            {[...versions].reverse().map((version) => (
+              <div key={version.version} className="relative pl-8 text-sm">
+                <div
+                  className={`absolute left-0.5 top-1 w-3 h-3 rounded-full border-2 border-background ${
+                    version.version === versions.length ? "bg-primary" : "bg-muted"
+                  }`}
+                />
+                <p className="font-medium">
+                  v{version.version}
+                  {version.version === versions.length && (
+                    <span className="ml-2 px-2 py-0.5 text-xs bg-primary/10 text-primary rounded-full">current</span>
+                  )}{" "}
+                  · <span className="font-normal text-muted-foreground">{new Date(version.amendedAt * 1000).toLocaleString()}</span>
+                </p>
+                <p>{version.reason}</p>
+                <p className="font-mono truncate text-muted-foreground">By {version.amendedBy}</p>
+                {decrypted[version.version] !== undefined && (
+                  <p className="mt-1 px-3 py-2 bg-muted/50 rounded-md whitespace-pre-wrap">{decrypted[version.version]}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <GitCompare className="h-4 w-4 text-muted-foreground" />
+              <span>Compare</span>
+              {versionSelect(fromVersion, setFromVersion)}
+              <span>with</span>
+              {versionSelect(toVersion, setToVersion)}
+              <Button size="sm" onClick={handleCompare} disabled={!isConnected || isDecrypting}>
+                {isDecrypting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Decrypt &amp; compare
+              </Button>
+            </div>
+            {diff && (
+              <p className="px-3 py-2 text-sm border rounded-md whitespace-pre-wrap">
+                {diff.map((part, i) =>
+                  part.change === "same" ? (
+                    <span key={i}>{part.text}</span>
+                  ) : part.change === "added" ? (
+                    <span key={i} className="bg-success/15 text-success">
+                      {part.text}
+                    </span>
+                  ) : (
+                    <span key={i} className="bg-destructive/10 text-destructive line-through">
+                      {part.text}
+                    </span>
+                  )
+                )}
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
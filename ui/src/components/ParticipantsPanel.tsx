@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from "react";
+import { Users, Loader2, Plus, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAccount } from "wagmi";
+import { toast } from "sonner";
+import { isAddress } from "viem";
+import { useSecureCargoFlow } from "@/hooks/useSecureCargoFlow";
+import { PARTICIPANT_ROLES } from "@/config/contracts";
+
+interface Participant {
+  account: string;
+  role: number;
+}
+
+// Roles the shipper can assign (Shipper is always the shipment creator)
+const ASSIGNABLE_ROLES = [2, 3, 4];
+
+export const ParticipantsPanel = ({ trackingId, creator }: { trackingId: string; creator: string }) => {
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [newAccount, setNewAccount] = useState("");
+  const [newRole, setNewRole] = useState("2");
+  const { address } = useAccount();
+  const { getParticipants, addParticipant, removeParticipant } = useSecureCargoFlow();
+
+  const isCreator = !!address && address.toLowerCase() === creator.toLowerCase();
+
+  const loadParticipants = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setParticipants(await getParticipants(trackingId));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [trackingId, getParticipants]);
+
+  useEffect(() => {
+    loadParticipants();
+  }, [loadParticipants]);
+
+  const handleAdd = useCallback(async () => {
+    if (!isAddress(newAccount.trim())) {
+      toast.error("Please enter a valid address");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await addParticipant(trackingId, newAccount.trim(), parseInt(newRole));
+      setNewAccount("");
+      await loadParticipants();
+    } catch (error) {
+      console.error("Failed to add participant:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [trackingId, newAccount, newRole, addParticipant, loadParticipants]);
+
+  const handleRemove = useCallback(async (account: string) => {
+    setIsSubmitting(true);
+    try {
+      await removeParticipant(trackingId, account);
+      await loadParticipants();
+    } catch (error) {
+      console.error("Failed to remove participant:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [trackingId, removeParticipant, loadParticipants]);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <Users className="h-5 w-5 text-muted-foreground" />
+        <h3 className="text-lg font-semibold">Participants</h3>
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      <div className="space-y-2">
+        {participants.map((participant) => (
+          <div key={participant.account} className="flex items-center justify-between gap-3 text-sm">
+            <span className="font-mono truncate">{participant.account}</span>
+            <div className="flex items-center gap-2">
+              <span className="px-3 py-1 bg-primary/10 text-primary rounded-full">
+                {PARTICIPANT_ROLES[participant.role] ?? "Unknown"}
+              </span>
+              {isCreator && participant.account.toLowerCase() !== creator.toLowerCase() && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(participant.account)}
+                  disabled={isSubmitting}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isCreator && (
+        <div className="flex gap-3 mt-4">
+          <Input
+            placeholder="0x... participant address"
+            value={newAccount}
+            onChange={(e) => setNewAccount(e.target.value)}
+            className="flex-1"
+          />
+          <select
+            value={newRole}
+            onChange={(e) => setNewRole(e.target.value)}
+            className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          >
+            {ASSIGNABLE_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {PARTICIPANT_ROLES[role]}
+              </option>
+            ))}
+          </select>
+          <Button onClick={handleAdd} disabled={isSubmitting || !newAccount.trim()}>
+            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,50 @@
+import { useState, useEffect } from "react";
+import { PauseCircle } from "lucide-react";
+import { useSecureCargoFlow } from "@/hooks/useSecureCargoFlow";
+
+// How often the pause state is re-read from the contract
+const PAUSE_POLL_INTERVAL_MS = 30000;
+
+const SCOPE_LABELS: Record<string, string> = {
+  Creation: "shipment creation",
+  Events: "cargo events",
+  Status: "status updates",
+};
+
+export const PausedBanner = () => {
+  const [pausedScopes, setPausedScopes] = useState<string[]>([]);
+  const { getPausedScopes } = useSecureCargoFlow();
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const scopes = await getPausedScopes();
+      if (!cancelled) {
+        setPausedScopes(scopes);
+      }
+    };
+
+    load();
+    const interval = setInterval(load, PAUSE_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [getPausedScopes]);
+
+  if (pausedScopes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-b border-destructive/30 bg-destructive/10">
+      <div className="container mx-auto px-6 py-3 flex items-center gap-3 text-sm text-destructive">
+        <PauseCircle className="h-4 w-4 shrink-0" />
+        <span>
+          The contract is paused for {pausedScopes.map((scope) => SCOPE_LABELS[scope] ?? scope).join(", ")}. These
+          actions are unavailable until the operator unpauses them.
+        </span>
+      </div>
+    </div>
+  );
+};
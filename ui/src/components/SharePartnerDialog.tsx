@@ -0,0 +1,148 @@
+import { useState, useEffect, useCallback } from "react";
+import { Share2, Loader2, UserX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { isAddress } from "viem";
+import { useSecureCargoFlow } from "@/hooks/useSecureCargoFlow";
+import { ENCRYPTED_FIELDS } from "@/config/contracts";
+
+export const SharePartnerDialog = ({ trackingId }: { trackingId: string }) => {
+  const [open, setOpen] = useState(false);
+  const [partner, setPartner] = useState("");
+  const [selectedFields, setSelectedFields] = useState<Set<number>>(new Set([0]));
+  const [grantees, setGrantees] = useState<string[][]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { grantDecryptAccess, revokeDecryptAccess, getDecryptGrantees } = useSecureCargoFlow();
+
+  const loadGrantees = useCallback(async () => {
+    const lists = await Promise.all(ENCRYPTED_FIELDS.map((_, field) => getDecryptGrantees(trackingId, field)));
+    setGrantees(lists);
+  }, [trackingId, getDecryptGrantees]);
+
+  useEffect(() => {
+    if (open) {
+      loadGrantees();
+    }
+  }, [open, loadGrantees]);
+
+  const toggleField = useCallback((field: number) => {
+    setSelectedFields((prev) => {
+      const next = new Set(prev);
+      if (next.has(field)) {
+        next.delete(field);
+      } else {
+        next.add(field);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleGrant = useCallback(async () => {
+    if (!isAddress(partner.trim())) {
+      toast.error("Please enter a valid partner address");
+      return;
+    }
+    if (selectedFields.size === 0) {
+      toast.error("Select at least one field to share");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      for (const field of selectedFields) {
+        if (!grantees[field]?.some((g) => g.toLowerCase() === partner.trim().toLowerCase())) {
+          await grantDecryptAccess(trackingId, partner.trim(), field);
+        }
+      }
+      setPartner("");
+      await loadGrantees();
+    } catch (error) {
+      console.error("Failed to share with partner:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [trackingId, partner, selectedFields, grantees, grantDecryptAccess, loadGrantees]);
+
+  const handleRevoke = useCallback(async (account: string, field: number) => {
+    setIsSubmitting(true);
+    try {
+      await revokeDecryptAccess(trackingId, account, field);
+      await loadGrantees();
+    } catch (error) {
+      console.error("Failed to revoke access:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [trackingId, revokeDecryptAccess, loadGrantees]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Share2 className="w-4 h-4 mr-2" />
+          Share with partner
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share with partner</DialogTitle>
+          <DialogDescription>
+            Allow a partner to decrypt selected fields of this shipment. Revoking re-encrypts the data so only the
+            remaining partners can read it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input placeholder="0x... partner address" value={partner} onChange={(e) => setPartner(e.target.value)} />
+          <div className="flex gap-6">
+            {ENCRYPTED_FIELDS.map((name, field) => (
+              <label key={name} className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={selectedFields.has(field)} onChange={() => toggleField(field)} />
+                {name}
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleGrant} disabled={isSubmitting || !partner.trim()}>
+              {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Share2 className="w-4 h-4 mr-2" />}
+              Grant access
+            </Button>
+          </div>
+
+          {ENCRYPTED_FIELDS.map((name, field) => (
+            <div key={name} className="space-y-2">
+              <p className="text-sm font-medium text-foreground">{name} shared with</p>
+              {(grantees[field] ?? []).length === 0 ? (
+                <p className="text-sm text-muted-foreground">No partners</p>
+              ) : (
+                grantees[field].map((account) => (
+                  <div key={account} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="font-mono truncate">{account}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(account, field)}
+                      disabled={isSubmitting}
+                    >
+                      <UserX className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,163 @@
+import { useState, useCallback } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useAccount } from "wagmi";
+import { toast } from "sonner";
+import { useSecureCargoFlow, type ShipmentExport } from "@/hooks/useSecureCargoFlow";
+
+// Quote a CSV field when it holds a separator, quote or line break
+const csvField = (value: unknown) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const isoTime = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+
+// Same layout as task:export-shipment: the header as # comment lines, then one row per event
+const toCsv = (data: ShipmentExport) => {
+  const { shipment } = data;
+  const clear = new Map(data.decrypted?.events.map((event) => [event.eventId, event]));
+  const lines = [
+    `# format: ${data.format}`,
+    `# chainId: ${data.chainId}`,
+    `# contract: ${data.contract}`,
+    `# trackingId: ${shipment.trackingId}`,
+    `# origin: ${shipment.origin}`,
+    `# destination: ${shipment.destination}`,
+    `# creator: ${shipment.creator}`,
+    `# createdAt: ${isoTime(shipment.createdAt)}`,
+    `# estimatedDelivery: ${isoTime(shipment.estimatedDelivery)}`,
+    `# createdBlock: ${shipment.createdBlock}`,
+    `# createdBlockHash: ${shipment.createdBlockHash}`,
+    `# createdTransaction: ${shipment.createdTransaction}`,
+    `# exportedAt: ${data.exportedAt}`,
+    `# exportedBy: ${data.exportedBy ?? ""}`,
+    `# contentHash: ${data.contentHash}`,
+    `# decryptedHash: ${data.decrypted?.hash ?? ""}`,
+    "eventId,timestamp,location,status,previousStatus,description,manifestVersion,creator,blockNumber,blockHash,transactionHash,weightKg,contents",
+    ...shipment.events.map((event) =>
+      [
+        event.eventId,
+        isoTime(event.timestamp),
+        event.location,
+        event.status,
+        event.previousStatus,
+        event.description,
+        event.manifestVersion,
+        event.creator,
+        event.blockNumber,
+        event.blockHash,
+        event.transactionHash,
+        clear.get(event.eventId)?.weightKg,
+        clear.get(event.eventId)?.contents,
+      ]
+        .map(csvField)
+        .join(",")
+    ),
+  ];
+  return lines.join("\n") + "\n";
+};
+
+const download = (fileName: string, type: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Downloads the shipment record as JSON and CSV for auditors, optionally with the decrypted fields
+export const ShipmentExportDialog = ({ trackingId }: { trackingId: string }) => {
+  const [open, setOpen] = useState(false);
+  const [includeDecrypted, setIncludeDecrypted] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exported, setExported] = useState<{ fileName: string; contentHash: string } | null>(null);
+  const { isConnected } = useAccount();
+  const { exportShipment } = useSecureCargoFlow();
+
+  const handleExport = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      const data = await exportShipment(trackingId, includeDecrypted && isConnected);
+      if (!data) {
+        return;
+      }
+      const fileName = trackingId.replace(/[^\w.-]/g, "_");
+      download(`${fileName}.json`, "application/json", JSON.stringify(data, null, 2) + "\n");
+      download(`${fileName}.csv`, "text/csv", toCsv(data));
+      setExported({ fileName, contentHash: data.contentHash });
+      toast.success(`Exported ${data.shipment.events.length} events`);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [trackingId, includeDecrypted, isConnected, exportShipment]);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        setExported(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export shipment</DialogTitle>
+          <DialogDescription>
+            Download the shipment header and every cargo event, with block and transaction references, as JSON and
+            CSV.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={includeDecrypted}
+              disabled={!isConnected}
+              onChange={(e) => setIncludeDecrypted(e.target.checked)}
+            />
+            Include the weight and contents decrypted for my account
+          </label>
+          <p className="text-sm text-muted-foreground">
+            The content hash covers the on-chain record. Decrypted values get a hash of their own, tied to your account;
+            recipients with read access can check them by decrypting again.
+          </p>
+
+          {exported && (
+            <div className="space-y-1 text-sm">
+              <p className="font-medium text-foreground">Content hash</p>
+              <p className="font-mono break-all">{exported.contentHash}</p>
+              <p className="text-muted-foreground">
+                Recipients can check the file with{" "}
+                <code className="font-mono">npx hardhat task:verify-export --file {exported.fileName}.json</code>
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={handleExport} disabled={isExporting}>
+              {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              Export JSON and CSV
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
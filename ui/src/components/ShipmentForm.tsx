@@ -2,7 +2,7 @@ import { useState, useCallback } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
-import { Package, Plus, Loader2 } from "lucide-react";
+import { Package, Plus, Loader2, CheckCircle2, XCircle, Layers } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -23,10 +23,10 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
-import { useSecureCargoFlow } from "@/hooks/useSecureCargoFlow";
+import { useSecureCargoFlow, type BatchItemResult } from "@/hooks/useSecureCargoFlow";
 import { useAccount } from "wagmi";
 
-const shipmentSchema = z.object({
+const shipmentFields = z.object({
   trackingId: z.string()
     .min(6, "Tracking ID must be at least 6 characters")
     .regex(/^[A-Z0-9-]+$/, "Tracking ID can only contain uppercase letters, numbers, and hyphens"),
@@ -43,6 +43,26 @@ const shipmentSchema = z.object({
       const num = parseFloat(val);
       return num > 0 && num <= 100000; // Max 100 tons
     }, "Weight must be between 0.01 and 100,000 kg"),
+  weightTolerance: z.string()
+    .regex(/^(\d+(\.\d{1,2})?)?$/, "Tolerance must be a valid number with max 2 decimal places")
+    .optional(),
+  deliveryPin: z.string()
+    .min(1, "Delivery PIN is required")
+    .regex(/^[1-9]\d{3,8}$/, "PIN must be 4 to 9 digits and cannot start with 0"),
+  declaredValue: z.string()
+    .regex(/^(\d+(\.\d{1,2})?)?$/, "Declared value must be a valid amount with max 2 decimal places")
+    .optional(),
+  currency: z.string()
+    .regex(/^[A-Za-z]{3}$/, "Currency must be a 3-letter code such as USD"),
+  minTemperature: z.string()
+    .regex(/^(-?\d+(\.\d)?)?$/, "Temperature must be a number with max 1 decimal place")
+    .optional(),
+  maxTemperature: z.string()
+    .regex(/^(-?\d+(\.\d)?)?$/, "Temperature must be a number with max 1 decimal place")
+    .optional(),
+  maxHumidity: z.string()
+    .regex(/^(\d+(\.\d)?)?$/, "Humidity must be a number with max 1 decimal place")
+    .optional(),
   contents: z.string()
     .min(3, "Contents description must be at least 3 characters")
     .max(200, "Contents description cannot exceed 200 characters"),
@@ -57,13 +77,182 @@ const shipmentSchema = z.object({
     }, "Estimated delivery must be in the future but within 2 years"),
 });
 
+const shipmentSchema = shipmentFields.refine((data) => !data.minTemperature === !data.maxTemperature, {
+  message: "Set both minimum and maximum temperature for cold-chain monitoring",
+  path: ["maxTemperature"],
+}).refine((data) => {
+  if (!data.minTemperature || !data.maxTemperature) return true;
+  const min = parseFloat(data.minTemperature);
+  const max = parseFloat(data.maxTemperature);
+  return min >= -100 && max <= 100 && min < max;
+}, {
+  message: "Temperature range must be between -100 and 100 °C with min below max",
+  path: ["maxTemperature"],
+});
+
 type ShipmentFormValues = z.infer<typeof shipmentSchema>;
 
+interface BulkParcel {
+  trackingId: string;
+  origin: string;
+  destination: string;
+  weight: number;
+  deliveryPin: number;
+  contents: string;
+}
+
+// One parcel per line: trackingId, origin, destination, weight (kg), delivery PIN, contents (may contain commas)
+const parseBulkLine = (line: string): BulkParcel | string => {
+  const [trackingId = "", origin = "", destination = "", weight = "", deliveryPin = "", ...contents] = line
+    .split(",")
+    .map((part) => part.trim());
+  const parsed = shipmentFields.pick({
+    trackingId: true,
+    origin: true,
+    destination: true,
+    weight: true,
+    deliveryPin: true,
+    contents: true,
+  }).safeParse({ trackingId, origin, destination, weight, deliveryPin, contents: contents.join(", ") });
+  if (!parsed.success) {
+    return parsed.error.issues[0].message;
+  }
+  return { ...parsed.data, weight: parseFloat(parsed.data.weight), deliveryPin: parseInt(parsed.data.deliveryPin, 10) };
+};
+
+// Creates many shipments and their first events with two batch transactions
+const BulkShipmentForm = ({ onDone }: { onDone: (trackingId: string) => void }) => {
+  const [lines, setLines] = useState("");
+  const [estimatedDelivery, setEstimatedDelivery] = useState("");
+  const [results, setResults] = useState<BatchItemResult[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { isConnected } = useAccount();
+  const { createShipmentsBatch, addCargoEventsBatch } = useSecureCargoFlow();
+
+  const handleSubmit = useCallback(async () => {
+    const deliveryTimestamp = Math.floor(new Date(estimatedDelivery).getTime() / 1000);
+    if (!estimatedDelivery || deliveryTimestamp <= Date.now() / 1000) {
+      toast.error("Estimated delivery must be in the future");
+      return;
+    }
+
+    const rows = lines.split("\n").map((line) => line.trim()).filter(Boolean);
+    const parsed = rows.map(parseBulkLine);
+    const parcels = parsed.filter((row): row is BulkParcel => typeof row !== "string");
+    const invalid: BatchItemResult[] = parsed.flatMap((row, i) =>
+      typeof row === "string" ? [{ trackingId: rows[i].split(",")[0] || `Line ${i + 1}`, success: false, error: row }] : []
+    );
+    if (parcels.length === 0) {
+      setResults(invalid);
+      toast.error("No valid parcels to create");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const created = await createShipmentsBatch(
+        parcels.map((parcel) => ({
+          trackingId: parcel.trackingId,
+          origin: parcel.origin,
+          destination: parcel.destination,
+          estimatedDelivery: deliveryTimestamp,
+          deliveryPin: parcel.deliveryPin,
+        }))
+      );
+      const createdIds = new Set(created.filter((result) => result.success).map((result) => result.trackingId));
+
+      // First events declare the encrypted weight and record the contents as manifest v1
+      const events = await addCargoEventsBatch(
+        parcels
+          .filter((parcel) => createdIds.has(parcel.trackingId))
+          .map((parcel) => ({
+            trackingId: parcel.trackingId,
+            location: parcel.origin,
+            status: 0, // ShipmentStatus.Created
+            description: "Shipment created",
+            weightInKg: parcel.weight,
+            contents: parcel.contents,
+          }))
+      );
+      const eventResults = new Map(events.map((result) => [result.trackingId, result]));
+
+      const merged = created.map((result) => {
+        const event = eventResults.get(result.trackingId);
+        if (!result.success || !event || event.success) {
+          return result;
+        }
+        return { ...event, error: `Created, but initial event failed: ${event.error}` };
+      });
+      setResults([...merged, ...invalid]);
+
+      const succeeded = merged.filter((result) => result.success);
+      if (succeeded.length > 0) {
+        toast.success(`${succeeded.length} of ${rows.length} shipments created`);
+        onDone(succeeded[succeeded.length - 1].trackingId);
+      } else {
+        toast.error("No shipments were created");
+      }
+    } catch (error) {
+      console.error("Bulk creation failed:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      toast.error(`Bulk creation failed: ${errorMessage}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [lines, estimatedDelivery, createShipmentsBatch, addCargoEventsBatch, onDone]);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Parcels (one per line)</p>
+        <Textarea
+          placeholder={"CARGO-2024-101, Shanghai Port, Los Angeles Port, 120, 482913, 12 boxes of phones\nCARGO-2024-102, Shanghai Port, Seattle Port, 80, 771204, Laptop chargers"}
+          className="resize-none font-mono text-xs"
+          rows={8}
+          value={lines}
+          onChange={(e) => setLines(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          Tracking ID, origin, destination, weight in kg, delivery PIN, contents. PINs, weights and contents are encrypted with one proof per batch.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Estimated Delivery</p>
+        <Input type="date" value={estimatedDelivery} onChange={(e) => setEstimatedDelivery(e.target.value)} />
+      </div>
+
+      {results.length > 0 && (
+        <div className="space-y-1 max-h-48 overflow-y-auto rounded-md border p-3 text-sm">
+          {results.map((result, i) => (
+            <div key={`${result.trackingId}-${i}`} className="flex items-start gap-2">
+              {result.success ? (
+                <CheckCircle2 className="h-4 w-4 mt-0.5 text-success flex-shrink-0" />
+              ) : (
+                <XCircle className="h-4 w-4 mt-0.5 text-destructive flex-shrink-0" />
+              )}
+              <span className="font-mono">{result.trackingId}</span>
+              {result.error && <span className="text-muted-foreground">{result.error}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end pt-2">
+        <Button onClick={handleSubmit} disabled={isSubmitting || !isConnected || !lines.trim()}>
+          {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Layers className="w-4 h-4 mr-2" />}
+          Create Shipments
+        </Button>
+      </div>
+    </div>
+  );
+};
+
 export const ShipmentForm = () => {
   const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<"single" | "bulk">("single");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { isConnected } = useAccount();
-  const { createShipment, addCargoEvent, isPending } = useSecureCargoFlow();
+  const { createShipment, addCargoEvent, setWeightTolerance, setSensorRange, isPending } = useSecureCargoFlow();
 
   const form = useForm<ShipmentFormValues>({
     resolver: zodResolver(shipmentSchema),
@@ -72,6 +261,13 @@ export const ShipmentForm = () => {
       origin: "",
       destination: "",
       weight: "",
+      weightTolerance: "",
+      deliveryPin: "",
+      declaredValue: "",
+      currency: "USD",
+      minTemperature: "",
+      maxTemperature: "",
+      maxHumidity: "",
       contents: "",
       estimatedDelivery: "",
     },
@@ -98,19 +294,48 @@ export const ShipmentForm = () => {
         new Date(data.estimatedDelivery).getTime() / 1000
       );
 
-      // Create shipment
+      // Create shipment with the encrypted delivery PIN, and the declared value for insurance when one is given
       console.log("Creating shipment...", data.trackingId);
       await createShipment(
         data.trackingId,
         data.origin,
         data.destination,
-        estimatedDeliveryTimestamp
+        estimatedDeliveryTimestamp,
+        parseInt(data.deliveryPin, 10),
+        data.declaredValue
+          ? { amount: parseFloat(data.declaredValue), currency: data.currency }
+          : undefined
       );
       console.log("Shipment created, waiting for confirmation...");
       
       // Wait a bit for transaction to be mined
       await new Promise(resolve => setTimeout(resolve, 2000));
 
+      // Set the encrypted weight tolerance before the declared weight (default is 1% otherwise)
+      if (data.weightTolerance) {
+        try {
+          await setWeightTolerance(data.trackingId, parseFloat(data.weightTolerance));
+        } catch (toleranceError) {
+          console.error("Failed to set weight tolerance:", toleranceError);
+          toast.warning("Weight tolerance not set, the default 1% tolerance will be used");
+        }
+      }
+
+      // Set the encrypted cold-chain range before any sensor reading is recorded
+      if (data.minTemperature && data.maxTemperature) {
+        try {
+          await setSensorRange(data.trackingId, {
+            minTemperature: parseFloat(data.minTemperature),
+            maxTemperature: parseFloat(data.maxTemperature),
+            minHumidity: 0,
+            maxHumidity: data.maxHumidity ? parseFloat(data.maxHumidity) : 100,
+          });
+        } catch (rangeError) {
+          console.error("Failed to set sensor range:", rangeError);
+          toast.warning("Sensor range not set, sensor readings will be rejected until it is");
+        }
+      }
+
       // Add initial cargo event with encrypted weight
       console.log("Adding initial cargo event...");
       let eventAdded = false;
@@ -120,7 +345,8 @@ export const ShipmentForm = () => {
           data.origin,
           0, // ShipmentStatus.Created
           weightValue, // First event, use provided weight
-          data.contents
+          "Shipment created",
+          data.contents // Initial manifest
         );
         console.log("Cargo event added successfully");
         eventAdded = true;
@@ -153,7 +379,7 @@ export const ShipmentForm = () => {
     } finally {
       setIsSubmitting(false);
     }
-  }, [isConnected, createShipment, addCargoEvent, form]);
+  }, [isConnected, createShipment, addCargoEvent, setWeightTolerance, setSensorRange, form]);
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -173,6 +399,25 @@ export const ShipmentForm = () => {
             Fill in the shipment details. Weight will be encrypted using FHE.
           </DialogDescription>
         </DialogHeader>
+        <div className="flex gap-2">
+          <Button variant={mode === "single" ? "default" : "outline"} size="sm" onClick={() => setMode("single")}>
+            <Package className="w-4 h-4 mr-2" />
+            Single
+          </Button>
+          <Button variant={mode === "bulk" ? "default" : "outline"} size="sm" onClick={() => setMode("bulk")}>
+            <Layers className="w-4 h-4 mr-2" />
+            Bulk
+          </Button>
+        </div>
+        {mode === "bulk" ? (
+          <BulkShipmentForm
+            onDone={(trackingId) => {
+              // Show the last created shipment in the timeline
+              localStorage.setItem('newShipmentCreated', trackingId);
+              window.dispatchEvent(new Event('storage'));
+            }}
+          />
+        ) : (
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
             <FormField
@@ -249,6 +494,108 @@ export const ShipmentForm = () => {
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="weightTolerance"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Weight Tolerance (kg, Encrypted, Optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Defaults to 1% of declared weight" type="number" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="deliveryPin"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Delivery PIN (Encrypted)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Shared with the consignee, required to mark the shipment delivered" inputMode="numeric" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="minTemperature"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Min Temp (°C, Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="2" type="number" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="maxTemperature"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Temp (°C)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="8" type="number" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="maxHumidity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Humidity (%)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="100" type="number" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="declaredValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Declared Value (Encrypted, Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="For insurance claims" type="number" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input placeholder="USD" maxLength={3} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <FormField
               control={form.control}
               name="contents"
@@ -304,6 +651,7 @@ export const ShipmentForm = () => {
             </div>
           </form>
         </Form>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from "react";
+import { List, Loader2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useAccount } from "wagmi";
+import { useSecureCargoFlow, type DeliveryPerformance } from "@/hooks/useSecureCargoFlow";
+import { EtaBadge } from "@/components/DeliveryEta";
+
+type ShipmentRow = { trackingId: string; performance: DeliveryPerformance | null };
+
+// Shipments from the global index (or the connected account's own) in creation order, with their ETA status
+export const ShipmentList = ({ onSelect }: { onSelect: (trackingId: string) => void }) => {
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [lateOnly, setLateOnly] = useState(false);
+  const [rows, setRows] = useState<ShipmentRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const { address } = useAccount();
+  const { listShipments, getDeliveryPerformance } = useSecureCargoFlow();
+
+  const creator = onlyMine ? address : undefined;
+
+  const loadPage = useCallback(
+    async (offset: number) => {
+      setIsLoading(true);
+      try {
+        const page = await listShipments(creator, offset);
+        const performances = await Promise.all(page.trackingIds.map((id) => getDeliveryPerformance(id)));
+        const loaded = page.trackingIds.map((trackingId, i) => ({ trackingId, performance: performances[i] }));
+        setRows((prev) => (offset === 0 ? loaded : [...prev, ...loaded]));
+        setTotal(page.total);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [creator, listShipments, getDeliveryPerformance]
+  );
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage]);
+
+  // The late filter applies to the pages loaded so far
+  const visible = lateOnly ? rows.filter((row) => row.performance?.isLate) : rows;
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <List className="h-5 w-5 text-muted-foreground" />
+          <h2 className="text-xl font-semibold">Shipments</h2>
+          <span className="text-sm text-muted-foreground">{total} total</span>
+        </div>
+        <div className="flex items-center gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={onlyMine} disabled={!address} onChange={(e) => setOnlyMine(e.target.checked)} />
+            Created by me
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={lateOnly} onChange={(e) => setLateOnly(e.target.checked)} />
+            Late shipments
+          </label>
+        </div>
+      </div>
+
+      {visible.length === 0 && !isLoading ? (
+        <p className="text-sm text-muted-foreground">{lateOnly ? "No late shipments." : "No shipments yet."}</p>
+      ) : (
+        <ul className="divide-y">
+          {visible.map((row) => (
+            <li key={row.trackingId}>
+              <button
+                type="button"
+                onClick={() => onSelect(row.trackingId)}
+                className="flex w-full items-center justify-between gap-3 py-2 text-left text-sm hover:bg-muted/50"
+              >
+                <span className="font-mono">{row.trackingId}</span>
+                {row.performance && <EtaBadge performance={row.performance} />}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(isLoading || rows.length < total) && (
+        <div className="flex justify-center">
+          <Button variant="outline" size="sm" onClick={() => loadPage(rows.length)} disabled={isLoading}>
+            {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Load more
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+};
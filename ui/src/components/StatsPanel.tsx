@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from "react";
+import { BarChart3, Loader2, RefreshCw } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useAccount } from "wagmi";
+import { useSecureCargoFlow, type AggregateStat } from "@/hooks/useSecureCargoFlow";
+
+// Declared weights are in grams
+const formatTonnes = (grams: bigint) =>
+  (Number(grams) / 1_000_000).toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+const formatMonth = (month: number) =>
+  new Date(Date.UTC(Math.floor(month / 100), (month % 100) - 1)).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "long",
+    timeZone: "UTC",
+  });
+
+const StatRow = ({
+  label,
+  stat,
+  minShipments,
+  grouping,
+}: {
+  label: string;
+  stat: AggregateStat;
+  minShipments: number;
+  grouping: AggregateStat["kind"];
+}) => {
+  const untilReveal = stat.kind === grouping ? stat.requestedShipments + minShipments - stat.shipments : 0;
+  return (
+    <li className="flex flex-wrap items-center justify-between gap-3 py-2 text-sm">
+      <span className="font-medium">{label}</span>
+      {stat.revealedTonnage === null ? (
+        <span className="text-muted-foreground">
+          Encrypted · {stat.shipments} shipment{stat.shipments === 1 ? "" : "s"}
+          {untilReveal > 0 && ` · ${untilReveal} more before a reveal`}
+        </span>
+      ) : (
+        <span className="text-right">
+          <span className="font-semibold">{formatTonnes(stat.revealedTonnage)} t</span>
+          <span className="text-muted-foreground">
+            {" "}
+            across {stat.revealedShipments} shipments · {new Date((stat.revealedAt ?? 0) * 1000).toLocaleDateString()}
+            {stat.shipments > stat.revealedShipments && ` · ${stat.shipments - stat.revealedShipments} since`}
+          </span>
+        </span>
+      )}
+    </li>
+  );
+};
+
+// Tonnage per lane and per month; totals are only ever published in aggregate by the decryption oracle
+export const StatsPanel = () => {
+  const [stats, setStats] = useState<AggregateStat[]>([]);
+  const [minShipments, setMinShipments] = useState(0);
+  const [owner, setOwner] = useState("");
+  const [revealGrouping, setRevealGrouping] = useState<AggregateStat["kind"] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRequesting, setIsRequesting] = useState(false);
+  const { address } = useAccount();
+  const { getAggregateStats, requestStatsReveal } = useSecureCargoFlow();
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getAggregateStats();
+      setStats(result.stats);
+      setMinShipments(result.minShipments);
+      setOwner(result.owner);
+      setRevealGrouping(result.revealGrouping);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getAggregateStats]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const isOwner = !!address && owner.toLowerCase() === address.toLowerCase();
+  // Lane and month totals share shipments, so only lanes are offered until a reveal has fixed the grouping
+  const grouping = revealGrouping ?? "lane";
+  const revealable = stats.filter(
+    (stat) => stat.kind === grouping && stat.shipments >= stat.requestedShipments + minShipments
+  );
+
+  const handleRequest = useCallback(async () => {
+    setIsRequesting(true);
+    try {
+      await requestStatsReveal(revealable.map((stat) => stat.key));
+      await load();
+    } catch (error) {
+      console.error("Failed to request statistics reveal:", error);
+    } finally {
+      setIsRequesting(false);
+    }
+  }, [revealable, requestStatsReveal, load]);
+
+  const lanes = stats.filter((stat) => stat.kind === "lane");
+  const months = stats.filter((stat) => stat.kind === "month").sort((a, b) => b.month - a.month);
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <BarChart3 className="h-5 w-5 text-muted-foreground" />
+          <h2 className="text-xl font-semibold">Network Statistics</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          {isOwner && (
+            <Button size="sm" onClick={handleRequest} disabled={isRequesting || revealable.length === 0}>
+              {isRequesting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Request reveal ({revealable.length})
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={load} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Declared weights are summed while encrypted. Only {grouping} totals are published, once at least {minShipments}{" "}
+        new shipments have joined a total since its last reveal; {grouping === "lane" ? "monthly" : "lane"} totals stay
+        encrypted, so the two can never be compared to single out a shipment.
+      </p>
+
+      {stats.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No declared weights yet.</p>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2">
+          <div>
+            <h3 className="text-sm font-semibold text-muted-foreground">By lane</h3>
+            <ul className="divide-y">
+              {lanes.map((stat) => (
+                <StatRow
+                  key={stat.key}
+                  label={`${stat.origin} → ${stat.destination}`}
+                  stat={stat}
+                  minShipments={minShipments}
+                  grouping={grouping}
+                />
+              ))}
+            </ul>
+          </div>
+          <div>
+            <h3 className="text-sm font-semibold text-muted-foreground">By month</h3>
+            <ul className="divide-y">
+              {months.map((stat) => (
+                <StatRow
+                  key={stat.key}
+                  label={formatMonth(stat.month)}
+                  stat={stat}
+                  minShipments={minShipments}
+                  grouping={grouping}
+                />
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
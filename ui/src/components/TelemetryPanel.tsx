@@ -0,0 +1,232 @@
+import { useState, useEffect, useCallback } from "react";
+import { Thermometer, Droplets, Lock, LockOpen, Loader2, AlertTriangle, Plus } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAccount } from "wagmi";
+import { toast } from "sonner";
+import { useSecureCargoFlow, type SensorReading } from "@/hooks/useSecureCargoFlow";
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 24;
+
+// Minimal SVG line chart; excursion readings are drawn as red points
+const SensorChart = ({
+  readings,
+  value,
+  unit,
+  colorClass,
+}: {
+  readings: SensorReading[];
+  value: (reading: SensorReading) => number;
+  unit: string;
+  colorClass: string;
+}) => {
+  const values = readings.map(value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const x = (index: number) =>
+    readings.length === 1
+      ? CHART_WIDTH / 2
+      : CHART_PADDING + (index / (readings.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (v: number) => CHART_HEIGHT - CHART_PADDING - ((v - min) / span) * (CHART_HEIGHT - CHART_PADDING * 2);
+  const points = values.map((v, i) => `${x(i)},${y(v)}`).join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40">
+      <line
+        x1={CHART_PADDING}
+        y1={CHART_HEIGHT - CHART_PADDING}
+        x2={CHART_WIDTH - CHART_PADDING}
+        y2={CHART_HEIGHT - CHART_PADDING}
+        className="stroke-border"
+      />
+      <text x={4} y={y(max) + 4} className="fill-muted-foreground text-[10px]">
+        {max.toFixed(1)}
+        {unit}
+      </text>
+      <text x={4} y={y(min) + 4} className="fill-muted-foreground text-[10px]">
+        {min.toFixed(1)}
+        {unit}
+      </text>
+      <polyline points={points} fill="none" strokeWidth={2} className={colorClass} />
+      {readings.map((reading, i) => (
+        <circle
+          key={`${reading.timestamp}-${i}`}
+          cx={x(i)}
+          cy={y(values[i])}
+          r={reading.excursion ? 5 : 3}
+          className={reading.excursion ? "fill-destructive" : "fill-primary"}
+        >
+          <title>
+            {new Date(reading.timestamp * 1000).toLocaleString()}: {values[i].toFixed(1)}
+            {unit}
+            {reading.excursion ? " (out of range)" : ""}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export const TelemetryPanel = ({ trackingId }: { trackingId: string }) => {
+  const [readingCount, setReadingCount] = useState(0);
+  const [telemetry, setTelemetry] = useState<{ readings: SensorReading[]; excursionCount: number } | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [temperature, setTemperature] = useState("");
+  const [humidity, setHumidity] = useState("");
+  const { isConnected } = useAccount();
+  const { getSensorReadingCount, decryptTelemetry, addSensorReading } = useSecureCargoFlow();
+
+  const loadCount = useCallback(async () => {
+    setReadingCount(await getSensorReadingCount(trackingId));
+  }, [trackingId, getSensorReadingCount]);
+
+  useEffect(() => {
+    setTelemetry(null);
+    loadCount();
+  }, [loadCount]);
+
+  const handleDecrypt = useCallback(async () => {
+    if (telemetry) {
+      setTelemetry(null);
+      return;
+    }
+    setIsDecrypting(true);
+    try {
+      setTelemetry(await decryptTelemetry(trackingId));
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [trackingId, telemetry, decryptTelemetry]);
+
+  const handleAddReading = useCallback(async () => {
+    const temperatureValue = parseFloat(temperature);
+    const humidityValue = parseFloat(humidity);
+    if (isNaN(temperatureValue) || temperatureValue < -100 || temperatureValue > 100) {
+      toast.error("Temperature must be between -100 and 100 °C");
+      return;
+    }
+    if (isNaN(humidityValue) || humidityValue < 0 || humidityValue > 100) {
+      toast.error("Humidity must be between 0 and 100 %");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await addSensorReading(trackingId, temperatureValue, humidityValue);
+      setTemperature("");
+      setHumidity("");
+      setTelemetry(null);
+      await loadCount();
+    } catch (error) {
+      console.error("Failed to add sensor reading:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [trackingId, temperature, humidity, addSensorReading, loadCount]);
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Thermometer className="h-5 w-5 text-muted-foreground" />
+          <h3 className="text-lg font-semibold">Cold-chain Telemetry</h3>
+          <span className="text-sm text-muted-foreground">
+            {readingCount} reading{readingCount === 1 ? "" : "s"}
+          </span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleDecrypt}
+          disabled={!isConnected || isDecrypting || readingCount === 0}
+        >
+          {isDecrypting ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Decrypting...
+            </>
+          ) : telemetry ? (
+            <>
+              <LockOpen className="h-4 w-4 mr-2 text-green-600" />
+              Unlocked
+            </>
+          ) : (
+            <>
+              <Lock className="h-4 w-4 mr-2 text-muted-foreground" />
+              Decrypt readings
+            </>
+          )}
+        </Button>
+      </div>
+
+      {telemetry && telemetry.readings.length > 0 ? (
+        <div className="space-y-4">
+          {telemetry.excursionCount > 0 ? (
+            <div className="flex items-center gap-2 px-3 py-2 text-sm bg-destructive/10 text-destructive rounded-md">
+              <AlertTriangle className="h-4 w-4" />
+              {telemetry.excursionCount} reading{telemetry.excursionCount === 1 ? "" : "s"} outside the allowed range
+            </div>
+          ) : (
+            <p className="text-sm text-success">All readings within the allowed range</p>
+          )}
+          <div>
+            <p className="flex items-center gap-2 text-sm font-medium">
+              <Thermometer className="h-4 w-4 text-muted-foreground" />
+              Temperature
+            </p>
+            <SensorChart
+              readings={telemetry.readings}
+              value={(reading) => reading.temperature}
+              unit=" °C"
+              colorClass="stroke-primary"
+            />
+          </div>
+          <div>
+            <p className="flex items-center gap-2 text-sm font-medium">
+              <Droplets className="h-4 w-4 text-muted-foreground" />
+              Humidity
+            </p>
+            <SensorChart
+              readings={telemetry.readings}
+              value={(reading) => reading.humidity}
+              unit=" %"
+              colorClass="stroke-accent"
+            />
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {readingCount === 0
+            ? "No sensor readings recorded yet."
+            : "Readings are encrypted. Decrypt them to view the temperature and humidity charts."}
+        </p>
+      )}
+
+      {isConnected && (
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Input
+            type="number"
+            placeholder="Temperature (°C)"
+            value={temperature}
+            onChange={(e) => setTemperature(e.target.value)}
+          />
+          <Input
+            type="number"
+            placeholder="Humidity (%)"
+            value={humidity}
+            onChange={(e) => setHumidity(e.target.value)}
+          />
+          <Button onClick={handleAddReading} disabled={isSubmitting || !temperature || !humidity}>
+            {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add reading
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+};
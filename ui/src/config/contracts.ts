@@ -13,12 +13,115 @@ export const SECURE_CARGO_FLOW_ABI = [
       { internalType: 'string', name: 'origin', type: 'string' },
       { internalType: 'string', name: 'destination', type: 'string' },
       { internalType: 'uint256', name: 'estimatedDeliveryTimestamp', type: 'uint256' },
+      { internalType: 'externalEuint32', name: 'encPin', type: 'bytes32' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
     ],
     name: 'createShipment',
     outputs: [],
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'string', name: 'origin', type: 'string' },
+      { internalType: 'string', name: 'destination', type: 'string' },
+      { internalType: 'uint256', name: 'estimatedDeliveryTimestamp', type: 'uint256' },
+      { internalType: 'externalEuint32', name: 'encPin', type: 'bytes32' },
+      { internalType: 'externalEuint64', name: 'encValue', type: 'bytes32' },
+      { internalType: 'string', name: 'currency', type: 'string' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+    ],
+    name: 'createInsuredShipment',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: 'string', name: 'trackingId', type: 'string' },
+          { internalType: 'string', name: 'origin', type: 'string' },
+          { internalType: 'string', name: 'destination', type: 'string' },
+          { internalType: 'uint256', name: 'estimatedDelivery', type: 'uint256' },
+          { internalType: 'externalEuint32', name: 'encPin', type: 'bytes32' },
+          { internalType: 'externalEuint64', name: 'encValue', type: 'bytes32' },
+          { internalType: 'string', name: 'currency', type: 'string' },
+        ],
+        internalType: 'struct SecureCargoFlow.ShipmentInput[]',
+        name: 'items',
+        type: 'tuple[]',
+      },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+    ],
+    name: 'createShipmentsBatch',
+    outputs: [{ internalType: 'bool[]', name: 'succeeded', type: 'bool[]' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: 'string', name: 'trackingId', type: 'string' },
+          { internalType: 'string', name: 'location', type: 'string' },
+          { internalType: 'enum SecureCargoFlow.ShipmentStatus', name: 'status', type: 'uint8' },
+          { internalType: 'string', name: 'description', type: 'string' },
+          { internalType: 'externalEuint32', name: 'encWeight', type: 'bytes32' },
+          { internalType: 'externalEuint256[]', name: 'encContents', type: 'bytes32[]' },
+        ],
+        internalType: 'struct SecureCargoFlow.CargoEventInput[]',
+        name: 'items',
+        type: 'tuple[]',
+      },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+    ],
+    name: 'addCargoEventsBatch',
+    outputs: [{ internalType: 'bool[]', name: 'succeeded', type: 'bool[]' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: 'string', name: 'trackingId', type: 'string' },
+          { internalType: 'string', name: 'location', type: 'string' },
+          { internalType: 'enum SecureCargoFlow.ShipmentStatus', name: 'status', type: 'uint8' },
+          { internalType: 'string', name: 'description', type: 'string' },
+          { internalType: 'externalEuint32', name: 'encWeight', type: 'bytes32' },
+          { internalType: 'externalEuint256[]', name: 'encContents', type: 'bytes32[]' },
+          { internalType: 'address', name: 'signer', type: 'address' },
+          { internalType: 'uint256', name: 'nonce', type: 'uint256' },
+          { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+        ],
+        internalType: 'struct SecureCargoFlow.SignedCargoEvent',
+        name: 'signed',
+        type: 'tuple',
+      },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+      { internalType: 'bytes', name: 'signature', type: 'bytes' },
+    ],
+    name: 'addCargoEventWithSig',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'address', name: '', type: 'address' }],
+    name: 'nonces',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'DOMAIN_SEPARATOR',
+    outputs: [{ internalType: 'bytes32', name: 'separator', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [
       { internalType: 'string', name: 'trackingId', type: 'string' },
@@ -27,7 +130,7 @@ export const SECURE_CARGO_FLOW_ABI = [
       { internalType: 'string', name: 'description', type: 'string' },
       { internalType: 'bytes32', name: 'encWeight', type: 'bytes32' },
       { internalType: 'bytes', name: 'weightInputProof', type: 'bytes' },
-      { internalType: 'bytes32[]', name: 'encContentsBytes', type: 'bytes32[]' },
+      { internalType: 'externalEuint256[]', name: 'encContents', type: 'bytes32[]' },
       { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
     ],
     name: 'addCargoEvent',
@@ -111,19 +214,8 @@ export const SECURE_CARGO_FLOW_ABI = [
       { internalType: 'string', name: 'trackingId', type: 'string' },
       { internalType: 'uint256', name: 'eventIndex', type: 'uint256' },
     ],
-    name: 'getContentsLength',
-    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [
-      { internalType: 'string', name: 'trackingId', type: 'string' },
-      { internalType: 'uint256', name: 'eventIndex', type: 'uint256' },
-      { internalType: 'uint256', name: 'byteIndex', type: 'uint256' },
-    ],
-    name: 'getEncryptedContentsByte',
-    outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    name: 'getEncryptedContents',
+    outputs: [{ internalType: 'euint256[]', name: 'contents', type: 'bytes32[]' }],
     stateMutability: 'view',
     type: 'function',
   },
@@ -181,5 +273,627 @@ export const SECURE_CARGO_FLOW_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'address', name: 'account', type: 'address' },
+      { internalType: 'enum SecureCargoFlow.ParticipantRole', name: 'role', type: 'uint8' },
+    ],
+    name: 'addParticipant',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'address', name: 'account', type: 'address' },
+    ],
+    name: 'removeParticipant',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: 'trackingId', type: 'string' }],
+    name: 'getParticipants',
+    outputs: [
+      { internalType: 'address[]', name: 'accounts', type: 'address[]' },
+      { internalType: 'enum SecureCargoFlow.ParticipantRole[]', name: 'roles', type: 'uint8[]' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'address', name: 'account', type: 'address' },
+      { internalType: 'enum SecureCargoFlow.EncryptedField', name: 'field', type: 'uint8' },
+    ],
+    name: 'grantDecryptAccess',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'address', name: 'account', type: 'address' },
+      { internalType: 'enum SecureCargoFlow.EncryptedField', name: 'field', type: 'uint8' },
+    ],
+    name: 'revokeDecryptAccess',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'enum SecureCargoFlow.EncryptedField', name: 'field', type: 'uint8' },
+    ],
+    name: 'getDecryptGrantees',
+    outputs: [{ internalType: 'address[]', name: '', type: 'address[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'externalEuint32', name: 'encTolerance', type: 'bytes32' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+    ],
+    name: 'setWeightTolerance',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'uint256', name: 'eventIndex', type: 'uint256' },
+    ],
+    name: 'getWeightDiscrepancy',
+    outputs: [{ internalType: 'ebool', name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'externalEuint32', name: 'encPin', type: 'bytes32' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+    ],
+    name: 'confirmDelivery',
+    outputs: [{ internalType: 'uint256', name: 'requestId', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: '', type: 'string' }],
+    name: 'deliveryPending',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'creator', type: 'address' }],
+    name: 'getCreatorTotals',
+    outputs: [
+      { internalType: 'euint64', name: 'totalWeight', type: 'bytes32' },
+      { internalType: 'euint32', name: 'shipmentCount', type: 'bytes32' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: 'trackingId', type: 'string' }],
+    name: 'getDeliveryPin',
+    outputs: [{ internalType: 'euint32', name: 'pin', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: 'trackingId', type: 'string' }],
+    name: 'getDeliveryProof',
+    outputs: [{ internalType: 'ebool', name: 'proof', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: 'trackingId', type: 'string' }],
+    name: 'getEncryptedDeclaredValue',
+    outputs: [{ internalType: 'euint64', name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'externalEuint16', name: 'encMinTemperature', type: 'bytes32' },
+      { internalType: 'externalEuint16', name: 'encMaxTemperature', type: 'bytes32' },
+      { internalType: 'externalEuint16', name: 'encMinHumidity', type: 'bytes32' },
+      { internalType: 'externalEuint16', name: 'encMaxHumidity', type: 'bytes32' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+    ],
+    name: 'setSensorRange',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'externalEuint16', name: 'encTemperature', type: 'bytes32' },
+      { internalType: 'externalEuint16', name: 'encHumidity', type: 'bytes32' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+    ],
+    name: 'addSensorReading',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: 'trackingId', type: 'string' }],
+    name: 'getSensorReadingCount',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'uint256', name: 'readingIndex', type: 'uint256' },
+    ],
+    name: 'getSensorReading',
+    outputs: [
+      { internalType: 'uint256', name: 'timestamp', type: 'uint256' },
+      { internalType: 'address', name: 'reporter', type: 'address' },
+      { internalType: 'euint16', name: 'temperature', type: 'bytes32' },
+      { internalType: 'euint16', name: 'humidity', type: 'bytes32' },
+      { internalType: 'ebool', name: 'excursion', type: 'bytes32' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: 'trackingId', type: 'string' }],
+    name: 'getExcursionCount',
+    outputs: [{ internalType: 'euint32', name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'externalEuint256[]', name: 'encContents', type: 'bytes32[]' },
+      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
+      { internalType: 'string', name: 'reason', type: 'string' },
+    ],
+    name: 'amendManifest',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: 'trackingId', type: 'string' }],
+    name: 'getManifestVersionCount',
+    outputs: [{ internalType: 'uint256', name: 'count', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'uint256', name: 'version', type: 'uint256' },
+    ],
+    name: 'getManifestVersion',
+    outputs: [
+      { internalType: 'euint256[]', name: 'contents', type: 'bytes32[]' },
+      { internalType: 'string', name: 'reason', type: 'string' },
+      { internalType: 'address', name: 'amendedBy', type: 'address' },
+      { internalType: 'uint256', name: 'amendedAt', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'uint256', name: 'eventIndex', type: 'uint256' },
+    ],
+    name: 'getEventManifestVersion',
+    outputs: [{ internalType: 'uint256', name: 'version', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'uint256', name: 'offset', type: 'uint256' },
+      { internalType: 'uint256', name: 'limit', type: 'uint256' },
+    ],
+    name: 'getEventsPage',
+    outputs: [
+      {
+        components: [
+          { internalType: 'uint256', name: 'eventId', type: 'uint256' },
+          { internalType: 'string', name: 'trackingId', type: 'string' },
+          { internalType: 'uint256', name: 'timestamp', type: 'uint256' },
+          { internalType: 'string', name: 'location', type: 'string' },
+          { internalType: 'uint8', name: 'status', type: 'uint8' },
+          { internalType: 'string', name: 'description', type: 'string' },
+          { internalType: 'euint32', name: 'encryptedWeight', type: 'bytes32' },
+          { internalType: 'uint256', name: 'manifestVersion', type: 'uint256' },
+          { internalType: 'ebool', name: 'weightDiscrepancy', type: 'bytes32' },
+        ],
+        internalType: 'struct SecureCargoFlow.CargoEvent[]',
+        name: 'events',
+        type: 'tuple[]',
+      },
+      { internalType: 'uint256', name: 'total', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'address', name: 'creator', type: 'address' },
+      { internalType: 'uint256', name: 'offset', type: 'uint256' },
+      { internalType: 'uint256', name: 'limit', type: 'uint256' },
+    ],
+    name: 'getShipmentsByCreator',
+    outputs: [
+      { internalType: 'string[]', name: 'trackingIds', type: 'string[]' },
+      { internalType: 'uint256', name: 'total', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'offset', type: 'uint256' },
+      { internalType: 'uint256', name: 'limit', type: 'uint256' },
+    ],
+    name: 'getShipmentIds',
+    outputs: [
+      { internalType: 'string[]', name: 'trackingIds', type: 'string[]' },
+      { internalType: 'uint256', name: 'total', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'enum SecureCargoFlow.ExceptionReason', name: 'reason', type: 'uint8' },
+      { internalType: 'string', name: 'details', type: 'string' },
+    ],
+    name: 'reportException',
+    outputs: [{ internalType: 'uint256', name: 'exceptionId', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'uint256', name: 'exceptionId', type: 'uint256' },
+      { internalType: 'string', name: 'resolution', type: 'string' },
+    ],
+    name: 'resolveException',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: 'trackingId', type: 'string' }],
+    name: 'getExceptions',
+    outputs: [
+      {
+        components: [
+          { internalType: 'uint256', name: 'id', type: 'uint256' },
+          { internalType: 'string', name: 'trackingId', type: 'string' },
+          { internalType: 'enum SecureCargoFlow.ExceptionReason', name: 'reason', type: 'uint8' },
+          { internalType: 'string', name: 'details', type: 'string' },
+          { internalType: 'address', name: 'reporter', type: 'address' },
+          { internalType: 'uint256', name: 'reportedAt', type: 'uint256' },
+          { internalType: 'bool', name: 'open', type: 'bool' },
+          { internalType: 'address', name: 'resolver', type: 'address' },
+          { internalType: 'uint256', name: 'resolvedAt', type: 'uint256' },
+          { internalType: 'string', name: 'resolution', type: 'string' },
+        ],
+        internalType: 'struct SecureCargoFlow.ShipmentException[]',
+        name: 'exceptions',
+        type: 'tuple[]',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getWorkflow',
+    outputs: [
+      { internalType: 'string[]', name: 'statusNames', type: 'string[]' },
+      { internalType: 'uint8[][]', name: 'roleMasks', type: 'uint8[][]' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'enum SecureCargoFlow.ShipmentStatus', name: 'from', type: 'uint8' },
+      { internalType: 'enum SecureCargoFlow.ShipmentStatus', name: 'to', type: 'uint8' },
+      { internalType: 'uint8', name: 'roleMask', type: 'uint8' },
+    ],
+    name: 'setTransition',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: '', type: 'string' }],
+    name: 'valueCurrencies',
+    outputs: [{ internalType: 'string', name: '', type: 'string' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'address', name: 'newCustodian', type: 'address' },
+    ],
+    name: 'proposeCustodyTransfer',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: 'trackingId', type: 'string' }],
+    name: 'acceptCustodyTransfer',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: 'trackingId', type: 'string' }],
+    name: 'cancelCustodyTransfer',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: '', type: 'string' }],
+    name: 'pendingCustodians',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: 'trackingId', type: 'string' }],
+    name: 'getCustodyHistory',
+    outputs: [
+      {
+        components: [
+          { internalType: 'address', name: 'from', type: 'address' },
+          { internalType: 'address', name: 'to', type: 'address' },
+          { internalType: 'uint256', name: 'timestamp', type: 'uint256' },
+        ],
+        internalType: 'struct SecureCargoFlow.CustodyRecord[]',
+        name: '',
+        type: 'tuple[]',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'string', name: 'trackingId', type: 'string' },
+      { internalType: 'uint256', name: 'newTimestamp', type: 'uint256' },
+      { internalType: 'enum SecureCargoFlow.EtaRevisionReason', name: 'reasonCode', type: 'uint8' },
+    ],
+    name: 'reviseEstimatedDelivery',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: 'trackingId', type: 'string' }],
+    name: 'getEtaRevisions',
+    outputs: [
+      {
+        components: [
+          { internalType: 'uint256', name: 'previousEta', type: 'uint256' },
+          { internalType: 'uint256', name: 'newEta', type: 'uint256' },
+          { internalType: 'enum SecureCargoFlow.EtaRevisionReason', name: 'reason', type: 'uint8' },
+          { internalType: 'address', name: 'revisedBy', type: 'address' },
+          { internalType: 'uint256', name: 'revisedAt', type: 'uint256' },
+        ],
+        internalType: 'struct SecureCargoFlow.EtaRevision[]',
+        name: 'revisions',
+        type: 'tuple[]',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: 'trackingId', type: 'string' }],
+    name: 'isLate',
+    outputs: [{ internalType: 'bool', name: 'late', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: '', type: 'string' }],
+    name: 'deliveredAt',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'offset', type: 'uint256' },
+      { internalType: 'uint256', name: 'limit', type: 'uint256' },
+    ],
+    name: 'getAggregateStats',
+    outputs: [
+      { internalType: 'bytes32[]', name: 'keys', type: 'bytes32[]' },
+      {
+        components: [
+          { internalType: 'enum SecureCargoFlow.StatKind', name: 'kind', type: 'uint8' },
+          { internalType: 'string', name: 'origin', type: 'string' },
+          { internalType: 'string', name: 'destination', type: 'string' },
+          { internalType: 'uint32', name: 'month', type: 'uint32' },
+          { internalType: 'euint64', name: 'tonnage', type: 'bytes32' },
+          { internalType: 'uint32', name: 'shipments', type: 'uint32' },
+          { internalType: 'uint32', name: 'requestedShipments', type: 'uint32' },
+          { internalType: 'uint64', name: 'revealedTonnage', type: 'uint64' },
+          { internalType: 'uint32', name: 'revealedShipments', type: 'uint32' },
+          { internalType: 'uint256', name: 'revealedAt', type: 'uint256' },
+        ],
+        internalType: 'struct SecureCargoFlow.AggregateStat[]',
+        name: 'stats',
+        type: 'tuple[]',
+      },
+      { internalType: 'uint256', name: 'total', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'bytes32[]', name: 'keys', type: 'bytes32[]' }],
+    name: 'requestStatsReveal',
+    outputs: [{ internalType: 'uint256', name: 'requestId', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getStatsGrouping',
+    outputs: [
+      { internalType: 'bool', name: 'locked', type: 'bool' },
+      { internalType: 'enum SecureCargoFlow.StatKind', name: 'kind', type: 'uint8' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'MIN_STATS_SHIPMENTS',
+    outputs: [{ internalType: 'uint32', name: '', type: 'uint32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'owner',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'enum SecureCargoFlow.PauseScope', name: '', type: 'uint8' }],
+    name: 'paused',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'bytes32', name: 'trackingKey', type: 'bytes32' },
+      { indexed: true, internalType: 'address', name: 'creator', type: 'address' },
+      { indexed: false, internalType: 'string', name: 'trackingId', type: 'string' },
+      { indexed: false, internalType: 'string', name: 'origin', type: 'string' },
+      { indexed: false, internalType: 'string', name: 'destination', type: 'string' },
+      { indexed: false, internalType: 'uint256', name: 'estimatedDelivery', type: 'uint256' },
+    ],
+    name: 'ShipmentCreated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'bytes32', name: 'trackingKey', type: 'bytes32' },
+      { indexed: true, internalType: 'uint256', name: 'eventId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'creator', type: 'address' },
+      { indexed: false, internalType: 'string', name: 'trackingId', type: 'string' },
+      { indexed: false, internalType: 'string', name: 'location', type: 'string' },
+      { indexed: false, internalType: 'enum SecureCargoFlow.ShipmentStatus', name: 'status', type: 'uint8' },
+      { indexed: false, internalType: 'string', name: 'description', type: 'string' },
+      { indexed: false, internalType: 'uint256', name: 'timestamp', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'manifestVersion', type: 'uint256' },
+    ],
+    name: 'CargoEventAdded',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'bytes32', name: 'trackingKey', type: 'bytes32' },
+      { indexed: true, internalType: 'uint256', name: 'eventId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'creator', type: 'address' },
+      { indexed: false, internalType: 'string', name: 'trackingId', type: 'string' },
+      { indexed: false, internalType: 'enum SecureCargoFlow.ShipmentStatus', name: 'oldStatus', type: 'uint8' },
+      { indexed: false, internalType: 'enum SecureCargoFlow.ShipmentStatus', name: 'newStatus', type: 'uint8' },
+    ],
+    name: 'StatusUpdated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'bytes32', name: 'trackingKey', type: 'bytes32' },
+      { indexed: true, internalType: 'uint256', name: 'eventId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'signer', type: 'address' },
+      { indexed: false, internalType: 'string', name: 'trackingId', type: 'string' },
+      { indexed: false, internalType: 'address', name: 'relayer', type: 'address' },
+    ],
+    name: 'CargoEventRelayed',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'index', type: 'uint256' },
+      { indexed: false, internalType: 'string', name: 'trackingId', type: 'string' },
+      { indexed: false, internalType: 'bytes', name: 'reason', type: 'bytes' },
+    ],
+    name: 'BatchItemFailed',
+    type: 'event',
+  },
 ] as const;
 
+// Participant roles - mirrors SecureCargoFlow.ParticipantRole
+export const PARTICIPANT_ROLES = ['None', 'Shipper', 'Carrier', 'Customs', 'Consignee'] as const;
+
+// Shareable encrypted fields - mirrors SecureCargoFlow.EncryptedField
+export const ENCRYPTED_FIELDS = ['Weight', 'Contents', 'Declared value', 'Telemetry'] as const;
+
+// Pausable function groups - mirrors SecureCargoFlow.PauseScope
+export const PAUSE_SCOPES = ['Creation', 'Events', 'Status'] as const;
+
+// Exception reason codes - mirrors SecureCargoFlow.ExceptionReason
+export const EXCEPTION_REASONS = ['Damage', 'Delay', 'Documentation', 'Weather', 'Security'] as const;
+
+// Estimated delivery revision reason codes - mirrors SecureCargoFlow.EtaRevisionReason
+export const ETA_REVISION_REASONS = ['Carrier delay', 'Customs delay', 'Weather', 'Customer request', 'Expedited', 'Other'] as const;
+
+// EIP-712 type of carrier-signed cargo events - mirrors SecureCargoFlow.CARGO_EVENT_TYPEHASH
+export const CARGO_EVENT_TYPES = {
+  CargoEvent: [
+    { name: 'trackingId', type: 'string' },
+    { name: 'location', type: 'string' },
+    { name: 'status', type: 'uint8' },
+    { name: 'description', type: 'string' },
+    { name: 'encWeight', type: 'bytes32' },
+    { name: 'encContents', type: 'bytes32[]' },
+    { name: 'signer', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+// Relayer service for signed cargo events (npx hardhat task:relayer)
+export const RELAYER_URL: string = import.meta.env.VITE_RELAYER_URL || 'http://127.0.0.1:8787';
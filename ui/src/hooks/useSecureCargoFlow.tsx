@@ -1,10 +1,294 @@
 import { useAccount, useWriteContract, useChainId, usePublicClient, useWalletClient } from 'wagmi';
 import { useFHEVM } from './useFHEVM';
-import { SECURE_CARGO_FLOW_ABI, CONTRACT_ADDRESSES } from '@/config/contracts';
+import { SECURE_CARGO_FLOW_ABI, CONTRACT_ADDRESSES, PAUSE_SCOPES, CARGO_EVENT_TYPES, RELAYER_URL } from '@/config/contracts';
 import { useCallback } from 'react';
 import { toast } from 'sonner';
 import { waitForTransactionReceipt } from 'viem/actions';
-import type { Address } from 'viem';
+import { decodeErrorResult, hexToBytes, keccak256, parseEventLogs, toBytes, toHex } from 'viem';
+import type { Address, Hash, Hex, Log } from 'viem';
+
+// Sensor readings are stored as euint16: temperature in 0.1 °C offset by +100 °C, humidity in 0.1 %
+const encodeTemperature = (celsius: number) => Math.round(celsius * 10) + 1000;
+const decodeTemperature = (encoded: bigint) => (Number(encoded) - 1000) / 10;
+const encodeHumidity = (percent: number) => Math.round(percent * 10);
+const decodeHumidity = (encoded: bigint) => Number(encoded) / 10;
+
+// Contents are stored as UTF-8 packed 32 bytes per euint256 chunk, at most 7 chunks per event
+const CONTENTS_CHUNK_BYTES = 32;
+const MAX_CONTENTS_BYTES = CONTENTS_CHUNK_BYTES * 7;
+
+const packContents = (contents: string): bigint[] => {
+  const bytes = new TextEncoder().encode(contents).slice(0, MAX_CONTENTS_BYTES);
+  const chunks: bigint[] = [];
+  for (let offset = 0; offset < bytes.length; offset += CONTENTS_CHUNK_BYTES) {
+    const chunk = new Uint8Array(CONTENTS_CHUNK_BYTES);
+    chunk.set(bytes.subarray(offset, offset + CONTENTS_CHUNK_BYTES));
+    chunks.push(BigInt(toHex(chunk)));
+  }
+  return chunks;
+};
+
+const unpackContents = (chunks: bigint[]): string => {
+  const bytes = new Uint8Array(chunks.length * CONTENTS_CHUNK_BYTES);
+  chunks.forEach((chunk, i) => bytes.set(hexToBytes(toHex(chunk, { size: CONTENTS_CHUNK_BYTES })), i * CONTENTS_CHUNK_BYTES));
+  let end = bytes.length;
+  while (end > 0 && bytes[end - 1] === 0) {
+    end--;
+  }
+  return new TextDecoder().decode(bytes.subarray(0, end));
+};
+
+export interface ShipmentException {
+  id: number;
+  reason: number; // index into EXCEPTION_REASONS
+  details: string;
+  reporter: string;
+  reportedAt: number;
+  open: boolean;
+  resolver: string;
+  resolvedAt: number;
+  resolution: string;
+}
+
+export interface EtaRevision {
+  previousEta: number;
+  newEta: number;
+  reason: number; // index into ETA_REVISION_REASONS
+  revisedBy: string;
+  revisedAt: number;
+}
+
+// Committed ETA versus actual delivery of one shipment
+export interface DeliveryPerformance {
+  estimatedDelivery: number;
+  deliveredAt: number | null;
+  isLate: boolean;
+}
+
+// Lane or monthly total of declared weights; only the oracle-published values are readable
+export interface AggregateStat {
+  key: string;
+  kind: 'lane' | 'month';
+  origin: string;
+  destination: string;
+  month: number; // YYYYMM, UTC
+  shipments: number;
+  requestedShipments: number;
+  revealedTonnage: bigint | null; // grams, null until the first reveal
+  revealedShipments: number;
+  revealedAt: number | null;
+}
+
+// Decrypted running totals of the connected account's shipments
+export interface CreatorTotals {
+  totalWeight: bigint; // grams, counted from each shipment's first event
+  shipmentCount: number;
+}
+
+// Page sizes used by the paged views; the contract caps every page at 100 entries
+export const EVENTS_PAGE_SIZE = 20;
+export const SHIPMENTS_PAGE_SIZE = 50;
+
+export interface CargoEventSummary {
+  eventId: string;
+  timestamp: number;
+  location: string;
+  status: number;
+  contents?: string;
+  manifestVersion: number; // 0 = no manifest yet
+  isEncrypted: boolean;
+}
+
+export interface CargoEventPage {
+  events: CargoEventSummary[];
+  total: number; // total events on the shipment
+}
+
+// Batch calls take at most 20 items, and one encrypted input (shared by a batch) holds at most 2048 bits
+const MAX_BATCH_SIZE = 20;
+const MAX_INPUT_BITS = 2048;
+
+// Split items into batches that fit both limits, given the encrypted bits each item needs
+const groupBatches = <T,>(items: T[], inputBits: (item: T) => number): T[][] => {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let bits = 0;
+  for (const item of items) {
+    const itemBits = inputBits(item);
+    if (current.length === MAX_BATCH_SIZE || (current.length > 0 && bits + itemBits > MAX_INPUT_BITS)) {
+      batches.push(current);
+      current = [];
+      bits = 0;
+    }
+    current.push(item);
+    bits += itemBits;
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+};
+
+// Revert reasons of the items a batch transaction skipped, by position in the batch
+const readBatchFailures = (logs: Log[]): Map<number, string> => {
+  const failures = new Map<number, string>();
+  for (const log of parseEventLogs({ abi: SECURE_CARGO_FLOW_ABI, eventName: 'BatchItemFailed', logs })) {
+    let reason = 'Reverted';
+    try {
+      const decoded = decodeErrorResult({ abi: SECURE_CARGO_FLOW_ABI, data: log.args.reason });
+      reason = String(decoded.args?.[0] ?? decoded.errorName);
+    } catch {
+      // Keep the generic reason for empty or custom revert data
+    }
+    failures.set(Number(log.args.index), reason);
+  }
+  return failures;
+};
+
+export interface BatchShipmentItem {
+  trackingId: string;
+  origin: string;
+  destination: string;
+  estimatedDelivery: number;
+  deliveryPin: number; // encrypted on submit; the courier must enter it to deliver
+  declaredValue?: { amount: number; currency: string }; // optional insured value, encrypted on submit
+}
+
+export interface BatchCargoEventItem {
+  trackingId: string;
+  location: string;
+  status: number;
+  description: string;
+  weightInKg: number | null; // null means no new measurement
+  contents?: string; // initial manifest, first event only
+}
+
+export interface BatchItemResult {
+  trackingId: string;
+  success: boolean;
+  error?: string;
+}
+
+// Signatures handed to a relayer are accepted for one hour
+const SIGNATURE_VALIDITY_SECONDS = 3600;
+
+// How often and how long confirmDelivery polls for the oracle callback that checks the PIN
+const DELIVERY_CHECK_INTERVAL_MS = 3000;
+const DELIVERY_CHECK_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Body of POST /events on the relayer (tasks/relayer.ts); uint256 fields travel as decimal strings
+export interface SignedCargoEventRequest {
+  event: {
+    trackingId: string;
+    location: string;
+    status: number;
+    description: string;
+    encWeight: Hex;
+    encContents: Hex[];
+    signer: Address;
+    nonce: string;
+    deadline: string;
+  };
+  inputProof: Hex;
+  signature: Hex;
+}
+
+// Indexed log topic of a tracking ID, matching keccak256(bytes(trackingId)) in the contract
+export const trackingKey = (trackingId: string) => keccak256(toBytes(trackingId));
+
+export interface LoggedCargoEvent {
+  eventId: number;
+  location: string;
+  status: number;
+  previousStatus?: number; // set when the event changed the status
+  description: string;
+  timestamp: number;
+  manifestVersion: number;
+  creator: string;
+  blockNumber: bigint;
+  blockHash: Hash;
+  transactionHash: Hash;
+}
+
+export interface LoggedShipmentHistory {
+  trackingId: string;
+  origin: string;
+  destination: string;
+  estimatedDelivery: number;
+  creator: string;
+  createdBlock: bigint;
+  createdBlockHash: Hash;
+  createdTransaction: Hash;
+  events: LoggedCargoEvent[];
+}
+
+// Version tag of the export layout; the CLI's task:export-shipment writes the same format
+export const EXPORT_FORMAT = 'secure-cargo-flow-export/2';
+
+export interface ExportedCargoEvent {
+  eventId: number;
+  timestamp: number;
+  location: string;
+  status: string; // status name
+  previousStatus: string | null;
+  description: string;
+  manifestVersion: number;
+  creator: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+}
+
+export interface DecryptedExportEvent {
+  eventId: number;
+  weightKg: number | null;
+  contents: string | null;
+}
+
+// Auditor export of one shipment. contentHash is keccak256 of the compact JSON of format, chainId, contract
+// and shipment, which anyone can rebuild from the chain. decrypted.hash is keccak256 of the compact JSON of
+// contentHash, the decrypting account and the decrypted events.
+export interface ShipmentExport {
+  format: string;
+  chainId: number;
+  contract: string;
+  shipment: {
+    trackingId: string;
+    origin: string;
+    destination: string;
+    creator: string;
+    createdAt: number;
+    estimatedDelivery: number; // ETA at creation, from the ShipmentCreated log
+    createdBlock: number;
+    createdBlockHash: string;
+    createdTransaction: string;
+    events: ExportedCargoEvent[];
+  };
+  contentHash: Hex;
+  exportedAt: string;
+  exportedBy: string | null;
+  decrypted: {
+    by: string;
+    events: DecryptedExportEvent[];
+    hash: Hex;
+  } | null;
+}
+
+export interface ManifestVersion {
+  version: number; // starts at 1
+  reason: string;
+  amendedBy: string;
+  amendedAt: number;
+  contents: string[]; // encrypted chunk handles
+}
+
+export interface SensorReading {
+  timestamp: number;
+  reporter: string;
+  temperature: number; // °C
+  humidity: number; // %
+  excursion: boolean;
+}
 
 export function useSecureCargoFlow() {
   const { address, isConnected } = useAccount();
@@ -29,7 +313,9 @@ export function useSecureCargoFlow() {
       trackingId: string,
       origin: string,
       destination: string,
-      estimatedDelivery: number
+      estimatedDelivery: number,
+      deliveryPin: number, // encrypted on submit; the courier must enter it to deliver
+      declaredValue?: { amount: number; currency: string } // optional insured value, encrypted on submit
     ) => {
       if (!isConnected || !address) {
         toast.error('Please connect your wallet');
@@ -41,16 +327,55 @@ export function useSecureCargoFlow() {
         throw new Error('Wallet client not ready');
       }
 
+      if (!instance || !isInitialized) {
+        toast.error('FHE not initialized. Please wait a moment and try again.');
+        throw new Error('FHE not initialized');
+      }
+
       try {
         const contractAddress = getContractAddress();
         console.log('Creating shipment transaction...');
-        
-        const hash = await walletClient.writeContract({
-          address: contractAddress as Address,
-          abi: SECURE_CARGO_FLOW_ABI,
-          functionName: 'createShipment',
-          args: [trackingId, origin, destination, BigInt(estimatedDelivery)],
-        });
+
+        // The PIN and the value share one input proof; the value is stored in minor units (cents)
+        const input = createEncryptedInput(contractAddress, address);
+        input.add32(deliveryPin);
+        if (declaredValue) {
+          input.add64(BigInt(Math.round(declaredValue.amount * 100)));
+        }
+        const encrypted = await input.encrypt();
+
+        let hash: `0x${string}`;
+        if (declaredValue) {
+          hash = await walletClient.writeContract({
+            address: contractAddress as Address,
+            abi: SECURE_CARGO_FLOW_ABI,
+            functionName: 'createInsuredShipment',
+            args: [
+              trackingId,
+              origin,
+              destination,
+              BigInt(estimatedDelivery),
+              toHex(encrypted.handles[0]),
+              toHex(encrypted.handles[1]),
+              declaredValue.currency.toUpperCase(),
+              toHex(encrypted.inputProof),
+            ],
+          });
+        } else {
+          hash = await walletClient.writeContract({
+            address: contractAddress as Address,
+            abi: SECURE_CARGO_FLOW_ABI,
+            functionName: 'createShipment',
+            args: [
+              trackingId,
+              origin,
+              destination,
+              BigInt(estimatedDelivery),
+              toHex(encrypted.handles[0]),
+              toHex(encrypted.inputProof),
+            ],
+          });
+        }
         console.log('Transaction hash:', hash);
         
         toast.info('Waiting for transaction confirmation...');
@@ -70,7 +395,169 @@ export function useSecureCargoFlow() {
         throw error;
       }
     },
-    [isConnected, address, walletClient, publicClient, getContractAddress]
+    [isConnected, address, instance, isInitialized, createEncryptedInput, walletClient, publicClient, getContractAddress]
+  );
+
+  // Send one batch transaction and turn its BatchItemFailed logs into per-item results
+  const submitBatch = useCallback(
+    async (trackingIds: string[], send: () => Promise<Hash>): Promise<BatchItemResult[]> => {
+      if (!publicClient) {
+        throw new Error('Public client not ready');
+      }
+
+      try {
+        const hash = await send();
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+        if (receipt.status !== 'success') {
+          throw new Error('Transaction failed');
+        }
+        const failures = readBatchFailures(receipt.logs);
+        return trackingIds.map((trackingId, i) => ({
+          trackingId,
+          success: !failures.has(i),
+          error: failures.get(i),
+        }));
+      } catch (error) {
+        // The whole batch reverted, so every item in it failed for the same reason
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return trackingIds.map((trackingId) => ({ trackingId, success: false, error: errorMessage }));
+      }
+    },
+    [publicClient]
+  );
+
+  const createShipmentsBatch = useCallback(
+    async (items: BatchShipmentItem[]): Promise<BatchItemResult[]> => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      if (!instance || !isInitialized) {
+        toast.error('FHE not initialized. Please wait a moment and try again.');
+        throw new Error('FHE not initialized');
+      }
+
+      const contractAddress = getContractAddress();
+      const results: BatchItemResult[] = [];
+      for (const batch of groupBatches(items, (item) => 32 + (item.declaredValue ? 64 : 0))) {
+        // Every PIN and declared value in the batch shares one encrypted input and proof
+        const input = createEncryptedInput(contractAddress, address);
+        for (const item of batch) {
+          input.add32(item.deliveryPin);
+          if (item.declaredValue) {
+            input.add64(BigInt(Math.round(item.declaredValue.amount * 100)));
+          }
+        }
+        const encrypted = await input.encrypt();
+        const handles: Hex[] = encrypted.handles.map((handle: Uint8Array) => toHex(handle));
+        const inputProof = toHex(encrypted.inputProof);
+
+        let next = 0;
+        const args = batch.map((item) => ({
+          trackingId: item.trackingId,
+          origin: item.origin,
+          destination: item.destination,
+          estimatedDelivery: BigInt(item.estimatedDelivery),
+          encPin: handles[next++],
+          encValue: item.declaredValue ? handles[next++] : toHex(0, { size: 32 }),
+          currency: item.declaredValue?.currency.toUpperCase() ?? '',
+        }));
+
+        toast.info(`Creating ${batch.length} shipments...`);
+        results.push(
+          ...(await submitBatch(
+            batch.map((item) => item.trackingId),
+            () =>
+              walletClient.writeContract({
+                address: contractAddress as Address,
+                abi: SECURE_CARGO_FLOW_ABI,
+                functionName: 'createShipmentsBatch',
+                args: [args, inputProof],
+              })
+          ))
+        );
+      }
+      return results;
+    },
+    [isConnected, address, instance, isInitialized, createEncryptedInput, walletClient, publicClient, getContractAddress, submitBatch]
+  );
+
+  const addCargoEventsBatch = useCallback(
+    async (items: BatchCargoEventItem[]): Promise<BatchItemResult[]> => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      if (!instance || !isInitialized) {
+        toast.error('FHE not initialized. Please wait a moment and try again.');
+        throw new Error('FHE not initialized');
+      }
+
+      const contractAddress = getContractAddress();
+      const packed = items.map((item) => ({ item, chunks: packContents(item.contents ?? '') }));
+      const results: BatchItemResult[] = [];
+      const batches = groupBatches(packed, ({ item, chunks }) => (item.weightInKg !== null ? 32 : 0) + chunks.length * 256);
+      for (const batch of batches) {
+        // Weights and contents chunks of the whole batch share one encrypted input and proof
+        const input = createEncryptedInput(contractAddress, address);
+        let hasInput = false;
+        for (const { item, chunks } of batch) {
+          if (item.weightInKg !== null) {
+            input.add32(Math.floor(item.weightInKg * 1000));
+            hasInput = true;
+          }
+          for (const chunk of chunks) {
+            input.add256(chunk);
+            hasInput = true;
+          }
+        }
+        let handles: Hex[] = [];
+        let inputProof: Hex = '0x';
+        if (hasInput) {
+          const encrypted = await input.encrypt();
+          handles = encrypted.handles.map((handle: Uint8Array) => toHex(handle));
+          inputProof = toHex(encrypted.inputProof);
+        }
+
+        let next = 0;
+        const args = batch.map(({ item, chunks }) => ({
+          trackingId: item.trackingId,
+          location: item.location,
+          status: item.status,
+          description: item.description,
+          encWeight: item.weightInKg !== null ? handles[next++] : toHex(0, { size: 32 }),
+          encContents: chunks.map(() => handles[next++]),
+        }));
+
+        toast.info(`Adding ${batch.length} cargo events...`);
+        results.push(
+          ...(await submitBatch(
+            batch.map(({ item }) => item.trackingId),
+            () =>
+              walletClient.writeContract({
+                address: contractAddress as Address,
+                abi: SECURE_CARGO_FLOW_ABI,
+                functionName: 'addCargoEventsBatch',
+                args: [args, inputProof],
+              })
+          ))
+        );
+      }
+      return results;
+    },
+    [isConnected, address, instance, isInitialized, createEncryptedInput, walletClient, publicClient, getContractAddress, submitBatch]
   );
 
   const getEventCount = useCallback(
@@ -101,8 +588,9 @@ export function useSecureCargoFlow() {
       trackingId: string,
       location: string,
       status: number,
-      weightInKg: number | null, // null means use previous event's weight
-      contents: string
+      weightInKg: number | null, // null means no new measurement (declared weight is kept)
+      description: string,
+      contents = '' // Initial manifest; only sent with the first event, later changes use amendManifest
     ) => {
       if (!isConnected || !address) {
         toast.error('Please connect wallet first');
@@ -116,7 +604,7 @@ export function useSecureCargoFlow() {
 
       try {
         const contractAddress = getContractAddress();
-        console.log('Adding cargo event:', { trackingId, location, status, weightInKg, contents, contractAddress });
+        console.log('Adding cargo event:', { trackingId, location, status, weightInKg, description, contractAddress });
 
         if (!walletClient || !publicClient) {
           toast.error('Wallet client not ready');
@@ -156,54 +644,59 @@ export function useSecureCargoFlow() {
 
         // Prepare weight value
         const eventCount = await getEventCount(trackingId);
-        let weightInGrams: number;
+        let weightInGrams: number | null = null;
         
-        if (eventCount > 0 && weightInKg === null) {
-          // Use dummy weight for subsequent events (contract will use previous weight)
-          weightInGrams = 1000000; // Dummy value, contract will ignore this
-          console.log('Using dummy weight for subsequent event (contract will use previous weight)');
-        } else if (weightInKg !== null) {
-          // First event: use provided weight
+        if (weightInKg !== null) {
+          // First event declares the weight, later events submit a measured weight for reconciliation
           weightInGrams = Math.floor(weightInKg * 1000);
-          console.log('Encrypting weight (first event):', weightInGrams, 'grams');
-        } else {
+          console.log(eventCount > 0 ? 'Encrypting measured weight:' : 'Encrypting declared weight:', weightInGrams, 'grams');
+        } else if (eventCount === 0) {
           throw new Error('Weight is required for first event');
+        } else {
+          console.log('No new weight measurement, contract keeps the declared weight');
         }
 
-        // Encrypt contents byte by byte
-        console.log('Encrypting contents byte by byte...');
-        const contentsBytes = new TextEncoder().encode(contents.slice(0, 64)); // Limit to 64 bytes
-        console.log('Contents bytes:', contentsBytes.length, 'bytes');
-        
-        // Create single encrypted input for both weight and contents bytes
-        // This ensures they share the same inputProof
-        const combinedInput = createEncryptedInput(contractAddress, address);
-        
-        // Add weight first
-        combinedInput.add32(weightInGrams);
-        
-        // Add each content byte
-        for (const b of contentsBytes) {
-          combinedInput.add8(b); // Encrypt each byte as euint8
+        // Pack contents into 256-bit chunks (32 UTF-8 bytes each)
+        const contentsChunks = packContents(contents);
+        console.log('Contents chunks:', contentsChunks.length);
+
+        // A zero weight handle tells the contract there is no new measurement
+        let encryptedWeightHandle = `0x${'0'.repeat(64)}`;
+        let contentsChunkHandles: string[] = [];
+        let sharedProof = '0x';
+
+        if (weightInGrams !== null || contentsChunks.length > 0) {
+          // Create single encrypted input for both weight and contents chunks
+          // This ensures they share the same inputProof
+          const combinedInput = createEncryptedInput(contractAddress, address);
+          
+          // Add weight first (if measured)
+          if (weightInGrams !== null) {
+            combinedInput.add32(weightInGrams);
+          }
+          
+          // Add each contents chunk
+          for (const chunk of contentsChunks) {
+            combinedInput.add256(chunk);
+          }
+          
+          // Encrypt all together (weight + all contents chunks share the same proof)
+          const combinedEncrypted = await combinedInput.encrypt();
+          
+          // Extract handles: handles[0] = weight, handles[1..N] = contents chunks
+          const weightOffset = weightInGrams !== null ? 1 : 0;
+          if (weightInGrams !== null) {
+            encryptedWeightHandle = toHexString(combinedEncrypted.handles[0], 32);
+          }
+          sharedProof = toHexString(combinedEncrypted.inputProof); // Shared proof for both weight and contents
+          contentsChunkHandles = combinedEncrypted.handles.slice(weightOffset).map((h: any) => toHexString(h, 32));
         }
-        
-        // Encrypt all together (weight + all content bytes share the same proof)
-        const combinedEncrypted = await combinedInput.encrypt();
-        
-        // Extract handles: handles[0] = weight, handles[1..N] = content bytes
-        // Since weight and contents were encrypted together, they share the same proof
-        const encryptedWeightHandle = toHexString(combinedEncrypted.handles[0], 32);
-        const sharedProof = toHexString(combinedEncrypted.inputProof); // Shared proof for both weight and contents
-        const contentsByteHandles = combinedEncrypted.handles.slice(1).map((h: any) => toHexString(h, 32));
 
         console.log('All encrypted, calling contract...');
         console.log('Weight handle:', encryptedWeightHandle);
-        console.log('Contents byte handles:', contentsByteHandles.length, 'bytes');
+        console.log('Contents chunk handles:', contentsChunkHandles.length);
         console.log('Shared proof length:', sharedProof.length);
 
-        // Use description as public description
-        const description = contents || `Weight: ${weightInKg ? weightInKg + ' kg' : 'N/A'}`;
-
         const hash = await walletClient.writeContract({
           address: contractAddress as Address,
           abi: SECURE_CARGO_FLOW_ABI,
@@ -215,7 +708,7 @@ export function useSecureCargoFlow() {
             description,
             encryptedWeightHandle as Address,
             sharedProof,
-            contentsByteHandles as Address[],
+            contentsChunkHandles as Address[],
             sharedProof,
           ],
         });
@@ -244,6 +737,123 @@ export function useSecureCargoFlow() {
     [isConnected, address, instance, isInitialized, createEncryptedInput, walletClient, publicClient, getContractAddress, getEventCount]
   );
 
+  const signCargoEvent = useCallback(
+    async (
+      trackingId: string,
+      location: string,
+      status: number,
+      weightInKg: number | null, // null means no new measurement
+      description: string,
+      relayerAddress: Address, // input proofs are bound to the submitting account, so encrypt for the relayer
+      contents = '' // Initial manifest, first event only
+    ): Promise<SignedCargoEventRequest> => {
+      if (!isConnected || !address) {
+        toast.error('Please connect wallet first');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!instance || !isInitialized) {
+        toast.error('FHE not initialized. Please wait a moment and try again.');
+        throw new Error('FHE not initialized');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      const contractAddress = getContractAddress() as Address;
+      if (weightInKg === null && (await getEventCount(trackingId)) === 0) {
+        throw new Error('Weight is required for first event');
+      }
+
+      // Weight and contents share one encrypted input, as in addCargoEvent
+      const chunks = packContents(contents);
+      let encWeight = toHex(0, { size: 32 });
+      let encContents: Hex[] = [];
+      let inputProof: Hex = '0x';
+      if (weightInKg !== null || chunks.length > 0) {
+        const input = createEncryptedInput(contractAddress, relayerAddress);
+        if (weightInKg !== null) {
+          input.add32(Math.floor(weightInKg * 1000));
+        }
+        for (const chunk of chunks) {
+          input.add256(chunk);
+        }
+        const encrypted = await input.encrypt();
+        const handles: Hex[] = encrypted.handles.map((handle: Uint8Array) => toHex(handle));
+        if (weightInKg !== null) {
+          encWeight = handles.shift()!;
+        }
+        encContents = handles;
+        inputProof = toHex(encrypted.inputProof);
+      }
+
+      const nonce = await publicClient.readContract({
+        address: contractAddress,
+        abi: SECURE_CARGO_FLOW_ABI,
+        functionName: 'nonces',
+        args: [address],
+      });
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + SIGNATURE_VALIDITY_SECONDS);
+      const message = { trackingId, location, status, description, encWeight, encContents, signer: address, nonce, deadline };
+
+      const signature = await walletClient.signTypedData({
+        account: address,
+        domain: { name: 'SecureCargoFlow', version: '1', chainId, verifyingContract: contractAddress },
+        types: CARGO_EVENT_TYPES,
+        primaryType: 'CargoEvent',
+        message,
+      });
+
+      return {
+        event: { ...message, nonce: nonce.toString(), deadline: deadline.toString() },
+        inputProof,
+        signature,
+      };
+    },
+    [isConnected, address, instance, isInitialized, createEncryptedInput, walletClient, publicClient, chainId, getContractAddress, getEventCount]
+  );
+
+  const relayCargoEvent = useCallback(
+    async (
+      trackingId: string,
+      location: string,
+      status: number,
+      weightInKg: number | null,
+      description: string,
+      contents = ''
+    ): Promise<Hash> => {
+      try {
+        const info = await fetch(`${RELAYER_URL}/address`).then((response) => response.json());
+        if (info.chainId !== chainId) {
+          throw new Error(`Relayer is on chain ${info.chainId}, wallet is on chain ${chainId}`);
+        }
+
+        const request = await signCargoEvent(trackingId, location, status, weightInKg, description, info.relayer, contents);
+        toast.info('Signed, sending to relayer...');
+        const response = await fetch(`${RELAYER_URL}/events`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(request),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error ?? `Relayer responded with ${response.status}`);
+        }
+
+        toast.success('Cargo event relayed successfully');
+        return result.hash as Hash;
+      } catch (error) {
+        console.error('Relay cargo event failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to relay cargo event: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [chainId, signCargoEvent]
+  );
+
   const decryptWeight = useCallback(
     async (trackingId: string, eventIndex: number): Promise<number | null> => {
       if (!isConnected || !address || !instance || !isInitialized || !walletClient || !publicClient) {
@@ -380,51 +990,22 @@ export function useSecureCargoFlow() {
           return null;
         }
         
-        // Get contents length first
-        console.log('Getting contents length:', { trackingId, eventIndex, contractAddress });
-        const contentsLength = await publicClient.readContract({
+        // All contents chunk handles come back in a single read
+        console.log('Getting encrypted contents:', { trackingId, eventIndex, contractAddress });
+        const handles = [...((await publicClient.readContract({
           address: contractAddress as Address,
           abi: SECURE_CARGO_FLOW_ABI,
-          functionName: 'getContentsLength',
+          functionName: 'getEncryptedContents',
           args: [trackingId, BigInt(eventIndex)],
-        });
+        })) as readonly string[])];
 
-        const length = Number(contentsLength);
-        console.log('Contents length:', length);
-
-        if (length === 0) {
+        if (handles.length === 0) {
           return '';
         }
 
-        // OPTIMIZATION: Batch fetch all encrypted bytes first
-        console.log('Batch fetching all encrypted bytes...');
-        const handles: string[] = [];
-        for (let i = 0; i < length; i++) {
-          // Get encrypted byte from contract
-          const encByte = await publicClient.readContract({
-            address: contractAddress as Address,
-            abi: SECURE_CARGO_FLOW_ABI,
-            functionName: 'getEncryptedContentsByte',
-            args: [trackingId, BigInt(eventIndex), BigInt(i)],
-          });
-
-          // Convert to hex string format
-          let encByteHex: string;
-          const byteValue = encByte as unknown;
-          if (typeof byteValue === 'string') {
-            encByteHex = byteValue.startsWith('0x') ? byteValue : `0x${byteValue}`;
-          } else if (typeof byteValue === 'bigint') {
-            encByteHex = `0x${byteValue.toString(16).padStart(64, '0')}`;
-          } else {
-            console.error('Unexpected encrypted byte type:', typeof byteValue, byteValue);
-            continue;
-          }
-          handles.push(encByteHex);
-        }
-
-        console.log(`Fetched ${handles.length} encrypted bytes, now batch decrypting...`);
+        console.log(`Fetched ${handles.length} encrypted chunks, now batch decrypting...`);
 
-        // OPTIMIZATION: Batch decrypt all bytes at once (only one keypair and signature needed)
+        // Batch decrypt all chunks at once (only one keypair and signature needed)
         const keypair = generateKeypair();
         const startTimestamp = Math.floor(Date.now() / 1000);
         const durationDays = 10;
@@ -463,33 +1044,18 @@ export function useSecureCargoFlow() {
           durationDays.toString()
         );
 
-        // Extract decrypted values
-        const decryptedBytes: number[] = handles.map(handle => {
+        // Extract decrypted chunks and unpack them into the original string
+        const decryptedChunks: bigint[] = handles.map(handle => {
           const decryptedValue = decryptResult[handle];
           if (decryptedValue !== undefined && decryptedValue !== null) {
-            return typeof decryptedValue === 'bigint' ? Number(decryptedValue) : Number(decryptedValue);
+            return BigInt(decryptedValue as bigint);
           } else {
-            console.warn(`Failed to decrypt byte handle: ${handle}`);
-            return 0;
+            console.warn(`Failed to decrypt contents chunk handle: ${handle}`);
+            return 0n;
           }
         });
 
-        // Decode bytes to string
-        if (decryptedBytes.length === 0) {
-          return '';
-        }
-
-        // Remove trailing null bytes
-        let endIndex = decryptedBytes.length;
-        while (endIndex > 0 && decryptedBytes[endIndex - 1] === 0) {
-          endIndex--;
-        }
-
-        if (endIndex === 0) {
-          return '';
-        }
-
-        const decoded = new TextDecoder().decode(Uint8Array.from(decryptedBytes.slice(0, endIndex)));
+        const decoded = unpackContents(decryptedChunks);
         console.log('Decrypted contents:', decoded);
         return decoded;
       } catch (error) {
@@ -548,78 +1114,1771 @@ export function useSecureCargoFlow() {
   );
 
   const loadCargoEvents = useCallback(
-    async (trackingId: string) => {
+    async (trackingId: string, offset = 0, limit = EVENTS_PAGE_SIZE): Promise<CargoEventPage> => {
       if (!publicClient) {
         console.warn("Public client not available for loading events");
-        return [];
+        return { events: [], total: 0 };
       }
 
       try {
         const contractAddress = getContractAddress();
-        console.log("Loading events for trackingId:", trackingId, "contract:", contractAddress);
-        
-        // Get event count
-        const count = await publicClient.readContract({
+        // One call per page instead of one per event; the contract caps the page size
+        const [page, total] = await publicClient.readContract({
           address: contractAddress as Address,
           abi: SECURE_CARGO_FLOW_ABI,
-          functionName: 'getEventCount',
-          args: [trackingId],
+          functionName: 'getEventsPage',
+          args: [trackingId, BigInt(offset), BigInt(limit)],
         });
-        
-        const eventCount = Number(count);
-        console.log("Event count from contract:", eventCount);
-        const events = [];
 
-        // Load each event
-        for (let i = 0; i < eventCount; i++) {
-          try {
-            console.log(`Loading event ${i}/${eventCount - 1}...`);
-            const event = await publicClient.readContract({
-              address: contractAddress as Address,
-              abi: SECURE_CARGO_FLOW_ABI,
-              functionName: 'getCargoEventPublic',
-              args: [trackingId, BigInt(i)],
-            });
-            
-            console.log(`Event ${i} data:`, event);
-            
-            if (event) {
-              events.push({
-                eventId: event[0].toString(),
-                timestamp: Number(event[1]),
-                location: event[2],
-                status: Number(event[3]),
-                contents: undefined, // Contents is encrypted, will be decrypted on demand
-                isEncrypted: true, // Weight and contents are always encrypted
-              });
-            }
-          } catch (eventError) {
-            console.error(`Failed to load event ${i}:`, eventError);
-            // Continue loading other events even if one fails
-          }
+        return {
+          events: page.map((event) => ({
+            eventId: event.eventId.toString(),
+            timestamp: Number(event.timestamp),
+            location: event.location,
+            status: Number(event.status),
+            contents: undefined, // Contents is encrypted, will be decrypted on demand
+            manifestVersion: Number(event.manifestVersion), // Manifest version current when recorded (0 = none)
+            isEncrypted: true, // Weight and contents are always encrypted
+          })),
+          total: Number(total),
+        };
+      } catch (error) {
+        console.error('Load cargo events failed:', error);
+        return { events: [], total: 0 };
+      }
+    },
+    [publicClient, getContractAddress]
+  );
+
+  // Rebuild a shipment's timeline from ShipmentCreated, CargoEventAdded and StatusUpdated logs only
+  const loadHistoryFromLogs = useCallback(
+    async (trackingId: string, fromBlock: bigint = 0n): Promise<LoggedShipmentHistory | null> => {
+      if (!publicClient) {
+        return null;
+      }
+
+      try {
+        const contractAddress = getContractAddress() as Address;
+        const filter = {
+          address: contractAddress,
+          abi: SECURE_CARGO_FLOW_ABI,
+          args: { trackingKey: trackingKey(trackingId) },
+          fromBlock,
+          strict: true,
+        } as const;
+        const [created, added, updated] = await Promise.all([
+          publicClient.getContractEvents({ ...filter, eventName: 'ShipmentCreated' }),
+          publicClient.getContractEvents({ ...filter, eventName: 'CargoEventAdded' }),
+          publicClient.getContractEvents({ ...filter, eventName: 'StatusUpdated' }),
+        ]);
+        if (created.length === 0) {
+          return null;
         }
 
-        console.log("Total events loaded:", events.length);
-        return events;
+        const previousStatuses = new Map(updated.map((log) => [log.args.eventId, log.args.oldStatus]));
+        const shipment = created[0];
+        return {
+          trackingId: shipment.args.trackingId,
+          origin: shipment.args.origin,
+          destination: shipment.args.destination,
+          estimatedDelivery: Number(shipment.args.estimatedDelivery),
+          creator: shipment.args.creator,
+          createdBlock: shipment.blockNumber,
+          createdBlockHash: shipment.blockHash,
+          createdTransaction: shipment.transactionHash,
+          events: added
+            .map((log) => ({
+              eventId: Number(log.args.eventId),
+              location: log.args.location,
+              status: log.args.status,
+              previousStatus: previousStatuses.get(log.args.eventId),
+              description: log.args.description,
+              timestamp: Number(log.args.timestamp),
+              manifestVersion: Number(log.args.manifestVersion),
+              creator: log.args.creator,
+              blockNumber: log.blockNumber,
+              blockHash: log.blockHash,
+              transactionHash: log.transactionHash,
+            }))
+            .sort((a, b) => a.eventId - b.eventId),
+        };
       } catch (error) {
-        console.error('Load cargo events failed:', error);
-        const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        console.error('Error details:', errorMessage);
-        return [];
+        console.error('Load history from logs failed:', error);
+        return null;
       }
     },
     [publicClient, getContractAddress]
   );
 
+  const getCurrentStatus = useCallback(
+    async (trackingId: string): Promise<number> => {
+      if (!publicClient) {
+        return 0;
+      }
+
+      try {
+        const status = await publicClient.readContract({
+          address: getContractAddress() as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'getCurrentStatus',
+          args: [trackingId],
+        });
+        return Number(status);
+      } catch (error) {
+        console.error('Get current status failed:', error);
+        return 0;
+      }
+    },
+    [publicClient, getContractAddress]
+  );
+
+  // Page through the global shipment index, or through one creator's shipments when a creator is given
+  const listShipments = useCallback(
+    async (creator?: string, offset = 0, limit = SHIPMENTS_PAGE_SIZE): Promise<{ trackingIds: string[]; total: number }> => {
+      if (!publicClient) {
+        return { trackingIds: [], total: 0 };
+      }
+
+      try {
+        const contractAddress = getContractAddress() as Address;
+        const [trackingIds, total] = creator
+          ? await publicClient.readContract({
+              address: contractAddress,
+              abi: SECURE_CARGO_FLOW_ABI,
+              functionName: 'getShipmentsByCreator',
+              args: [creator as Address, BigInt(offset), BigInt(limit)],
+            })
+          : await publicClient.readContract({
+              address: contractAddress,
+              abi: SECURE_CARGO_FLOW_ABI,
+              functionName: 'getShipmentIds',
+              args: [BigInt(offset), BigInt(limit)],
+            });
+        return { trackingIds: [...trackingIds], total: Number(total) };
+      } catch (error) {
+        console.error('List shipments failed:', error);
+        return { trackingIds: [], total: 0 };
+      }
+    },
+    [publicClient, getContractAddress]
+  );
+
+  const addParticipant = useCallback(
+    async (trackingId: string, account: string, role: number) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        console.log('Adding participant:', { trackingId, account, role });
+
+        const hash = await walletClient.writeContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'addParticipant',
+          args: [trackingId, account as Address, role],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Participant added successfully');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Add participant failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to add participant: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, walletClient, publicClient, getContractAddress]
+  );
+
+  const removeParticipant = useCallback(
+    async (trackingId: string, account: string) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        console.log('Removing participant:', { trackingId, account });
+
+        const hash = await walletClient.writeContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'removeParticipant',
+          args: [trackingId, account as Address],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Participant removed successfully');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Remove participant failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to remove participant: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, walletClient, publicClient, getContractAddress]
+  );
+
+  const getParticipants = useCallback(
+    async (trackingId: string): Promise<{ account: string; role: number }[]> => {
+      if (!publicClient) {
+        return [];
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const [accounts, roles] = await publicClient.readContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'getParticipants',
+          args: [trackingId],
+        });
+        return accounts.map((account, i) => ({ account, role: Number(roles[i]) }));
+      } catch (error) {
+        console.error('Get participants failed:', error);
+        return [];
+      }
+    },
+    [publicClient, getContractAddress]
+  );
+
+  const reportException = useCallback(
+    async (trackingId: string, reason: number, details: string) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const hash = await walletClient.writeContract({
+          address: getContractAddress() as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'reportException',
+          args: [trackingId, reason, details],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Exception reported');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Report exception failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to report exception: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, walletClient, publicClient, getContractAddress]
+  );
+
+  const resolveException = useCallback(
+    async (trackingId: string, exceptionId: number, resolution: string) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const hash = await walletClient.writeContract({
+          address: getContractAddress() as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'resolveException',
+          args: [trackingId, BigInt(exceptionId), resolution],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Exception resolved');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Resolve exception failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to resolve exception: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, walletClient, publicClient, getContractAddress]
+  );
+
+  const getExceptions = useCallback(
+    async (trackingId: string): Promise<ShipmentException[]> => {
+      if (!publicClient) {
+        return [];
+      }
+
+      try {
+        const exceptions = await publicClient.readContract({
+          address: getContractAddress() as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'getExceptions',
+          args: [trackingId],
+        });
+        return exceptions.map((exception) => ({
+          id: Number(exception.id),
+          reason: Number(exception.reason),
+          details: exception.details,
+          reporter: exception.reporter,
+          reportedAt: Number(exception.reportedAt),
+          open: exception.open,
+          resolver: exception.resolver,
+          resolvedAt: Number(exception.resolvedAt),
+          resolution: exception.resolution,
+        }));
+      } catch (error) {
+        console.error('Get exceptions failed:', error);
+        return [];
+      }
+    },
+    [publicClient, getContractAddress]
+  );
+
+  const getWorkflow = useCallback(async (): Promise<{ statusNames: string[]; roleMasks: number[][] } | null> => {
+    if (!publicClient) {
+      return null;
+    }
+
+    try {
+      const [statusNames, roleMasks] = await publicClient.readContract({
+        address: getContractAddress() as Address,
+        abi: SECURE_CARGO_FLOW_ABI,
+        functionName: 'getWorkflow',
+      });
+      return { statusNames: [...statusNames], roleMasks: roleMasks.map((row) => row.map(Number)) };
+    } catch (error) {
+      console.error('Get workflow failed:', error);
+      return null;
+    }
+  }, [publicClient, getContractAddress]);
+
+  const proposeCustodyTransfer = useCallback(
+    async (trackingId: string, newCustodian: string) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        console.log('Proposing custody transfer:', { trackingId, newCustodian });
+
+        const hash = await walletClient.writeContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'proposeCustodyTransfer',
+          args: [trackingId, newCustodian as Address],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Custody transfer proposed');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Propose custody transfer failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to propose custody transfer: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, walletClient, publicClient, getContractAddress]
+  );
+
+  const acceptCustodyTransfer = useCallback(
+    async (trackingId: string) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        console.log('Accepting custody transfer:', { trackingId });
+
+        const hash = await walletClient.writeContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'acceptCustodyTransfer',
+          args: [trackingId],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Custody accepted');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Accept custody transfer failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to accept custody transfer: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, walletClient, publicClient, getContractAddress]
+  );
+
+  const cancelCustodyTransfer = useCallback(
+    async (trackingId: string) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        console.log('Cancelling custody transfer:', { trackingId });
+
+        const hash = await walletClient.writeContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'cancelCustodyTransfer',
+          args: [trackingId],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Custody transfer cancelled');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Cancel custody transfer failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to cancel custody transfer: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, walletClient, publicClient, getContractAddress]
+  );
+
+  const getCustodyHistory = useCallback(
+    async (trackingId: string): Promise<{ from: string; to: string; timestamp: number }[]> => {
+      if (!publicClient) {
+        return [];
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const history = await publicClient.readContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'getCustodyHistory',
+          args: [trackingId],
+        });
+        return history.map((record) => ({
+          from: record.from,
+          to: record.to,
+          timestamp: Number(record.timestamp),
+        }));
+      } catch (error) {
+        console.error('Get custody history failed:', error);
+        return [];
+      }
+    },
+    [publicClient, getContractAddress]
+  );
+
+  const reviseEstimatedDelivery = useCallback(
+    async (trackingId: string, newTimestamp: number, reason: number) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        console.log('Revising estimated delivery:', { trackingId, newTimestamp, reason });
+
+        const hash = await walletClient.writeContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'reviseEstimatedDelivery',
+          args: [trackingId, BigInt(newTimestamp), reason],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Estimated delivery revised');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Revise estimated delivery failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to revise estimated delivery: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, walletClient, publicClient, getContractAddress]
+  );
+
+  const getEtaRevisions = useCallback(
+    async (trackingId: string): Promise<EtaRevision[]> => {
+      if (!publicClient) {
+        return [];
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const revisions = await publicClient.readContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'getEtaRevisions',
+          args: [trackingId],
+        });
+        return revisions.map((revision) => ({
+          previousEta: Number(revision.previousEta),
+          newEta: Number(revision.newEta),
+          reason: revision.reason,
+          revisedBy: revision.revisedBy,
+          revisedAt: Number(revision.revisedAt),
+        }));
+      } catch (error) {
+        console.error('Get ETA revisions failed:', error);
+        return [];
+      }
+    },
+    [publicClient, getContractAddress]
+  );
+
+  const getDeliveryPerformance = useCallback(
+    async (trackingId: string): Promise<DeliveryPerformance | null> => {
+      if (!publicClient) {
+        return null;
+      }
+
+      try {
+        const contractAddress = getContractAddress() as Address;
+        const [shipment, delivered, late] = await Promise.all([
+          publicClient.readContract({
+            address: contractAddress,
+            abi: SECURE_CARGO_FLOW_ABI,
+            functionName: 'getShipment',
+            args: [trackingId],
+          }),
+          publicClient.readContract({
+            address: contractAddress,
+            abi: SECURE_CARGO_FLOW_ABI,
+            functionName: 'deliveredAt',
+            args: [trackingId],
+          }),
+          publicClient.readContract({
+            address: contractAddress,
+            abi: SECURE_CARGO_FLOW_ABI,
+            functionName: 'isLate',
+            args: [trackingId],
+          }),
+        ]);
+        return {
+          estimatedDelivery: Number(shipment.estimatedDelivery),
+          deliveredAt: delivered === 0n ? null : Number(delivered),
+          isLate: late,
+        };
+      } catch (error) {
+        console.error('Get delivery performance failed:', error);
+        return null;
+      }
+    },
+    [publicClient, getContractAddress]
+  );
+
+  // revealGrouping is the only kind of total that can be revealed, fixed by the first reveal (null before it)
+  const getAggregateStats = useCallback(async (): Promise<{
+    stats: AggregateStat[];
+    minShipments: number;
+    owner: string;
+    revealGrouping: AggregateStat['kind'] | null;
+  }> => {
+    if (!publicClient) {
+      return { stats: [], minShipments: 0, owner: '', revealGrouping: null };
+    }
+
+    try {
+      const contractAddress = getContractAddress() as Address;
+      const [[keys, stats], minShipments, owner, [groupingLocked, groupingKind]] = await Promise.all([
+        publicClient.readContract({
+          address: contractAddress,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'getAggregateStats',
+          args: [0n, 100n],
+        }),
+        publicClient.readContract({
+          address: contractAddress,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'MIN_STATS_SHIPMENTS',
+        }),
+        publicClient.readContract({
+          address: contractAddress,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'owner',
+        }),
+        publicClient.readContract({
+          address: contractAddress,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'getStatsGrouping',
+        }),
+      ]);
+      return {
+        stats: stats.map((stat, i) => ({
+          key: keys[i],
+          kind: stat.kind === 0 ? 'lane' : 'month',
+          origin: stat.origin,
+          destination: stat.destination,
+          month: stat.month,
+          shipments: stat.shipments,
+          requestedShipments: stat.requestedShipments,
+          revealedTonnage: stat.revealedAt === 0n ? null : stat.revealedTonnage,
+          revealedShipments: stat.revealedShipments,
+          revealedAt: stat.revealedAt === 0n ? null : Number(stat.revealedAt),
+        })),
+        minShipments,
+        owner,
+        revealGrouping: groupingLocked ? (groupingKind === 0 ? 'lane' : 'month') : null,
+      };
+    } catch (error) {
+      console.error('Get aggregate stats failed:', error);
+      return { stats: [], minShipments: 0, owner: '', revealGrouping: null };
+    }
+  }, [publicClient, getContractAddress]);
+
+  const requestStatsReveal = useCallback(
+    async (keys: string[]) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        console.log('Requesting statistics reveal:', keys);
+
+        const hash = await walletClient.writeContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'requestStatsReveal',
+          args: [keys as Hex[]],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Reveal requested; the oracle publishes the totals shortly');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Request statistics reveal failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to request reveal: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, walletClient, publicClient, getContractAddress]
+  );
+
+  const getPendingCustodian = useCallback(
+    async (trackingId: string): Promise<string | null> => {
+      if (!publicClient) {
+        return null;
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const pending = await publicClient.readContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'pendingCustodians',
+          args: [trackingId],
+        });
+        return BigInt(pending) === 0n ? null : pending;
+      } catch (error) {
+        console.error('Get pending custodian failed:', error);
+        return null;
+      }
+    },
+    [publicClient, getContractAddress]
+  );
+
+  const grantDecryptAccess = useCallback(
+    async (trackingId: string, account: string, field: number) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        console.log('Granting decrypt access:', { trackingId, account, field });
+
+        const hash = await walletClient.writeContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'grantDecryptAccess',
+          args: [trackingId, account as Address, field],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Decrypt access granted');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Grant decrypt access failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to grant access: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, walletClient, publicClient, getContractAddress]
+  );
+
+  const revokeDecryptAccess = useCallback(
+    async (trackingId: string, account: string, field: number) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        console.log('Revoking decrypt access:', { trackingId, account, field });
+
+        const hash = await walletClient.writeContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'revokeDecryptAccess',
+          args: [trackingId, account as Address, field],
+        });
+
+        toast.info('Re-encrypting data, waiting for confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Decrypt access revoked');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Revoke decrypt access failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to revoke access: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, walletClient, publicClient, getContractAddress]
+  );
+
+  const getDecryptGrantees = useCallback(
+    async (trackingId: string, field: number): Promise<string[]> => {
+      if (!publicClient) {
+        return [];
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const grantees = await publicClient.readContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'getDecryptGrantees',
+          args: [trackingId, field],
+        });
+        return [...grantees];
+      } catch (error) {
+        console.error('Get decrypt grantees failed:', error);
+        return [];
+      }
+    },
+    [publicClient, getContractAddress]
+  );
+
+  const setWeightTolerance = useCallback(
+    async (trackingId: string, toleranceInKg: number) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!instance || !isInitialized) {
+        toast.error('FHE not initialized. Please wait a moment and try again.');
+        throw new Error('FHE not initialized');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const input = createEncryptedInput(contractAddress, address);
+        input.add32(Math.floor(toleranceInKg * 1000));
+        const encrypted = await input.encrypt();
+
+        const hash = await walletClient.writeContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'setWeightTolerance',
+          args: [trackingId, toHex(encrypted.handles[0]), toHex(encrypted.inputProof)],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Weight tolerance set');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Set weight tolerance failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to set weight tolerance: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, instance, isInitialized, createEncryptedInput, walletClient, publicClient, getContractAddress]
+  );
+
+  const confirmDelivery = useCallback(
+    async (trackingId: string, pin: number) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!instance || !isInitialized) {
+        toast.error('FHE not initialized. Please wait a moment and try again.');
+        throw new Error('FHE not initialized');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const input = createEncryptedInput(contractAddress, address);
+        input.add32(pin);
+        const encrypted = await input.encrypt();
+
+        const hash = await walletClient.writeContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'confirmDelivery',
+          args: [trackingId, toHex(encrypted.handles[0]), toHex(encrypted.inputProof)],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+        if (receipt.status !== 'success') {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+
+        // The shipment is only delivered once the oracle has decrypted the PIN comparison in a callback
+        toast.info('PIN submitted, waiting for the oracle to check it...');
+        const deadline = Date.now() + DELIVERY_CHECK_TIMEOUT_MS;
+        while (
+          await publicClient.readContract({
+            address: contractAddress as Address,
+            abi: SECURE_CARGO_FLOW_ABI,
+            functionName: 'deliveryPending',
+            args: [trackingId],
+          })
+        ) {
+          if (Date.now() > deadline) {
+            throw new Error('The oracle has not checked the PIN yet, refresh the shipment later');
+          }
+          await new Promise((resolve) => setTimeout(resolve, DELIVERY_CHECK_INTERVAL_MS));
+        }
+        const deliveredAt = await publicClient.readContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'deliveredAt',
+          args: [trackingId],
+        });
+
+        if (deliveredAt === 0n) {
+          toast.error('The PIN does not match, the shipment was not delivered');
+          return { hash, delivered: false };
+        }
+        toast.success('Delivery recorded');
+        return { hash, delivered: true };
+      } catch (error) {
+        console.error('Confirm delivery failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to confirm delivery: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, instance, isInitialized, createEncryptedInput, walletClient, publicClient, getContractAddress]
+  );
+
+  const setSensorRange = useCallback(
+    async (
+      trackingId: string,
+      range: { minTemperature: number; maxTemperature: number; minHumidity: number; maxHumidity: number }
+    ) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!instance || !isInitialized) {
+        toast.error('FHE not initialized. Please wait a moment and try again.');
+        throw new Error('FHE not initialized');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const input = createEncryptedInput(contractAddress, address);
+        input.add16(encodeTemperature(range.minTemperature));
+        input.add16(encodeTemperature(range.maxTemperature));
+        input.add16(encodeHumidity(range.minHumidity));
+        input.add16(encodeHumidity(range.maxHumidity));
+        const encrypted = await input.encrypt();
+
+        const hash = await walletClient.writeContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'setSensorRange',
+          args: [
+            trackingId,
+            toHex(encrypted.handles[0]),
+            toHex(encrypted.handles[1]),
+            toHex(encrypted.handles[2]),
+            toHex(encrypted.handles[3]),
+            toHex(encrypted.inputProof),
+          ],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Sensor range set');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Set sensor range failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to set sensor range: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, instance, isInitialized, createEncryptedInput, walletClient, publicClient, getContractAddress]
+  );
+
+  const addSensorReading = useCallback(
+    async (trackingId: string, temperature: number, humidity: number) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!instance || !isInitialized) {
+        toast.error('FHE not initialized. Please wait a moment and try again.');
+        throw new Error('FHE not initialized');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const input = createEncryptedInput(contractAddress, address);
+        input.add16(encodeTemperature(temperature));
+        input.add16(encodeHumidity(humidity));
+        const encrypted = await input.encrypt();
+
+        const hash = await walletClient.writeContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'addSensorReading',
+          args: [trackingId, toHex(encrypted.handles[0]), toHex(encrypted.handles[1]), toHex(encrypted.inputProof)],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Sensor reading recorded');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Add sensor reading failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to add sensor reading: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, instance, isInitialized, createEncryptedInput, walletClient, publicClient, getContractAddress]
+  );
+
+  const getSensorReadingCount = useCallback(
+    async (trackingId: string): Promise<number> => {
+      if (!publicClient) {
+        return 0;
+      }
+
+      try {
+        const count = await publicClient.readContract({
+          address: getContractAddress() as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'getSensorReadingCount',
+          args: [trackingId],
+        });
+        return Number(count);
+      } catch (error) {
+        console.error('Get sensor reading count failed:', error);
+        return 0;
+      }
+    },
+    [publicClient, getContractAddress]
+  );
+
+  // Decrypt a batch of handles with a single EIP-712 signature
+  const decryptHandles = useCallback(
+    async (handles: string[]): Promise<Record<string, bigint | boolean | string>> => {
+      if (!address || !instance || !walletClient) {
+        throw new Error('Wallet or FHE instance not ready');
+      }
+
+      const contractAddress = getContractAddress();
+      const keypair = generateKeypair();
+      const startTimestamp = Math.floor(Date.now() / 1000);
+      const durationDays = 10;
+      const contractAddresses = [contractAddress].sort();
+
+      const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, durationDays);
+      const signature = await walletClient.signTypedData({
+        domain: eip712.domain,
+        types: { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+        primaryType: 'UserDecryptRequestVerification',
+        message: eip712.message,
+      });
+
+      return userDecrypt(
+        handles.map((handle) => ({ handle, contractAddress })),
+        keypair.privateKey,
+        keypair.publicKey,
+        signature.replace('0x', ''),
+        contractAddresses,
+        address,
+        startTimestamp.toString(),
+        durationDays.toString()
+      );
+    },
+    [address, instance, walletClient, generateKeypair, userDecrypt, getContractAddress]
+  );
+
+  const decryptWeightDiscrepancy = useCallback(
+    async (trackingId: string, eventIndex: number): Promise<boolean | null> => {
+      if (!isConnected || !address || !instance || !isInitialized || !walletClient || !publicClient) {
+        return null;
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const flagHandle = await publicClient.readContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'getWeightDiscrepancy',
+          args: [trackingId, BigInt(eventIndex)],
+        });
+
+        // Events without a new weight measurement have no discrepancy flag
+        if (BigInt(flagHandle) === 0n) {
+          return null;
+        }
+
+        const result = await decryptHandles([flagHandle]);
+        const value = result[flagHandle];
+        return value === true || value === 1n;
+      } catch (error) {
+        // Only the shipper and the reporting party can decrypt the flag
+        console.warn('Decrypt weight discrepancy failed:', error);
+        return null;
+      }
+    },
+    [isConnected, address, instance, isInitialized, walletClient, publicClient, getContractAddress, decryptHandles]
+  );
+
+  const decryptMyTotals = useCallback(async (): Promise<CreatorTotals | null> => {
+    if (!isConnected || !address || !instance || !isInitialized || !walletClient || !publicClient) {
+      return null;
+    }
+
+    try {
+      const contractAddress = getContractAddress();
+      const [weightHandle, countHandle] = await publicClient.readContract({
+        address: contractAddress as Address,
+        abi: SECURE_CARGO_FLOW_ABI,
+        functionName: 'getCreatorTotals',
+        args: [address],
+      });
+
+      // Zero handles until the account creates a shipment and declares a weight
+      const handles = [weightHandle, countHandle].filter((handle) => BigInt(handle) !== 0n);
+      const result = handles.length > 0 ? await decryptHandles(handles) : {};
+      return {
+        totalWeight: BigInt(weightHandle) === 0n ? 0n : BigInt(result[weightHandle]),
+        shipmentCount: BigInt(countHandle) === 0n ? 0 : Number(result[countHandle]),
+      };
+    } catch (error) {
+      console.warn('Decrypt my totals failed:', error);
+      return null;
+    }
+  }, [isConnected, address, instance, isInitialized, walletClient, publicClient, getContractAddress, decryptHandles]);
+
+  const decryptDeliveryPin = useCallback(
+    async (trackingId: string): Promise<number | null> => {
+      if (!isConnected || !address || !instance || !isInitialized || !walletClient || !publicClient) {
+        return null;
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const pinHandle = await publicClient.readContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'getDeliveryPin',
+          args: [trackingId],
+        });
+
+        if (BigInt(pinHandle) === 0n) {
+          return null;
+        }
+
+        const result = await decryptHandles([pinHandle]);
+        return Number(result[pinHandle]);
+      } catch (error) {
+        // Only the shipper and consignees can decrypt the PIN
+        console.warn('Decrypt delivery PIN failed:', error);
+        return null;
+      }
+    },
+    [isConnected, address, instance, isInitialized, walletClient, publicClient, getContractAddress, decryptHandles]
+  );
+
+  const decryptDeliveryProof = useCallback(
+    async (trackingId: string): Promise<boolean | null> => {
+      if (!isConnected || !address || !instance || !isInitialized || !walletClient || !publicClient) {
+        return null;
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const proofHandle = await publicClient.readContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'getDeliveryProof',
+          args: [trackingId],
+        });
+
+        // No proof until the delivery is confirmed
+        if (BigInt(proofHandle) === 0n) {
+          return null;
+        }
+
+        const result = await decryptHandles([proofHandle]);
+        const value = result[proofHandle];
+        return value === true || value === 1n;
+      } catch (error) {
+        // Only the shipper, consignees and the delivering courier can decrypt the proof
+        console.warn('Decrypt delivery proof failed:', error);
+        return null;
+      }
+    },
+    [isConnected, address, instance, isInitialized, walletClient, publicClient, getContractAddress, decryptHandles]
+  );
+
+  const decryptDeclaredValue = useCallback(
+    async (trackingId: string): Promise<{ amount: number; currency: string } | null> => {
+      if (!isConnected || !address || !instance || !isInitialized || !walletClient || !publicClient) {
+        return null;
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const [valueHandle, currency] = await Promise.all([
+          publicClient.readContract({
+            address: contractAddress as Address,
+            abi: SECURE_CARGO_FLOW_ABI,
+            functionName: 'getEncryptedDeclaredValue',
+            args: [trackingId],
+          }),
+          publicClient.readContract({
+            address: contractAddress as Address,
+            abi: SECURE_CARGO_FLOW_ABI,
+            functionName: 'valueCurrencies',
+            args: [trackingId],
+          }),
+        ]);
+
+        // Shipments created without insurance have no declared value
+        if (BigInt(valueHandle) === 0n) {
+          return null;
+        }
+
+        const result = await decryptHandles([valueHandle]);
+        const value = result[valueHandle];
+        if (typeof value !== 'bigint') {
+          return null;
+        }
+        return { amount: Number(value) / 100, currency };
+      } catch (error) {
+        // Only the shipper, current custodian and granted insurers can decrypt the value
+        console.warn('Decrypt declared value failed:', error);
+        return null;
+      }
+    },
+    [isConnected, address, instance, isInitialized, walletClient, publicClient, getContractAddress, decryptHandles]
+  );
+
+  const decryptTelemetry = useCallback(
+    async (trackingId: string): Promise<{ readings: SensorReading[]; excursionCount: number } | null> => {
+      if (!isConnected || !address || !instance || !isInitialized || !walletClient || !publicClient) {
+        toast.error('Please connect wallet and initialize FHE');
+        return null;
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const count = await getSensorReadingCount(trackingId);
+        if (count === 0) {
+          return { readings: [], excursionCount: 0 };
+        }
+
+        const [rawReadings, countHandle] = await Promise.all([
+          Promise.all(
+            Array.from({ length: count }, (_, i) =>
+              publicClient.readContract({
+                address: contractAddress as Address,
+                abi: SECURE_CARGO_FLOW_ABI,
+                functionName: 'getSensorReading',
+                args: [trackingId, BigInt(i)],
+              })
+            )
+          ),
+          publicClient.readContract({
+            address: contractAddress as Address,
+            abi: SECURE_CARGO_FLOW_ABI,
+            functionName: 'getExcursionCount',
+            args: [trackingId],
+          }),
+        ]);
+
+        // One signature decrypts every reading and the excursion count
+        const handles = [
+          ...rawReadings.flatMap(([, , temperature, humidity, excursion]) => [temperature, humidity, excursion]),
+          countHandle,
+        ];
+        const result = await decryptHandles(handles);
+
+        const readings = rawReadings.map(([timestamp, reporter, temperature, humidity, excursion]) => ({
+          timestamp: Number(timestamp),
+          reporter,
+          temperature: decodeTemperature(result[temperature] as bigint),
+          humidity: decodeHumidity(result[humidity] as bigint),
+          excursion: result[excursion] === true || result[excursion] === 1n,
+        }));
+        return { readings, excursionCount: Number(result[countHandle]) };
+      } catch (error) {
+        // Only the shipper, reporters and telemetry grantees can decrypt readings
+        console.error('Decrypt telemetry failed:', error);
+        toast.error('Failed to decrypt telemetry. You may not have access to this shipment\'s readings.');
+        return null;
+      }
+    },
+    [isConnected, address, instance, isInitialized, walletClient, publicClient, getContractAddress, getSensorReadingCount, decryptHandles]
+  );
+
+  const amendManifest = useCallback(
+    async (trackingId: string, contents: string, reason: string) => {
+      if (!isConnected || !address) {
+        toast.error('Please connect your wallet');
+        throw new Error('Wallet not connected');
+      }
+
+      if (!instance || !isInitialized) {
+        toast.error('FHE not initialized. Please wait a moment and try again.');
+        throw new Error('FHE not initialized');
+      }
+
+      if (!walletClient || !publicClient) {
+        toast.error('Wallet client not ready');
+        throw new Error('Wallet client not ready');
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const input = createEncryptedInput(contractAddress, address);
+        for (const chunk of packContents(contents)) {
+          input.add256(chunk);
+        }
+        const encrypted = await input.encrypt();
+
+        const hash = await walletClient.writeContract({
+          address: contractAddress as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'amendManifest',
+          args: [trackingId, encrypted.handles.map((handle: Uint8Array) => toHex(handle)), toHex(encrypted.inputProof), reason],
+        });
+
+        toast.info('Waiting for transaction confirmation...');
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (receipt.status === 'success') {
+          toast.success('Manifest amended');
+          return hash;
+        } else {
+          toast.error('Transaction failed');
+          throw new Error('Transaction failed');
+        }
+      } catch (error) {
+        console.error('Amend manifest failed:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`Failed to amend manifest: ${errorMessage}`);
+        throw error;
+      }
+    },
+    [isConnected, address, instance, isInitialized, createEncryptedInput, walletClient, publicClient, getContractAddress]
+  );
+
+  const getManifestHistory = useCallback(
+    async (trackingId: string): Promise<ManifestVersion[]> => {
+      if (!publicClient) {
+        return [];
+      }
+
+      try {
+        const contractAddress = getContractAddress();
+        const count = Number(
+          await publicClient.readContract({
+            address: contractAddress as Address,
+            abi: SECURE_CARGO_FLOW_ABI,
+            functionName: 'getManifestVersionCount',
+            args: [trackingId],
+          })
+        );
+        const versions = await Promise.all(
+          Array.from({ length: count }, (_, i) =>
+            publicClient.readContract({
+              address: contractAddress as Address,
+              abi: SECURE_CARGO_FLOW_ABI,
+              functionName: 'getManifestVersion',
+              args: [trackingId, BigInt(i + 1)],
+            })
+          )
+        );
+        return versions.map(([contents, reason, amendedBy, amendedAt], i) => ({
+          version: i + 1,
+          reason,
+          amendedBy,
+          amendedAt: Number(amendedAt),
+          contents: [...contents],
+        }));
+      } catch (error) {
+        console.error('Get manifest history failed:', error);
+        return [];
+      }
+    },
+    [publicClient, getContractAddress]
+  );
+
+  const getEventManifestVersion = useCallback(
+    async (trackingId: string, eventIndex: number): Promise<number> => {
+      if (!publicClient) {
+        return 0;
+      }
+
+      try {
+        const version = await publicClient.readContract({
+          address: getContractAddress() as Address,
+          abi: SECURE_CARGO_FLOW_ABI,
+          functionName: 'getEventManifestVersion',
+          args: [trackingId, BigInt(eventIndex)],
+        });
+        return Number(version);
+      } catch (error) {
+        console.error('Get event manifest version failed:', error);
+        return 0;
+      }
+    },
+    [publicClient, getContractAddress]
+  );
+
+  // Decrypt several manifest versions with one signature; returns contents keyed by version
+  const decryptManifestVersions = useCallback(
+    async (versions: ManifestVersion[]): Promise<Record<number, string> | null> => {
+      if (!isConnected || !address || !instance || !isInitialized || !walletClient) {
+        toast.error('Please connect wallet and initialize FHE');
+        return null;
+      }
+
+      try {
+        const result = await decryptHandles(versions.flatMap((version) => version.contents));
+        return Object.fromEntries(
+          versions.map((version) => [
+            version.version,
+            unpackContents(version.contents.map((handle) => BigInt(result[handle] as bigint))),
+          ])
+        );
+      } catch (error) {
+        // Only the shipper, amenders and contents grantees can decrypt the manifest
+        console.error('Decrypt manifest failed:', error);
+        toast.error('Failed to decrypt manifest. You may not have access to this shipment\'s contents.');
+        return null;
+      }
+    },
+    [isConnected, address, instance, isInitialized, walletClient, decryptHandles]
+  );
+
+  // Build an auditor export from the lifecycle logs, optionally with the weight and contents decrypted for
+  // the connected account. Addresses and hashes are lowercased so the hashes match task:export-shipment.
+  // Encrypted handles stay out of the record, since revoking decrypt access re-encrypts them.
+  const exportShipment = useCallback(
+    async (trackingId: string, decrypt: boolean): Promise<ShipmentExport | null> => {
+      if (!publicClient) {
+        return null;
+      }
+
+      try {
+        const contractAddress = getContractAddress() as Address;
+        const [shipment, history, workflow] = await Promise.all([
+          getShipment(trackingId),
+          loadHistoryFromLogs(trackingId),
+          getWorkflow(),
+        ]);
+        if (!shipment || !history || !workflow) {
+          toast.error('Could not read the shipment history');
+          return null;
+        }
+
+        const events: ExportedCargoEvent[] = history.events.map((event) => ({
+          eventId: event.eventId,
+          timestamp: event.timestamp,
+          location: event.location,
+          status: workflow.statusNames[event.status],
+          previousStatus: event.previousStatus === undefined ? null : workflow.statusNames[event.previousStatus],
+          description: event.description,
+          manifestVersion: event.manifestVersion,
+          creator: event.creator.toLowerCase(),
+          blockNumber: Number(event.blockNumber),
+          blockHash: event.blockHash.toLowerCase(),
+          transactionHash: event.transactionHash.toLowerCase(),
+        }));
+
+        const record = {
+          format: EXPORT_FORMAT,
+          chainId,
+          contract: contractAddress.toLowerCase(),
+          shipment: {
+            trackingId: history.trackingId,
+            origin: history.origin,
+            destination: history.destination,
+            creator: history.creator.toLowerCase(),
+            createdAt: Number(shipment.createdAt),
+            estimatedDelivery: history.estimatedDelivery,
+            createdBlock: Number(history.createdBlock),
+            createdBlockHash: history.createdBlockHash.toLowerCase(),
+            createdTransaction: history.createdTransaction.toLowerCase(),
+            events,
+          },
+        };
+
+        const contentHash = keccak256(
+          toBytes(
+            JSON.stringify({
+              format: record.format,
+              chainId: record.chainId,
+              contract: record.contract,
+              shipment: record.shipment,
+            })
+          )
+        );
+
+        let decrypted: ShipmentExport['decrypted'] = null;
+        if (decrypt && address) {
+          const handles = await Promise.all(
+            events.map((event) =>
+              Promise.all([
+                publicClient.readContract({
+                  address: contractAddress,
+                  abi: SECURE_CARGO_FLOW_ABI,
+                  functionName: 'getEncryptedWeight',
+                  args: [trackingId, BigInt(event.eventId)],
+                }),
+                publicClient.readContract({
+                  address: contractAddress,
+                  abi: SECURE_CARGO_FLOW_ABI,
+                  functionName: 'getEncryptedContents',
+                  args: [trackingId, BigInt(event.eventId)],
+                }),
+              ])
+            )
+          );
+          // Events recorded under the same manifest version share their contents handles
+          const weightHandles = [...new Set(handles.map(([weightHandle]) => weightHandle))].filter(
+            (handle) => BigInt(handle) !== 0n
+          );
+          const contentsHandles = [...new Set(handles.flatMap(([, contents]) => contents))];
+          // One signature for everything; fall back to each field alone when the account may read only one of them
+          let result: Record<string, bigint | boolean | string> = {};
+          try {
+            result = await decryptHandles([...weightHandles, ...contentsHandles]);
+          } catch {
+            for (const group of [weightHandles, contentsHandles].filter((group) => group.length > 0)) {
+              try {
+                result = { ...result, ...(await decryptHandles(group)) };
+              } catch (error) {
+                console.warn('Export decryption skipped a field:', error);
+              }
+            }
+          }
+          const by = address.toLowerCase();
+          const clear: DecryptedExportEvent[] = events.map((event, i) => {
+            const [weightHandle, contents] = handles[i];
+            return {
+              eventId: event.eventId,
+              weightKg: result[weightHandle] === undefined ? null : Number(result[weightHandle]) / 1000,
+              contents:
+                contents.length > 0 && contents.every((handle) => result[handle] !== undefined)
+                  ? unpackContents(contents.map((handle) => BigInt(result[handle] as bigint)))
+                  : null,
+            };
+          });
+          decrypted = {
+            by,
+            events: clear,
+            hash: keccak256(toBytes(JSON.stringify({ contentHash, by, events: clear }))),
+          };
+        }
+
+        return {
+          ...record,
+          contentHash,
+          exportedAt: new Date().toISOString(),
+          exportedBy: address?.toLowerCase() ?? null,
+          decrypted,
+        };
+      } catch (error) {
+        console.error('Export shipment failed:', error);
+        toast.error('Failed to export shipment');
+        return null;
+      }
+    },
+    [publicClient, address, chainId, getContractAddress, getShipment, loadHistoryFromLogs, getWorkflow, decryptHandles]
+  );
+
+  const getPausedScopes = useCallback(async (): Promise<string[]> => {
+    if (!publicClient) {
+      return [];
+    }
+
+    try {
+      const contractAddress = getContractAddress();
+      const states = await Promise.all(
+        PAUSE_SCOPES.map((_, scope) =>
+          publicClient.readContract({
+            address: contractAddress as Address,
+            abi: SECURE_CARGO_FLOW_ABI,
+            functionName: 'paused',
+            args: [scope],
+          })
+        )
+      );
+      return PAUSE_SCOPES.filter((_, scope) => states[scope]);
+    } catch (error) {
+      console.error('Get pause state failed:', error);
+      return [];
+    }
+  }, [publicClient, getContractAddress]);
+
   return {
     createShipment,
+    createShipmentsBatch,
     addCargoEvent,
+    addCargoEventsBatch,
+    signCargoEvent,
+    relayCargoEvent,
     decryptWeight,
     decryptContents,
     getShipment,
     getEventCount,
     getCargoEvent,
     loadCargoEvents,
+    getCurrentStatus,
+    listShipments,
+    loadHistoryFromLogs,
+    addParticipant,
+    removeParticipant,
+    getParticipants,
+    getWorkflow,
+    reportException,
+    resolveException,
+    getExceptions,
+    proposeCustodyTransfer,
+    acceptCustodyTransfer,
+    cancelCustodyTransfer,
+    getCustodyHistory,
+    reviseEstimatedDelivery,
+    getEtaRevisions,
+    getDeliveryPerformance,
+    getAggregateStats,
+    requestStatsReveal,
+    decryptMyTotals,
+    getPendingCustodian,
+    grantDecryptAccess,
+    revokeDecryptAccess,
+    getDecryptGrantees,
+    setWeightTolerance,
+    confirmDelivery,
+    decryptDeliveryPin,
+    decryptDeliveryProof,
+    decryptWeightDiscrepancy,
+    decryptDeclaredValue,
+    setSensorRange,
+    addSensorReading,
+    getSensorReadingCount,
+    decryptTelemetry,
+    amendManifest,
+    getManifestHistory,
+    getEventManifestVersion,
+    decryptManifestVersions,
+    exportShipment,
+    getPausedScopes,
     isPending,
     contractAddress: getContractAddress(),
   };
@@ -1,7 +1,10 @@
 import { Logo } from "@/components/Logo";
 import { WalletConnectButton } from "@/components/WalletConnectButton";
+import { AccountSummary } from "@/components/AccountSummary";
 import { CargoTimeline } from "@/components/CargoTimeline";
 import { ShipmentForm } from "@/components/ShipmentForm";
+import { PausedBanner } from "@/components/PausedBanner";
+import { StatsPanel } from "@/components/StatsPanel";
 
 const Index = () => {
   return (
@@ -11,11 +14,16 @@ const Index = () => {
         <div className="container mx-auto px-6 py-4">
           <div className="flex items-center justify-between">
             <Logo />
-            <WalletConnectButton />
+            <div className="flex items-center gap-3">
+              <AccountSummary />
+              <WalletConnectButton />
+            </div>
           </div>
         </div>
       </header>
 
+      <PausedBanner />
+
       {/* Hero Section */}
       <section className="relative overflow-hidden">
         <div className="absolute inset-0 opacity-10 bg-gradient-to-br from-primary/20 to-accent/20" />
@@ -47,8 +55,9 @@ const Index = () => {
       </section>
 
       {/* Main Content */}
-      <main className="container mx-auto px-6 py-12">
+      <main className="container mx-auto px-6 py-12 space-y-8">
         <CargoTimeline />
+        <StatsPanel />
       </main>
     </div>
   );